@@ -0,0 +1,183 @@
+// scripts/update-swap.js - Swap a built update into place, restart the dashboard and roll back if it does not come up
+//
+// Started detached by the dashboard's updater, because restarting the service ends the dashboard process.
+// Only core modules are used: the install's node_modules is renamed away while this runs.
+const { execFileSync } = require('node:child_process');
+const fs = require('node:fs');
+const http = require('node:http');
+const https = require('node:https');
+const path = require('node:path');
+
+const config = JSON.parse(process.argv[2]);
+const {
+  installDir,
+  stagingDir,
+  previousDir,
+  statusPath,
+  service,
+  healthUrls,
+  version,
+  healthCheckTimeout
+} = config;
+
+// Where a failed release is kept for inspection after a rollback
+const failedDir = `${installDir}-failed`;
+// Produced by the build - never carried from one install to the other
+const BUILD_OUTPUTS = ['.git', 'node_modules', '.next', 'tsconfig.tsbuildinfo', 'next-env.d.ts'];
+const HEALTH_CHECK_INTERVAL = 2000;
+const MAX_LOG_LINES = 200;
+
+function sudo(...args) {
+  execFileSync('sudo', args, { stdio: 'pipe' });
+}
+
+/**
+ * Merge into the status file the updater started - it lives in data/, so it is only written
+ * while an install with that data is in place
+ */
+function updateStatus(changes, message) {
+  let status = {};
+  try {
+    status = JSON.parse(fs.readFileSync(statusPath, 'utf-8'));
+  } catch {
+    // Written from scratch below
+  }
+
+  status = { ...status, ...changes };
+  if (message) {
+    status.log = [...(status.log || []), { at: new Date().toISOString(), message }].slice(-MAX_LOG_LINES);
+  }
+
+  fs.mkdirSync(path.dirname(statusPath), { recursive: true });
+  // Written whole and renamed, so the dashboard never reads half a file
+  fs.writeFileSync(`${statusPath}.tmp`, JSON.stringify(status, null, 2), 'utf-8');
+  fs.renameSync(`${statusPath}.tmp`, statusPath);
+}
+
+/**
+ * Top-level entries of an install that git does not track - the database, .env, certificates and
+ * the scripts setup.sh generated - which belong to the host rather than the release
+ */
+function listHostEntries(dir) {
+  const tracked = new Set(
+    execFileSync('git', ['ls-files'], { cwd: dir, encoding: 'utf-8' })
+      .split('\n')
+      .filter(Boolean)
+      .map(file => file.split('/')[0])
+  );
+  return fs.readdirSync(dir).filter(entry => !tracked.has(entry) && !BUILD_OUTPUTS.includes(entry));
+}
+
+function moveEntries(entries, from, to) {
+  for (const entry of entries) {
+    if (fs.existsSync(path.join(from, entry))) {
+      sudo('rm', '-rf', path.join(to, entry));
+      sudo('mv', path.join(from, entry), path.join(to, entry));
+    }
+  }
+}
+
+function fetchHealth(url) {
+  return new Promise(resolve => {
+    const client = url.startsWith('https:') ? https : http;
+    // The certificate is for the public domain, not 127.0.0.1
+    const request = client.get(url, { rejectUnauthorized: false, timeout: HEALTH_CHECK_INTERVAL }, response => {
+      let body = '';
+      response.setEncoding('utf-8');
+      response.on('data', chunk => { body += chunk; });
+      response.on('end', () => {
+        try {
+          resolve(response.statusCode === 200 ? JSON.parse(body) : null);
+        } catch {
+          resolve(null);
+        }
+      });
+    });
+    request.on('timeout', () => request.destroy());
+    request.on('error', () => resolve(null));
+  });
+}
+
+/**
+ * Wait for /api/server-check to answer with the expected version
+ */
+async function waitForVersion(expected) {
+  const deadline = Date.now() + healthCheckTimeout * 1000;
+  while (Date.now() < deadline) {
+    for (const url of healthUrls) {
+      const health = await fetchHealth(url);
+      if (health && health.status === 'ok' && health.version === expected) {
+        return true;
+      }
+    }
+    await new Promise(resolve => setTimeout(resolve, HEALTH_CHECK_INTERVAL));
+  }
+  return false;
+}
+
+function swap(from, to, keepAs, hostEntries) {
+  sudo('rm', '-rf', keepAs);
+  sudo('mv', to, keepAs);
+  sudo('mv', from, to);
+  moveEntries(hostEntries, keepAs, to);
+}
+
+async function rollBack(reason, hostEntries) {
+  updateStatus({ phase: 'rollback' }, `${reason} - rolling back`);
+  swap(previousDir, installDir, failedDir, hostEntries);
+  updateStatus({}, `Restored the previous install, the failed one is in ${failedDir}`);
+  sudo('systemctl', 'restart', service);
+
+  const previousVersion = JSON.parse(fs.readFileSync(path.join(installDir, 'update.json'), 'utf-8')).latest_version;
+  if (await waitForVersion(previousVersion)) {
+    updateStatus({ state: 'rolled-back', phase: 'done', error: reason, finishedAt: new Date().toISOString() }, `Rolled back to v${previousVersion}`);
+  } else {
+    updateStatus(
+      { state: 'failed', phase: 'done', error: `${reason}, and v${previousVersion} did not come back up either`, finishedAt: new Date().toISOString() },
+      'Rollback failed - the service needs attention'
+    );
+  }
+}
+
+async function main() {
+  const hostEntries = listHostEntries(installDir);
+
+  try {
+    swap(stagingDir, installDir, previousDir, hostEntries);
+  } catch (error) {
+    // Put back whatever was moved, so the running install is untouched
+    if (!fs.existsSync(installDir) && fs.existsSync(previousDir)) {
+      sudo('mv', previousDir, installDir);
+    }
+    moveEntries(hostEntries, previousDir, installDir);
+    updateStatus(
+      { state: 'failed', phase: 'done', error: `Swap failed: ${error.message}`, finishedAt: new Date().toISOString() },
+      'Could not swap the new version in'
+    );
+    return;
+  }
+
+  updateStatus({ phase: 'restart' }, `Swapped v${version} in, the previous install is in ${previousDir}`);
+  try {
+    sudo('systemctl', 'restart', service);
+  } catch (error) {
+    await rollBack(`Restart failed: ${error.message}`, hostEntries);
+    return;
+  }
+
+  updateStatus({ phase: 'health-check' }, `Waiting up to ${healthCheckTimeout} seconds for v${version} to answer`);
+  if (await waitForVersion(version)) {
+    updateStatus({ state: 'succeeded', phase: 'done', error: null, finishedAt: new Date().toISOString() }, `v${version} is up`);
+  } else {
+    await rollBack(`v${version} did not pass the health check within ${healthCheckTimeout} seconds`, hostEntries);
+  }
+}
+
+main().catch(error => {
+  try {
+    updateStatus({ state: 'failed', phase: 'done', error: error.message, finishedAt: new Date().toISOString() }, 'The swap script failed');
+  } catch {
+    console.error('Update swap failed:', error);
+  }
+  process.exit(1);
+});
@@ -312,6 +312,10 @@ PORT=$port
 ADMIN_USERNAME=$username
 ADMIN_PASSWORD=$password
 ALLOWED_ORIGINS=$origins
+# Dashboard login sessions expire after this many hours
+SESSION_TTL_HOURS=24
+# Allow arbitrary shell commands through the API (the dashboard itself only uses named tasks)
+ENABLE_SHELL_COMMANDS=false
 # SSL Configuration
 SSL_ENABLED=$ssl_enabled
 SSL_CERT_PATH=$ssl_cert_path
@@ -374,6 +378,8 @@ Environment="ALLOWED_ORIGINS=$origins"
 Environment="SSL_ENABLED=$ssl_enabled"
 ExecStart=$(which node) server.js
 Restart=on-failure
+# Only stop the dashboard itself - the game server it supervises keeps running across restarts
+KillMode=process
 
 [Install]
 WantedBy=multi-user.target
@@ -1,4 +1,18 @@
 import { NextResponse } from 'next/server';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+/**
+ * The version this install was built from - the updater waits for it after a restart
+ */
+async function readVersion(): Promise<string | null> {
+  try {
+    const content = await readFile(path.join(process.cwd(), 'update.json'), 'utf-8');
+    return JSON.parse(content).latest_version ?? null;
+  } catch {
+    return null;
+  }
+}
 
 export async function GET() {
   try {
@@ -8,6 +22,7 @@ export async function GET() {
     return NextResponse.json(
       { 
         status: 'ok',
+        version: await readVersion(),
         clientTimestamp: Date.now(),
         nextJsEndpoint: true,
         socketIoHint: 'Make sure socket.io server is running on the same port'
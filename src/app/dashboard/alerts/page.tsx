@@ -0,0 +1,32 @@
+'use client';
+
+import AlertHistory from '@/components/AlertHistory';
+import AlertRules from '@/components/AlertRules';
+import AlertWebhooks from '@/components/AlertWebhooks';
+import { useUser } from '@/hooks/useUser';
+
+export default function AlertsPage() {
+  const { hasPermission } = useUser();
+
+  return (
+    <div className="container-fluid p-4 w-full max-w-none">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-amber-300 font-mono">Alerts</h1>
+      </div>
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg shadow">
+        <AlertHistory />
+      </div>
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg shadow mt-6">
+        <AlertRules canEdit={hasPermission('server.control')} />
+      </div>
+
+      {hasPermission('system.manage') && (
+        <div className="bg-black/30 border border-amber-500/20 rounded-lg shadow mt-6">
+          <AlertWebhooks />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -5,9 +5,11 @@ import Link from 'next/link';
 import { usePathname, useRouter } from 'next/navigation';
 import { useSocket } from '@/hooks/useSocket';
 import { useUser } from '@/hooks/useUser';
+import { getAuthHeader, getSessionToken, clearSession } from '@/lib/auth';
+import { METRICS_RATES } from '@/lib/metrics';
 import NanosOnboarding from '@/components/NanosOnboarding';
 import SocketDebugger from '@/components/SocketDebugger';
-import { toast } from 'react-hot-toast';
+import NotificationCenter from '@/components/NotificationCenter';
 
 export default function DashboardLayout({
   children,
@@ -17,10 +19,9 @@ export default function DashboardLayout({
   const router = useRouter();
   const pathname = usePathname();
   const socketContext = useSocket();
-  const { metrics, isConnected, isConnecting, connectionError, reconnect, executeCommand, connectionState } = socketContext;
+  const { metrics, metricsRate, setMetricsRate, isConnected, isConnecting, connectionError, reconnect, connectionState, instances, currentInstance, selectInstance } = socketContext;
   const [activeMenu, setActiveMenu] = useState<string>('');
-  const { userData, loading: userLoading } = useUser();
-  const [isUpdating, setIsUpdating] = useState(false);
+  const { userData, loading: userLoading, hasPermission } = useUser();
   const [connectionAttempts, setConnectionAttempts] = useState(0);
   const [showRetryButton, setShowRetryButton] = useState(false);
   const [wasConnected, setWasConnected] = useState(false);
@@ -89,11 +90,26 @@ export default function DashboardLayout({
     setActiveMenu(path || 'overview');
   }, [pathname]);
 
-  const handleLogout = () => {
-    sessionStorage.removeItem('credentials');
+  // Revoke the session on the server, then forget it locally
+  const endSession = async (endpoint: string) => {
+    try {
+      await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+    } catch (error) {
+      console.error('Error ending session:', error);
+    }
+    clearSession();
     router.push('/');
   };
 
+  const handleLogout = () => endSession('/api/auth/logout');
+
+  const handleLogoutAll = () => endSession('/api/auth/logout-all');
+
   // Calculate RAM percentage
   const ramPercentage = metrics ? 
     Math.round((metrics.memory.used / metrics.memory.total) * 100) : 0;
@@ -101,57 +117,11 @@ export default function DashboardLayout({
   // Use the actual CPU usage instead of load average
   const cpuPercentage = metrics ? Math.round(metrics.cpu.usage) : 0;
 
-  // Handle update function with increased timeouts
-  const handleUpdate = async () => {
-    if (!executeCommand) return;
-    
-    setIsUpdating(true);
-    try {
-      toast.success('Starting update process. This may take a few minutes...', { duration: 10000 });
-      
-      // Execute git pull to update the codebase with increased timeout
-      const result = await executeCommand('sudo git pull', { timeout: 60000 }); // 60 second timeout
-      if (result.error) {
-        throw new Error(result.error);
-      }
-      toast.success('Code updated. Installing dependencies...', { duration: 5000 });
-
-      // Install all dependencies including dev dependencies with sudo with increased timeout
-      const installPackages = await executeCommand('sudo npm install --include=dev', { timeout: 300000 }); // 5 minute timeout
-      if (installPackages.error) {
-        throw new Error(installPackages.error);
-      }
-      toast.success('Dependencies installed. Building application...', { duration: 5000 });
-      
-      // Rebuild the application after update with sudo with increased timeout
-      const buildResult = await executeCommand('sudo npm run build', { timeout: 300000 }); // 5 minute timeout
-      if (buildResult.error) {
-        throw new Error(buildResult.error);
-      }
-      
-      toast.success('Update installed successfully. The service will restart momentarily. You will be able to refresh the page to see the changes.');
-      
-      // Restart the service with increased timeout
-      const restartResult = await executeCommand('sudo systemctl restart nanos-dashboard.service', { timeout: 60000 }); // 60 second timeout
-      if (restartResult.error) {
-        throw new Error(restartResult.error);
-      }
-      
-    } catch (error) {
-      console.error('Update failed:', error);
-      toast.error(`Update failed: ${(error as Error).message}`);
-    } finally {
-      setIsUpdating(false);
-    }
-  };
-
   // Check if user is authenticated and redirect if not
   useEffect(() => {
     // Check if user is authenticated
-    const credentials = sessionStorage.getItem('credentials');
-    
-    if (!credentials && !userLoading) {
-      console.log('No credentials found, redirecting to login');
+    if (!getSessionToken() && !userLoading) {
+      console.log('No session found, redirecting to login');
       router.push('/');
     }
   }, [router, userLoading]);
@@ -260,15 +230,42 @@ export default function DashboardLayout({
           </div>
         </div>
 
+        {/* Instance switcher - server pages, files, schedules and tasks follow the selected instance */}
+        {currentInstance && (
+          <div className="px-4 pt-4 font-mono">
+            <label htmlFor="instance-switcher" className="block text-amber-400/70 text-xs mb-1">INSTANCE</label>
+            <select
+              id="instance-switcher"
+              value={currentInstance.id}
+              onChange={(e) => selectInstance(Number(e.target.value))}
+              className="w-full bg-black/30 border border-amber-500/20 rounded px-2 py-1 text-sm text-amber-300 focus:outline-none focus:border-amber-500/50"
+            >
+              {instances.map(instance => (
+                <option key={instance.id} value={instance.id}>{instance.name}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {/* Log alerts of every instance */}
+        {hasPermission('logs.view') && <NotificationCenter />}
+
         {/* Navigation */}
         <nav className="flex-grow py-6 px-4 font-mono">
           <ul className="space-y-1">
             {[
               { path: '', label: 'Overview', defaultActive: true },
-              { path: 'server', label: 'Server' },
-              { path: 'modules', label: 'Modules' },
+              { path: 'server', label: 'Server', permission: 'server.view' },
+              { path: 'server-version', label: 'Server Version', permission: 'server.view' },
+              { path: 'logs', label: 'Log History', permission: 'logs.view' },
+              { path: 'alerts', label: 'Alerts', permission: 'logs.view' },
+              // Module installs still run through shell commands
+              { path: 'modules', label: 'Modules', permission: 'files.write' },
+              { path: 'users', label: 'Users', permission: 'users.manage' },
+              { path: 'audit', label: 'Audit Log', permission: 'audit.view' },
+              { path: 'updates', label: 'Updates', permission: 'system.manage' },
               { path: 'settings', label: 'Settings' }
-            ].map(item => {
+            ].filter(item => !item.permission || hasPermission(item.permission)).map(item => {
               const isActive = activeMenu === (item.path || 'overview');
               return (
                 <li key={item.path || 'overview'}>
@@ -312,23 +309,23 @@ export default function DashboardLayout({
               <div className="text-xs text-amber-400/90">
                 <span className="font-mono">Update Available</span>
                 <div className="text-[10px] text-amber-400/60 mt-0.5">
-                  v{metrics.version.current} → v{metrics.version.latest}
+                  v{metrics.version.current} → v{metrics.version.target}
                 </div>
               </div>
-              <button
-                type="button"
-                onClick={handleUpdate}
-                disabled={isUpdating}
-                className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors flex items-center gap-1 disabled:opacity-50"
-              >
-                <svg xmlns="http://www.w3.org/2000/svg" className={`h-3 w-3 ${isUpdating ? 'animate-spin' : ''}`} viewBox="0 0 20 20" fill="currentColor" aria-labelledby="update-icon-title">
-                  <title id="update-icon-title">Update icon</title>
-                  <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" />
-                </svg>
-                {isUpdating ? 'Updating...' : 'Update'}
-              </button>
+              {hasPermission('system.manage') && (
+                <Link
+                  href="/dashboard/updates"
+                  className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors flex items-center gap-1"
+                >
+                  <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor" aria-labelledby="update-icon-title">
+                    <title id="update-icon-title">Update icon</title>
+                    <path fillRule="evenodd" d="M4 2a1 1 0 011 1v2.101a7.002 7.002 0 0111.601 2.566 1 1 0 11-1.885.666A5.002 5.002 0 005.999 7H9a1 1 0 010 2H4a1 1 0 01-1-1V3a1 1 0 011-1zm.008 9.057a1 1 0 011.276.61A5.002 5.002 0 0014.001 13H11a1 1 0 110-2h5a1 1 0 011 1v5a1 1 0 11-2 0v-2.101a7.002 7.002 0 01-11.601-2.566 1 1 0 01.61-1.276z" clipRule="evenodd" />
+                  </svg>
+                  Update
+                </Link>
+              )}
             </div>
-            {metrics.version.updateInfo?.required && (
+            {metrics.version.required && (
               <div className="mt-2 text-[10px] text-red-400 bg-red-500/10 px-2 py-1 rounded">
                 ⚠️ Required Update
               </div>
@@ -338,7 +335,20 @@ export default function DashboardLayout({
 
         {/* System Metrics */}
         <div className="px-4 pt-4 pb-2">
-          <h3 className="text-amber-400/70 text-xs mb-3 border-b border-amber-500/20 pb-1">SYSTEM METRICS</h3>
+          <div className="flex items-center justify-between mb-3 border-b border-amber-500/20 pb-1">
+            <h3 className="text-amber-400/70 text-xs">SYSTEM METRICS</h3>
+            <select
+              aria-label="Metrics refresh rate"
+              value={metricsRate ?? 'paused'}
+              onChange={(e) => setMetricsRate(e.target.value === 'paused' ? null : Number(e.target.value))}
+              className="bg-transparent text-[10px] text-amber-400/70 focus:outline-none"
+            >
+              {METRICS_RATES.map(rate => (
+                <option key={rate} value={rate} className="bg-zinc-900">every {rate}s</option>
+              ))}
+              <option value="paused" className="bg-zinc-900">paused</option>
+            </select>
+          </div>
           
           {/* RAM Usage */}
           <div className="mb-3">
@@ -417,12 +427,39 @@ export default function DashboardLayout({
             <span className="mr-2">⬢</span>
             <span>Logout</span>
           </button>
+          <button
+            type="button"
+            onClick={handleLogoutAll}
+            className="w-full mt-2 py-1 text-xs font-mono text-red-400/60 hover:text-red-400 transition-colors"
+          >
+            Log out all sessions
+          </button>
         </div>
       </div>
 
       {/* Main content - scrollable */}
       <div className="flex-1 overflow-y-auto overflow-x-hidden max-h-screen">
-        {children}
+        {/* A required release locks every page but the one that applies it */}
+        {metrics?.version.required && pathname !== '/dashboard/updates' ? (
+          <div className="flex items-center justify-center min-h-full p-6">
+            <div className="max-w-md bg-black/30 border border-red-500/30 rounded-lg p-6 space-y-4 text-center">
+              <h1 className="text-xl font-bold text-red-400 font-mono">Required Update</h1>
+              <p className="text-sm text-gray-300">
+                v{metrics.version.target} must be installed before the dashboard can be used again.
+              </p>
+              {hasPermission('system.manage') ? (
+                <Link
+                  href="/dashboard/updates"
+                  className="inline-block px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors"
+                >
+                  Go to Updates
+                </Link>
+              ) : (
+                <p className="text-sm text-amber-400/70">Ask an administrator to apply it.</p>
+              )}
+            </div>
+          </div>
+        ) : children}
       </div>
       
       {/* Debug components */}
@@ -0,0 +1,17 @@
+'use client';
+
+import LogArchive from '@/components/LogArchive';
+
+export default function LogsPage() {
+  return (
+    <div className="container-fluid p-4 w-full max-w-none">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-amber-300 font-mono">Log History</h1>
+      </div>
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg shadow">
+        <LogArchive />
+      </div>
+    </div>
+  );
+}
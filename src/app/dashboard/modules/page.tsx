@@ -5,6 +5,7 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSocket } from '@/hooks/useSocket';
 import { useUser } from '@/hooks/useUser';
+import { getSessionToken } from '@/lib/auth';
 
 export default function ModulesPage() {
   const router = useRouter();
@@ -18,10 +19,8 @@ export default function ModulesPage() {
   
   useEffect(() => {
     // Check if user is authenticated
-    const credentials = sessionStorage.getItem('credentials');
-    
-    if (!credentials) {
-      console.log('No credentials found, redirecting to login');
+    if (!getSessionToken()) {
+      console.log('No session found, redirecting to login');
       router.push('/');
     } else {
       setIsLoading(false);
@@ -4,7 +4,9 @@ import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useSocket } from '@/hooks/useSocket';
 import { useUser } from '@/hooks/useUser';
+import { getSessionToken } from '@/lib/auth';
 import Link from 'next/link';
+import MetricsHistory from '@/components/MetricsHistory';
 
 export default function DashboardPage() {
   const router = useRouter();
@@ -14,14 +16,12 @@ export default function DashboardPage() {
   const { isConnected, connectionError: socketError, metrics } = useSocket();
   
   // Get user data including onboarding status
-  const { userData, loading: userLoading } = useUser();
+  const { userData, loading: userLoading, hasPermission } = useUser();
   
   useEffect(() => {
     // Check if user is authenticated
-    const credentials = sessionStorage.getItem('credentials');
-    
-    if (!credentials) {
-      console.log('No credentials found, redirecting to login');
+    if (!getSessionToken()) {
+      console.log('No session found, redirecting to login');
       router.push('/');
     } else {
       setIsLoading(false);
@@ -89,7 +89,7 @@ export default function DashboardPage() {
                 <p>Version: {metrics.version.current}</p>
                 {metrics.version.updateAvailable && (
                   <p className="text-green-400/90">
-                    Update available: {metrics.version.latest}
+                    Update available: {metrics.version.target}
                   </p>
                 )}
               </div>
@@ -159,6 +159,13 @@ export default function DashboardPage() {
             </div>
           </div>
         </div>
+
+        {/* Resource history charts */}
+        {hasPermission('system.view') && (
+          <div className="bg-black/30 border border-amber-500/20 rounded-lg shadow">
+            <MetricsHistory />
+          </div>
+        )}
       </div>
     </div>
   );
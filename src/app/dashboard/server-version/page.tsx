@@ -0,0 +1,20 @@
+'use client';
+
+import ServerVersion from '@/components/ServerVersion';
+import { useUser } from '@/hooks/useUser';
+
+export default function ServerVersionPage() {
+  const { hasPermission } = useUser();
+
+  return (
+    <div className="container-fluid p-4 w-full max-w-none">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-amber-300 font-mono">Server Version</h1>
+      </div>
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg shadow">
+        <ServerVersion canUpdate={hasPermission('system.manage')} />
+      </div>
+    </div>
+  );
+}
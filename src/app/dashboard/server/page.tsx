@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef } from 'react';
 import { useSocket } from '@/contexts/SocketContext';
+import { useUser } from '@/hooks/useUser';
 import { toast } from 'react-hot-toast';
 import { Terminal } from 'xterm';
 import { FitAddon } from 'xterm-addon-fit';
@@ -9,12 +10,43 @@ import { WebLinksAddon } from 'xterm-addon-web-links';
 import 'xterm/css/xterm.css';
 import ServerConfiguration from '@/components/ServerConfiguration';
 import FileManager from '@/components/FileManager';
+import CrashHistory from '@/components/CrashHistory';
+import StopSequenceSettings from '@/components/StopSequenceSettings';
+import ServerSchedules from '@/components/ServerSchedules';
+import ProcessMetrics from '@/components/ProcessMetrics';
+import LogFilters from '@/components/LogFilters';
+import { getSearchPattern, splitMatches, stripAnsi, type LogFilter, type LogLevel, type LogRecord } from '@/lib/logs';
 
 // Define error type to replace 'any'
 interface ErrorWithMessage {
   message?: string;
 }
 
+const PHASE_LABELS = {
+  stopped: 'Stopped',
+  starting: 'Starting',
+  running: 'Running',
+  stopping: 'Stopping'
+};
+
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  debug: '\x1b[90m',
+  info: '\x1b[37m',
+  warning: '\x1b[33m',
+  error: '\x1b[31m'
+};
+
+/**
+ * A log record as a terminal line, coloured by its level with search matches shown inverted
+ */
+function formatLogLine(record: LogRecord, pattern: RegExp | null): string {
+  // The server's own colour codes would fight with the highlighting, so they go when searching
+  const text = pattern
+    ? splitMatches(stripAnsi(record.raw), pattern).map(part => part.match ? `\x1b[7m${part.text}\x1b[27m` : part.text).join('')
+    : record.raw;
+  return `${LEVEL_COLORS[record.level]}${text}\x1b[0m`;
+}
+
 export default function ServerPage() {
   const { 
     serverStatus,
@@ -24,18 +56,25 @@ export default function ServerPage() {
     stopServer,
     sendServerCommand,
     logs,
+    logSources,
     isSubscribedToLogs,
     isLoadingLogs,
     subscribeToLogs,
     unsubscribeFromLogs,
-    clearLogs
+    clearLogs,
+    currentInstance
   } = useSocket();
+  const { hasPermission } = useUser();
+  const canControlServer = hasPermission('server.control');
+  const canSendCommands = hasPermission('server.command');
   
   const [command, setCommand] = useState('');
   const [isStartingServer, setIsStartingServer] = useState(false);
   const [isStoppingServer, setIsStoppingServer] = useState(false);
+  const [stopProgress, setStopProgress] = useState<string | null>(null);
   const [isSendingCommand, setIsSendingCommand] = useState(false);
   const [activeTab, setActiveTab] = useState('management'); // 'management', 'configuration', or 'packages'
+  const [logFilter, setLogFilter] = useState<LogFilter>({});
   const terminalRef = useRef<HTMLDivElement>(null);
   const xtermRef = useRef<Terminal | null>(null);
   const fitAddonRef = useRef<FitAddon | null>(null);
@@ -43,6 +82,9 @@ export default function ServerPage() {
   const commandIndexRef = useRef(-1);
   const [terminalReady, setTerminalReady] = useState(false);
   const logsLengthRef = useRef(logs.length);
+  const [now, setNow] = useState(() => Date.now());
+  // Another user, the scheduler or the crash watchdog may be part way through a start or stop
+  const isServerBusy = serverStatus?.phase === 'starting' || serverStatus?.phase === 'stopping';
 
   // Initialize xterm.js terminal - only initialize once and keep it alive
   useEffect(() => {
@@ -266,7 +308,8 @@ export default function ServerPage() {
       console.log('Subscribing to server logs');
       // Subscribe with a smaller batch size for more frequent updates
       subscribeToLogs({ 
-        initialLines: 50
+        initialLines: 50,
+        filter: logFilter
       })
         .then(() => {
           console.log('Successfully subscribed to server logs');
@@ -291,7 +334,28 @@ export default function ServerPage() {
       unsubscribeFromLogs();
     }
   };
-}, [isSubscribedToLogs, subscribeToLogs, unsubscribeFromLogs]);
+}, [isSubscribedToLogs, subscribeToLogs, unsubscribeFromLogs, logFilter]);
+
+  // The log lines shown belong to the previous instance once another one is selected
+  const instanceId = currentInstance?.id;
+  useEffect(() => {
+    if (instanceId === undefined) return;
+    if (xtermRef.current) {
+      xtermRef.current.clear();
+      xtermRef.current.write('\x1b[33m$ \x1b[0m');
+    }
+    logsLengthRef.current = 0;
+  }, [instanceId]);
+
+  // A new filter resubscribes, and the server sends the matching history from the start
+  const handleLogFilterChange = (filter: LogFilter) => {
+    if (xtermRef.current) {
+      xtermRef.current.clear();
+      xtermRef.current.write('\x1b[33m$ \x1b[0m');
+    }
+    logsLengthRef.current = 0;
+    setLogFilter(filter);
+  };
 
   // Update terminal with new logs - update regardless of active tab
   useEffect(() => {
@@ -314,12 +378,11 @@ export default function ServerPage() {
         xtermRef.current.write('\x1b[2K\r');
         
         // Write new logs with proper line endings
-        for (const log of newLogs) {
-          if (!log.trim()) continue; // Skip empty lines
+        const pattern = getSearchPattern(logFilter.search);
+        for (const record of newLogs) {
+          if (!record.raw.trim()) continue; // Skip empty lines
           
-          // Ensure each log line is complete and properly terminated
-          const cleanLog = log.endsWith('\n') ? log : `${log}\n`;
-          xtermRef.current.write(`\x1b[90m${cleanLog}\x1b[0m`);
+          xtermRef.current.writeln(formatLogLine(record, pattern));
         }
         
         // Restore prompt and current command
@@ -342,30 +405,19 @@ export default function ServerPage() {
     logsLengthRef.current = logs.length;
   }, [logs, terminalReady]);
 
-  // Refresh server status periodically
+  // Status changes are pushed over the socket, so only the uptime needs a clock
   useEffect(() => {
-    const fetchStatus = () => {
-      fetchServerStatus().catch((error: unknown) => {
-        console.error('Error fetching server status:', error);
-      });
-    };
+    if (!serverStatus?.running) return;
 
-    // Initial fetch
-    fetchStatus();
-    
-    // Set up interval for periodic updates
-    const intervalId = setInterval(fetchStatus, 10000);
-    
-    // Clean up interval on unmount
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(intervalId);
-  }, [fetchServerStatus]);
+  }, [serverStatus?.running]);
 
   const handleStartServer = async () => {
     setIsStartingServer(true);
     try {
       await startServer();
       toast.success('Server started successfully');
-      await fetchServerStatus();
       
       // Don't show success message in terminal - it will appear in logs naturally
     } catch (error: unknown) {
@@ -385,9 +437,13 @@ export default function ServerPage() {
   const handleStopServer = async () => {
     setIsStoppingServer(true);
     try {
-      await stopServer();
-      toast.success('Server stopped successfully');
-      await fetchServerStatus();
+      const result = await stopServer(progress => {
+        setStopProgress(progress.message);
+        if (xtermRef.current) {
+          xtermRef.current.writeln(`\x1b[33m${progress.message}\x1b[0m`);
+        }
+      });
+      toast.success(result.message);
       
       // Don't show success message in terminal - it will appear in logs naturally
     } catch (error: unknown) {
@@ -401,6 +457,7 @@ export default function ServerPage() {
       }
     } finally {
       setIsStoppingServer(false);
+      setStopProgress(null);
     }
   };
 
@@ -412,6 +469,11 @@ export default function ServerPage() {
     clearLogs();
   };
 
+  const statusLabel = PHASE_LABELS[serverStatus?.phase ?? (serverStatus?.running ? 'running' : 'stopped')];
+  const uptime = serverStatus?.startedAt
+    ? Math.max(0, (now - new Date(serverStatus.startedAt).getTime()) / 1000)
+    : serverStatus?.uptime;
+
   const formatUptime = (seconds?: number): string => {
     if (seconds === undefined) return 'N/A';
     
@@ -432,7 +494,14 @@ export default function ServerPage() {
   return (
     <div className="container-fluid p-4 w-full max-w-none">
       <div className="flex items-center justify-between mb-6">
-        <h1 className="text-2xl font-bold text-amber-300 font-mono">Server Management</h1>
+        <div>
+          <h1 className="text-2xl font-bold text-amber-300 font-mono">Server Management</h1>
+          {currentInstance && (
+            <p className="text-xs font-mono text-amber-400/60 mt-1">
+              {currentInstance.name} · {currentInstance.installDir} · port {currentInstance.gamePort}
+            </p>
+          )}
+        </div>
         
         <div className="flex items-center gap-2">
           {isLoadingServerStatus ? (
@@ -440,10 +509,12 @@ export default function ServerPage() {
               <div className="h-3 w-3 animate-spin rounded-full border-t-2 border-amber-400 border-r-2 border-amber-400/30" />
               <span>Checking status...</span>
             </div>
+          ) : isServerBusy ? (
+            <div className="px-2 py-1 bg-amber-900/20 border border-amber-500/30 rounded-md text-xs text-amber-400">{statusLabel}</div>
           ) : serverStatus?.running ? (
-            <div className="px-2 py-1 bg-green-900/20 border border-green-500/30 rounded-md text-xs text-green-400">Running</div>
+            <div className="px-2 py-1 bg-green-900/20 border border-green-500/30 rounded-md text-xs text-green-400">{statusLabel}</div>
           ) : (
-            <div className="px-2 py-1 bg-red-900/20 border border-red-500/30 rounded-md text-xs text-red-400">Stopped</div>
+            <div className="px-2 py-1 bg-red-900/20 border border-red-500/30 rounded-md text-xs text-red-400">{statusLabel}</div>
           )}
         </div>
       </div>
@@ -502,10 +573,12 @@ export default function ServerPage() {
                     <div className="h-4 w-4 animate-spin rounded-full border-t-2 border-amber-400 border-r-2 border-amber-400/30 mr-2" />
                     Checking...
                   </span>
+                ) : isServerBusy ? (
+                  <span className="text-amber-400">{statusLabel}</span>
                 ) : serverStatus?.running ? (
-                  <span className="text-green-500">Running</span>
+                  <span className="text-green-500">{statusLabel}</span>
                 ) : (
-                  <span className="text-red-500">Stopped</span>
+                  <span className="text-red-500">{statusLabel}</span>
                 )}
               </p>
             </div>
@@ -513,20 +586,21 @@ export default function ServerPage() {
             <div>
               <p className="text-sm font-mono text-amber-400/70 mb-1">Uptime</p>
               <p className="text-lg font-bold text-amber-300">
-                {serverStatus?.running ? formatUptime(serverStatus.uptime) : 'N/A'}
+                {serverStatus?.running ? formatUptime(uptime) : 'N/A'}
               </p>
             </div>
           </div>
           
-          <div className="flex gap-4 pt-4 border-t border-amber-500/10">
-            <button
-              type="button"
-              onClick={handleStartServer}
-              disabled={isStartingServer || isStoppingServer || (serverStatus?.running ?? false)}
-              className="flex-1 py-2 px-4 bg-amber-500/20 text-amber-300 rounded hover:bg-amber-500/30 transition-colors font-mono text-sm flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {isStartingServer && (
-                <div className="h-4 w-4 animate-spin rounded-full border-t-2 border-amber-400 border-r-2 border-amber-400/30 mr-2" />
+          {canControlServer && (
+            <div className="flex gap-4 pt-4 border-t border-amber-500/10">
+              <button
+                type="button"
+                onClick={handleStartServer}
+                disabled={isStartingServer || isStoppingServer || isServerBusy || (serverStatus?.running ?? false)}
+                className="flex-1 py-2 px-4 bg-amber-500/20 text-amber-300 rounded hover:bg-amber-500/30 transition-colors font-mono text-sm flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isStartingServer && (
+                  <div className="h-4 w-4 animate-spin rounded-full border-t-2 border-amber-400 border-r-2 border-amber-400/30 mr-2" />
               )}
               <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 mr-2" viewBox="0 0 20 20" fill="currentColor" aria-labelledby="play-icon">
                 <title id="play-icon">Play Icon</title>
@@ -538,7 +612,7 @@ export default function ServerPage() {
             <button
               type="button"
               onClick={handleStopServer}
-              disabled={isStartingServer || isStoppingServer || !(serverStatus?.running ?? false)}
+              disabled={isStartingServer || isStoppingServer || isServerBusy || !(serverStatus?.running ?? false)}
               className="flex-1 py-2 px-4 bg-red-900/20 text-red-400 border border-red-500/20 rounded hover:bg-red-900/30 transition-colors font-mono text-sm flex items-center justify-center disabled:opacity-50 disabled:cursor-not-allowed"
             >
               {isStoppingServer && (
@@ -551,12 +625,24 @@ export default function ServerPage() {
               Stop Server
             </button>
           </div>
+          )}
+          
+          {stopProgress && (
+            <p className="mt-3 text-xs font-mono text-amber-300">{stopProgress}</p>
+          )}
         </div>
         
         {/* Terminal Section */}
         <div className="bg-black/30 border border-amber-500/20 rounded-lg p-6 mb-6">
           <div className="flex items-center justify-between mb-4">
-            <h2 className="text-xl font-semibold text-amber-300 font-mono">Terminal</h2>
+            <div className="flex items-center gap-3">
+              <h2 className="text-xl font-semibold text-amber-300 font-mono">Terminal</h2>
+              {!canSendCommands && (
+                <span className="px-2 py-0.5 bg-zinc-800/80 border border-amber-500/20 rounded text-[10px] text-amber-400/70 font-mono">
+                  read-only
+                </span>
+              )}
+            </div>
             
             <div className="flex gap-2">
               <button
@@ -566,7 +652,8 @@ export default function ServerPage() {
                   unsubscribeFromLogs();
                   // Use a smaller batch size for more frequent updates
                   subscribeToLogs({ 
-                    initialLines: 50
+                    initialLines: 50,
+                    filter: logFilter
                   });
                   
                   // Don't show refresh message in terminal
@@ -591,6 +678,10 @@ export default function ServerPage() {
             </div>
           </div>
           
+          <div className="mb-3">
+            <LogFilters filter={logFilter} sources={logSources} onChange={handleLogFilterChange} />
+          </div>
+          
           {/* xterm.js Terminal */}
           <div className="relative">
             {isLoadingLogs && !terminalReady ? (
@@ -617,6 +708,28 @@ export default function ServerPage() {
             )}
           </div>
         </div>
+        
+        {/* Process Resources Section */}
+        <div className="bg-black/30 border border-amber-500/20 rounded-lg mb-6">
+          <ProcessMetrics />
+        </div>
+        
+        {/* Stop Sequence Section */}
+        {canControlServer && (
+          <div className="bg-black/30 border border-amber-500/20 rounded-lg mb-6">
+            <StopSequenceSettings />
+          </div>
+        )}
+        
+        {/* Crash History Section */}
+        <div className="bg-black/30 border border-amber-500/20 rounded-lg mb-6">
+          <CrashHistory canEditPolicy={canControlServer} serverRunning={serverStatus?.running} />
+        </div>
+        
+        {/* Scheduled Actions Section */}
+        <div className="bg-black/30 border border-amber-500/20 rounded-lg mb-6">
+          <ServerSchedules canEdit={canControlServer} />
+        </div>
       </div>
       
       {/* Configuration Tab Content */}
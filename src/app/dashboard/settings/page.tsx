@@ -0,0 +1,34 @@
+'use client';
+
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import ApiKeys from '@/components/ApiKeys';
+import ServerInstances from '@/components/ServerInstances';
+import { useUser } from '@/hooks/useUser';
+
+export default function SettingsPage() {
+  const { hasPermission } = useUser();
+
+  return (
+    <div className="container-fluid p-4 w-full max-w-none">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-amber-300 font-mono">Settings</h1>
+      </div>
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg shadow">
+        <TwoFactorSettings />
+      </div>
+
+      {hasPermission('apikeys.manage') && (
+        <div className="bg-black/30 border border-amber-500/20 rounded-lg shadow mt-6">
+          <ApiKeys />
+        </div>
+      )}
+
+      {hasPermission('system.manage') && (
+        <div className="bg-black/30 border border-amber-500/20 rounded-lg shadow mt-6">
+          <ServerInstances />
+        </div>
+      )}
+    </div>
+  );
+}
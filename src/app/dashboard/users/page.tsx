@@ -0,0 +1,22 @@
+'use client';
+
+import UserManagement from '@/components/UserManagement';
+import LoginLockouts from '@/components/LoginLockouts';
+
+export default function UsersPage() {
+  return (
+    <div className="container-fluid p-4 w-full max-w-none">
+      <div className="flex items-center justify-between mb-6">
+        <h1 className="text-2xl font-bold text-amber-300 font-mono">User Management</h1>
+      </div>
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg shadow">
+        <UserManagement />
+      </div>
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg shadow mt-6">
+        <LoginLockouts />
+      </div>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 
 import { useState, type FormEvent, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { setSessionToken } from '@/lib/auth';
 
 interface DebugInfo {
   status: number;
@@ -13,6 +14,8 @@ export default function LoginPage() {
   const router = useRouter();
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
+  const [otp, setOtp] = useState('');
+  const [needsOtp, setNeedsOtp] = useState(false);
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
   const [debugInfo, setDebugInfo] = useState<DebugInfo | null>(null);
@@ -33,35 +36,36 @@ export default function LoginPage() {
     setDebugInfo(null);
 
     try {
-      // Create basic auth header
-      const credentials = btoa(`${username}:${password}`);
-      
       console.log('Attempting login with:', { username, hasPassword: !!password });
       
-      // Test credentials with a simple API request
-      const response = await fetch('/api/system/info', {
+      // Exchange the credentials for a session token
+      const response = await fetch('/api/auth/login', {
+        method: 'POST',
         headers: {
-          'Authorization': `Basic ${credentials}`
-        }
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ username, password, otp: needsOtp ? otp : undefined })
       });
 
       const responseData = await response.json();
+      // Keep the session token out of the logs and the debug output
+      const { token, ...debugData } = responseData;
       console.log('Auth response:', { 
         status: response.status, 
         ok: response.ok,
-        data: responseData
+        data: debugData
       });
       
       setDebugInfo({
         status: response.status,
         ok: response.ok,
-        data: responseData
+        data: debugData
       });
 
       if (response.ok) {
-        console.log('Login successful, storing credentials and redirecting');
-        // Store credentials in sessionStorage (not secure for production)
-        sessionStorage.setItem('credentials', credentials);
+        console.log('Login successful, storing session and redirecting');
+        // Only the session token is kept - the password never leaves this form
+        setSessionToken(token);
         
         // Set a flag to indicate this is a fresh login
         // This helps the dashboard handle the initial connection more robustly
@@ -69,9 +73,17 @@ export default function LoginPage() {
         
         // Redirect to dashboard
         router.push('/dashboard');
+      } else if (responseData.twoFactorRequired) {
+        // Password accepted - ask for the authenticator or recovery code
+        setError(needsOtp ? 'Authentication failed: Invalid two-factor code' : '');
+        setNeedsOtp(true);
+        setOtp('');
       } else {
         console.log('Login failed:', responseData);
-        setError('Authentication failed: Invalid credentials');
+        setNeedsOtp(false);
+        setError(response.status === 429
+          ? `Authentication blocked: ${responseData.error}`
+          : 'Authentication failed: Invalid credentials');
       }
     } catch (err) {
       console.error('Login error:', err);
@@ -156,6 +168,32 @@ export default function LoginPage() {
                   />
                 </div>
               </div>
+              
+              {/* Two-factor code, asked for once the password has been accepted */}
+              {needsOtp && (
+                <div className="space-y-1">
+                  <div className="flex items-center text-amber-400/80 text-sm">
+                    <span className="mr-2">$</span>
+                    <span>2fa_code:</span>
+                  </div>
+                  <div className="flex">
+                    <span className="text-amber-400/50 mr-2">❯</span>
+                    <input
+                      id="otp"
+                      name="otp"
+                      type="text"
+                      inputMode="numeric"
+                      autoComplete="one-time-code"
+                      required
+                      autoFocus
+                      className="flex-1 bg-transparent border-b border-amber-500/30 text-amber-100 focus:border-amber-400 outline-none px-1 py-1 text-sm font-mono placeholder-amber-400/30"
+                      placeholder="Authenticator or recovery code"
+                      value={otp}
+                      onChange={(e) => setOtp(e.target.value)}
+                    />
+                  </div>
+                </div>
+              )}
             </div>
 
             {/* Error message with terminal styling */}
@@ -173,7 +211,7 @@ export default function LoginPage() {
                 disabled={loading}
                 className="w-full py-2 px-4 bg-amber-500/10 border border-amber-500/40 text-amber-400 hover:bg-zinc-800 rounded focus:outline-none focus:ring-2 focus:ring-amber-500/50 focus:ring-offset-2 focus:ring-offset-black disabled:opacity-50 transition-all duration-200 font-mono text-sm"
               >
-                {loading ? 'AUTHENTICATING...' : 'LOGIN TO SYSTEM'}
+                {loading ? 'AUTHENTICATING...' : needsOtp ? 'VERIFY CODE' : 'LOGIN TO SYSTEM'}
               </button>
             </div>
           </form>
@@ -0,0 +1,131 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { describeAlert, formatFiredAt, type LogAlert } from '@/lib/alerts';
+import { useSocket } from '@/hooks/useSocket';
+
+export default function AlertHistory() {
+  const { socket } = useSocket();
+  const [alerts, setAlerts] = useState<LogAlert[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadAlerts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/alerts', {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load alerts');
+      }
+
+      setAlerts(data.alerts);
+    } catch (error) {
+      console.error('Error loading alerts:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  // New alerts and acknowledgements show up without a refresh
+  useEffect(() => {
+    if (!socket) return;
+
+    socket.on('log_alert', loadAlerts);
+    socket.on('log_alerts_acknowledged', loadAlerts);
+    return () => {
+      socket.off('log_alert', loadAlerts);
+      socket.off('log_alerts_acknowledged', loadAlerts);
+    };
+  }, [socket, loadAlerts]);
+
+  const handleAcknowledge = async (alert: LogAlert) => {
+    try {
+      const response = await fetch(`/api/alerts/${alert.id}/acknowledge`, {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to acknowledge alert');
+      }
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Recent Alerts</h2>
+        <button
+          type="button"
+          onClick={loadAlerts}
+          disabled={isLoading}
+          className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+            <tr>
+              <th className="px-4 py-2">Fired</th>
+              <th className="px-4 py-2">Instance</th>
+              <th className="px-4 py-2">Alert</th>
+              <th className="px-4 py-2">Last Line</th>
+              <th className="px-4 py-2 text-right">Acknowledged</th>
+            </tr>
+          </thead>
+          <tbody>
+            {alerts.map(alert => (
+              <tr key={alert.id} className="border-t border-amber-500/10 text-gray-300 align-top">
+                <td className="px-4 py-2 text-xs text-amber-400/60 whitespace-nowrap">{formatFiredAt(alert)}</td>
+                <td className="px-4 py-2">{alert.instanceName}</td>
+                <td className={`px-4 py-2 ${alert.level === 'error' ? 'text-red-400' : 'text-amber-300'}`}>{describeAlert(alert)}</td>
+                <td className="px-4 py-2 text-xs break-all">
+                  {alert.source && <span className="text-amber-400/60">[{alert.source}] </span>}
+                  {alert.message}
+                </td>
+                <td className="px-4 py-2 text-right text-xs">
+                  {alert.acknowledgedAt ? (
+                    <span className="text-gray-500">by {alert.acknowledgedBy}</span>
+                  ) : (
+                    <button
+                      type="button"
+                      onClick={() => handleAcknowledge(alert)}
+                      className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                    >
+                      Acknowledge
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {!isLoading && alerts.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-amber-400/60">No alerts have fired yet</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
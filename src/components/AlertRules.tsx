@@ -0,0 +1,454 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { getInstanceHeader } from '@/lib/instance';
+import { formatSeconds } from '@/lib/alerts';
+import { LOG_LEVELS, type LogLevel } from '@/lib/logs';
+import { useSocket } from '@/hooks/useSocket';
+
+// Rule as returned by /api/alerts/rules
+interface AlertRule {
+  id: number;
+  name: string;
+  minLevel: LogLevel | null;
+  pattern: string | null;
+  threshold: number;
+  windowSeconds: number;
+  cooldownSeconds: number;
+  webhooks: number[];
+  enabled: boolean;
+  createdBy: string;
+  lastFiredAt: string | null;
+}
+
+interface WebhookOption {
+  id: number;
+  name: string;
+  format: string;
+  enabled: boolean;
+}
+
+interface RuleForm {
+  name: string;
+  // Empty for every level
+  minLevel: LogLevel | '';
+  pattern: string;
+  threshold: number;
+  windowSeconds: number;
+  cooldownSeconds: number;
+  webhooks: number[];
+  enabled: boolean;
+}
+
+interface AlertRulesProps {
+  canEdit: boolean;
+}
+
+const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+
+function toFormBody(form: RuleForm) {
+  return {
+    name: form.name,
+    minLevel: form.minLevel || null,
+    pattern: form.pattern.trim() || null,
+    threshold: form.threshold,
+    windowSeconds: form.windowSeconds,
+    cooldownSeconds: form.cooldownSeconds,
+    webhooks: form.webhooks,
+    enabled: form.enabled
+  };
+}
+
+function toForm(rule: AlertRule): RuleForm {
+  return {
+    name: rule.name,
+    minLevel: rule.minLevel ?? '',
+    pattern: rule.pattern ?? '',
+    threshold: rule.threshold,
+    windowSeconds: rule.windowSeconds,
+    cooldownSeconds: rule.cooldownSeconds,
+    webhooks: rule.webhooks,
+    enabled: rule.enabled
+  };
+}
+
+function describeCondition(rule: AlertRule): string {
+  const lines = [
+    rule.minLevel ? `${rule.minLevel} or worse` : 'any level',
+    rule.pattern ? `matching /${rule.pattern}/` : null
+  ].filter(Boolean).join(', ');
+  return rule.threshold > 1
+    ? `${rule.threshold} lines (${lines}) in ${formatSeconds(rule.windowSeconds)}`
+    : `A line (${lines})`;
+}
+
+export default function AlertRules({ canEdit }: AlertRulesProps) {
+  const { currentInstance } = useSocket();
+  const instanceId = currentInstance?.id;
+  const [rules, setRules] = useState<AlertRule[]>([]);
+  const [webhooks, setWebhooks] = useState<WebhookOption[]>([]);
+  const [defaultForm, setDefaultForm] = useState<RuleForm | null>(null);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  // Rule being edited, null while creating a new one
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadRules = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/alerts/rules', {
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load alert rules');
+      }
+
+      setRules(data.rules);
+      setWebhooks(data.webhooks);
+      setDefaultForm({
+        name: '',
+        minLevel: 'error',
+        pattern: '',
+        threshold: data.defaults.threshold,
+        windowSeconds: data.defaults.windowSeconds,
+        cooldownSeconds: data.defaults.cooldownSeconds,
+        webhooks: [],
+        enabled: true
+      });
+    } catch (error) {
+      console.error('Error loading alert rules:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [instanceId]);
+
+  useEffect(() => {
+    loadRules();
+    // Rules belong to the instance they were loaded for
+    setForm(null);
+    setEditingId(null);
+  }, [loadRules]);
+
+  const saveRule = async (id: number | null, body: ReturnType<typeof toFormBody>): Promise<boolean> => {
+    try {
+      const response = await fetch(id === null ? '/api/alerts/rules' : `/api/alerts/rules/${id}`, {
+        method: id === null ? 'POST' : 'PUT',
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save alert rule');
+      }
+
+      await loadRules();
+      return true;
+    } catch (error) {
+      toast.error((error as Error).message);
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    if (await saveRule(editingId, toFormBody(form))) {
+      toast.success(`Alert rule ${form.name} saved`);
+      setForm(null);
+      setEditingId(null);
+    }
+  };
+
+  const handleToggle = async (rule: AlertRule) => {
+    if (await saveRule(rule.id, toFormBody({ ...toForm(rule), enabled: !rule.enabled }))) {
+      toast.success(`Alert rule ${rule.name} ${rule.enabled ? 'disabled' : 'enabled'}`);
+    }
+  };
+
+  const handleDelete = async (rule: AlertRule) => {
+    if (!confirm(`Delete alert rule "${rule.name}"? Alerts it fired stay in the history.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/alerts/rules/${rule.id}`, {
+        method: 'DELETE',
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete alert rule');
+      }
+
+      toast.success(`Alert rule ${rule.name} deleted`);
+      await loadRules();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const toggleWebhook = (id: number) => {
+    if (!form) return;
+    setForm({
+      ...form,
+      webhooks: form.webhooks.includes(id) ? form.webhooks.filter(webhookId => webhookId !== id) : [...form.webhooks, id]
+    });
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Alert Rules</h2>
+        <div className="flex gap-2">
+          {canEdit && !form && defaultForm && (
+            <button
+              type="button"
+              onClick={() => {
+                setEditingId(null);
+                setForm(defaultForm);
+              }}
+              className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors"
+            >
+              New Rule
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={loadRules}
+            disabled={isLoading}
+            className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+          >
+            {isLoading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-400">
+        Rules watch this instance&apos;s log as it is written. A rule fires when the threshold of matching lines is reached
+        within the window - a threshold of 1 fires on every matching line - and then stays quiet for its cooldown.
+        Patterns are regular expressions, matched case-insensitively.
+      </p>
+
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+          <h3 className="text-lg font-mono text-amber-400">{editingId === null ? 'New Rule' : 'Edit Rule'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="rule-name" className="block text-sm font-mono text-gray-300">Name</label>
+              <input
+                id="rule-name"
+                type="text"
+                required
+                maxLength={64}
+                placeholder="e.g. Error burst"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="rule-level" className="block text-sm font-mono text-gray-300">Minimum Level</label>
+              <select
+                id="rule-level"
+                value={form.minLevel}
+                onChange={(e) => setForm({ ...form, minLevel: e.target.value as LogLevel | '' })}
+                className={inputClassName}
+              >
+                <option value="">Any level</option>
+                {LOG_LEVELS.map(level => (
+                  <option key={level} value={level}>{level}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="rule-pattern" className="block text-sm font-mono text-gray-300">Pattern</label>
+              <input
+                id="rule-pattern"
+                type="text"
+                maxLength={200}
+                placeholder="e.g. failed to load"
+                value={form.pattern}
+                onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="rule-threshold" className="block text-sm font-mono text-gray-300">Threshold (lines)</label>
+              <input
+                id="rule-threshold"
+                type="number"
+                min={1}
+                required
+                value={form.threshold}
+                onChange={(e) => setForm({ ...form, threshold: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="rule-window" className="block text-sm font-mono text-gray-300">Window (seconds)</label>
+              <input
+                id="rule-window"
+                type="number"
+                min={1}
+                required
+                value={form.windowSeconds}
+                onChange={(e) => setForm({ ...form, windowSeconds: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="rule-cooldown" className="block text-sm font-mono text-gray-300">Cooldown (seconds)</label>
+              <input
+                id="rule-cooldown"
+                type="number"
+                min={0}
+                required
+                value={form.cooldownSeconds}
+                onChange={(e) => setForm({ ...form, cooldownSeconds: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <span className="block text-sm font-mono text-gray-300">Send to Webhooks</span>
+            {webhooks.length === 0 ? (
+              <p className="text-xs text-gray-500">No webhooks yet - alerts still show in the dashboard</p>
+            ) : (
+              <div className="flex flex-wrap gap-4">
+                {webhooks.map(webhook => (
+                  <label key={webhook.id} className="flex items-center gap-2 text-sm font-mono text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={form.webhooks.includes(webhook.id)}
+                      onChange={() => toggleWebhook(webhook.id)}
+                      className="accent-amber-500"
+                    />
+                    {webhook.name}
+                    {!webhook.enabled && <span className="text-xs text-gray-500">(disabled)</span>}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm font-mono text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+              className="accent-amber-500"
+            />
+            Enabled
+          </label>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors font-mono text-sm"
+            >
+              Save Rule
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setForm(null);
+                setEditingId(null);
+              }}
+              className="px-4 py-2 bg-zinc-800 text-gray-300 rounded hover:bg-zinc-700 transition-colors font-mono text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+            <tr>
+              <th className="px-4 py-2">Name</th>
+              <th className="px-4 py-2">Fires On</th>
+              <th className="px-4 py-2">Webhooks</th>
+              <th className="px-4 py-2">Last Fired (UTC)</th>
+              <th className="px-4 py-2">Status</th>
+              {canEdit && <th className="px-4 py-2 text-right">Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map(rule => (
+              <tr key={rule.id} className="border-t border-amber-500/10 text-gray-300">
+                <td className="px-4 py-2">
+                  {rule.name}
+                  <span className="block text-xs text-amber-400/60">by {rule.createdBy}</span>
+                </td>
+                <td className="px-4 py-2 text-xs text-amber-200">{describeCondition(rule)}</td>
+                <td className="px-4 py-2 text-xs">
+                  {webhooks.filter(webhook => rule.webhooks.includes(webhook.id)).map(webhook => webhook.name).join(', ') || '-'}
+                </td>
+                <td className="px-4 py-2 text-xs text-amber-400/60">{rule.lastFiredAt || 'Never'}</td>
+                <td className="px-4 py-2 text-xs">
+                  <span className={rule.enabled ? 'text-green-400' : 'text-gray-500'}>{rule.enabled ? 'enabled' : 'disabled'}</span>
+                </td>
+                {canEdit && (
+                  <td className="px-4 py-2 text-right space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => handleToggle(rule)}
+                      className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                    >
+                      {rule.enabled ? 'Disable' : 'Enable'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setEditingId(rule.id);
+                        setForm(toForm(rule));
+                      }}
+                      className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(rule)}
+                      className="px-2 py-1 bg-red-900/20 text-red-400 rounded text-xs hover:bg-red-900/30 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {!isLoading && rules.length === 0 && (
+              <tr>
+                <td colSpan={canEdit ? 6 : 5} className="px-4 py-6 text-center text-amber-400/60">No alert rules yet</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
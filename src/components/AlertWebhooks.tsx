@@ -0,0 +1,332 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { getInstanceHeader } from '@/lib/instance';
+import { useSocket } from '@/hooks/useSocket';
+
+type WebhookFormat = 'json' | 'discord';
+
+// Webhook as returned by /api/alerts/webhooks
+interface Webhook {
+  id: number;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+  createdBy: string;
+  lastSentAt: string | null;
+  lastError: string | null;
+}
+
+interface WebhookForm {
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: WebhookForm = { name: '', url: '', format: 'discord', enabled: true };
+
+const FORMAT_LABELS: Record<WebhookFormat, string> = {
+  json: 'Generic JSON',
+  discord: 'Discord'
+};
+
+const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+
+export default function AlertWebhooks() {
+  const { currentInstance } = useSocket();
+  const instanceId = currentInstance?.id;
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [form, setForm] = useState<WebhookForm | null>(null);
+  // Webhook being edited, null while creating a new one
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [testingId, setTestingId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadWebhooks = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/alerts/webhooks', {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load webhooks');
+      }
+
+      setWebhooks(data.webhooks);
+    } catch (error) {
+      console.error('Error loading webhooks:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadWebhooks();
+  }, [loadWebhooks]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    try {
+      const response = await fetch(editingId === null ? '/api/alerts/webhooks' : `/api/alerts/webhooks/${editingId}`, {
+        method: editingId === null ? 'POST' : 'PUT',
+        headers: {
+          ...getAuthHeader(),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(form)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save webhook');
+      }
+
+      toast.success(`Webhook ${form.name} saved`);
+      setForm(null);
+      setEditingId(null);
+      await loadWebhooks();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleTest = async (webhook: Webhook) => {
+    setTestingId(webhook.id);
+    try {
+      const response = await fetch(`/api/alerts/webhooks/${webhook.id}/test`, {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to send test alert');
+      }
+
+      toast.success(data.message);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setTestingId(null);
+      await loadWebhooks();
+    }
+  };
+
+  const handleDelete = async (webhook: Webhook) => {
+    if (!confirm(`Delete webhook "${webhook.name}"? Rules that send to it will no longer do so.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/alerts/webhooks/${webhook.id}`, {
+        method: 'DELETE',
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete webhook');
+      }
+
+      toast.success(`Webhook ${webhook.name} deleted`);
+      await loadWebhooks();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Webhooks</h2>
+        <div className="flex gap-2">
+          {!form && (
+            <button
+              type="button"
+              onClick={() => {
+                setEditingId(null);
+                setForm(EMPTY_FORM);
+              }}
+              className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors"
+            >
+              New Webhook
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={loadWebhooks}
+            disabled={isLoading}
+            className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+          >
+            {isLoading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-400">
+        Alert rules of every instance can post to these. Discord webhooks get an embed; generic JSON targets
+        get <code className="text-amber-200">{'{ event, summary, alert }'}</code>.
+      </p>
+
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+          <h3 className="text-lg font-mono text-amber-400">{editingId === null ? 'New Webhook' : 'Edit Webhook'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="webhook-name" className="block text-sm font-mono text-gray-300">Name</label>
+              <input
+                id="webhook-name"
+                type="text"
+                required
+                maxLength={64}
+                placeholder="e.g. Staff channel"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="webhook-format" className="block text-sm font-mono text-gray-300">Format</label>
+              <select
+                id="webhook-format"
+                value={form.format}
+                onChange={(e) => setForm({ ...form, format: e.target.value as WebhookFormat })}
+                className={inputClassName}
+              >
+                {Object.entries(FORMAT_LABELS).map(([format, label]) => (
+                  <option key={format} value={format}>{label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="webhook-url" className="block text-sm font-mono text-gray-300">URL</label>
+              <input
+                id="webhook-url"
+                type="url"
+                required
+                maxLength={500}
+                placeholder="https://"
+                value={form.url}
+                onChange={(e) => setForm({ ...form, url: e.target.value })}
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+          </div>
+
+          <label className="flex items-center gap-2 text-sm font-mono text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+              className="accent-amber-500"
+            />
+            Enabled
+          </label>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors font-mono text-sm"
+            >
+              Save Webhook
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setForm(null);
+                setEditingId(null);
+              }}
+              className="px-4 py-2 bg-zinc-800 text-gray-300 rounded hover:bg-zinc-700 transition-colors font-mono text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+            <tr>
+              <th className="px-4 py-2">Name</th>
+              <th className="px-4 py-2">Format</th>
+              <th className="px-4 py-2">Last Delivery (UTC)</th>
+              <th className="px-4 py-2">Status</th>
+              <th className="px-4 py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {webhooks.map(webhook => (
+              <tr key={webhook.id} className="border-t border-amber-500/10 text-gray-300">
+                <td className="px-4 py-2">
+                  {webhook.name}
+                  <span className="block text-xs text-amber-400/60 break-all">{webhook.url}</span>
+                </td>
+                <td className="px-4 py-2 text-xs">{FORMAT_LABELS[webhook.format]}</td>
+                <td className="px-4 py-2 text-xs">
+                  {webhook.lastSentAt ? (
+                    <>
+                      <span className="text-amber-400/60">{webhook.lastSentAt}</span>
+                      <span className={`block ${webhook.lastError ? 'text-red-400' : 'text-green-400'}`}>{webhook.lastError || 'delivered'}</span>
+                    </>
+                  ) : 'Never'}
+                </td>
+                <td className="px-4 py-2 text-xs">
+                  <span className={webhook.enabled ? 'text-green-400' : 'text-gray-500'}>{webhook.enabled ? 'enabled' : 'disabled'}</span>
+                </td>
+                <td className="px-4 py-2 text-right space-x-2 whitespace-nowrap">
+                  <button
+                    type="button"
+                    onClick={() => handleTest(webhook)}
+                    disabled={testingId !== null}
+                    className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors disabled:opacity-50"
+                  >
+                    {testingId === webhook.id ? 'Sending...' : 'Test'}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingId(webhook.id);
+                      setForm({ name: webhook.name, url: webhook.url, format: webhook.format, enabled: webhook.enabled });
+                    }}
+                    className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(webhook)}
+                    className="px-2 py-1 bg-red-900/20 text-red-400 rounded text-xs hover:bg-red-900/30 transition-colors"
+                  >
+                    Delete
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {!isLoading && webhooks.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-amber-400/60">No webhooks yet</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,321 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+
+// API key as returned by /api/keys - the key itself is only returned once, on creation
+interface ApiKey {
+  id: number;
+  username: string;
+  name: string;
+  prefix: string;
+  scopes: string[];
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+}
+
+interface ApiKeyScope {
+  scope: string;
+  label: string;
+}
+
+const EXPIRY_OPTIONS = [
+  { label: '30 days', days: 30 },
+  { label: '90 days', days: 90 },
+  { label: '1 year', days: 365 },
+  { label: 'Never', days: null }
+];
+
+const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+
+/**
+ * Whether a key can no longer be used, and why
+ */
+function getKeyState(apiKey: ApiKey): 'revoked' | 'expired' | 'active' {
+  if (apiKey.revoked_at) {
+    return 'revoked';
+  }
+  // SQLite timestamps are UTC without a zone marker
+  if (apiKey.expires_at && new Date(`${apiKey.expires_at.replace(' ', 'T')}Z`).getTime() <= Date.now()) {
+    return 'expired';
+  }
+  return 'active';
+}
+
+export default function ApiKeys() {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [scopes, setScopes] = useState<ApiKeyScope[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [name, setName] = useState('');
+  const [selectedScopes, setSelectedScopes] = useState<string[]>([]);
+  const [expiryIndex, setExpiryIndex] = useState(1);
+  const [createdKey, setCreatedKey] = useState<string | null>(null);
+
+  const loadKeys = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/keys', {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load API keys');
+      }
+
+      setKeys(data.keys);
+      setScopes(data.scopes);
+    } catch (error) {
+      console.error('Error loading API keys:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadKeys();
+  }, [loadKeys]);
+
+  const toggleScope = (scope: string) => {
+    setSelectedScopes(current => current.includes(scope)
+      ? current.filter(s => s !== scope)
+      : [...current, scope]);
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+
+    if (selectedScopes.length === 0) {
+      toast.error('Select at least one scope');
+      return;
+    }
+
+    try {
+      const response = await fetch('/api/keys', {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader(),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({
+          name,
+          scopes: selectedScopes,
+          expiresInDays: EXPIRY_OPTIONS[expiryIndex].days
+        })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create API key');
+      }
+
+      setCreatedKey(data.key);
+      setName('');
+      setSelectedScopes([]);
+      toast.success(`API key ${name} created`);
+      await loadKeys();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke API key "${apiKey.name}"? Anything using it will stop working.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/keys/${apiKey.id}/revoke`, {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to revoke API key');
+      }
+
+      toast.success(`API key ${apiKey.name} revoked`);
+      await loadKeys();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+    try {
+      await navigator.clipboard.writeText(createdKey);
+      toast.success('Copied to clipboard');
+    } catch {
+      toast.error('Could not copy - select the key and copy it manually');
+    }
+  };
+
+  const scopeLabel = (scope: string) => scopes.find(s => s.scope === scope)?.label || scope;
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">API Keys</h2>
+        <button
+          type="button"
+          onClick={loadKeys}
+          disabled={isLoading}
+          className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-400">
+        Keys let scripts and CI call the API with <code className="text-amber-200">Authorization: Bearer &lt;key&gt;</code>.
+        A key acts as you, but only on the routes its scopes allow.
+      </p>
+
+      {/* The plaintext key is only available right after creation */}
+      {createdKey && (
+        <div className="bg-black/30 border border-amber-500/40 rounded-lg p-5 space-y-3">
+          <h3 className="text-lg font-mono text-amber-400">New API Key</h3>
+          <p className="text-sm text-gray-400">Copy this key now. It will not be shown again.</p>
+          <code className="block break-all bg-zinc-900/80 rounded px-3 py-2 text-amber-200 text-sm">{createdKey}</code>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={handleCopy}
+              className="px-3 py-1 bg-amber-500/20 text-amber-300 rounded-md hover:bg-amber-500/30 transition-colors font-mono text-xs"
+            >
+              Copy
+            </button>
+            <button
+              type="button"
+              onClick={() => setCreatedKey(null)}
+              className="px-3 py-1 bg-zinc-800 text-gray-300 rounded-md hover:bg-zinc-700 transition-colors font-mono text-xs"
+            >
+              Done
+            </button>
+          </div>
+        </div>
+      )}
+
+      <form onSubmit={handleCreate} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="api-key-name" className="block text-sm font-mono text-gray-300">Name</label>
+            <input
+              id="api-key-name"
+              type="text"
+              required
+              maxLength={64}
+              placeholder="e.g. CI deploy"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="api-key-expiry" className="block text-sm font-mono text-gray-300">Expires</label>
+            <select
+              id="api-key-expiry"
+              value={expiryIndex}
+              onChange={(e) => setExpiryIndex(Number(e.target.value))}
+              className={inputClassName}
+            >
+              {EXPIRY_OPTIONS.map((option, index) => (
+                <option key={option.label} value={index}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <span className="block text-sm font-mono text-gray-300">Scopes</span>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {scopes.map(scope => (
+              <label key={scope.scope} className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={selectedScopes.includes(scope.scope)}
+                  onChange={() => toggleScope(scope.scope)}
+                  className="accent-amber-500"
+                />
+                {scope.label}
+                <span className="text-xs text-amber-400/60 font-mono">{scope.scope}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors font-mono text-sm"
+        >
+          Create Key
+        </button>
+      </form>
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+            <tr>
+              <th className="px-4 py-2">Name</th>
+              <th className="px-4 py-2">Owner</th>
+              <th className="px-4 py-2">Scopes</th>
+              <th className="px-4 py-2">Expires (UTC)</th>
+              <th className="px-4 py-2">Last Used (UTC)</th>
+              <th className="px-4 py-2">Status</th>
+              <th className="px-4 py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {keys.map(apiKey => {
+              const state = getKeyState(apiKey);
+              return (
+                <tr key={apiKey.id} className="border-t border-amber-500/10 text-gray-300">
+                  <td className="px-4 py-2">
+                    {apiKey.name}
+                    <span className="block text-xs text-amber-400/60">{apiKey.prefix}...</span>
+                  </td>
+                  <td className="px-4 py-2">{apiKey.username}</td>
+                  <td className="px-4 py-2 text-xs">{apiKey.scopes.map(scopeLabel).join(', ')}</td>
+                  <td className="px-4 py-2 text-xs text-amber-400/60">{apiKey.expires_at || 'Never'}</td>
+                  <td className="px-4 py-2 text-xs text-amber-400/60">
+                    {apiKey.last_used_at ? `${apiKey.last_used_at}${apiKey.last_used_ip ? ` from ${apiKey.last_used_ip}` : ''}` : 'Never'}
+                  </td>
+                  <td className="px-4 py-2 text-xs">
+                    <span className={state === 'active' ? 'text-green-400' : 'text-red-400'}>{state}</span>
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {state === 'active' && (
+                      <button
+                        type="button"
+                        onClick={() => handleRevoke(apiKey)}
+                        className="px-2 py-1 bg-red-900/20 text-red-400 rounded text-xs hover:bg-red-900/30 transition-colors"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+            {!isLoading && keys.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-amber-400/60">No API keys yet</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
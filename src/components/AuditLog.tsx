@@ -0,0 +1,280 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+
+const PAGE_SIZE = 50;
+
+// Audit log entry as returned by /api/audit
+interface AuditEntry {
+  id: number;
+  created_at: string;
+  username: string;
+  ip: string | null;
+  action: string;
+  target: string | null;
+  details: Record<string, unknown> | null;
+  success: boolean;
+  error: string | null;
+}
+
+interface AuditFilters {
+  search: string;
+  action: string;
+  username: string;
+  success: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { search: '', action: '', username: '', success: '', from: '', to: '' };
+
+/**
+ * Convert a datetime-local input value to the UTC format SQLite timestamps use
+ */
+const toSqliteTimestamp = (value: string): string => {
+  return value ? new Date(value).toISOString().slice(0, 19).replace('T', ' ') : '';
+};
+
+export default function AuditLog() {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(1);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filterInput, setFilterInput] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  // Load the current page of entries
+  const loadEntries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(PAGE_SIZE) });
+      for (const [key, value] of Object.entries(filters)) {
+        const paramValue = key === 'from' || key === 'to' ? toSqliteTimestamp(value) : value;
+        if (paramValue) {
+          params.set(key, paramValue);
+        }
+      }
+
+      const response = await fetch(`/api/audit?${params.toString()}`, {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load audit log');
+      }
+
+      setEntries(data.entries);
+      setTotal(data.total);
+      setActions(data.actions);
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [page, filters]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilters(filterInput);
+  };
+
+  const handleReset = () => {
+    setPage(1);
+    setFilterInput(EMPTY_FILTERS);
+    setFilters(EMPTY_FILTERS);
+  };
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setFilterInput(prev => ({ ...prev, [key]: value }));
+  };
+
+  const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Administrative Actions</h2>
+        <button
+          type="button"
+          onClick={loadEntries}
+          disabled={isLoading}
+          className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {/* Search and filters */}
+      <form onSubmit={handleSearch} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2 md:col-span-3">
+            <label htmlFor="audit-search" className="block text-sm font-mono text-gray-300">Search</label>
+            <input
+              id="audit-search"
+              type="text"
+              placeholder="Username, target, command, error..."
+              value={filterInput.search}
+              onChange={(e) => updateFilter('search', e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="audit-action" className="block text-sm font-mono text-gray-300">Action</label>
+            <select
+              id="audit-action"
+              value={filterInput.action}
+              onChange={(e) => updateFilter('action', e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">All actions</option>
+              {actions.map(action => (
+                <option key={action} value={action}>{action}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="audit-username" className="block text-sm font-mono text-gray-300">User</label>
+            <input
+              id="audit-username"
+              type="text"
+              value={filterInput.username}
+              onChange={(e) => updateFilter('username', e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="audit-success" className="block text-sm font-mono text-gray-300">Outcome</label>
+            <select
+              id="audit-success"
+              value={filterInput.success}
+              onChange={(e) => updateFilter('success', e.target.value)}
+              className={inputClassName}
+            >
+              <option value="">Any</option>
+              <option value="true">Succeeded</option>
+              <option value="false">Failed</option>
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="audit-from" className="block text-sm font-mono text-gray-300">From</label>
+            <input
+              id="audit-from"
+              type="datetime-local"
+              value={filterInput.from}
+              onChange={(e) => updateFilter('from', e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="audit-to" className="block text-sm font-mono text-gray-300">To</label>
+            <input
+              id="audit-to"
+              type="datetime-local"
+              value={filterInput.to}
+              onChange={(e) => updateFilter('to', e.target.value)}
+              className={inputClassName}
+            />
+          </div>
+          <div className="flex items-end gap-2">
+            <button
+              type="submit"
+              className="flex-1 px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors font-mono text-sm"
+            >
+              Search
+            </button>
+            <button
+              type="button"
+              onClick={handleReset}
+              className="px-4 py-2 bg-zinc-800 text-gray-300 rounded hover:bg-zinc-700 transition-colors font-mono text-sm"
+            >
+              Reset
+            </button>
+          </div>
+        </div>
+      </form>
+
+      {/* Entries */}
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-x-auto">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+            <tr>
+              <th className="px-4 py-2">Time (UTC)</th>
+              <th className="px-4 py-2">User</th>
+              <th className="px-4 py-2">IP</th>
+              <th className="px-4 py-2">Action</th>
+              <th className="px-4 py-2">Target</th>
+              <th className="px-4 py-2">Details</th>
+              <th className="px-4 py-2">Outcome</th>
+            </tr>
+          </thead>
+          <tbody>
+            {entries.map(entry => (
+              <tr key={entry.id} className="border-t border-amber-500/10 text-gray-300 align-top">
+                <td className="px-4 py-2 text-xs text-amber-400/60 whitespace-nowrap">{entry.created_at}</td>
+                <td className="px-4 py-2">{entry.username}</td>
+                <td className="px-4 py-2 text-xs text-amber-400/60">{entry.ip || '-'}</td>
+                <td className="px-4 py-2 text-amber-300">{entry.action}</td>
+                <td className="px-4 py-2 text-xs break-all">{entry.target || '-'}</td>
+                <td className="px-4 py-2 text-xs break-all text-gray-400">
+                  {entry.details ? JSON.stringify(entry.details) : '-'}
+                </td>
+                <td className="px-4 py-2 text-xs">
+                  {entry.success ? (
+                    <span className="text-green-400">OK</span>
+                  ) : (
+                    <span className="text-red-400" title={entry.error || undefined}>
+                      Failed{entry.error ? `: ${entry.error}` : ''}
+                    </span>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {!isLoading && entries.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-amber-400/60">No matching entries</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination */}
+      <div className="flex justify-between items-center text-xs font-mono text-amber-400/70">
+        <span>{total} entries</span>
+        <div className="flex items-center gap-2">
+          <button
+            type="button"
+            onClick={() => setPage(prev => prev - 1)}
+            disabled={page <= 1 || isLoading}
+            className="px-3 py-1 bg-amber-500/20 text-amber-300 rounded-md hover:bg-amber-500/30 transition-colors disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <span>Page {page} of {totalPages}</span>
+          <button
+            type="button"
+            onClick={() => setPage(prev => prev + 1)}
+            disabled={page >= totalPages || isLoading}
+            className="px-3 py-1 bg-amber-500/20 text-amber-300 rounded-md hover:bg-amber-500/30 transition-colors disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,252 @@
+'use client';
+
+import { Fragment, useState, useEffect, useCallback, type FormEvent } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { getInstanceHeader } from '@/lib/instance';
+import { useSocket } from '@/hooks/useSocket';
+
+// Crash record as returned by /api/server/crashes
+interface ServerCrash {
+  id: number;
+  occurred_at: string;
+  exit_code: number | null;
+  signal: string | null;
+  uptime_seconds: number | null;
+  action: 'restart' | 'limit' | 'disabled';
+  restart_delay_seconds: number | null;
+  log_tail: string | null;
+}
+
+interface RestartPolicy {
+  enabled: boolean;
+  initialDelaySeconds: number;
+  maxDelaySeconds: number;
+  maxRestarts: number;
+  windowMinutes: number;
+  logLines: number;
+}
+
+interface WatchdogStatus {
+  policy: RestartPolicy;
+  pendingRestartAt: string | null;
+  crashesInWindow: number;
+}
+
+interface CrashHistoryProps {
+  canEditPolicy: boolean;
+  // Changes whenever the server starts or stops, so the history is reloaded after a crash
+  serverRunning?: boolean;
+}
+
+const POLICY_FIELDS: { field: Exclude<keyof RestartPolicy, 'enabled'>; label: string }[] = [
+  { field: 'initialDelaySeconds', label: 'First restart delay (seconds)' },
+  { field: 'maxDelaySeconds', label: 'Longest restart delay (seconds)' },
+  { field: 'maxRestarts', label: 'Restarts allowed per window' },
+  { field: 'windowMinutes', label: 'Window (minutes)' },
+  { field: 'logLines', label: 'Log lines kept per crash' }
+];
+
+const ACTION_LABELS: Record<ServerCrash['action'], string> = {
+  restart: 'Restarted',
+  limit: 'Restart limit reached',
+  disabled: 'Not restarted'
+};
+
+const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+
+function describeExit(crash: ServerCrash): string {
+  if (crash.signal) return `Signal ${crash.signal}`;
+  if (crash.exit_code !== null) return `Exit code ${crash.exit_code}`;
+  // Exits of a server the dashboard re-attached to after a restart have no code
+  return 'Unknown';
+}
+
+export default function CrashHistory({ canEditPolicy, serverRunning }: CrashHistoryProps) {
+  const { currentInstance } = useSocket();
+  const instanceId = currentInstance?.id;
+  const [crashes, setCrashes] = useState<ServerCrash[]>([]);
+  const [watchdog, setWatchdog] = useState<WatchdogStatus | null>(null);
+  const [policy, setPolicy] = useState<RestartPolicy | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const loadCrashes = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/server/crashes', {
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load crash history');
+      }
+
+      setCrashes(data.crashes);
+      setWatchdog(data.watchdog);
+      setPolicy(data.watchdog.policy);
+    } catch (error) {
+      console.error('Error loading crash history:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [instanceId]);
+
+  // serverRunning is only a trigger - a crash or restart changes it
+  useEffect(() => {
+    loadCrashes();
+  }, [loadCrashes, serverRunning]);
+
+  const handleSavePolicy = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!policy) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/server/restart-policy', {
+        method: 'PUT',
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(policy)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save restart policy');
+      }
+
+      setPolicy(data.policy);
+      toast.success('Restart policy saved');
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Crash History</h2>
+        <button
+          type="button"
+          onClick={loadCrashes}
+          disabled={isLoading}
+          className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {watchdog && (
+        <p className="text-sm text-gray-400">
+          {watchdog.policy.enabled ? 'Automatic restarts are on.' : 'Automatic restarts are off.'}
+          {' '}{watchdog.crashesInWindow} of {watchdog.policy.maxRestarts} crashes allowed in the last {watchdog.policy.windowMinutes} minutes.
+          {watchdog.pendingRestartAt && (
+            <span className="text-amber-300"> Restart pending at {new Date(watchdog.pendingRestartAt).toLocaleTimeString()}.</span>
+          )}
+        </p>
+      )}
+
+      {canEditPolicy && policy && (
+        <form onSubmit={handleSavePolicy} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+          <label className="flex items-center gap-2 text-sm font-mono text-gray-300">
+            <input
+              type="checkbox"
+              checked={policy.enabled}
+              onChange={(e) => setPolicy({ ...policy, enabled: e.target.checked })}
+              className="accent-amber-500"
+            />
+            Restart the server automatically when it crashes
+          </label>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {POLICY_FIELDS.map(({ field, label }) => (
+              <div key={field} className="space-y-2">
+                <label htmlFor={`restart-policy-${field}`} className="block text-sm font-mono text-gray-300">{label}</label>
+                <input
+                  id={`restart-policy-${field}`}
+                  type="number"
+                  min={field === 'logLines' ? 0 : 1}
+                  required
+                  value={policy[field]}
+                  onChange={(e) => setPolicy({ ...policy, [field]: Number(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+          </div>
+
+          <button
+            type="submit"
+            disabled={isSaving}
+            className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors font-mono text-sm disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Policy'}
+          </button>
+        </form>
+      )}
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+            <tr>
+              <th className="px-4 py-2">Time (UTC)</th>
+              <th className="px-4 py-2">Exit</th>
+              <th className="px-4 py-2">Uptime</th>
+              <th className="px-4 py-2">Result</th>
+              <th className="px-4 py-2 text-right">Log</th>
+            </tr>
+          </thead>
+          <tbody>
+            {crashes.map(crash => (
+              <Fragment key={crash.id}>
+                <tr className="border-t border-amber-500/10 text-gray-300">
+                  <td className="px-4 py-2 text-xs text-amber-400/60">{crash.occurred_at}</td>
+                  <td className="px-4 py-2 text-red-400">{describeExit(crash)}</td>
+                  <td className="px-4 py-2 text-xs">{crash.uptime_seconds !== null ? `${crash.uptime_seconds}s` : 'N/A'}</td>
+                  <td className="px-4 py-2 text-xs">
+                    {ACTION_LABELS[crash.action]}
+                    {crash.restart_delay_seconds !== null && ` after ${crash.restart_delay_seconds}s`}
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    {crash.log_tail && (
+                      <button
+                        type="button"
+                        onClick={() => setExpandedId(expandedId === crash.id ? null : crash.id)}
+                        className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                      >
+                        {expandedId === crash.id ? 'Hide' : 'Show'}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+                {expandedId === crash.id && crash.log_tail && (
+                  <tr className="text-gray-400">
+                    <td colSpan={5} className="px-4 pb-3">
+                      <pre className="bg-black rounded border border-amber-500/20 p-3 text-xs whitespace-pre-wrap max-h-80 overflow-y-auto">{crash.log_tail}</pre>
+                    </td>
+                  </tr>
+                )}
+              </Fragment>
+            ))}
+            {!isLoading && crashes.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-amber-400/60">No crashes recorded</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
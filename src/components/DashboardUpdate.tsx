@@ -0,0 +1,261 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import {
+  UPDATE_PHASES,
+  UPDATE_STATE_LABELS,
+  type ReleaseInfo,
+  type UpdateStatus,
+  type VersionStatus
+} from '@/lib/updates';
+import { useSocket } from '@/hooks/useSocket';
+
+// Characters of git and npm output kept on screen - the tail is what explains a failure
+const MAX_OUTPUT_LENGTH = 64 * 1024;
+
+const STATE_CLASSES: Record<UpdateStatus['state'], string> = {
+  idle: 'text-gray-400',
+  running: 'text-amber-300',
+  succeeded: 'text-green-400',
+  failed: 'text-red-400',
+  'rolled-back': 'text-red-400'
+};
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString();
+
+export default function DashboardUpdate() {
+  const { socket } = useSocket();
+  const [version, setVersion] = useState<VersionStatus | null>(null);
+  const [releases, setReleases] = useState<ReleaseInfo[]>([]);
+  const [status, setStatus] = useState<UpdateStatus | null>(null);
+  const [output, setOutput] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const outputRef = useRef<HTMLPreElement>(null);
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/updates', {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load update status');
+      }
+
+      setVersion(data.version);
+      setReleases(data.releases);
+      setStatus(data.status);
+    } catch (error) {
+      console.error('Error loading update status:', error);
+      toast.error((error as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // Progress arrives as it happens; after the restart the new server reports how the swap went
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleStatus = (next: UpdateStatus) => {
+      setStatus(prev => {
+        if (prev?.state === 'running' && next.state === 'succeeded') {
+          toast.success(`Updated to v${next.toVersion} - reload the page to use it`, { duration: 10000 });
+        } else if (prev?.state === 'running' && (next.state === 'failed' || next.state === 'rolled-back')) {
+          toast.error(`Update failed: ${next.error}`);
+        }
+        return next;
+      });
+    };
+    const handleOutput = (chunk: string) => {
+      setOutput(prev => (prev + chunk).slice(-MAX_OUTPUT_LENGTH));
+    };
+
+    socket.on('update_status', handleStatus);
+    socket.on('update_output', handleOutput);
+    // A check or a preference change can offer another version
+    socket.on('update_version', loadStatus);
+    // Anything missed while disconnected, including the whole restart
+    socket.on('connect', loadStatus);
+    return () => {
+      socket.off('update_status', handleStatus);
+      socket.off('update_output', handleOutput);
+      socket.off('update_version', loadStatus);
+      socket.off('connect', loadStatus);
+    };
+  }, [socket, loadStatus]);
+
+  useEffect(() => {
+    if (outputRef.current) {
+      outputRef.current.scrollTop = outputRef.current.scrollHeight;
+    }
+  }, [output]);
+
+  const handleStart = async () => {
+    if (!version?.target || !confirm(`Update the dashboard from v${version.current} to v${version.target}? It restarts once the new version is built.`)) {
+      return;
+    }
+
+    setIsStarting(true);
+    setOutput('');
+    try {
+      const response = await fetch('/api/updates', {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to start the update');
+      }
+
+      setStatus(data.status);
+      toast.success('Update started - the dashboard keeps running until the new version is built');
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const isRunning = status?.state === 'running';
+  const currentPhase = UPDATE_PHASES.findIndex(item => item.phase === status?.phase);
+  // Releases listed newest first, so everything from the target down to the running version comes with it
+  const targetIndex = releases.findIndex(release => release.version === version?.target);
+  const incoming = targetIndex === -1 ? [] : releases.slice(targetIndex).filter(release => release.newer);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Dashboard Version</h2>
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={!version?.updateAvailable || isRunning || isStarting}
+          className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+        >
+          {isRunning ? 'Updating...' : isStarting ? 'Starting...' : 'Start Update'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <p className="text-sm font-mono text-amber-400/70 mb-1">Running</p>
+          <p className="text-lg font-bold text-amber-300">{version ? `v${version.current}` : 'N/A'}</p>
+        </div>
+        <div>
+          <p className="text-sm font-mono text-amber-400/70 mb-1">Offered</p>
+          <p className="text-lg font-bold text-amber-300">
+            {version?.target ? `v${version.target}` : 'Up to date'}
+            {version?.required && <span className="ml-2 text-xs text-red-400">Required</span>}
+            {version?.pinned && <span className="ml-2 text-xs text-amber-400/70">Pinned</span>}
+          </p>
+        </div>
+        <div>
+          <p className="text-sm font-mono text-amber-400/70 mb-1">Newest {version?.channel ?? ''} release</p>
+          <p className="text-lg font-bold text-amber-300">{version?.latest ? `v${version.latest}` : 'Unknown'}</p>
+        </div>
+      </div>
+
+      <p className="text-xs text-gray-500">
+        Last checked {version?.checkedAt ? formatTime(version.checkedAt) : 'never'}
+        {version?.error && <span className="text-red-400"> - the last check failed: {version.error}</span>}
+      </p>
+
+      {version?.required && (
+        <p className="text-sm text-red-400 bg-red-500/10 border border-red-500/30 rounded p-3">
+          A required release is waiting. The rest of the dashboard stays locked until it is installed.
+        </p>
+      )}
+
+      {incoming.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-mono text-amber-400">Changes since v{version?.current}</h3>
+          {incoming.map(release => (
+            <div key={release.version} className="bg-black/30 border border-amber-500/20 rounded p-4 space-y-2">
+              <p className="font-mono text-sm text-amber-300">
+                v{release.version}
+                {release.date && <span className="ml-2 text-xs text-gray-500">{new Date(release.date).toLocaleDateString()}</span>}
+                {release.skipped && !release.required && <span className="ml-2 text-xs text-gray-500">skipped, but included</span>}
+              </p>
+              <p className="text-sm text-gray-300 whitespace-pre-wrap">{release.changelog || 'No changelog was published.'}</p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {status && status.state !== 'idle' && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4 flex-wrap">
+            <h3 className="text-lg font-mono text-amber-400">
+              {status.fromVersion && status.toVersion ? `v${status.fromVersion} → v${status.toVersion}` : 'Last update'}
+            </h3>
+            <span className={`font-mono text-sm ${STATE_CLASSES[status.state]}`}>
+              {UPDATE_STATE_LABELS[status.state]}
+              {status.phase === 'rollback' && isRunning && ' - rolling back'}
+            </span>
+          </div>
+
+          <ol className="flex flex-wrap gap-2 font-mono text-xs">
+            {UPDATE_PHASES.map((item, index) => {
+              const reached = status.phase === 'done' ? status.state === 'succeeded' : index < currentPhase;
+              const active = isRunning && index === currentPhase;
+              return (
+                <li
+                  key={item.phase}
+                  className={`px-2 py-1 rounded border ${
+                    active
+                      ? 'border-amber-400 text-amber-300 bg-amber-500/20'
+                      : reached
+                        ? 'border-green-500/40 text-green-400'
+                        : 'border-zinc-700 text-gray-500'
+                  }`}
+                >
+                  {item.label}
+                </li>
+              );
+            })}
+          </ol>
+
+          {status.error && (
+            <pre className="text-sm text-red-400 bg-red-500/10 border border-red-500/30 rounded p-3 whitespace-pre-wrap">{status.error}</pre>
+          )}
+
+          <ul className="text-sm font-mono space-y-1">
+            {status.log.map(line => (
+              <li key={`${line.at}-${line.message}`} className="text-gray-300">
+                <span className="text-amber-400/60 mr-2">{new Date(line.at).toLocaleTimeString()}</span>
+                {line.message}
+              </li>
+            ))}
+          </ul>
+
+          {status.startedBy && status.startedAt && (
+            <p className="text-xs text-gray-500">
+              Started by {status.startedBy} at {formatTime(status.startedAt)}
+              {status.finishedAt && `, finished at ${formatTime(status.finishedAt)}`}
+            </p>
+          )}
+        </div>
+      )}
+
+      {output && (
+        <pre
+          ref={outputRef}
+          className="max-h-80 overflow-auto text-xs text-gray-300 bg-black/50 border border-amber-500/20 rounded p-3 whitespace-pre-wrap"
+        >
+          {output}
+        </pre>
+      )}
+    </div>
+  );
+}
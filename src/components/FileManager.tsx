@@ -3,6 +3,10 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import { toast } from 'react-hot-toast';
 import { NANOS_INSTALL_DIR } from './NanosOnboarding';
+import { useUser } from '@/hooks/useUser';
+import { getAuthHeader } from '@/lib/auth';
+import { getInstanceHeader } from '@/lib/instance';
+import { useSocket } from '@/hooks/useSocket';
 
 // Define types
 interface FileEntry {
@@ -41,43 +45,17 @@ export default function FileManager() {
   const [selectedFiles, setSelectedFiles] = useState<Set<string>>(new Set());
   const [draggedFile, setDraggedFile] = useState<FileEntry | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const { hasPermission } = useUser();
+  const canWrite = hasPermission('files.write');
+  const { currentInstance } = useSocket();
+  const instanceId = currentInstance?.id;
+  // Users who cannot list instances work on the default one
+  const installDir = currentInstance?.installDir ?? NANOS_INSTALL_DIR;
   
-  // Helper function to get the authentication header - memoized
-  const getAuthHeader = useCallback((): Record<string, string> => {
-    // Try multiple sources for authentication credentials
-    
-    // 1. First try sessionStorage (where socket connection stores them)
-    const storedCredentials = sessionStorage.getItem('credentials');
-    if (storedCredentials) {
-      return {
-        Authorization: `Basic ${storedCredentials}`
-      };
-    }
-    
-    // 2. Try localStorage
-    const username = localStorage.getItem('username');
-    const password = localStorage.getItem('password');
-    if (username && password) {
-      const base64Credentials = btoa(`${username}:${password}`);
-      // Also save to sessionStorage for future use
-      sessionStorage.setItem('credentials', base64Credentials);
-      return {
-        Authorization: `Basic ${base64Credentials}`
-      };
-    }
-    
-    // 3. Last resort - try to use 'admin:admin' (common default)
-    console.warn('No credentials found, using fallback admin:admin');
-    const fallbackCredentials = btoa('admin:admin');
-    return {
-      Authorization: `Basic ${fallbackCredentials}`
-    };
-  }, []);
-
   // Base directory paths based on the current tab - memoized
   const getBasePath = useCallback(() => {
-    return `${NANOS_INSTALL_DIR}/${currentTab.charAt(0).toUpperCase() + currentTab.slice(1)}`;
-  }, [currentTab]);
+    return `${installDir}/${currentTab.charAt(0).toUpperCase() + currentTab.slice(1)}`;
+  }, [currentTab, installDir]);
   
   // Load the contents of the current directory
   const loadDirectoryContents = useCallback(async (path?: string) => {
@@ -89,6 +67,7 @@ export default function FileManager() {
         method: 'GET',
         headers: {
           ...getAuthHeader(),
+          ...getInstanceHeader(instanceId),
         },
       });
       
@@ -123,7 +102,7 @@ export default function FileManager() {
     } finally {
       setIsLoading(false);
     }
-  }, [currentTab, getBasePath, getAuthHeader]);
+  }, [currentTab, getBasePath, instanceId]);
   
   // Handle directory change when clicking on a folder
   const handleDirectoryChange = (dirPath: string) => {
@@ -163,6 +142,7 @@ export default function FileManager() {
         method: 'DELETE',
         headers: {
           ...getAuthHeader(),
+          ...getInstanceHeader(instanceId),
         },
       });
       
@@ -201,6 +181,7 @@ export default function FileManager() {
         headers: {
           'Content-Type': 'application/json',
           ...getAuthHeader(),
+          ...getInstanceHeader(instanceId),
         },
         body: JSON.stringify({ path: filePath }),
       });
@@ -265,8 +246,8 @@ export default function FileManager() {
       // Configure the request
       xhr.open('POST', `/api/files/upload?type=${currentTab}`);
       
-      // Add auth header
-      const authHeader = getAuthHeader();
+      // Add auth and instance headers
+      const authHeader = { ...getAuthHeader(), ...getInstanceHeader(instanceId) };
       for (const key of Object.keys(authHeader)) {
         xhr.setRequestHeader(key, authHeader[key]);
       }
@@ -358,6 +339,7 @@ export default function FileManager() {
           headers: {
             'Content-Type': 'application/json',
             ...getAuthHeader(),
+            ...getInstanceHeader(instanceId),
           },
           body: JSON.stringify({ 
             sourcePath: filePath,
@@ -474,6 +456,7 @@ export default function FileManager() {
               headers: {
                 'Content-Type': 'application/json',
                 ...getAuthHeader(),
+                ...getInstanceHeader(instanceId),
               },
               body: JSON.stringify({ 
                 sourcePath,
@@ -512,6 +495,7 @@ export default function FileManager() {
           headers: {
             'Content-Type': 'application/json',
             ...getAuthHeader(),
+            ...getInstanceHeader(instanceId),
           },
           body: JSON.stringify({ 
             sourcePath,
@@ -666,7 +650,7 @@ export default function FileManager() {
           <button
             type="button"
             onClick={handleUploadClick}
-            disabled={isUploading}
+            disabled={isUploading || !canWrite}
             className="px-3 py-1 bg-amber-500/20 text-amber-300 rounded-md hover:bg-amber-500/30 transition-colors font-mono text-xs flex items-center disabled:opacity-50"
           >
             {isUploading ? (
@@ -712,7 +696,7 @@ export default function FileManager() {
           <button
             type="button"
             onClick={handleMoveUp}
-            disabled={isMoving || selectedFiles.size === 0 || breadcrumbs.length <= 1}
+            disabled={isMoving || !canWrite || selectedFiles.size === 0 || breadcrumbs.length <= 1}
             className="px-3 py-1 bg-amber-500/20 text-amber-300 rounded-md hover:bg-amber-500/30 transition-colors font-mono text-xs flex items-center disabled:opacity-50"
           >
             {isMoving ? (
@@ -727,7 +711,7 @@ export default function FileManager() {
           </button>
           
           {/* Delete Selected Button */}
-          {selectedFiles.size > 0 && (
+          {canWrite && selectedFiles.size > 0 && (
             <button
               type="button"
               onClick={() => {
@@ -756,6 +740,7 @@ export default function FileManager() {
                         method: 'DELETE',
                         headers: {
                           ...getAuthHeader(),
+                          ...getInstanceHeader(instanceId),
                         },
                       });
                       
@@ -931,22 +916,24 @@ export default function FileManager() {
                       {formatDate(file.modified)}
                     </td>
                     <td className="py-2 space-x-2 flex">
-                      <button
-                        type="button"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleDelete(file.path, file.isDirectory);
-                        }}
-                        className="px-2 py-1 bg-red-900/20 text-red-400 rounded hover:bg-red-900/30 transition-colors"
-                        title="Delete"
-                      >
-                        <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor" aria-labelledby={`delete-icon-${file.name}`}>
-                          <title id={`delete-icon-${file.name}`}>Delete</title>
-                          <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
-                        </svg>
-                      </button>
+                      {canWrite && (
+                        <button
+                          type="button"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(file.path, file.isDirectory);
+                          }}
+                          className="px-2 py-1 bg-red-900/20 text-red-400 rounded hover:bg-red-900/30 transition-colors"
+                          title="Delete"
+                        >
+                          <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" viewBox="0 0 20 20" fill="currentColor" aria-labelledby={`delete-icon-${file.name}`}>
+                            <title id={`delete-icon-${file.name}`}>Delete</title>
+                            <path fillRule="evenodd" d="M9 2a1 1 0 00-.894.553L7.382 4H4a1 1 0 000 2v10a2 2 0 002 2h8a2 2 0 002-2V6a1 1 0 100-2h-3.382l-.724-1.447A1 1 0 0011 2H9zM7 8a1 1 0 012 0v6a1 1 0 11-2 0V8zm5-1a1 1 0 00-1 1v6a1 1 0 102 0V8a1 1 0 00-1-1z" clipRule="evenodd" />
+                          </svg>
+                        </button>
+                      )}
                       
-                      {!file.isDirectory && isExtractable(file.name) && (
+                      {canWrite && !file.isDirectory && isExtractable(file.name) && (
                         <button
                           type="button"
                           onClick={(e) => {
@@ -0,0 +1,333 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { getInstanceHeader } from '@/lib/instance';
+import { getSearchPattern, toLogQuery, type LogFilter, type LogRecord } from '@/lib/logs';
+import { useSocket } from '@/hooks/useSocket';
+import { useUser } from '@/hooks/useUser';
+import LogFilters from './LogFilters';
+import LogLine from './LogLine';
+
+// Run as returned by /api/server/logs/archive
+interface LogRun {
+  id: number;
+  startedAt: string;
+  endedAt: string | null;
+  exitCode: number | null;
+  signal: string | null;
+  segments: number;
+  bytes: number;
+  compressedBytes: number;
+  live: boolean;
+}
+
+interface LogRetention {
+  segmentSizeMb: number;
+  maxRuns: number;
+  maxAgeDays: number;
+}
+
+interface LogMatch extends LogRecord {
+  line: number;
+}
+
+// Matches loaded per search - narrow the filter to see further into a long run
+const SEARCH_LIMIT = 1000;
+
+const RETENTION_FIELDS: { field: keyof LogRetention; label: string }[] = [
+  { field: 'segmentSizeMb', label: 'Segment size (MB)' },
+  { field: 'maxRuns', label: 'Runs kept per instance' },
+  { field: 'maxAgeDays', label: 'Days kept (0 = no limit)' }
+];
+
+const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function describeEnd(run: LogRun): string {
+  if (!run.endedAt) return run.live ? 'Running' : 'Unknown';
+  if (run.signal) return `${run.endedAt} (signal ${run.signal})`;
+  if (run.exitCode !== null) return `${run.endedAt} (exit code ${run.exitCode})`;
+  return run.endedAt;
+}
+
+export default function LogArchive() {
+  const { currentInstance } = useSocket();
+  const instanceId = currentInstance?.id;
+  const { hasPermission } = useUser();
+  const canEditRetention = hasPermission('server.control');
+  const [runs, setRuns] = useState<LogRun[]>([]);
+  const [retention, setRetention] = useState<LogRetention | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSavingRetention, setIsSavingRetention] = useState(false);
+  const [selectedRun, setSelectedRun] = useState<LogRun | null>(null);
+  const [filter, setFilter] = useState<LogFilter>({});
+  const [records, setRecords] = useState<LogMatch[]>([]);
+  const [total, setTotal] = useState(0);
+  const [sources, setSources] = useState<string[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const loadRuns = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/server/logs/archive', {
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load log history');
+      }
+
+      setRuns(data.runs);
+      setRetention(data.retention);
+    } catch (error) {
+      console.error('Error loading log history:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [instanceId]);
+
+  useEffect(() => {
+    loadRuns();
+    // Runs belong to the instance they were loaded for
+    setSelectedRun(null);
+  }, [loadRuns]);
+
+  const searchRun = useCallback(async (run: LogRun, runFilter: LogFilter) => {
+    setIsSearching(true);
+    try {
+      const query = new URLSearchParams({ limit: String(SEARCH_LIMIT), ...toLogQuery(runFilter) });
+      const response = await fetch(`/api/server/logs/archive/${run.id}/search?${query}`, {
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to search log');
+      }
+
+      setRecords(data.records);
+      setTotal(data.total);
+      setSources(data.sources);
+    } catch (error) {
+      console.error('Error searching log:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsSearching(false);
+    }
+  }, [instanceId]);
+
+  useEffect(() => {
+    if (selectedRun) {
+      searchRun(selectedRun, filter);
+    }
+  }, [selectedRun, filter, searchRun]);
+
+  const handleView = (run: LogRun) => {
+    setRecords([]);
+    setTotal(0);
+    setSelectedRun(run);
+  };
+
+  const handleDownload = async (run: LogRun) => {
+    try {
+      const response = await fetch(`/api/server/logs/archive/${run.id}/download`, {
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.message || 'Failed to download log');
+      }
+
+      // Downloads need the auth header, so the file is saved from a blob rather than a plain link
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${currentInstance?.slug ?? 'server'}-run-${run.id}.log`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  const handleSaveRetention = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!retention) return;
+
+    setIsSavingRetention(true);
+    try {
+      const response = await fetch('/api/server/logs/archive/retention', {
+        method: 'PUT',
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(retention)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save log retention');
+      }
+
+      setRetention(data.retention);
+      toast.success('Log retention saved');
+      await loadRuns();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSavingRetention(false);
+    }
+  };
+
+  const searchPattern = getSearchPattern(filter.search);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Server Runs</h2>
+        <button
+          type="button"
+          onClick={loadRuns}
+          disabled={isLoading}
+          className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      <p className="text-sm text-gray-400">
+        Every start of the server begins a new run. Its log is split into compressed segments as it grows and kept with the dashboard&apos;s data, so it survives reboots.
+      </p>
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+            <tr>
+              <th className="px-4 py-2">Run</th>
+              <th className="px-4 py-2">Started</th>
+              <th className="px-4 py-2">Ended</th>
+              <th className="px-4 py-2">Archived</th>
+              <th className="px-4 py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {runs.map(run => (
+              <tr
+                key={run.id}
+                className={`border-t border-amber-500/10 text-gray-300 ${selectedRun?.id === run.id ? 'bg-amber-500/10' : ''}`}
+              >
+                <td className="px-4 py-2">
+                  #{run.id}
+                  {run.live && <span className="ml-2 text-xs text-green-400">live</span>}
+                </td>
+                <td className="px-4 py-2 text-xs text-amber-400/60">{run.startedAt}</td>
+                <td className="px-4 py-2 text-xs text-amber-400/60">{describeEnd(run)}</td>
+                <td className="px-4 py-2 text-xs">
+                  {run.segments === 0
+                    ? '-'
+                    : `${run.segments} ${run.segments === 1 ? 'segment' : 'segments'}, ${formatBytes(run.bytes)} (${formatBytes(run.compressedBytes)} on disk)`}
+                </td>
+                <td className="px-4 py-2 text-right space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => handleView(run)}
+                    className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                  >
+                    View
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDownload(run)}
+                    className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                  >
+                    Download
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {!isLoading && runs.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-6 text-center text-gray-500">
+                  No runs recorded yet - the first start of the server begins one
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {selectedRun && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h3 className="text-lg font-mono text-amber-400">Run #{selectedRun.id}</h3>
+            <LogFilters filter={filter} sources={sources} onChange={setFilter} />
+          </div>
+          <div className="text-xs font-mono text-gray-400">
+            {isSearching
+              ? 'Searching...'
+              : total > records.length
+                ? `Showing the first ${records.length} of ${total} matching lines`
+                : `${total} matching ${total === 1 ? 'line' : 'lines'}`}
+          </div>
+          <div className="h-[500px] overflow-y-auto bg-black/30 border border-amber-500/20 rounded-lg p-4 font-mono text-sm">
+            {records.map(record => (
+              <LogLine key={record.line} record={record} searchPattern={searchPattern} line={record.line} />
+            ))}
+          </div>
+        </div>
+      )}
+
+      {retention && canEditRetention && (
+        <form onSubmit={handleSaveRetention} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+          <h3 className="text-lg font-mono text-amber-400">Retention</h3>
+          <p className="text-sm text-gray-400">
+            Applies to this instance only. The newest run is always kept.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {RETENTION_FIELDS.map(({ field, label }) => (
+              <div key={field} className="space-y-2">
+                <label htmlFor={`retention-${field}`} className="block text-sm font-mono text-gray-300">{label}</label>
+                <input
+                  id={`retention-${field}`}
+                  type="number"
+                  min={field === 'maxAgeDays' ? 0 : 1}
+                  required
+                  value={retention[field]}
+                  onChange={(e) => setRetention({ ...retention, [field]: Number(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+          </div>
+          <button
+            type="submit"
+            disabled={isSavingRetention}
+            className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors font-mono text-sm disabled:opacity-50"
+          >
+            {isSavingRetention ? 'Saving...' : 'Save Retention'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
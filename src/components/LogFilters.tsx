@@ -0,0 +1,102 @@
+'use client';
+
+import { useEffect, useState, type FormEvent } from 'react';
+import { LOG_LEVELS, getSearchPattern, type LogFilter, type LogLevel } from '@/lib/logs';
+
+interface LogFiltersProps {
+  filter: LogFilter;
+  // Packages seen in the log, offered as sources to filter on
+  sources: string[];
+  onChange: (filter: LogFilter) => void;
+}
+
+const levelClassNames: Record<LogLevel, string> = {
+  debug: 'text-gray-400 border-gray-500/40',
+  info: 'text-green-300 border-green-500/40',
+  warning: 'text-yellow-300 border-yellow-500/40',
+  error: 'text-red-300 border-red-500/40'
+};
+
+export default function LogFilters({ filter, sources, onChange }: LogFiltersProps) {
+  // The search is only applied when submitted, so typing does not refetch on every key
+  const [search, setSearch] = useState(filter.search ?? '');
+  const levels = filter.levels ?? [...LOG_LEVELS];
+  const source = filter.sources?.[0] ?? '';
+  const isSearchValid = !search || getSearchPattern(search) !== null;
+
+  useEffect(() => {
+    setSearch(filter.search ?? '');
+  }, [filter.search]);
+
+  const toggleLevel = (level: LogLevel) => {
+    const next = levels.includes(level) ? levels.filter(item => item !== level) : [...levels, level];
+    // A filter without levels would hide everything
+    if (next.length === 0) return;
+    onChange({ ...filter, levels: next.length === LOG_LEVELS.length ? undefined : next });
+  };
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    if (!isSearchValid) return;
+    onChange({ ...filter, search: search || undefined });
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-xs font-mono">
+      {LOG_LEVELS.map(level => (
+        <button
+          key={level}
+          type="button"
+          onClick={() => toggleLevel(level)}
+          className={`px-2 py-0.5 rounded border transition-colors ${levelClassNames[level]} ${
+            levels.includes(level) ? 'bg-black/50' : 'opacity-40 border-transparent'
+          }`}
+        >
+          {level}
+        </button>
+      ))}
+
+      <select
+        aria-label="Package"
+        value={source}
+        onChange={(e) => onChange({ ...filter, sources: e.target.value ? [e.target.value] : undefined })}
+        className="bg-black/50 border border-amber-500/40 text-amber-300 rounded px-2 py-0.5"
+      >
+        <option value="">All packages</option>
+        {/* Keep the selected package listed even when the current log no longer names it */}
+        {(source && !sources.includes(source) ? [source, ...sources] : sources).map(name => (
+          <option key={name} value={name}>{name}</option>
+        ))}
+      </select>
+
+      <form onSubmit={handleSearch} className="flex items-center gap-1">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search (regex)"
+          maxLength={200}
+          className={`w-48 bg-black/50 border rounded px-2 py-0.5 text-amber-300 focus:outline-none ${
+            isSearchValid ? 'border-amber-500/40' : 'border-red-500/60'
+          }`}
+        />
+        <button
+          type="submit"
+          disabled={!isSearchValid}
+          className="px-2 py-0.5 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+        >
+          Search
+        </button>
+        {filter.search && (
+          <button
+            type="button"
+            onClick={() => onChange({ ...filter, search: undefined })}
+            className="px-2 py-0.5 bg-zinc-800 text-gray-300 rounded hover:bg-zinc-700 transition-colors"
+          >
+            Clear
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
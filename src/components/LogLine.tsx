@@ -0,0 +1,34 @@
+'use client';
+
+import { splitMatches, stripAnsi, type LogLevel, type LogRecord } from '@/lib/logs';
+
+interface LogLineProps {
+  record: LogRecord;
+  // Matches of the current search, highlighted in the line
+  searchPattern: RegExp | null;
+  // Line number within the log, shown in front when given
+  line?: number;
+}
+
+const levelClassNames: Record<LogLevel, string> = {
+  debug: 'text-gray-500',
+  info: 'text-green-300',
+  warning: 'text-yellow-300',
+  error: 'text-red-400'
+};
+
+export default function LogLine({ record, searchPattern, line }: LogLineProps) {
+  return (
+    <div className={`whitespace-pre-wrap break-all ${levelClassNames[record.level]}`}>
+      {line !== undefined && (
+        <span className="inline-block w-16 pr-2 text-right text-amber-500/40 select-none">{line}</span>
+      )}
+      {splitMatches(stripAnsi(record.raw), searchPattern).map((part, index) => part.match ? (
+        // Parts never move within a line, so their position is a stable key
+        <mark key={index} className="bg-amber-400/80 text-black rounded-sm">{part.text}</mark>
+      ) : (
+        part.text || ' '
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,195 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { useUser } from '@/hooks/useUser';
+import { getAuthHeader } from '@/lib/auth';
+
+// IP or username with recent failed logins, as returned by /api/auth/lockouts
+interface Lockout {
+  scope: 'ip' | 'username';
+  key: string;
+  failures: number;
+  last_failure_at: string;
+  retry_after: number;
+  locked: boolean;
+}
+
+// Failed login as recorded in the audit log
+interface FailedLogin {
+  id: number;
+  created_at: string;
+  username: string;
+  ip: string | null;
+  details: { channel?: string } | null;
+  error: string | null;
+}
+
+export default function LoginLockouts() {
+  const { hasPermission } = useUser();
+  const canViewAudit = hasPermission('audit.view');
+  const [lockouts, setLockouts] = useState<Lockout[]>([]);
+  const [failedLogins, setFailedLogins] = useState<FailedLogin[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Load throttled IPs/usernames and, if allowed, the latest failed attempts
+  const loadLockouts = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/auth/lockouts', {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load lockouts');
+      }
+
+      setLockouts(data.lockouts);
+
+      if (canViewAudit) {
+        const auditResponse = await fetch('/api/audit?action=auth.login&success=false&pageSize=20', {
+          headers: {
+            ...getAuthHeader()
+          }
+        });
+        const auditData = await auditResponse.json();
+        if (auditResponse.ok) {
+          setFailedLogins(auditData.entries);
+        }
+      }
+    } catch (error) {
+      console.error('Error loading lockouts:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [canViewAudit]);
+
+  useEffect(() => {
+    loadLockouts();
+  }, [loadLockouts]);
+
+  // Forget the failures of an IP or username
+  const handleClear = async (lockout: Lockout) => {
+    try {
+      const response = await fetch(`/api/auth/lockouts/${lockout.scope}/${encodeURIComponent(lockout.key)}`, {
+        method: 'DELETE',
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to clear lockout');
+      }
+
+      toast.success(`Cleared failed logins for ${lockout.key}`);
+      await loadLockouts();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Login Lockouts</h2>
+        <button
+          type="button"
+          onClick={loadLockouts}
+          disabled={isLoading}
+          className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+            <tr>
+              <th className="px-4 py-2">Type</th>
+              <th className="px-4 py-2">IP / Username</th>
+              <th className="px-4 py-2">Failures</th>
+              <th className="px-4 py-2">Last Failure (UTC)</th>
+              <th className="px-4 py-2">Status</th>
+              <th className="px-4 py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lockouts.map(lockout => (
+              <tr key={`${lockout.scope}:${lockout.key}`} className="border-t border-amber-500/10 text-gray-300">
+                <td className="px-4 py-2 text-xs text-amber-400/60">{lockout.scope}</td>
+                <td className="px-4 py-2">{lockout.key}</td>
+                <td className="px-4 py-2">{lockout.failures}</td>
+                <td className="px-4 py-2 text-xs text-amber-400/60">{lockout.last_failure_at}</td>
+                <td className="px-4 py-2 text-xs">
+                  {lockout.locked ? (
+                    <span className="text-red-400">Locked ({lockout.retry_after}s)</span>
+                  ) : lockout.retry_after > 0 ? (
+                    <span className="text-amber-400">Backing off ({lockout.retry_after}s)</span>
+                  ) : (
+                    <span className="text-gray-400">Watching</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-right">
+                  <button
+                    type="button"
+                    onClick={() => handleClear(lockout)}
+                    className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                  >
+                    Clear
+                  </button>
+                </td>
+              </tr>
+            ))}
+            {!isLoading && lockouts.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-6 text-center text-amber-400/60">No recent failed logins</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {canViewAudit && (
+        <div className="space-y-2">
+          <h3 className="text-lg font-mono text-amber-400">Recent Failed Attempts</h3>
+          <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+            <table className="w-full text-sm font-mono">
+              <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+                <tr>
+                  <th className="px-4 py-2">Time (UTC)</th>
+                  <th className="px-4 py-2">Username</th>
+                  <th className="px-4 py-2">IP</th>
+                  <th className="px-4 py-2">Via</th>
+                  <th className="px-4 py-2">Reason</th>
+                </tr>
+              </thead>
+              <tbody>
+                {failedLogins.map(attempt => (
+                  <tr key={attempt.id} className="border-t border-amber-500/10 text-gray-300">
+                    <td className="px-4 py-2 text-xs text-amber-400/60">{attempt.created_at}</td>
+                    <td className="px-4 py-2">{attempt.username}</td>
+                    <td className="px-4 py-2 text-xs">{attempt.ip || '-'}</td>
+                    <td className="px-4 py-2 text-xs">{attempt.details?.channel || '-'}</td>
+                    <td className="px-4 py-2 text-xs text-red-400">{attempt.error}</td>
+                  </tr>
+                ))}
+                {!isLoading && failedLogins.length === 0 && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-6 text-center text-amber-400/60">No failed attempts recorded</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
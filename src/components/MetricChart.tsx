@@ -0,0 +1,100 @@
+'use client';
+
+import { useState, type MouseEvent } from 'react';
+import { formatSampleTime } from '@/lib/metrics';
+
+export interface ChartSeries {
+  label: string;
+  // Tailwind text colour - the line is drawn in currentColor
+  className: string;
+  values: number[];
+}
+
+interface MetricChartProps {
+  title: string;
+  // Unix seconds, one per value of every series
+  timestamps: number[];
+  series: ChartSeries[];
+  // Seconds each point averages - wider gaps than this are left undrawn
+  step: number;
+  format: (value: number) => string;
+  // Fixed top of the scale, e.g. 100 for percentages - otherwise the highest value
+  max?: number;
+  withDate: boolean;
+}
+
+const WIDTH = 600;
+const HEIGHT = 140;
+
+export default function MetricChart({ title, timestamps, series, step, format, max, withDate }: MetricChartProps) {
+  // Point under the cursor, null shows the latest
+  const [hovered, setHovered] = useState<number | null>(null);
+
+  const first = timestamps[0] ?? 0;
+  const span = Math.max(1, (timestamps[timestamps.length - 1] ?? 0) - first);
+  const top = max ?? Math.max(1, ...series.flatMap(line => line.values));
+  const x = (timestamp: number) => ((timestamp - first) / span) * WIDTH;
+  const y = (value: number) => HEIGHT - (Math.min(value, top) / top) * HEIGHT;
+
+  // The dashboard not running shows as a break in the line rather than a straight one across
+  const toPath = (values: number[]) => values.map((value, i) => {
+    const joined = i > 0 && timestamps[i] - timestamps[i - 1] <= step * 2;
+    return `${joined ? 'L' : 'M'}${x(timestamps[i]).toFixed(1)},${y(value).toFixed(1)}`;
+  }).join(' ');
+
+  const handleMouseMove = (e: MouseEvent<SVGSVGElement>) => {
+    if (timestamps.length === 0) return;
+    const bounds = e.currentTarget.getBoundingClientRect();
+    const at = first + ((e.clientX - bounds.left) / bounds.width) * span;
+    let nearest = 0;
+    timestamps.forEach((timestamp, i) => {
+      if (Math.abs(timestamp - at) < Math.abs(timestamps[nearest] - at)) nearest = i;
+    });
+    setHovered(nearest);
+  };
+
+  const shown = hovered ?? timestamps.length - 1;
+
+  return (
+    <div className="bg-black/30 border border-amber-500/20 rounded-lg p-4 space-y-2">
+      <div className="flex items-baseline justify-between gap-2 font-mono">
+        <h3 className="text-sm text-amber-400">{title}</h3>
+        {shown >= 0 && (
+          <span className="text-xs text-amber-400/60">{formatSampleTime(timestamps[shown], withDate)}</span>
+        )}
+      </div>
+      <div className="flex flex-wrap gap-x-4 text-xs font-mono">
+        {series.map(line => (
+          <span key={line.label} className={line.className}>
+            {line.label}: {shown >= 0 ? format(line.values[shown]) : '-'}
+          </span>
+        ))}
+      </div>
+      {timestamps.length === 0 ? (
+        <div className="h-32 flex items-center justify-center text-xs font-mono text-amber-400/60">No samples in this range yet</div>
+      ) : (
+        <svg
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          preserveAspectRatio="none"
+          className="w-full h-32"
+          onMouseMove={handleMouseMove}
+          onMouseLeave={() => setHovered(null)}
+        >
+          {[0.25, 0.5, 0.75].map(fraction => (
+            <line key={fraction} x1={0} x2={WIDTH} y1={HEIGHT * fraction} y2={HEIGHT * fraction} className="stroke-amber-500/10" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+          ))}
+          {series.map(line => (
+            <path key={line.label} d={toPath(line.values)} fill="none" stroke="currentColor" strokeWidth={1.5} vectorEffect="non-scaling-stroke" className={line.className} />
+          ))}
+          {hovered !== null && (
+            <line x1={x(timestamps[hovered])} x2={x(timestamps[hovered])} y1={0} y2={HEIGHT} className="stroke-amber-300/40" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+          )}
+        </svg>
+      )}
+      <div className="flex justify-between text-[10px] font-mono text-amber-400/50">
+        <span>{timestamps.length > 0 ? formatSampleTime(first, withDate) : ''}</span>
+        <span>max {format(top)}</span>
+      </div>
+    </div>
+  );
+}
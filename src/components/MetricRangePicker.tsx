@@ -0,0 +1,27 @@
+'use client';
+
+import { METRIC_RANGES, type MetricRange } from '@/lib/metrics';
+
+interface MetricRangePickerProps {
+  range: MetricRange;
+  onChange: (range: MetricRange) => void;
+}
+
+export default function MetricRangePicker({ range, onChange }: MetricRangePickerProps) {
+  return (
+    <div className="flex gap-1 font-mono text-xs">
+      {METRIC_RANGES.map(option => (
+        <button
+          key={option}
+          type="button"
+          onClick={() => onChange(option)}
+          className={`px-2 py-1 rounded transition-colors ${
+            option === range ? 'bg-amber-500/40 text-amber-200' : 'bg-amber-500/10 text-amber-400/70 hover:bg-amber-500/20'
+          }`}
+        >
+          {option}
+        </button>
+      ))}
+    </div>
+  );
+}
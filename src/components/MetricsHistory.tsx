@@ -0,0 +1,103 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { formatBytes, type MetricRange, type MetricSample } from '@/lib/metrics';
+import MetricChart from './MetricChart';
+import MetricRangePicker from './MetricRangePicker';
+
+// New samples are averaged in at least this often, so reloading faster shows nothing new
+const REFRESH_INTERVAL = 60 * 1000;
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+const formatRate = (value: number) => `${formatBytes(value)}/s`;
+
+const percentOf = (used: number, total: number) => (total > 0 ? (used / total) * 100 : 0);
+
+export default function MetricsHistory() {
+  const [range, setRange] = useState<MetricRange>('24h');
+  const [samples, setSamples] = useState<MetricSample[]>([]);
+  const [step, setStep] = useState(0);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/system/metrics/history?range=${range}`, {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load metrics history');
+      }
+
+      setSamples(data.samples);
+      setStep(data.step);
+    } catch (error) {
+      console.error('Error loading metrics history:', error);
+      toast.error((error as Error).message);
+    }
+  }, [range]);
+
+  useEffect(() => {
+    loadHistory();
+    const interval = setInterval(loadHistory, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadHistory]);
+
+  const timestamps = samples.map(sample => sample.timestamp);
+  const withDate = range.endsWith('d');
+  const latest = samples[samples.length - 1];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center gap-4 flex-wrap">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Resource History</h2>
+        <MetricRangePicker range={range} onChange={setRange} />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <MetricChart
+          title="CPU"
+          timestamps={timestamps}
+          series={[{ label: 'Usage', className: 'text-amber-400', values: samples.map(sample => sample.cpu) }]}
+          step={step}
+          format={formatPercent}
+          max={100}
+          withDate={withDate}
+        />
+        <MetricChart
+          title={latest ? `Memory of ${formatBytes(latest.memoryTotal)}` : 'Memory'}
+          timestamps={timestamps}
+          series={[{ label: 'Used', className: 'text-green-400', values: samples.map(sample => percentOf(sample.memoryUsed, sample.memoryTotal)) }]}
+          step={step}
+          format={formatPercent}
+          max={100}
+          withDate={withDate}
+        />
+        <MetricChart
+          title={latest ? `Disk of ${formatBytes(latest.diskTotal)}` : 'Disk'}
+          timestamps={timestamps}
+          series={[{ label: 'Used', className: 'text-sky-400', values: samples.map(sample => percentOf(sample.diskUsed, sample.diskTotal)) }]}
+          step={step}
+          format={formatPercent}
+          max={100}
+          withDate={withDate}
+        />
+        <MetricChart
+          title="Network"
+          timestamps={timestamps}
+          series={[
+            { label: 'In', className: 'text-green-400', values: samples.map(sample => sample.networkRx) },
+            { label: 'Out', className: 'text-red-400', values: samples.map(sample => sample.networkTx) }
+          ]}
+          step={step}
+          format={formatRate}
+          withDate={withDate}
+        />
+      </div>
+    </div>
+  );
+}
@@ -2,7 +2,6 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useSocket } from '@/hooks/useSocket';
-import { NANOS_INSTALL_DIR } from './NanosOnboarding';
 import { toast } from 'react-hot-toast';
 
 // Define module type
@@ -32,15 +31,8 @@ interface InstalledModule {
   };
 }
 
-// Define types for socket commands
-interface CommandResult {
-  stdout: string;
-  stderr: string;
-  error?: string;
-}
-
 export default function ModulesManager() {
-  const { executeCommand } = useSocket();
+  const { runTask, currentInstance } = useSocket();
   const [availableModules, setAvailableModules] = useState<Module[]>([]);
   const [installedModules, setInstalledModules] = useState<InstalledModule[]>([]);
   const [isLoading, setIsLoading] = useState(true);
@@ -122,37 +114,16 @@ export default function ModulesManager() {
   // Function to load installed modules data
   const loadInstalledModules = useCallback(async () => {
     try {
-      // In a real implementation, this would be an API call or read from a tracking file
-      const installedModulesPath = `${NANOS_INSTALL_DIR}/installed_modules.json`;
-      
-      // Check if the tracking file exists
-      const result = await executeCommand(`test -f ${installedModulesPath} && echo "exists" || echo "not found"`);
-      const fileExists = result as unknown as CommandResult;
-      
-      if (fileExists.stdout.trim() === "exists") {
-        // Read the file if it exists
-        const result = await executeCommand(`cat ${installedModulesPath}`);
-        const readFile = result as unknown as CommandResult;
-        
-        if (!readFile.error) {
-          const installedData = JSON.parse(readFile.stdout);
-          setInstalledModules(installedData);
-        } else {
-          console.error("Error reading installed modules:", readFile.error);
-          setInstalledModules([]);
-        }
-      } else {
-        // Create an empty tracking file if it doesn't exist
-        await executeCommand(`echo '[]' > ${installedModulesPath}`);
-        setInstalledModules([]);
-      }
+      // The server keeps track of installed modules in installed_modules.json
+      const { result } = await runTask<InstalledModule[]>('modules.list');
+      setInstalledModules(result || []);
     } catch (error) {
       console.error("Error loading installed modules:", error);
       setInstalledModules([]);
     }
-  }, [executeCommand]);
+  }, [runTask]);
 
-  // Load modules and installation status
+  // Load modules and installation status - again on switching instance, as each has its own modules
   useEffect(() => {
     const loadData = async () => {
       setIsLoading(true);
@@ -167,7 +138,7 @@ export default function ModulesManager() {
     };
     
     loadData();
-  }, [loadInstalledModules]);
+  }, [loadInstalledModules, currentInstance?.id]);
 
   // Function to install a module
   const installModule = async (module: Module) => {
@@ -176,59 +147,16 @@ export default function ModulesManager() {
     try {
       toast.loading(`Installing ${module.name}...`, { id: `install-${module.id}` });
       
-      // Create a temp directory
-      await executeCommand(`mkdir -p ${NANOS_INSTALL_DIR}/temp`);
-      
-      // Download the zip file
-      toast.loading(`Downloading ${module.name}...`, { id: `install-${module.id}` });
-      await executeCommand(`cd ${NANOS_INSTALL_DIR}/temp && curl -L -o module.zip "${module.downloadUrl}"`);
-      
-      // Extract the zip file
-      toast.loading(`Extracting ${module.name}...`, { id: `install-${module.id}` });
-      await executeCommand(`cd ${NANOS_INSTALL_DIR}/temp && unzip -o module.zip`);
-      
-      // Get list of extracted packages and assets
-      const result1 = await executeCommand(`find ${NANOS_INSTALL_DIR}/temp/Packages -maxdepth 1 -mindepth 1 -type d -exec basename {} \\; 2>/dev/null || echo ""`);
-      const packagesResult = result1 as unknown as CommandResult;
-      const extractedPackages = packagesResult.stdout.split('\n').filter(Boolean);
-      
-      const result2 = await executeCommand(`find ${NANOS_INSTALL_DIR}/temp/Assets -maxdepth 1 -mindepth 1 -type d -exec basename {} \\; 2>/dev/null || echo ""`);
-      const assetsResult = result2 as unknown as CommandResult;
-      const extractedAssets = assetsResult.stdout.split('\n').filter(Boolean);
-      
-      // Create directories if they don't exist
-      await executeCommand(`mkdir -p ${NANOS_INSTALL_DIR}/Packages`);
-      await executeCommand(`mkdir -p ${NANOS_INSTALL_DIR}/Assets`);
-      
-      // Move packages
-      for (const pkg of extractedPackages) {
-        await executeCommand(`cp -r "${NANOS_INSTALL_DIR}/temp/Packages/${pkg}" "${NANOS_INSTALL_DIR}/Packages/"`);
-      }
-      
-      // Move assets
-      for (const asset of extractedAssets) {
-        await executeCommand(`cp -r "${NANOS_INSTALL_DIR}/temp/Assets/${asset}" "${NANOS_INSTALL_DIR}/Assets/"`);
-      }
-      
-      // Clean up
-      await executeCommand(`rm -rf ${NANOS_INSTALL_DIR}/temp`);
-      
-      // Update installed modules tracking
-      const newInstalledModule: InstalledModule = {
-        id: module.id,
-        installedAt: new Date().toISOString(),
+      // The server downloads, extracts and copies the module in one go
+      const { result } = await runTask<InstalledModule>('modules.install', {
+        moduleId: module.id,
         version: module.version,
-        files: {
-          packages: extractedPackages,
-          assets: extractedAssets
-        }
-      };
+        downloadUrl: module.downloadUrl
+      }, { timeout: 15 * 60 * 1000 }); // 15 minute timeout for large downloads
       
-      const updatedInstalledModules = [...installedModules, newInstalledModule];
-      setInstalledModules(updatedInstalledModules);
-      
-      // Save to tracking file
-      await executeCommand(`echo '${JSON.stringify(updatedInstalledModules)}' > ${NANOS_INSTALL_DIR}/installed_modules.json`);
+      if (result) {
+        setInstalledModules(prev => [...prev.filter(m => m.id !== module.id), result]);
+      }
       
       toast.success(`${module.name} installed successfully!`, { id: `install-${module.id}` });
     } catch (error) {
@@ -244,31 +172,12 @@ export default function ModulesManager() {
     setIsUninstalling(prev => ({ ...prev, [moduleId]: true }));
     
     try {
-      const moduleToUninstall = installedModules.find(m => m.id === moduleId);
       const moduleInfo = availableModules.find(m => m.id === moduleId);
       
-      if (!moduleToUninstall) {
-        throw new Error("Module not found in installed modules");
-      }
-      
       toast.loading(`Uninstalling ${moduleInfo?.name || moduleId}...`, { id: `uninstall-${moduleId}` });
       
-      // Remove packages
-      for (const pkg of moduleToUninstall.files.packages) {
-        await executeCommand(`rm -rf "${NANOS_INSTALL_DIR}/Packages/${pkg}"`);
-      }
-      
-      // Remove assets
-      for (const asset of moduleToUninstall.files.assets) {
-        await executeCommand(`rm -rf "${NANOS_INSTALL_DIR}/Assets/${asset}"`);
-      }
-      
-      // Update installed modules tracking
-      const updatedInstalledModules = installedModules.filter(m => m.id !== moduleId);
-      setInstalledModules(updatedInstalledModules);
-      
-      // Save to tracking file
-      await executeCommand(`echo '${JSON.stringify(updatedInstalledModules)}' > ${NANOS_INSTALL_DIR}/installed_modules.json`);
+      await runTask('modules.uninstall', { moduleId }, { timeout: 5 * 60 * 1000 });
+      setInstalledModules(prev => prev.filter(m => m.id !== moduleId));
       
       toast.success(`${moduleInfo?.name || moduleId} uninstalled successfully!`, { id: `uninstall-${moduleId}` });
     } catch (error) {
@@ -102,7 +102,7 @@ enum OnboardingStep {
 
 export default function NanosOnboarding() {
   const { userData, updateOnboardingStatus } = useUser();
-  const { executeCommand } = useSocket();
+  const { runTask, writeFile } = useSocket();
   const [currentStep, setCurrentStep] = useState<OnboardingStep>(OnboardingStep.WELCOME);
   const [selectedVersion, setSelectedVersion] = useState<string>(NANOS_VERSIONS[0].id);
   const [installationProgress, setInstallationProgress] = useState<number>(0);
@@ -176,78 +176,56 @@ export default function NanosOnboarding() {
     try {
       setInstallationProgress(10);
       addLogMessage('> Installing some nerdy dependencies... 🤓');
-      const installLib32 = await executeCommand('sudo apt-get install -y lib32gcc-s1 unzip');
-      if (installLib32.error) {
-        addLogMessage(`Oops! Something went wrong: ${installLib32.error}`);
-        throw new Error(installLib32.error);
+      try {
+        await runTask('nanos.install-dependencies', {}, { timeout: 600000 }); // 10 minute timeout
+      } catch (error) {
+        addLogMessage(`Oops! Something went wrong: ${(error as Error).message}`);
+        throw error;
       }
       addLogMessage('> Dependencies acquired! Moving on to greater things!');
 
       setInstallationProgress(30);
       addLogMessage('> Creating a cozy home for your server... 🏠');
-      const createDir = await executeCommand(`sudo mkdir -p ${NANOS_INSTALL_DIR}/steam`);
-      if (createDir.error) {
-        addLogMessage(`Hmm, we couldn't build that home: ${createDir.error}`);
-        throw new Error(createDir.error);
-      }
-      
-      const setPerms = await executeCommand(`sudo chown -R $USER:$USER ${NANOS_INSTALL_DIR}`);
-      if (setPerms.error) {
-        addLogMessage(`Permission denied! Even sudo couldn't help us: ${setPerms.error}`);
-        throw new Error(setPerms.error);
+      try {
+        await runTask('nanos.prepare-directory', {}, { timeout: 60000 });
+      } catch (error) {
+        addLogMessage(`Hmm, we couldn't build that home: ${(error as Error).message}`);
+        throw error;
       }
       addLogMessage('> Home sweet home created successfully!');
 
       setInstallationProgress(50);
-      addLogMessage('> Teleporting to the installation directory... 🧙‍♂️');
-      const cdCommand = await executeCommand(`cd ${NANOS_INSTALL_DIR}/steam`);
-      if (cdCommand.error) {
-        addLogMessage(`Teleportation failed: ${cdCommand.error}`);
-        throw new Error(cdCommand.error);
-      }
-
       addLogMessage('> Summoning the almighty SteamCMD from the internet... 🧩');
-      const downloadSteam = await executeCommand('curl -sqL "https://steamcdn-a.akamaihd.net/client/installer/steamcmd_linux.tar.gz" | tar zxvf -');
-      if (downloadSteam.error) {
-        addLogMessage(`Steam summoning ritual failed: ${downloadSteam.error}`);
-        throw new Error(downloadSteam.error);
+      try {
+        await runTask('nanos.install-steamcmd', {}, { timeout: 600000 }); // 10 minute timeout
+      } catch (error) {
+        addLogMessage(`Steam summoning ritual failed: ${(error as Error).message}`);
+        throw error;
       }
       addLogMessage('> SteamCMD has answered our call!');
 
       setInstallationProgress(70);
       addLogMessage('> Now for the fun part: downloading gigabytes of data! ☕ Time for a coffee break...');
-      
-      // Determine the install command based on selected version
-      const steamInstallCmd = selectedVersion === 'bleeding-edge' 
-        ? `./steamcmd.sh +force_install_dir ${NANOS_INSTALL_DIR} +login anonymous "+app_update 1936830 -beta bleeding-edge" validate +quit`
-        : `./steamcmd.sh +force_install_dir ${NANOS_INSTALL_DIR} +login anonymous +app_update 1936830 validate +quit`;
-      
-      const installServer = await executeCommand(steamInstallCmd);
-      if (installServer.error) {
-        addLogMessage(`Steam has betrayed us: ${installServer.error}`);
-        throw new Error(installServer.error);
+      try {
+        // Also makes NanosWorldServer.sh executable once the download is done
+        await runTask('nanos.install-server', { channel: selectedVersion }, { timeout: 3600000 }); // 1 hour timeout
+      } catch (error) {
+        addLogMessage(`Steam has betrayed us: ${(error as Error).message}`);
+        throw error;
       }
       addLogMessage('> Download complete! Hope you enjoyed your coffee! ☕');
 
-      setInstallationProgress(85);
+      setInstallationProgress(90);
       addLogMessage('> Writing a beautiful config file filled with possibilities... ✨');
       // Create Config.toml with default configuration
-      const createConfig = await executeCommand(`echo '${DEFAULT_SERVER_CONFIG}' > ${NANOS_INSTALL_DIR}/Config.toml`);
-      if (createConfig.error) {
-        addLogMessage(`Couldn't write the config. My creative writing skills failed me: ${createConfig.error}`);
-        throw new Error(createConfig.error);
+      try {
+        await writeFile(`${NANOS_INSTALL_DIR}/Config.toml`, DEFAULT_SERVER_CONFIG);
+      } catch (error) {
+        addLogMessage(`Couldn't write the config. My creative writing skills failed me: ${(error as Error).message}`);
+        throw error;
       }
       addLogMessage('> Config masterpiece created! Shakespeare would be proud!');
 
-      setInstallationProgress(90);
-      addLogMessage('> Granting magical execution powers to your server... 🧙‍♂️');
-      const makeExecutable = await executeCommand(`chmod +x ${NANOS_INSTALL_DIR}/NanosWorldServer.sh`);
-      if (makeExecutable.error) {
-        addLogMessage(`Failed to sprinkle the execution magic: ${makeExecutable.error}`);
-        throw new Error(makeExecutable.error);
-      }
-      addLogMessage('> Magic powers granted!');
-
       setInstallationProgress(100);
       addLogMessage('> 🎉 Ta-da! Your server is ready to rock and roll! 🎸');
       addLogMessage(`> Your new baby is resting at: ${NANOS_INSTALL_DIR}`);
@@ -0,0 +1,150 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { describeAlert, formatFiredAt, type LogAlert } from '@/lib/alerts';
+import { useSocket } from '@/hooks/useSocket';
+
+// Unacknowledged alerts listed in the panel - the rest are on the alerts page
+const PANEL_LIMIT = 20;
+
+export default function NotificationCenter() {
+  const { socket } = useSocket();
+  const [alerts, setAlerts] = useState<LogAlert[]>([]);
+  const [unacknowledged, setUnacknowledged] = useState(0);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const loadAlerts = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/alerts?unacknowledged=true&limit=${PANEL_LIMIT}`, {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load alerts');
+      }
+
+      setAlerts(data.alerts);
+      setUnacknowledged(data.unacknowledged);
+    } catch (error) {
+      console.error('Error loading alerts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAlerts();
+  }, [loadAlerts]);
+
+  // Alerts arrive as they fire, and go once anyone acknowledges them
+  useEffect(() => {
+    if (!socket) return;
+
+    const handleAlert = (alert: LogAlert) => {
+      setAlerts(prev => [alert, ...prev].slice(0, PANEL_LIMIT));
+      setUnacknowledged(prev => prev + 1);
+      toast.error(`${alert.instanceName}: ${describeAlert(alert)}`);
+    };
+    const handleAcknowledged = (ids: number[]) => {
+      setAlerts(prev => prev.filter(alert => !ids.includes(alert.id)));
+      setUnacknowledged(prev => Math.max(0, prev - ids.length));
+    };
+
+    socket.on('log_alert', handleAlert);
+    socket.on('log_alerts_acknowledged', handleAcknowledged);
+    // Anything missed while disconnected
+    socket.on('connect', loadAlerts);
+    return () => {
+      socket.off('log_alert', handleAlert);
+      socket.off('log_alerts_acknowledged', handleAcknowledged);
+      socket.off('connect', loadAlerts);
+    };
+  }, [socket, loadAlerts]);
+
+  const acknowledge = async (id?: number) => {
+    try {
+      const response = await fetch(id === undefined ? '/api/alerts/acknowledge' : `/api/alerts/${id}/acknowledge`, {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to acknowledge alert');
+      }
+      // The list updates from the log_alerts_acknowledged event
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="px-4 pt-4 font-mono relative">
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-full flex items-center justify-between px-3 py-2 rounded-md border text-sm transition-colors ${
+          unacknowledged > 0
+            ? 'border-red-500/40 bg-red-900/20 text-red-300 hover:bg-red-900/30'
+            : 'border-amber-500/20 text-amber-400/70 hover:bg-zinc-800'
+        }`}
+      >
+        <span>Alerts</span>
+        <span className={`px-2 rounded-full text-xs ${unacknowledged > 0 ? 'bg-red-500/30 text-red-200' : 'bg-zinc-800 text-amber-400/60'}`}>
+          {unacknowledged}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute left-4 right-4 z-20 mt-2 bg-zinc-950 border border-amber-500/30 rounded-md shadow-lg">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-amber-500/20 text-xs">
+            <span className="text-amber-400/80">UNACKNOWLEDGED</span>
+            {alerts.length > 0 && (
+              <button
+                type="button"
+                onClick={() => acknowledge()}
+                className="text-amber-300 hover:text-amber-200"
+              >
+                Acknowledge all
+              </button>
+            )}
+          </div>
+          <ul className="max-h-80 overflow-y-auto divide-y divide-amber-500/10">
+            {alerts.map(alert => (
+              <li key={alert.id} className="px-3 py-2 text-xs space-y-1">
+                <div className="flex items-start justify-between gap-2">
+                  <span className={alert.level === 'error' ? 'text-red-400' : 'text-amber-300'}>{describeAlert(alert)}</span>
+                  <button
+                    type="button"
+                    onClick={() => acknowledge(alert.id)}
+                    className="shrink-0 px-1.5 py-0.5 bg-amber-500/20 text-amber-300 rounded hover:bg-amber-500/30 transition-colors"
+                  >
+                    Ack
+                  </button>
+                </div>
+                <div className="text-gray-400 break-all line-clamp-2">{alert.message}</div>
+                <div className="text-[10px] text-amber-400/50">{alert.instanceName} · {formatFiredAt(alert)}</div>
+              </li>
+            ))}
+            {alerts.length === 0 && (
+              <li className="px-3 py-4 text-center text-xs text-amber-400/60">No unacknowledged alerts</li>
+            )}
+          </ul>
+          <Link
+            href="/dashboard/alerts"
+            onClick={() => setIsOpen(false)}
+            className="block px-3 py-2 border-t border-amber-500/20 text-xs text-center text-amber-300 hover:bg-zinc-900"
+          >
+            Alert history and rules
+          </Link>
+        </div>
+      )}
+    </div>
+  );
+}
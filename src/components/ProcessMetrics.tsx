@@ -0,0 +1,120 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { getInstanceHeader } from '@/lib/instance';
+import { formatBytes, type MetricRange, type ProcessMetrics as ProcessSample } from '@/lib/metrics';
+import { useSocket } from '@/hooks/useSocket';
+import MetricChart from './MetricChart';
+import MetricRangePicker from './MetricRangePicker';
+
+// New samples are averaged in at least this often, so reloading faster shows nothing new
+const REFRESH_INTERVAL = 60 * 1000;
+
+const formatPercent = (value: number) => `${value.toFixed(1)}%`;
+const formatCount = (value: number) => String(Math.round(value));
+
+export default function ProcessMetrics() {
+  const { metrics, currentInstance } = useSocket();
+  const instanceId = currentInstance?.id;
+  const [range, setRange] = useState<MetricRange>('24h');
+  const [samples, setSamples] = useState<ProcessSample[]>([]);
+  const [step, setStep] = useState(0);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/server/metrics/history?range=${range}`, {
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load process metrics');
+      }
+
+      setSamples(data.samples);
+      setStep(data.step);
+    } catch (error) {
+      console.error('Error loading process metrics:', error);
+      toast.error((error as Error).message);
+    }
+  }, [range, instanceId]);
+
+  useEffect(() => {
+    loadHistory();
+    const interval = setInterval(loadHistory, REFRESH_INTERVAL);
+    return () => clearInterval(interval);
+  }, [loadHistory]);
+
+  const live = instanceId !== undefined ? metrics?.processes[instanceId] ?? null : null;
+  const timestamps = samples.map(sample => sample.timestamp);
+  const withDate = range.endsWith('d');
+
+  const stats = [
+    { label: 'CPU (one core)', value: live ? formatPercent(live.cpu) : 'N/A' },
+    { label: 'Memory (RSS)', value: live ? formatBytes(live.rss) : 'N/A' },
+    { label: 'Threads', value: live ? formatCount(live.threads) : 'N/A' },
+    { label: 'Open files', value: live ? formatCount(live.openFiles) : 'N/A' },
+    { label: 'Sockets', value: live ? formatCount(live.sockets) : 'N/A' }
+  ];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center gap-4 flex-wrap">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Process Resources</h2>
+        <MetricRangePicker range={range} onChange={setRange} />
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {stats.map(stat => (
+          <div key={stat.label}>
+            <p className="text-sm font-mono text-amber-400/70 mb-1">{stat.label}</p>
+            <p className="text-lg font-bold text-amber-300">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <MetricChart
+          title="CPU (percent of one core)"
+          timestamps={timestamps}
+          series={[{ label: 'Usage', className: 'text-amber-400', values: samples.map(sample => sample.cpu) }]}
+          step={step}
+          format={formatPercent}
+          withDate={withDate}
+        />
+        <MetricChart
+          title="Memory (RSS)"
+          timestamps={timestamps}
+          series={[{ label: 'Resident', className: 'text-green-400', values: samples.map(sample => sample.rss) }]}
+          step={step}
+          format={formatBytes}
+          withDate={withDate}
+        />
+        <MetricChart
+          title="Threads"
+          timestamps={timestamps}
+          series={[{ label: 'Threads', className: 'text-sky-400', values: samples.map(sample => sample.threads) }]}
+          step={step}
+          format={formatCount}
+          withDate={withDate}
+        />
+        <MetricChart
+          title="Open Files and Sockets"
+          timestamps={timestamps}
+          series={[
+            { label: 'Files', className: 'text-amber-400', values: samples.map(sample => sample.openFiles) },
+            { label: 'Sockets', className: 'text-red-400', values: samples.map(sample => sample.sockets) }
+          ]}
+          step={step}
+          format={formatCount}
+          withDate={withDate}
+        />
+      </div>
+    </div>
+  );
+}
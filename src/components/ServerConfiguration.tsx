@@ -2,6 +2,9 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { useSocket } from '@/hooks/useSocket';
+import { useUser } from '@/hooks/useUser';
+import { getAuthHeader } from '@/lib/auth';
+import { getInstanceHeader } from '@/lib/instance';
 import { NANOS_INSTALL_DIR } from './NanosOnboarding';
 import { toast } from 'react-hot-toast';
 import Select from 'react-select';
@@ -124,38 +127,6 @@ const selectStyles: StylesConfig<SelectOption, boolean> = {
   })
 };
 
-const getAuthHeader = (): Record<string, string> => {
-  const storedCredentials = sessionStorage.getItem('credentials');
-  if (storedCredentials) {
-    console.log('Using credentials from sessionStorage');
-    return {
-      Authorization: `Basic ${storedCredentials}`
-    };
-  }
-  
-  // 2. Try localStorage
-  const username = localStorage.getItem('username');
-  const password = localStorage.getItem('password');
-  if (username && password) {
-    console.log('Using credentials from localStorage');
-    const base64Credentials = btoa(`${username}:${password}`);
-    // Also save to sessionStorage for future use
-    sessionStorage.setItem('credentials', base64Credentials);
-    return {
-      Authorization: `Basic ${base64Credentials}`
-    };
-  }
-  
-
-  
-  // 4. Last resort - try to use 'admin:admin' (common default)
-  console.warn('No credentials found, using fallback admin:admin');
-  const fallbackCredentials = btoa('admin:admin');
-  return {
-    Authorization: `Basic ${fallbackCredentials}`
-  };
-};
-
 // Define the type for the TOML parser output
 interface TomlTable {
   discover?: {
@@ -248,7 +219,11 @@ interface PackageInfo {
 }
 
 export default function ServerConfiguration() {
-  const { executeCommand, isConnected } = useSocket();
+  const { fetchServerStatus, currentInstance } = useSocket();
+  const { hasPermission } = useUser();
+  const instanceId = currentInstance?.id;
+  // Users who cannot list instances work on the default one
+  const installDir = currentInstance?.installDir ?? NANOS_INSTALL_DIR;
   const [config, setConfig] = useState<ServerConfig | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isSaving, setIsSaving] = useState(false);
@@ -262,33 +237,6 @@ export default function ServerConfiguration() {
   const [isLoadingAssets, setIsLoadingAssets] = useState(false);
   const [isLoadingPackageInfo, setIsLoadingPackageInfo] = useState(false);
   
-  // Check credentials on component mount
-  useEffect(() => {
-    // Log credential sources for debugging
-    const hasSessionCreds = !!sessionStorage.getItem('credentials');
-    const hasLocalCreds = !!(localStorage.getItem('username') && localStorage.getItem('password'));
-    
-    console.log('Auth credentials check:', {
-      sessionStorage: hasSessionCreds,
-      localStorage: hasLocalCreds,
-      socketConnected: isConnected
-    });
-    
-    // If no credentials are found and we're using development mode,
-    // try using default credentials for convenience
-    if (!hasSessionCreds && !hasLocalCreds) {
-      console.log('No credentials found, checking for environment defaults');
-      const defaultUsername = process.env.NEXT_PUBLIC_DEFAULT_USERNAME;
-      const defaultPassword = process.env.NEXT_PUBLIC_DEFAULT_PASSWORD;
-      
-      if (defaultUsername && defaultPassword) {
-        console.log('Using default credentials from environment');
-        const base64Credentials = btoa(`${defaultUsername}:${defaultPassword}`);
-        sessionStorage.setItem('credentials', base64Credentials);
-      }
-    }
-  }, [isConnected]);
-
   // Function to load directories
   const loadDirectoryContents = useCallback(async (type: 'packages' | 'assets') => {
     const isPackages = type === 'packages';
@@ -299,11 +247,12 @@ export default function ServerConfiguration() {
     }
     
     try {
-      const dirPath = `${NANOS_INSTALL_DIR}/${type.charAt(0).toUpperCase() + type.slice(1)}`;
+      const dirPath = `${installDir}/${type.charAt(0).toUpperCase() + type.slice(1)}`;
       const response = await fetch(`/api/files/list?path=${encodeURIComponent(dirPath)}`, {
         method: 'GET',
         headers: {
           ...getAuthHeader(),
+          ...getInstanceHeader(instanceId),
         },
       });
       
@@ -336,7 +285,7 @@ export default function ServerConfiguration() {
         setIsLoadingAssets(false);
       }
     }
-  }, []);
+  }, [installDir, instanceId]);
 
   // New function to load Package.toml files and determine package types
   const loadPackageInfo = useCallback(async (packages: FileEntry[]) => {
@@ -354,6 +303,7 @@ export default function ServerConfiguration() {
             const response = await fetch(`/api/files/toml?path=${encodeURIComponent(tomlPath)}`, {
               headers: {
                 ...getAuthHeader(),
+                ...getInstanceHeader(instanceId),
               },
             });
             
@@ -410,7 +360,7 @@ export default function ServerConfiguration() {
     } finally {
       setIsLoadingPackageInfo(false);
     }
-  }, []);
+  }, [instanceId]);
 
   // Load packages and assets when component mounts
   useEffect(() => {
@@ -633,20 +583,9 @@ export default function ServerConfiguration() {
       
       for (let attempt = 1; attempt <= maxRetries; attempt++) {
         try {
-          // First check if we can connect to the socket
-          const testConnection = await executeCommand('echo "test connection"');
-          if (!testConnection.error) {
-            break; // Connection successful, proceed with config loading
-          }
-          
-          if (attempt === maxRetries) {
-            throw new Error('Socket not connected after multiple attempts. Please ensure the service is running.');
-          }
-          
-          // Wait before next attempt
-          await new Promise(resolve => setTimeout(resolve, delayMs));
-          console.log(`Retrying connection attempt ${attempt + 1}/${maxRetries}...`);
-          
+          // First check if we can reach the server over the socket
+          await fetchServerStatus();
+          break; // Connection successful, proceed with config loading
         } catch (connError) {
           if (attempt === maxRetries) {
             throw connError;
@@ -659,7 +598,7 @@ export default function ServerConfiguration() {
       // Check if we can access a protected API route to verify authentication works
       try {
         console.log('Testing authentication with /api/system/ping');
-        const authHeaders = getAuthHeader();
+        const authHeaders = { ...getAuthHeader(), ...getInstanceHeader(instanceId) };
         const pingResponse = await fetch('/api/system/ping', {
           headers: {
             ...authHeaders
@@ -676,15 +615,10 @@ export default function ServerConfiguration() {
       }
 
       try {
-        // Get the auth headers and log them for debugging
-        const authHeaders = getAuthHeader();
-        console.log('Using auth headers for TOML request:', 
-                   authHeaders.Authorization ? 
-                   `Basic ${authHeaders.Authorization.substring(6, 15)}...` : 
-                   'No auth header available');
+        const authHeaders = { ...getAuthHeader(), ...getInstanceHeader(instanceId) };
         
         // Use the new TOML file reading endpoint instead of cat command
-        const response = await fetch(`/api/files/toml?path=${encodeURIComponent(`${NANOS_INSTALL_DIR}/Config.toml`)}`, {
+        const response = await fetch(`/api/files/toml?path=${encodeURIComponent(`${installDir}/Config.toml`)}`, {
           headers: {
             ...authHeaders
           }
@@ -813,7 +747,7 @@ export default function ServerConfiguration() {
     } finally {
       setIsLoading(false);
     }
-  }, [executeCommand]);
+  }, [fetchServerStatus, installDir, instanceId]);
 
   // Validate configuration object
   const validateConfig = (config: unknown): config is ServerConfig => {
@@ -896,13 +830,8 @@ export default function ServerConfiguration() {
     setIsSaving(true);
     setError(null);
     try {
-      // Get the auth headers and log them for debugging
-      const authHeaders = getAuthHeader();
-      console.log('Using auth headers for save TOML request:', 
-                 authHeaders.Authorization ? 
-                 `Basic ${authHeaders.Authorization.substring(6, 15)}...` : 
-                 'No auth header available');
-                 
+      const authHeaders = { ...getAuthHeader(), ...getInstanceHeader(instanceId) };
+      
       // Use the new TOML file saving endpoint instead of echo command
       const response = await fetch('/api/files/toml', {
         method: 'POST',
@@ -911,7 +840,7 @@ export default function ServerConfiguration() {
           ...authHeaders
         },
         body: JSON.stringify({
-          path: `${NANOS_INSTALL_DIR}/Config.toml`,
+          path: `${installDir}/Config.toml`,
           content: {
             discover: {
               name: config.discover.name,
@@ -1088,14 +1017,16 @@ export default function ServerConfiguration() {
     <div className="p-6 space-y-6">
       <div className="flex justify-between items-center">
         <h2 className="text-xl font-semibold text-amber-300 font-mono">Server Configuration</h2>
-        <button
-          type="button"
-          onClick={saveConfig}
-          disabled={isSaving}
-          className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
-        >
-          {isSaving ? 'Saving...' : 'Save Changes'}
-        </button>
+        {hasPermission('config.write') && (
+          <button
+            type="button"
+            onClick={saveConfig}
+            disabled={isSaving}
+            className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+          >
+            {isSaving ? 'Saving...' : 'Save Changes'}
+          </button>
+        )}
       </div>
 
       {/* Discovery Settings */}
@@ -1141,6 +1072,11 @@ export default function ServerConfiguration() {
               onChange={(e) => handleChange('discover', 'port', Number.parseInt(e.target.value, 10))}
               className="w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50"
             />
+            {currentInstance && (
+              <p className="text-xs text-amber-400/60">
+                {currentInstance.name} is started on port {currentInstance.gamePort} (query {currentInstance.queryPort}), which overrides this value.
+              </p>
+            )}
           </div>
         </div>
       </section>
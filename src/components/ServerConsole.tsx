@@ -2,41 +2,19 @@
 
 import { useState, useEffect, useRef, useCallback, useLayoutEffect } from 'react';
 import { toast } from 'react-hot-toast';
-
-// Helper function to get the authentication header from ServerStatus.tsx
-const getAuthHeader = (): Record<string, string> => {
-  // Try multiple sources for authentication credentials
-  
-  // 1. First try sessionStorage (where socket connection stores them)
-  const storedCredentials = sessionStorage.getItem('credentials');
-  if (storedCredentials) {
-    return {
-      Authorization: `Basic ${storedCredentials}`
-    };
-  }
-  
-  // 2. Try localStorage
-  const username = localStorage.getItem('username');
-  const password = localStorage.getItem('password');
-  if (username && password) {
-    const base64Credentials = btoa(`${username}:${password}`);
-    // Also save to sessionStorage for future use
-    sessionStorage.setItem('credentials', base64Credentials);
-    return {
-      Authorization: `Basic ${base64Credentials}`
-    };
-  }
-  
-  // 3. Last resort - try to use 'admin:admin' (common default)
-  console.warn('No credentials found, using fallback admin:admin');
-  const fallbackCredentials = btoa('admin:admin');
-  return {
-    Authorization: `Basic ${fallbackCredentials}`
-  };
-};
+import { getAuthHeader } from '@/lib/auth';
+import { getInstanceHeader } from '@/lib/instance';
+import { useSocket } from '@/hooks/useSocket';
+import { getSearchPattern, toLogQuery, type LogFilter, type LogRecord } from '@/lib/logs';
+import LogFilters from './LogFilters';
+import LogLine from './LogLine';
 
 export default function ServerConsole() {
-  const [logs, setLogs] = useState<string[]>([]);
+  const { currentInstance } = useSocket();
+  const instanceId = currentInstance?.id;
+  const [logs, setLogs] = useState<LogRecord[]>([]);
+  const [sources, setSources] = useState<string[]>([]);
+  const [filter, setFilter] = useState<LogFilter>({});
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [command, setCommand] = useState('');
@@ -63,9 +41,12 @@ export default function ServerConsole() {
   // Fetch server logs - using useCallback to use in useEffect dependencies
   const fetchLogs = useCallback(async () => {
     try {
-      const response = await fetch(`/api/server/logs?lines=${logLines}`, {
+      // Filtering happens on the server, so the lines asked for are the last ones that match
+      const query = new URLSearchParams({ lines: String(logLines), ...toLogQuery(filter) });
+      const response = await fetch(`/api/server/logs?${query}`, {
         headers: {
-          ...getAuthHeader()
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
         }
       });
       
@@ -75,8 +56,10 @@ export default function ServerConsole() {
       }
       
       const data = await response.json();
-      if (data.success && data.logs) {
-        setLogs(data.logs);
+      if (data.success && data.records) {
+        setLogs(data.records);
+        setSources(data.sources ?? []);
+        setError(null);
       }
     } catch (err) {
       const errorMessage = (err as Error).message;
@@ -85,14 +68,15 @@ export default function ServerConsole() {
     } finally {
       setIsLoading(false);
     }
-  }, [logLines]);
+  }, [logLines, filter, instanceId]);
   
   // Fetch server status to check if it's running - using useCallback
   const fetchStatus = useCallback(async () => {
     try {
       const response = await fetch('/api/server/status', {
         headers: {
-          ...getAuthHeader()
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
         }
       });
       
@@ -107,7 +91,7 @@ export default function ServerConsole() {
       console.error('Error fetching server status:', err);
       setIsServerRunning(false);
     }
-  }, []);
+  }, [instanceId]);
   
   // Send a command to the server
   const sendCommand = async (e: React.FormEvent) => {
@@ -123,7 +107,8 @@ export default function ServerConsole() {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          ...getAuthHeader()
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
         },
         body: JSON.stringify({ command: command.trim() })
       });
@@ -165,6 +150,8 @@ export default function ServerConsole() {
     };
   }, [autoRefresh, refreshInterval, fetchLogs, fetchStatus]);
   
+  const searchPattern = getSearchPattern(filter.search);
+  
   return (
     <div className="p-6 space-y-6">
       <div className="flex justify-between items-center">
@@ -224,6 +211,8 @@ export default function ServerConsole() {
         </div>
       </div>
       
+      <LogFilters filter={filter} sources={sources} onChange={setFilter} />
+      
       {error && (
         <div className="p-4 bg-red-500/20 border border-red-500/40 rounded text-red-200">
           {error}
@@ -233,15 +222,13 @@ export default function ServerConsole() {
       <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
         <div 
           ref={logContainerRef}
-          className="h-[400px] overflow-y-auto p-4 font-mono text-sm text-green-300"
+          className="h-[400px] overflow-y-auto p-4 font-mono text-sm"
         >
           {isLoading ? (
-            <div className="animate-pulse">Loading logs...</div>
+            <div className="animate-pulse text-green-300">Loading logs...</div>
           ) : logs.length > 0 ? (
-            logs.map((line, index) => (
-              <div key={`log-${index}-${line.substring(0, 10)}`} className="whitespace-pre-wrap break-all">
-                {line || ' '}
-              </div>
+            logs.map((record, index) => (
+              <LogLine key={`log-${index}-${record.raw.substring(0, 10)}`} record={record} searchPattern={searchPattern} />
             ))
           ) : (
             <div className="text-amber-500">No logs available</div>
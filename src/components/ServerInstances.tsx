@@ -0,0 +1,364 @@
+'use client';
+
+import { useState, type FormEvent } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { useSocket, type ServerInstance } from '@/contexts/SocketContext';
+
+interface InstanceForm {
+  name: string;
+  installDir: string;
+  gamePort: number;
+  queryPort: number;
+}
+
+// The ports of a clone are picked by the server
+interface CloneForm {
+  name: string;
+  installDir: string;
+}
+
+const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+
+/**
+ * A form for a new instance, on the first pair of ports no instance uses yet
+ */
+function getNewInstanceForm(instances: ServerInstance[]): InstanceForm {
+  const taken = new Set(instances.flatMap(instance => [instance.gamePort, instance.queryPort]));
+  let gamePort = 7777;
+  while (taken.has(gamePort) || taken.has(gamePort + 1)) {
+    gamePort += 2;
+  }
+  return { name: '', installDir: '', gamePort, queryPort: gamePort + 1 };
+}
+
+export default function ServerInstances() {
+  // The list is kept up to date by the socket context, which reloads it on every change
+  const { instances, refreshInstances, cloneInstance } = useSocket();
+  const [form, setForm] = useState<InstanceForm | null>(null);
+  // Instance being edited, null while creating a new one
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [cloneSource, setCloneSource] = useState<ServerInstance | null>(null);
+  const [cloneForm, setCloneForm] = useState<CloneForm>({ name: '', installDir: '' });
+  const [cloneSteps, setCloneSteps] = useState<string[]>([]);
+  const [isCloning, setIsCloning] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch(editingId === null ? '/api/instances' : `/api/instances/${editingId}`, {
+        method: editingId === null ? 'POST' : 'PUT',
+        headers: {
+          ...getAuthHeader(),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(form)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save instance');
+      }
+
+      toast.success(editingId === null ? `Instance ${form.name} created` : 'Instance saved');
+      setForm(null);
+      setEditingId(null);
+      await refreshInstances();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleEdit = (instance: ServerInstance) => {
+    setEditingId(instance.id);
+    setForm({
+      name: instance.name,
+      installDir: instance.installDir,
+      gamePort: instance.gamePort,
+      queryPort: instance.queryPort
+    });
+  };
+
+  const handleStartClone = (instance: ServerInstance) => {
+    setCloneSource(instance);
+    setCloneForm({ name: `${instance.name} Staging`, installDir: `${instance.installDir}-staging` });
+    setCloneSteps([]);
+  };
+
+  const handleClone = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!cloneSource) return;
+
+    setIsCloning(true);
+    setCloneSteps([]);
+    try {
+      const clone = await cloneInstance(cloneSource.id, cloneForm, progress => {
+        setCloneSteps(steps => [...steps, progress.message]);
+      });
+
+      toast.success(`${clone.name} created on port ${clone.gamePort}`);
+      setCloneSource(null);
+      await refreshInstances();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsCloning(false);
+    }
+  };
+
+  const handleDelete = async (instance: ServerInstance) => {
+    if (!confirm(`Delete instance ${instance.name} with its schedules, crash history and logs? Files in ${instance.installDir} are kept.`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/instances/${instance.id}`, {
+        method: 'DELETE',
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete instance');
+      }
+
+      toast.success(`Instance ${instance.name} deleted`);
+      await refreshInstances();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Server Instances</h2>
+        {!form && (
+          <button
+            type="button"
+            onClick={() => {
+              setEditingId(null);
+              setForm(getNewInstanceForm(instances));
+            }}
+            className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors"
+          >
+            New Instance
+          </button>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-400">
+        Each instance is a separate Nanos World server with its own directory, ports, config, logs and process.
+        Pick the instance to work on from the sidebar. The install directory and ports can only be changed while the server is stopped.
+      </p>
+
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+          <h3 className="text-lg font-mono text-amber-400">{editingId === null ? 'New Instance' : 'Edit Instance'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="instance-name" className="block text-sm font-mono text-gray-300">Name</label>
+              <input
+                id="instance-name"
+                type="text"
+                required
+                maxLength={64}
+                placeholder="e.g. Staging"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="instance-install-dir" className="block text-sm font-mono text-gray-300">Install Directory</label>
+              <input
+                id="instance-install-dir"
+                type="text"
+                required
+                placeholder="e.g. /opt/nanos-world-staging"
+                value={form.installDir}
+                onChange={(e) => setForm({ ...form, installDir: e.target.value })}
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="instance-game-port" className="block text-sm font-mono text-gray-300">Game Port</label>
+              <input
+                id="instance-game-port"
+                type="number"
+                min={1024}
+                max={65535}
+                required
+                value={form.gamePort}
+                onChange={(e) => setForm({ ...form, gamePort: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="instance-query-port" className="block text-sm font-mono text-gray-300">Query Port</label>
+              <input
+                id="instance-query-port"
+                type="number"
+                min={1024}
+                max={65535}
+                required
+                value={form.queryPort}
+                onChange={(e) => setForm({ ...form, queryPort: Number(e.target.value) })}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors font-mono text-sm disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : editingId === null ? 'Create Instance' : 'Save Instance'}
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setForm(null);
+                setEditingId(null);
+              }}
+              className="px-4 py-2 bg-zinc-800 text-gray-300 rounded hover:bg-zinc-700 transition-colors font-mono text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      {cloneSource && (
+        <form onSubmit={handleClone} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+          <h3 className="text-lg font-mono text-amber-400">Clone {cloneSource.name}</h3>
+          <p className="text-sm text-gray-400">
+            Copies the server files, Config.toml, Packages and Assets of {cloneSource.installDir} into a new directory.
+            The clone gets the first free game and query ports, written to its Config.toml.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="clone-name" className="block text-sm font-mono text-gray-300">Name</label>
+              <input
+                id="clone-name"
+                type="text"
+                required
+                maxLength={64}
+                value={cloneForm.name}
+                onChange={(e) => setCloneForm({ ...cloneForm, name: e.target.value })}
+                disabled={isCloning}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="clone-install-dir" className="block text-sm font-mono text-gray-300">Install Directory</label>
+              <input
+                id="clone-install-dir"
+                type="text"
+                required
+                value={cloneForm.installDir}
+                onChange={(e) => setCloneForm({ ...cloneForm, installDir: e.target.value })}
+                disabled={isCloning}
+                className={`${inputClassName} font-mono`}
+              />
+            </div>
+          </div>
+
+          {cloneSteps.length > 0 && (
+            <ul className="text-xs font-mono text-amber-300 space-y-1">
+              {cloneSteps.map((step, index) => (
+                // Steps are only ever appended
+                <li key={`${index}-${step}`}>{step}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isCloning}
+              className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors font-mono text-sm disabled:opacity-50"
+            >
+              {isCloning ? 'Cloning...' : 'Clone Instance'}
+            </button>
+            <button
+              type="button"
+              onClick={() => setCloneSource(null)}
+              disabled={isCloning}
+              className="px-4 py-2 bg-zinc-800 text-gray-300 rounded hover:bg-zinc-700 transition-colors font-mono text-sm disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+            <tr>
+              <th className="px-4 py-2">Name</th>
+              <th className="px-4 py-2">Install Directory</th>
+              <th className="px-4 py-2">Ports</th>
+              <th className="px-4 py-2">Status</th>
+              <th className="px-4 py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {instances.map(instance => (
+              <tr key={instance.id} className="border-t border-amber-500/10 text-gray-300">
+                <td className="px-4 py-2">
+                  {instance.name}
+                  <span className="block text-xs text-amber-400/60">{instance.slug}</span>
+                </td>
+                <td className="px-4 py-2 text-xs">{instance.installDir}</td>
+                <td className="px-4 py-2 text-xs">{instance.gamePort} / {instance.queryPort}</td>
+                <td className="px-4 py-2 text-xs">
+                  <span className={instance.state.running ? 'text-green-400' : 'text-red-400'}>
+                    {instance.state.phase ?? (instance.state.running ? 'running' : 'stopped')}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-right space-x-2">
+                  <button
+                    type="button"
+                    onClick={() => handleEdit(instance)}
+                    className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleStartClone(instance)}
+                    disabled={isCloning}
+                    className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors disabled:opacity-50"
+                  >
+                    Clone
+                  </button>
+                  {instances.length > 1 && (
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(instance)}
+                      className="px-2 py-1 bg-red-900/20 text-red-400 rounded text-xs hover:bg-red-900/30 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
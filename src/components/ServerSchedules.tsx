@@ -0,0 +1,456 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { getInstanceHeader } from '@/lib/instance';
+import { useSocket } from '@/hooks/useSocket';
+
+type ScheduleAction = 'restart' | 'stop' | 'start';
+
+// Schedule as returned by /api/schedules
+interface Schedule {
+  id: number;
+  name: string;
+  action: ScheduleAction;
+  cron: string;
+  warnings: number[];
+  warningCommand: string;
+  enabled: boolean;
+  createdBy: string;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+}
+
+interface ScheduleRun {
+  id: number;
+  schedule_name: string;
+  action: ScheduleAction;
+  started_at: string;
+  finished_at: string | null;
+  success: number | null;
+  message: string | null;
+}
+
+interface ScheduleForm {
+  name: string;
+  action: ScheduleAction;
+  cron: string;
+  // Comma-separated seconds, as typed
+  warnings: string;
+  warningCommand: string;
+  enabled: boolean;
+}
+
+interface ServerSchedulesProps {
+  canEdit: boolean;
+}
+
+const CRON_EXAMPLES = [
+  { label: 'Every day at 05:00', cron: '0 5 * * *' },
+  { label: 'Every 6 hours', cron: '0 */6 * * *' },
+  { label: 'Mondays at 04:30', cron: '30 4 * * 1' }
+];
+
+const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+
+function toFormBody(form: ScheduleForm) {
+  return {
+    name: form.name,
+    action: form.action,
+    cron: form.cron,
+    warnings: form.warnings.split(',').map(value => value.trim()).filter(Boolean).map(Number),
+    warningCommand: form.warningCommand,
+    enabled: form.enabled
+  };
+}
+
+export default function ServerSchedules({ canEdit }: ServerSchedulesProps) {
+  const { currentInstance } = useSocket();
+  const instanceId = currentInstance?.id;
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+  const [runs, setRuns] = useState<ScheduleRun[]>([]);
+  const [timeZone, setTimeZone] = useState('');
+  const [defaultForm, setDefaultForm] = useState<ScheduleForm | null>(null);
+  const [form, setForm] = useState<ScheduleForm | null>(null);
+  // Schedule being edited, null while creating a new one
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadSchedules = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/schedules', {
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load schedules');
+      }
+
+      setSchedules(data.schedules);
+      setRuns(data.runs);
+      setTimeZone(data.timeZone);
+      setDefaultForm({
+        name: '',
+        action: 'restart',
+        cron: CRON_EXAMPLES[0].cron,
+        warnings: data.defaults.warnings.join(', '),
+        warningCommand: data.defaults.warningCommand,
+        enabled: true
+      });
+    } catch (error) {
+      console.error('Error loading schedules:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [instanceId]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  const saveSchedule = async (id: number | null, body: ReturnType<typeof toFormBody>): Promise<boolean> => {
+    try {
+      const response = await fetch(id === null ? '/api/schedules' : `/api/schedules/${id}`, {
+        method: id === null ? 'POST' : 'PUT',
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(body)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save schedule');
+      }
+
+      await loadSchedules();
+      return true;
+    } catch (error) {
+      toast.error((error as Error).message);
+      return false;
+    }
+  };
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    if (await saveSchedule(editingId, toFormBody(form))) {
+      toast.success(`Schedule ${form.name} saved`);
+      setForm(null);
+      setEditingId(null);
+    }
+  };
+
+  const handleEdit = (schedule: Schedule) => {
+    setEditingId(schedule.id);
+    setForm({
+      name: schedule.name,
+      action: schedule.action,
+      cron: schedule.cron,
+      warnings: schedule.warnings.join(', '),
+      warningCommand: schedule.warningCommand,
+      enabled: schedule.enabled
+    });
+  };
+
+  const handleToggle = async (schedule: Schedule) => {
+    const saved = await saveSchedule(schedule.id, {
+      name: schedule.name,
+      action: schedule.action,
+      cron: schedule.cron,
+      warnings: schedule.warnings,
+      warningCommand: schedule.warningCommand,
+      enabled: !schedule.enabled
+    });
+    if (saved) {
+      toast.success(`Schedule ${schedule.name} ${schedule.enabled ? 'disabled' : 'enabled'}`);
+    }
+  };
+
+  const handleDelete = async (schedule: Schedule) => {
+    if (!confirm(`Delete schedule "${schedule.name}"?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/schedules/${schedule.id}`, {
+        method: 'DELETE',
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete schedule');
+      }
+
+      toast.success(`Schedule ${schedule.name} deleted`);
+      await loadSchedules();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Scheduled Actions</h2>
+        <div className="flex gap-2">
+          {canEdit && !form && defaultForm && (
+            <button
+              type="button"
+              onClick={() => {
+                setEditingId(null);
+                setForm(defaultForm);
+              }}
+              className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors"
+            >
+              New Schedule
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={loadSchedules}
+            disabled={isLoading}
+            className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+          >
+            {isLoading ? 'Refreshing...' : 'Refresh'}
+          </button>
+        </div>
+      </div>
+
+      <p className="text-sm text-gray-400">
+        Schedules use cron expressions (minute hour day-of-month month day-of-week) in the dashboard host&apos;s time zone
+        {timeZone && <span className="text-amber-200"> ({timeZone})</span>}.
+        Before a restart or stop, each warning runs the warning command in the server console,
+        with <code className="text-amber-200">{'{action}'}</code> and <code className="text-amber-200">{'{time}'}</code> filled in.
+      </p>
+
+      {form && (
+        <form onSubmit={handleSubmit} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+          <h3 className="text-lg font-mono text-amber-400">{editingId === null ? 'New Schedule' : 'Edit Schedule'}</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="schedule-name" className="block text-sm font-mono text-gray-300">Name</label>
+              <input
+                id="schedule-name"
+                type="text"
+                required
+                maxLength={64}
+                placeholder="e.g. Daily restart"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="schedule-action" className="block text-sm font-mono text-gray-300">Action</label>
+              <select
+                id="schedule-action"
+                value={form.action}
+                onChange={(e) => setForm({ ...form, action: e.target.value as ScheduleAction })}
+                className={inputClassName}
+              >
+                <option value="restart">Restart</option>
+                <option value="stop">Stop</option>
+                <option value="start">Start</option>
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="schedule-cron" className="block text-sm font-mono text-gray-300">Cron Expression</label>
+              <input
+                id="schedule-cron"
+                type="text"
+                required
+                value={form.cron}
+                onChange={(e) => setForm({ ...form, cron: e.target.value })}
+                className={`${inputClassName} font-mono`}
+              />
+              <div className="flex flex-wrap gap-2">
+                {CRON_EXAMPLES.map(example => (
+                  <button
+                    key={example.cron}
+                    type="button"
+                    onClick={() => setForm({ ...form, cron: example.cron })}
+                    className="px-2 py-0.5 bg-zinc-800 text-gray-300 rounded text-xs hover:bg-zinc-700 transition-colors"
+                  >
+                    {example.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          {form.action !== 'start' && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <label htmlFor="schedule-warnings" className="block text-sm font-mono text-gray-300">Warnings (seconds before, comma-separated)</label>
+                <input
+                  id="schedule-warnings"
+                  type="text"
+                  placeholder="600, 300, 60, 10"
+                  value={form.warnings}
+                  onChange={(e) => setForm({ ...form, warnings: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="schedule-warning-command" className="block text-sm font-mono text-gray-300">Warning Command</label>
+                <input
+                  id="schedule-warning-command"
+                  type="text"
+                  required
+                  maxLength={200}
+                  value={form.warningCommand}
+                  onChange={(e) => setForm({ ...form, warningCommand: e.target.value })}
+                  className={`${inputClassName} font-mono`}
+                />
+              </div>
+            </div>
+          )}
+
+          <label className="flex items-center gap-2 text-sm font-mono text-gray-300">
+            <input
+              type="checkbox"
+              checked={form.enabled}
+              onChange={(e) => setForm({ ...form, enabled: e.target.checked })}
+              className="accent-amber-500"
+            />
+            Enabled
+          </label>
+
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors font-mono text-sm"
+            >
+              Save Schedule
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                setForm(null);
+                setEditingId(null);
+              }}
+              className="px-4 py-2 bg-zinc-800 text-gray-300 rounded hover:bg-zinc-700 transition-colors font-mono text-sm"
+            >
+              Cancel
+            </button>
+          </div>
+        </form>
+      )}
+
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+            <tr>
+              <th className="px-4 py-2">Name</th>
+              <th className="px-4 py-2">Action</th>
+              <th className="px-4 py-2">Cron</th>
+              <th className="px-4 py-2">Next Run</th>
+              <th className="px-4 py-2">Status</th>
+              {canEdit && <th className="px-4 py-2 text-right">Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {schedules.map(schedule => (
+              <tr key={schedule.id} className="border-t border-amber-500/10 text-gray-300">
+                <td className="px-4 py-2">
+                  {schedule.name}
+                  <span className="block text-xs text-amber-400/60">by {schedule.createdBy}</span>
+                </td>
+                <td className="px-4 py-2 capitalize">{schedule.action}</td>
+                <td className="px-4 py-2 text-xs text-amber-200">{schedule.cron}</td>
+                <td className="px-4 py-2 text-xs text-amber-400/60">
+                  {schedule.nextRunAt ? new Date(schedule.nextRunAt).toLocaleString() : 'N/A'}
+                </td>
+                <td className="px-4 py-2 text-xs">
+                  <span className={schedule.enabled ? 'text-green-400' : 'text-gray-500'}>{schedule.enabled ? 'enabled' : 'disabled'}</span>
+                </td>
+                {canEdit && (
+                  <td className="px-4 py-2 text-right space-x-2">
+                    <button
+                      type="button"
+                      onClick={() => handleToggle(schedule)}
+                      className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                    >
+                      {schedule.enabled ? 'Disable' : 'Enable'}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleEdit(schedule)}
+                      className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => handleDelete(schedule)}
+                      className="px-2 py-1 bg-red-900/20 text-red-400 rounded text-xs hover:bg-red-900/30 transition-colors"
+                    >
+                      Delete
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {!isLoading && schedules.length === 0 && (
+              <tr>
+                <td colSpan={canEdit ? 6 : 5} className="px-4 py-6 text-center text-amber-400/60">No schedules yet</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      <div>
+        <h3 className="text-lg font-mono text-amber-400 mb-3">Recent Runs</h3>
+        <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+          <table className="w-full text-sm font-mono">
+            <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+              <tr>
+                <th className="px-4 py-2">Started (UTC)</th>
+                <th className="px-4 py-2">Schedule</th>
+                <th className="px-4 py-2">Action</th>
+                <th className="px-4 py-2">Result</th>
+              </tr>
+            </thead>
+            <tbody>
+              {runs.map(run => (
+                <tr key={run.id} className="border-t border-amber-500/10 text-gray-300">
+                  <td className="px-4 py-2 text-xs text-amber-400/60">{run.started_at}</td>
+                  <td className="px-4 py-2">{run.schedule_name}</td>
+                  <td className="px-4 py-2 capitalize">{run.action}</td>
+                  <td className="px-4 py-2 text-xs">
+                    {run.finished_at === null ? (
+                      <span className="text-amber-300">running</span>
+                    ) : (
+                      <span className={run.success ? 'text-green-400' : 'text-red-400'}>{run.message || (run.success ? 'ok' : 'failed')}</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {!isLoading && runs.length === 0 && (
+                <tr>
+                  <td colSpan={4} className="px-4 py-6 text-center text-amber-400/60">No runs yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
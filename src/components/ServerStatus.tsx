@@ -1,54 +1,16 @@
 'use client';
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
-import { NANOS_INSTALL_DIR } from './NanosOnboarding';
-
-// Helper function to get the authentication header, copied from ServerConfiguration
-const getAuthHeader = (): Record<string, string> => {
-  // Try multiple sources for authentication credentials
-  
-  // 1. First try sessionStorage (where socket connection stores them)
-  const storedCredentials = sessionStorage.getItem('credentials');
-  if (storedCredentials) {
-    return {
-      Authorization: `Basic ${storedCredentials}`
-    };
-  }
-  
-  // 2. Try localStorage
-  const username = localStorage.getItem('username');
-  const password = localStorage.getItem('password');
-  if (username && password) {
-    const base64Credentials = btoa(`${username}:${password}`);
-    // Also save to sessionStorage for future use
-    sessionStorage.setItem('credentials', base64Credentials);
-    return {
-      Authorization: `Basic ${base64Credentials}`
-    };
-  }
-  
-  // 3. Last resort - try to use 'admin:admin' (common default)
-  console.warn('No credentials found, using fallback admin:admin');
-  const fallbackCredentials = btoa('admin:admin');
-  return {
-    Authorization: `Basic ${fallbackCredentials}`
-  };
-};
-
-// Server status interface
-interface ServerStatus {
-  running: boolean;
-  pid?: number;
-  uptime?: number;
-  configPath?: string;
-}
+import { useSocket } from '@/contexts/SocketContext';
 
 export default function ServerStatusControl() {
-  const [status, setStatus] = useState<ServerStatus | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
+  // Kept up to date by server_state events, so there is nothing to poll
+  const { serverStatus: status, isLoadingServerStatus: isLoading, fetchServerStatus, startServer, stopServer } = useSocket();
   const [actionInProgress, setActionInProgress] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const isBusy = actionInProgress || status?.phase === 'starting' || status?.phase === 'stopping';
   
   // Format uptime as readable string
   const formatUptime = (seconds?: number): string => {
@@ -57,7 +19,7 @@ export default function ServerStatusControl() {
     const days = Math.floor(seconds / 86400);
     const hours = Math.floor((seconds % 86400) / 3600);
     const minutes = Math.floor((seconds % 3600) / 60);
-    const remainingSeconds = seconds % 60;
+    const remainingSeconds = Math.floor(seconds % 60);
     
     const parts = [];
     if (days > 0) parts.push(`${days}d`);
@@ -68,57 +30,31 @@ export default function ServerStatusControl() {
     return parts.join(' ');
   };
   
-  // Fetch server status
-  const fetchStatus = useCallback(async () => {
-    setIsLoading(true);
+  const uptime = status?.startedAt
+    ? Math.max(0, (now - new Date(status.startedAt).getTime()) / 1000)
+    : status?.uptime;
+  
+  // Refresh status on demand
+  const fetchStatus = async () => {
     setError(null);
     
     try {
-      const response = await fetch('/api/server/status', {
-        headers: {
-          ...getAuthHeader()
-        }
-      });
-      
-      if (!response.ok) {
-        const errorData = await response.json();
-        throw new Error(errorData.message || 'Failed to fetch server status');
-      }
-      
-      const data = await response.json();
-      setStatus(data);
+      await fetchServerStatus();
     } catch (err) {
       const errorMessage = (err as Error).message;
       setError(errorMessage);
       toast.error(`Error: ${errorMessage}`);
-    } finally {
-      setIsLoading(false);
     }
-  }, []);
+  };
   
   // Start the server
-  const startServer = async () => {
+  const handleStart = async () => {
     setActionInProgress(true);
     setError(null);
     
     try {
-      const response = await fetch('/api/server/start', {
-        method: 'POST',
-        headers: {
-          ...getAuthHeader()
-        }
-      });
-      
-      const data = await response.json();
-      
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to start server');
-      }
-      
-      toast.success(data.message || 'Server starting...');
-      
-      // Fetch updated status after a brief delay to allow server to start
-      setTimeout(fetchStatus, 2000);
+      const result = await startServer();
+      toast.success(result.message || 'Server starting...');
     } catch (err) {
       const errorMessage = (err as Error).message;
       setError(errorMessage);
@@ -129,28 +65,13 @@ export default function ServerStatusControl() {
   };
   
   // Stop the server
-  const stopServer = async () => {
+  const handleStop = async () => {
     setActionInProgress(true);
     setError(null);
     
     try {
-      const response = await fetch('/api/server/stop', {
-        method: 'POST',
-        headers: {
-          ...getAuthHeader()
-        }
-      });
-      
-      const data = await response.json();
-      
-      if (!response.ok || !data.success) {
-        throw new Error(data.message || 'Failed to stop server');
-      }
-      
-      toast.success(data.message || 'Server stopped');
-      
-      // Fetch updated status after a brief delay
-      setTimeout(fetchStatus, 2000);
+      const result = await stopServer();
+      toast.success(result.message || 'Server stopped');
     } catch (err) {
       const errorMessage = (err as Error).message;
       setError(errorMessage);
@@ -160,15 +81,13 @@ export default function ServerStatusControl() {
     }
   };
   
-  // Fetch status on component mount and set up refresh interval
+  // Tick the uptime while the server runs
   useEffect(() => {
-    fetchStatus();
-    
-    // Refresh status every 10 seconds
-    const intervalId = setInterval(fetchStatus, 10000);
+    if (!status?.running) return;
     
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
     return () => clearInterval(intervalId);
-  }, [fetchStatus]);
+  }, [status?.running]);
   
   return (
     <div className="p-6 space-y-6">
@@ -202,7 +121,7 @@ export default function ServerStatusControl() {
                   ? 'bg-green-500/20 text-green-300 border border-green-500/40' 
                   : 'bg-red-500/20 text-red-300 border border-red-500/40'
               }`}>
-                {status.running ? 'Running' : 'Stopped'}
+                {status.phase === 'starting' ? 'Starting' : status.phase === 'stopping' ? 'Stopping' : status.running ? 'Running' : 'Stopped'}
               </div>
             </div>
             
@@ -213,10 +132,10 @@ export default function ServerStatusControl() {
               </div>
             )}
             
-            {status.running && status.uptime !== undefined && (
+            {status.running && uptime !== undefined && (
               <div className="flex items-center space-x-4">
                 <div className="font-mono text-gray-300">Uptime:</div>
-                <div className="text-amber-300">{formatUptime(status.uptime)}</div>
+                <div className="text-amber-300">{formatUptime(uptime)}</div>
               </div>
             )}
             
@@ -230,8 +149,8 @@ export default function ServerStatusControl() {
             <div className="flex space-x-4 pt-4">
               <button
                 type="button"
-                onClick={startServer}
-                disabled={status.running || actionInProgress}
+                onClick={handleStart}
+                disabled={status.running || isBusy}
                 className="px-4 py-2 bg-green-500/30 text-green-300 rounded hover:bg-green-500/40 transition-colors disabled:opacity-50"
               >
                 Start Server
@@ -239,8 +158,8 @@ export default function ServerStatusControl() {
               
               <button
                 type="button"
-                onClick={stopServer}
-                disabled={!status.running || actionInProgress}
+                onClick={handleStop}
+                disabled={!status.running || isBusy}
                 className="px-4 py-2 bg-red-500/30 text-red-300 rounded hover:bg-red-500/40 transition-colors disabled:opacity-50"
               >
                 Stop Server
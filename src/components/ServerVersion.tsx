@@ -0,0 +1,211 @@
+'use client';
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { getInstanceHeader } from '@/lib/instance';
+import { formatBytes } from '@/lib/metrics';
+import {
+  SERVER_BRANCHES,
+  SERVER_BRANCH_LABELS,
+  type ServerBranch,
+  type ServerBuildInfo,
+  type ServerUpdateProgress
+} from '@/lib/serverVersion';
+import { useSocket } from '@/hooks/useSocket';
+
+interface ServerVersionProps {
+  canUpdate: boolean;
+}
+
+const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+
+export default function ServerVersion({ canUpdate }: ServerVersionProps) {
+  const { currentInstance, updateServer } = useSocket();
+  const instanceId = currentInstance?.id;
+  const [build, setBuild] = useState<ServerBuildInfo | null>(null);
+  // Set when an update of this instance is running, started here or by someone else
+  const [isUpdating, setIsUpdating] = useState(false);
+  const [branch, setBranch] = useState<ServerBranch>('standard');
+  const [validate, setValidate] = useState(true);
+  const [percent, setPercent] = useState<number | null>(null);
+  const [log, setLog] = useState<string[]>([]);
+  const logRef = useRef<HTMLPreElement>(null);
+
+  const loadBuild = useCallback(async () => {
+    try {
+      const response = await fetch('/api/server/build', {
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load the installed build');
+      }
+
+      setBuild(data.build);
+      setIsUpdating(data.updating);
+      // Updating keeps the branch the server is on unless another one is picked
+      if (data.build.branch) {
+        setBranch(data.build.branch);
+      }
+    } catch (error) {
+      console.error('Error loading server build:', error);
+      toast.error((error as Error).message);
+    }
+  }, [instanceId]);
+
+  useEffect(() => {
+    loadBuild();
+  }, [loadBuild]);
+
+  useEffect(() => {
+    if (logRef.current) {
+      logRef.current.scrollTop = logRef.current.scrollHeight;
+    }
+  }, [log]);
+
+  const handleUpdate = async () => {
+    if (!currentInstance || !build) return;
+    const switching = build.branch !== null && build.branch !== branch;
+    const action = switching
+      ? `Switch ${currentInstance.name} from ${SERVER_BRANCH_LABELS[build.branch!]} to ${SERVER_BRANCH_LABELS[branch]}?`
+      : `Update ${currentInstance.name} from the ${SERVER_BRANCH_LABELS[branch]} branch?`;
+    if (!confirm(`${action} The server is stopped for the update and started again afterwards if it was running.`)) {
+      return;
+    }
+
+    setIsUpdating(true);
+    setPercent(null);
+    setLog([]);
+    try {
+      const updated = await updateServer({ branch, validate }, (progress: ServerUpdateProgress) => {
+        // SteamCMD's progress lines drive the bar, everything else goes to the log
+        if (progress.percent !== undefined) {
+          setPercent(progress.percent);
+        } else {
+          setLog(previous => [...previous, progress.message]);
+        }
+      });
+      setBuild(updated);
+      toast.success(`${currentInstance.name} is on build ${updated.buildId} (${SERVER_BRANCH_LABELS[updated.branch ?? branch]})`);
+    } catch (error) {
+      setLog(previous => [...previous, (error as Error).message]);
+      toast.error((error as Error).message);
+    } finally {
+      setIsUpdating(false);
+      setPercent(null);
+      loadBuild();
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Installed Build</h2>
+        <button
+          type="button"
+          onClick={loadBuild}
+          disabled={isUpdating}
+          className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+        >
+          Refresh
+        </button>
+      </div>
+
+      {build && !build.installed && (
+        <p className="text-sm text-gray-400">
+          SteamCMD has no record of a server in {currentInstance?.installDir ?? 'this install'} - updating installs one.
+        </p>
+      )}
+
+      {build?.installed && (
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-4 font-mono text-sm">
+          <div>
+            <dt className="text-gray-500">Build</dt>
+            <dd className="text-amber-300">{build.buildId ?? 'Unknown'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Branch</dt>
+            <dd className="text-gray-300">{build.branch ? SERVER_BRANCH_LABELS[build.branch] : 'Unknown'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Last updated</dt>
+            <dd className="text-gray-300">{build.lastUpdated ? new Date(build.lastUpdated).toLocaleString() : 'Unknown'}</dd>
+          </div>
+          <div>
+            <dt className="text-gray-500">Size on disk</dt>
+            <dd className="text-gray-300">{build.sizeOnDisk !== null ? formatBytes(build.sizeOnDisk) : 'Unknown'}</dd>
+          </div>
+        </dl>
+      )}
+
+      {canUpdate && build && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div className="space-y-2">
+              <label htmlFor="server-branch" className="block text-sm font-mono text-gray-300">Branch</label>
+              <select
+                id="server-branch"
+                value={branch}
+                disabled={isUpdating}
+                onChange={(e) => setBranch(e.target.value as ServerBranch)}
+                className={inputClassName}
+              >
+                {SERVER_BRANCHES.map(item => (
+                  <option key={item} value={item}>{SERVER_BRANCH_LABELS[item]}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300 py-2">
+              <input
+                type="checkbox"
+                checked={validate}
+                disabled={isUpdating}
+                onChange={(e) => setValidate(e.target.checked)}
+              />
+              Validate every file
+            </label>
+            <button
+              type="button"
+              onClick={handleUpdate}
+              disabled={isUpdating}
+              className="px-3 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+            >
+              {isUpdating ? 'Updating...' : build.branch && build.branch !== branch ? 'Switch Branch' : 'Update Server'}
+            </button>
+          </div>
+          <p className="text-sm text-gray-400">
+            The server is stopped and its files are backed up first. If SteamCMD fails the backup is put back, and a
+            server that was running is started again either way.
+          </p>
+        </div>
+      )}
+
+      {isUpdating && percent !== null && (
+        <div className="space-y-1">
+          <div className="h-2 bg-black/50 border border-amber-500/20 rounded overflow-hidden">
+            <div className="h-full bg-amber-500/60 transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          <p className="text-xs font-mono text-gray-400">Downloading {percent}%</p>
+        </div>
+      )}
+
+      {isUpdating && log.length === 0 && (
+        <p className="text-sm text-gray-400">An update of this server is running.</p>
+      )}
+
+      {log.length > 0 && (
+        <pre
+          ref={logRef}
+          className="max-h-80 overflow-auto text-xs text-gray-300 bg-black/50 border border-amber-500/20 rounded p-3 whitespace-pre-wrap"
+        >
+          {log.join('\n')}
+        </pre>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import { getInstanceHeader } from '@/lib/instance';
+import { useSocket } from '@/hooks/useSocket';
+
+interface StopSequence {
+  warningCommand: string;
+  warningSeconds: number;
+  quitCommand: string;
+  graceSeconds: number;
+  termSeconds: number;
+}
+
+const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+
+export default function StopSequenceSettings() {
+  const { currentInstance } = useSocket();
+  const instanceId = currentInstance?.id;
+  const [sequence, setSequence] = useState<StopSequence | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSequence = useCallback(async () => {
+    try {
+      const response = await fetch('/api/server/stop-sequence', {
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId)
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to load stop sequence');
+      }
+
+      setSequence(data.sequence);
+    } catch (error) {
+      console.error('Error loading stop sequence:', error);
+      toast.error((error as Error).message);
+    }
+  }, [instanceId]);
+
+  useEffect(() => {
+    loadSequence();
+  }, [loadSequence]);
+
+  const handleSave = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!sequence) return;
+
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/server/stop-sequence', {
+        method: 'PUT',
+        headers: {
+          ...getAuthHeader(),
+          ...getInstanceHeader(instanceId),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(sequence)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to save stop sequence');
+      }
+
+      setSequence(data.sequence);
+      toast.success('Stop sequence saved');
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (!sequence) {
+    return null;
+  }
+
+  return (
+    <form onSubmit={handleSave} className="p-6 space-y-4">
+      <h2 className="text-xl font-semibold text-amber-300 font-mono">Stop Sequence</h2>
+      <p className="text-sm text-gray-400">
+        Stopping the server warns players, sends the quit command to the console, then falls back to SIGTERM and finally SIGKILL.
+        Each step only runs if the server is still up. Leave a command empty to skip that step.
+      </p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label htmlFor="stop-warning-command" className="block text-sm font-mono text-gray-300">
+            Warning Command <span className="text-amber-400/60">({'{time}'} is replaced)</span>
+          </label>
+          <input
+            id="stop-warning-command"
+            type="text"
+            maxLength={200}
+            placeholder="e.g. chat Server stopping in {time}"
+            value={sequence.warningCommand}
+            onChange={(e) => setSequence({ ...sequence, warningCommand: e.target.value })}
+            className={`${inputClassName} font-mono`}
+          />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="stop-warning-seconds" className="block text-sm font-mono text-gray-300">Wait After Warning (seconds)</label>
+          <input
+            id="stop-warning-seconds"
+            type="number"
+            min={0}
+            max={300}
+            required
+            value={sequence.warningSeconds}
+            onChange={(e) => setSequence({ ...sequence, warningSeconds: Number(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="stop-quit-command" className="block text-sm font-mono text-gray-300">Quit Command</label>
+          <input
+            id="stop-quit-command"
+            type="text"
+            maxLength={200}
+            value={sequence.quitCommand}
+            onChange={(e) => setSequence({ ...sequence, quitCommand: e.target.value })}
+            className={`${inputClassName} font-mono`}
+          />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="stop-grace-seconds" className="block text-sm font-mono text-gray-300">Grace Period (seconds)</label>
+          <input
+            id="stop-grace-seconds"
+            type="number"
+            min={0}
+            max={300}
+            required
+            value={sequence.graceSeconds}
+            onChange={(e) => setSequence({ ...sequence, graceSeconds: Number(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+        <div className="space-y-2">
+          <label htmlFor="stop-term-seconds" className="block text-sm font-mono text-gray-300">Wait After SIGTERM (seconds)</label>
+          <input
+            id="stop-term-seconds"
+            type="number"
+            min={1}
+            max={120}
+            required
+            value={sequence.termSeconds}
+            onChange={(e) => setSequence({ ...sequence, termSeconds: Number(e.target.value) })}
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <button
+        type="submit"
+        disabled={isSaving}
+        className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors font-mono text-sm disabled:opacity-50"
+      >
+        {isSaving ? 'Saving...' : 'Save Stop Sequence'}
+      </button>
+    </form>
+  );
+}
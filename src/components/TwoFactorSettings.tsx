@@ -0,0 +1,279 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+
+interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+// Secret and QR code returned when enrollment starts
+interface Enrollment {
+  secret: string;
+  qrCode: string;
+}
+
+const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+
+export default function TwoFactorSettings() {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+
+  // POST to one of the /api/auth/2fa endpoints
+  const post = async (endpoint: string, body?: Record<string, string>) => {
+    const response = await fetch(`/api/auth/2fa${endpoint}`, {
+      method: 'POST',
+      headers: {
+        ...getAuthHeader(),
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body || {})
+    });
+
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.error || 'Request failed');
+    }
+    return data;
+  };
+
+  const loadStatus = useCallback(async () => {
+    try {
+      const response = await fetch('/api/auth/2fa', {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load two-factor status');
+      }
+
+      setStatus({ enabled: data.enabled, recoveryCodesRemaining: data.recoveryCodesRemaining });
+    } catch (error) {
+      console.error('Error loading two-factor status:', error);
+      toast.error((error as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStatus();
+  }, [loadStatus]);
+
+  // Generate a secret and show it as a QR code
+  const handleStart = async () => {
+    setIsBusy(true);
+    try {
+      const data = await post('/setup');
+      setEnrollment({ secret: data.secret, qrCode: data.qrCode });
+      setRecoveryCodes(null);
+      setCode('');
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  // Confirm the authenticator works and turn two-factor on
+  const handleEnable = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      const data = await post('/enable', { code });
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setCode('');
+      toast.success('Two-factor authentication enabled');
+      await loadStatus();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRegenerate = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsBusy(true);
+    try {
+      const data = await post('/recovery-codes', { code });
+      setRecoveryCodes(data.recoveryCodes);
+      setCode('');
+      toast.success('New recovery codes generated');
+      await loadStatus();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleDisable = async () => {
+    setIsBusy(true);
+    try {
+      await post('/disable', { password, code });
+      setPassword('');
+      setCode('');
+      setRecoveryCodes(null);
+      toast.success('Two-factor authentication disabled');
+      await loadStatus();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Two-Factor Authentication</h2>
+        {status && (
+          <span className={`text-xs font-mono ${status.enabled ? 'text-green-400' : 'text-gray-500'}`}>
+            {status.enabled ? `Enabled - ${status.recoveryCodesRemaining} recovery codes left` : 'Disabled'}
+          </span>
+        )}
+      </div>
+
+      {/* Recovery codes are only ever shown right after they are generated */}
+      {recoveryCodes && (
+        <div className="bg-black/30 border border-amber-500/40 rounded-lg p-5 space-y-3">
+          <h3 className="text-lg font-mono text-amber-400">Recovery Codes</h3>
+          <p className="text-sm text-gray-400">
+            Store these somewhere safe. Each code can be used once instead of an authenticator code. They will not be shown again.
+          </p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2 font-mono text-sm text-amber-200">
+            {recoveryCodes.map(recoveryCode => (
+              <code key={recoveryCode} className="bg-zinc-900/80 rounded px-2 py-1 text-center">{recoveryCode}</code>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={() => setRecoveryCodes(null)}
+            className="px-3 py-1 bg-amber-500/20 text-amber-300 rounded-md hover:bg-amber-500/30 transition-colors font-mono text-xs"
+          >
+            I have saved these codes
+          </button>
+        </div>
+      )}
+
+      {status && !status.enabled && !enrollment && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-400">
+            Require a code from an authenticator app in addition to your password when logging in.
+          </p>
+          <button
+            type="button"
+            onClick={handleStart}
+            disabled={isBusy}
+            className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50 font-mono text-sm"
+          >
+            Set Up Two-Factor
+          </button>
+        </div>
+      )}
+
+      {/* Enrollment: scan, then confirm with a code */}
+      {enrollment && (
+        <form onSubmit={handleEnable} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+          <p className="text-sm text-gray-400">
+            Scan the QR code with your authenticator app, or enter the secret manually, then type the 6-digit code it shows.
+          </p>
+          <div className="flex flex-col md:flex-row gap-6 items-start">
+            <img src={enrollment.qrCode} alt="Two-factor QR code" className="w-48 h-48 bg-white p-2 rounded" />
+            <div className="space-y-4 flex-1">
+              <div className="space-y-2">
+                <span className="block text-sm font-mono text-gray-300">Secret</span>
+                <code className="block break-all bg-zinc-900/80 rounded px-3 py-2 text-amber-200 text-sm">{enrollment.secret}</code>
+              </div>
+              <div className="space-y-2">
+                <label htmlFor="totp-enable-code" className="block text-sm font-mono text-gray-300">Verification Code</label>
+                <input
+                  id="totp-enable-code"
+                  type="text"
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  required
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  className={inputClassName}
+                />
+              </div>
+              <div className="flex gap-2">
+                <button
+                  type="submit"
+                  disabled={isBusy}
+                  className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50 font-mono text-sm"
+                >
+                  Enable
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEnrollment(null)}
+                  className="px-4 py-2 bg-zinc-800 text-gray-300 rounded hover:bg-zinc-700 transition-colors font-mono text-sm"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {/* Management once enabled - every change needs a current code */}
+      {status?.enabled && (
+        <form onSubmit={handleRegenerate} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label htmlFor="totp-manage-code" className="block text-sm font-mono text-gray-300">Authenticator or Recovery Code</label>
+              <input
+                id="totp-manage-code"
+                type="text"
+                autoComplete="one-time-code"
+                required
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="totp-manage-password" className="block text-sm font-mono text-gray-300">Password (to disable)</label>
+              <input
+                id="totp-manage-password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="submit"
+              disabled={isBusy}
+              className="px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50 font-mono text-sm"
+            >
+              New Recovery Codes
+            </button>
+            <button
+              type="button"
+              onClick={handleDisable}
+              disabled={isBusy || !password || !code}
+              className="px-4 py-2 bg-red-900/20 text-red-400 border border-red-500/20 rounded hover:bg-red-900/30 transition-colors disabled:opacity-50 font-mono text-sm"
+            >
+              Disable Two-Factor
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-hot-toast';
+import { getAuthHeader } from '@/lib/auth';
+import {
+  UPDATE_CHANNELS,
+  type ReleaseInfo,
+  type UpdateChannel,
+  type UpdatePreferences,
+  type VersionStatus
+} from '@/lib/updates';
+import { useSocket } from '@/hooks/useSocket';
+
+const inputClassName = 'w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50';
+const buttonClassName = 'px-2 py-1 text-xs bg-amber-500/20 text-amber-300 rounded hover:bg-amber-500/30 transition-colors disabled:opacity-50';
+
+export default function UpdateReleases() {
+  const { socket } = useSocket();
+  const [version, setVersion] = useState<VersionStatus | null>(null);
+  const [releases, setReleases] = useState<ReleaseInfo[]>([]);
+  const [preferences, setPreferences] = useState<UpdatePreferences | null>(null);
+  const [manifestUrl, setManifestUrl] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [isChecking, setIsChecking] = useState(false);
+
+  const loadReleases = useCallback(async () => {
+    try {
+      const response = await fetch('/api/updates', {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load releases');
+      }
+
+      setVersion(data.version);
+      setReleases(data.releases);
+      setPreferences(data.preferences);
+      setManifestUrl(data.preferences.manifestUrl);
+    } catch (error) {
+      console.error('Error loading releases:', error);
+      toast.error((error as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReleases();
+  }, [loadReleases]);
+
+  // Another admin's change, or a scheduled check that found a new release
+  useEffect(() => {
+    if (!socket) return;
+
+    socket.on('update_version', loadReleases);
+    return () => {
+      socket.off('update_version', loadReleases);
+    };
+  }, [socket, loadReleases]);
+
+  const savePreferences = async (changes: Partial<UpdatePreferences>, message: string) => {
+    setIsSaving(true);
+    try {
+      const response = await fetch('/api/updates/preferences', {
+        method: 'PUT',
+        headers: {
+          ...getAuthHeader(),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify(changes)
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save update preferences');
+      }
+
+      setVersion(data.version);
+      setReleases(data.releases);
+      setPreferences(data.preferences);
+      setManifestUrl(data.preferences.manifestUrl);
+      toast.success(message);
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCheck = async () => {
+    setIsChecking(true);
+    try {
+      const response = await fetch('/api/updates/check', {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to check for updates');
+      }
+
+      setVersion(data.version);
+      setReleases(data.releases);
+      toast.success(data.version.updateAvailable ? `v${data.version.target} is available` : 'The dashboard is up to date');
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const toggleSkip = (release: ReleaseInfo) => {
+    if (!preferences) return;
+    const skipped = release.skipped
+      ? preferences.skipped.filter(version => version !== release.version)
+      : [...preferences.skipped, release.version];
+    savePreferences({ skipped }, release.skipped ? `v${release.version} is offered again` : `v${release.version} will not be offered`);
+  };
+
+  const togglePin = (release: ReleaseInfo) => {
+    const pinned = preferences?.pinned === release.version ? null : release.version;
+    savePreferences({ pinned }, pinned ? `Pinned to v${pinned}` : 'Following the newest release again');
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Releases</h2>
+        <button
+          type="button"
+          onClick={handleCheck}
+          disabled={isChecking}
+          className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+        >
+          {isChecking ? 'Checking...' : 'Check Now'}
+        </button>
+      </div>
+
+      {preferences && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="update-channel" className="block text-sm font-mono text-gray-300">Channel</label>
+            <select
+              id="update-channel"
+              value={preferences.channel}
+              disabled={isSaving}
+              onChange={(e) => savePreferences({ channel: e.target.value as UpdateChannel }, `Following the ${e.target.value} channel`)}
+              className={inputClassName}
+            >
+              {UPDATE_CHANNELS.map(channel => (
+                <option key={channel} value={channel}>{channel === 'stable' ? 'Stable' : 'Beta (includes stable releases)'}</option>
+              ))}
+            </select>
+          </div>
+          <form
+            className="space-y-2 md:col-span-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              savePreferences({ manifestUrl }, 'Manifest URL saved');
+            }}
+          >
+            <label htmlFor="update-manifest-url" className="block text-sm font-mono text-gray-300">Manifest URL</label>
+            <div className="flex gap-2">
+              <input
+                id="update-manifest-url"
+                type="url"
+                required
+                value={manifestUrl}
+                onChange={(e) => setManifestUrl(e.target.value)}
+                className={inputClassName}
+              />
+              <button
+                type="submit"
+                disabled={isSaving || manifestUrl === preferences.manifestUrl}
+                className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+              >
+                Save
+              </button>
+            </div>
+          </form>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-400">
+        Pin a release to stop at it, or skip one to wait for the next. Required releases are always offered.
+      </p>
+
+      {releases.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {version?.checkedAt ? 'The manifest lists no releases on this channel.' : 'The manifest has not been fetched yet.'}
+        </p>
+      ) : (
+        <ul className="space-y-3">
+          {releases.map(release => {
+            const isCurrent = release.version === version?.current;
+            const isPinned = release.version === preferences?.pinned;
+            return (
+              <li key={release.version} className="bg-black/30 border border-amber-500/20 rounded p-4 space-y-2">
+                <div className="flex items-center justify-between gap-4 flex-wrap">
+                  <p className="font-mono text-sm text-amber-300">
+                    v{release.version}
+                    {release.date && <span className="ml-2 text-xs text-gray-500">{new Date(release.date).toLocaleDateString()}</span>}
+                    {release.channel === 'beta' && <span className="ml-2 text-xs text-sky-400">beta</span>}
+                    {release.required && <span className="ml-2 text-xs text-red-400">required</span>}
+                    {isCurrent && <span className="ml-2 text-xs text-green-400">running</span>}
+                    {release.version === version?.target && <span className="ml-2 text-xs text-amber-400">offered</span>}
+                    {isPinned && <span className="ml-2 text-xs text-amber-400/70">pinned</span>}
+                    {release.skipped && <span className="ml-2 text-xs text-gray-500">skipped</span>}
+                  </p>
+                  {(release.newer || isCurrent) && (
+                    <div className="flex gap-2">
+                      <button type="button" onClick={() => togglePin(release)} disabled={isSaving} className={buttonClassName}>
+                        {isPinned ? 'Unpin' : 'Pin'}
+                      </button>
+                      {release.newer && !release.required && (
+                        <button type="button" onClick={() => toggleSkip(release)} disabled={isSaving} className={buttonClassName}>
+                          {release.skipped ? 'Unskip' : 'Skip'}
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </div>
+                <p className="text-sm text-gray-300 whitespace-pre-wrap">{release.changelog || 'No changelog was published.'}</p>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,377 @@
+'use client';
+
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { toast } from 'react-hot-toast';
+import { useUser } from '@/hooks/useUser';
+import { getAuthHeader } from '@/lib/auth';
+
+// Roles from most to least privileged, matching the server's role list
+const ROLES = ['owner', 'operator', 'moderator', 'read-only'];
+
+// Dashboard account as returned by /api/users
+interface DashboardUser {
+  id: number;
+  username: string;
+  role: string;
+  disabled: boolean;
+  two_factor: boolean;
+  created_at: string;
+  last_login: string | null;
+}
+
+export default function UserManagement() {
+  const { userData } = useUser();
+  const [users, setUsers] = useState<DashboardUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [newUsername, setNewUsername] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [newRole, setNewRole] = useState('read-only');
+  const [isCreating, setIsCreating] = useState(false);
+  const [resetUserId, setResetUserId] = useState<number | null>(null);
+  const [resetPassword, setResetPassword] = useState('');
+
+  // Load the account list
+  const loadUsers = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/users', {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load users');
+      }
+
+      setUsers(data.users);
+    } catch (error) {
+      console.error('Error loading users:', error);
+      toast.error((error as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  // Create a new account
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsCreating(true);
+
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader(),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ username: newUsername, password: newPassword, role: newRole })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create user');
+      }
+
+      toast.success(`User ${data.user.username} created`);
+      setNewUsername('');
+      setNewPassword('');
+      setNewRole('read-only');
+      await loadUsers();
+    } catch (error) {
+      toast.error((error as Error).message);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  // Disable or re-enable an account
+  const handleToggleDisabled = async (user: DashboardUser) => {
+    try {
+      const response = await fetch(`/api/users/${user.id}/disable`, {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader(),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ disabled: !user.disabled })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to update user');
+      }
+
+      toast.success(`User ${user.username} ${data.disabled ? 'disabled' : 'enabled'}`);
+      await loadUsers();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  // Change an account's role
+  const handleRoleChange = async (user: DashboardUser, role: string) => {
+    try {
+      const response = await fetch(`/api/users/${user.id}/role`, {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader(),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ role })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change role');
+      }
+
+      toast.success(`${user.username} is now ${data.role}`);
+      await loadUsers();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  // Remove two-factor from an account whose owner lost their authenticator
+  const handleResetTwoFactor = async (user: DashboardUser) => {
+    if (!confirm(`Remove two-factor authentication from ${user.username}?`)) {
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/users/${user.id}/reset-2fa`, {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reset two-factor');
+      }
+
+      toast.success(`Two-factor removed from ${user.username}`);
+      await loadUsers();
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  // Reset an account's password
+  const handleResetPassword = async (e: FormEvent, user: DashboardUser) => {
+    e.preventDefault();
+
+    try {
+      const response = await fetch(`/api/users/${user.id}/reset-password`, {
+        method: 'POST',
+        headers: {
+          ...getAuthHeader(),
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ password: resetPassword })
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to reset password');
+      }
+
+      toast.success(`Password for ${user.username} reset`);
+      setResetUserId(null);
+      setResetPassword('');
+    } catch (error) {
+      toast.error((error as Error).message);
+    }
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex justify-between items-center">
+        <h2 className="text-xl font-semibold text-amber-300 font-mono">Dashboard Accounts</h2>
+        <button
+          type="button"
+          onClick={loadUsers}
+          disabled={isLoading}
+          className="px-3 py-1 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50"
+        >
+          {isLoading ? 'Refreshing...' : 'Refresh'}
+        </button>
+      </div>
+
+      {/* Create account form */}
+      <form onSubmit={handleCreate} className="bg-black/30 border border-amber-500/20 rounded-lg p-5 space-y-4">
+        <h3 className="text-lg font-mono text-amber-400">Create Account</h3>
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <div className="space-y-2">
+            <label htmlFor="new-username" className="block text-sm font-mono text-gray-300">Username</label>
+            <input
+              id="new-username"
+              type="text"
+              required
+              value={newUsername}
+              onChange={(e) => setNewUsername(e.target.value)}
+              className="w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="new-password" className="block text-sm font-mono text-gray-300">Password</label>
+            <input
+              id="new-password"
+              type="password"
+              required
+              minLength={8}
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              className="w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <label htmlFor="new-role" className="block text-sm font-mono text-gray-300">Role</label>
+            <select
+              id="new-role"
+              value={newRole}
+              onChange={(e) => setNewRole(e.target.value)}
+              className="w-full bg-black/30 border border-amber-500/20 rounded px-3 py-2 text-gray-300 focus:outline-none focus:border-amber-500/50"
+            >
+              {ROLES.map(role => (
+                <option key={role} value={role}>{role}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-end">
+            <button
+              type="submit"
+              disabled={isCreating}
+              className="w-full px-4 py-2 bg-amber-500/30 text-amber-300 rounded hover:bg-amber-500/40 transition-colors disabled:opacity-50 font-mono text-sm"
+            >
+              {isCreating ? 'Creating...' : 'Create'}
+            </button>
+          </div>
+        </div>
+      </form>
+
+      {/* Account list */}
+      <div className="bg-black/30 border border-amber-500/20 rounded-lg overflow-hidden">
+        <table className="w-full text-sm font-mono">
+          <thead className="bg-zinc-900/80 text-amber-400/80 text-left">
+            <tr>
+              <th className="px-4 py-2">Username</th>
+              <th className="px-4 py-2">Role</th>
+              <th className="px-4 py-2">Status</th>
+              <th className="px-4 py-2">2FA</th>
+              <th className="px-4 py-2">Created</th>
+              <th className="px-4 py-2">Last Login</th>
+              <th className="px-4 py-2 text-right">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {users.map(user => (
+              <tr key={user.id} className="border-t border-amber-500/10 text-gray-300 align-top">
+                <td className="px-4 py-2">
+                  {user.username}
+                  {user.username === userData?.username && (
+                    <span className="ml-2 text-[10px] text-amber-400/60">(you)</span>
+                  )}
+                </td>
+                <td className="px-4 py-2">
+                  <select
+                    value={user.role}
+                    aria-label={`Role for ${user.username}`}
+                    onChange={(e) => handleRoleChange(user, e.target.value)}
+                    className="bg-black/30 border border-amber-500/20 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-amber-500/50"
+                  >
+                    {ROLES.map(role => (
+                      <option key={role} value={role}>{role}</option>
+                    ))}
+                  </select>
+                </td>
+                <td className="px-4 py-2">
+                  <span className={user.disabled ? 'text-red-400' : 'text-green-400'}>
+                    {user.disabled ? 'Disabled' : 'Active'}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-xs">
+                  {user.two_factor ? (
+                    <span className="text-green-400">On</span>
+                  ) : (
+                    <span className="text-gray-500">Off</span>
+                  )}
+                </td>
+                <td className="px-4 py-2 text-xs text-amber-400/60">{user.created_at}</td>
+                <td className="px-4 py-2 text-xs text-amber-400/60">{user.last_login || 'Never'}</td>
+                <td className="px-4 py-2 text-right space-y-2">
+                  <div className="flex justify-end gap-2">
+                    <button
+                      type="button"
+                      onClick={() => {
+                        setResetUserId(resetUserId === user.id ? null : user.id);
+                        setResetPassword('');
+                      }}
+                      className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                    >
+                      Reset Password
+                    </button>
+                    {user.two_factor && (
+                      <button
+                        type="button"
+                        onClick={() => handleResetTwoFactor(user)}
+                        className="px-2 py-1 bg-amber-500/20 text-amber-300 rounded text-xs hover:bg-amber-500/30 transition-colors"
+                      >
+                        Reset 2FA
+                      </button>
+                    )}
+                    {user.username !== userData?.username && (
+                      <button
+                        type="button"
+                        onClick={() => handleToggleDisabled(user)}
+                        className={`px-2 py-1 rounded text-xs transition-colors ${
+                          user.disabled
+                            ? 'bg-green-500/20 text-green-300 hover:bg-green-500/30'
+                            : 'bg-red-900/20 text-red-400 border border-red-500/20 hover:bg-red-900/30'
+                        }`}
+                      >
+                        {user.disabled ? 'Enable' : 'Disable'}
+                      </button>
+                    )}
+                  </div>
+                  {resetUserId === user.id && (
+                    <form onSubmit={(e) => handleResetPassword(e, user)} className="flex justify-end gap-2">
+                      <input
+                        type="password"
+                        required
+                        minLength={8}
+                        placeholder="New password"
+                        aria-label={`New password for ${user.username}`}
+                        value={resetPassword}
+                        onChange={(e) => setResetPassword(e.target.value)}
+                        className="bg-black/30 border border-amber-500/20 rounded px-2 py-1 text-xs text-gray-300 focus:outline-none focus:border-amber-500/50"
+                      />
+                      <button
+                        type="submit"
+                        className="px-2 py-1 bg-amber-500/30 text-amber-300 rounded text-xs hover:bg-amber-500/40 transition-colors"
+                      >
+                        Save
+                      </button>
+                    </form>
+                  )}
+                </td>
+              </tr>
+            ))}
+            {!isLoading && users.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-amber-400/60">No accounts found</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
 'use client';
 
-import { createContext, useContext, useEffect, useState, useCallback, type ReactNode } from 'react';
+import { createContext, useContext, useEffect, useState, useCallback, useRef, type ReactNode } from 'react';
 import { io, type Socket } from 'socket.io-client';
+import { getSessionToken, clearSession, getAuthHeader } from '@/lib/auth';
+import { getStoredInstanceId, setStoredInstanceId } from '@/lib/instance';
+import type { LogFilter, LogRecord } from '@/lib/logs';
+import { DEFAULT_METRICS_RATE, getStoredMetricsRate, setStoredMetricsRate, type ProcessMetrics } from '@/lib/metrics';
+import type { VersionStatus } from '@/lib/updates';
+import type { ServerBranch, ServerBuildInfo, ServerUpdateProgress } from '@/lib/serverVersion';
 
 // Types
 interface SystemMetrics {
@@ -23,23 +29,20 @@ interface SystemMetrics {
     used: number;
     usedPercent: number;
   };
-  version: {
-    current: string;
-    latest: string | null;
-    updateAvailable: boolean;
-    updateInfo: {
-      latest_version: string;
-      repository_url: string;
-      changelog: string;
-      required: boolean;
-    } | null;
+  network: {
+    rxPerSecond: number;
+    txPerSecond: number;
   };
+  // Server processes of every running instance, by instance ID
+  processes: Record<number, ProcessMetrics>;
+  version: VersionStatus;
   timestamp: number;
 }
 
-interface CommandResult {
+// Result of a task from the server's task registry
+interface TaskResult<T = unknown> {
   output: string;
-  error?: string;
+  result?: T;
 }
 
 interface FileListResult {
@@ -51,20 +54,68 @@ interface FileListResult {
 
 interface ServerStatus {
   running: boolean;
+  phase?: 'stopped' | 'starting' | 'running' | 'stopping';
   pid?: number;
   uptime?: number;
+  startedAt?: string;
+  instanceId?: number;
   configPath?: string;
 }
 
+// Server instance as returned by /api/instances
+export interface ServerInstance {
+  id: number;
+  name: string;
+  slug: string;
+  installDir: string;
+  gamePort: number;
+  queryPort: number;
+  configPath: string;
+  logPath: string;
+  createdAt: string;
+  updatedAt: string;
+  state: ServerStatus;
+}
+
 interface ServerCommandResult {
   success: boolean;
   message: string;
   error?: string;
 }
 
+// One step of the server's stop sequence, streamed while it stops
+export interface StopProgress {
+  step: 'warning' | 'command' | 'sigterm' | 'sigkill';
+  message: string;
+}
+
+// One step of an instance clone, streamed while it copies
+export interface CloneProgress {
+  step: 'files' | 'packages' | 'assets' | 'config' | 'register';
+  message: string;
+}
+
 interface LogData {
   type: 'initial' | 'update';
-  logs: string[];
+  records: LogRecord[];
+  // Every package named in the log, sent with the initial records
+  sources?: string[];
+  // Sequence number of the last line covered, within the server's log stream
+  stream?: string;
+  seq?: number;
+}
+
+// The last log line received, which a subscription resumes after when the socket reconnects
+interface LogCursor {
+  stream: string;
+  seq: number;
+}
+
+interface LogSubscribeOptions {
+  initialLines?: number;
+  fullHistory?: boolean;
+  // Applied by the server to the history and to every new line
+  filter?: LogFilter;
 }
 
 interface SocketResponse<T> {
@@ -87,24 +138,35 @@ interface SocketContextType {
   isConnecting: boolean;
   connectionError: string | null;
   metrics: SystemMetrics | null;
+  // Seconds between metrics updates, null while paused - hidden tabs get none either way
+  metricsRate: number | null;
+  setMetricsRate: (rate: number | null) => void;
   reconnect: () => void;
-  executeCommand: (command: string, options?: { timeout?: number }) => Promise<CommandResult>;
+  runTask: <T = unknown>(name: string, args?: Record<string, string>, options?: { timeout?: number }) => Promise<TaskResult<T>>;
   readFile: (path: string) => Promise<string>;
   writeFile: (path: string, content: string) => Promise<void>;
   listFiles: (dirPath: string) => Promise<FileListResult[]>;
   connectionState: ConnectionState;
+  // Server instances - server, log, file, schedule and task actions apply to the current one
+  instances: ServerInstance[];
+  currentInstance: ServerInstance | null;
+  selectInstance: (id: number) => void;
+  refreshInstances: () => Promise<void>;
+  cloneInstance: (sourceId: number, clone: { name: string; installDir: string }, onProgress?: (progress: CloneProgress) => void) => Promise<ServerInstance>;
+  updateServer: (update: { branch: ServerBranch; validate: boolean }, onProgress?: (progress: ServerUpdateProgress) => void) => Promise<ServerBuildInfo>;
   // Server management
   serverStatus: ServerStatus | null;
   isLoadingServerStatus: boolean;
   fetchServerStatus: () => Promise<ServerStatus>;
   startServer: () => Promise<ServerCommandResult>;
-  stopServer: () => Promise<ServerCommandResult>;
+  stopServer: (onProgress?: (progress: StopProgress) => void) => Promise<ServerCommandResult>;
   sendServerCommand: (command: string) => Promise<ServerCommandResult>;
   // Logs
-  logs: string[];
+  logs: LogRecord[];
+  logSources: string[];
   isSubscribedToLogs: boolean;
   isLoadingLogs: boolean;
-  subscribeToLogs: (options?: { initialLines?: number; fullHistory?: boolean }) => Promise<void>;
+  subscribeToLogs: (options?: LogSubscribeOptions) => Promise<void>;
   unsubscribeFromLogs: () => void;
   clearLogs: () => void;
 }
@@ -116,8 +178,10 @@ const SocketContext = createContext<SocketContextType>({
   isConnecting: false,
   connectionError: null,
   metrics: null,
+  metricsRate: DEFAULT_METRICS_RATE,
+  setMetricsRate: () => {},
   reconnect: () => {},
-  executeCommand: () => Promise.reject(new Error('Socket not initialized')),
+  runTask: () => Promise.reject(new Error('Socket not initialized')),
   readFile: () => Promise.reject(new Error('Socket not initialized')),
   writeFile: () => Promise.reject(new Error('Socket not initialized')),
   listFiles: () => Promise.reject(new Error('Socket not initialized')),
@@ -128,6 +192,13 @@ const SocketContext = createContext<SocketContextType>({
     reconnectCount: 0,
     lastConnectAttempt: null
   },
+  // Server instances
+  instances: [],
+  currentInstance: null,
+  selectInstance: () => {},
+  refreshInstances: () => Promise.reject(new Error('Socket not initialized')),
+  cloneInstance: () => Promise.reject(new Error('Socket not initialized')),
+  updateServer: () => Promise.reject(new Error('Socket not initialized')),
   // Server management
   serverStatus: null,
   isLoadingServerStatus: false,
@@ -137,6 +208,7 @@ const SocketContext = createContext<SocketContextType>({
   sendServerCommand: () => Promise.reject(new Error('Socket not initialized')),
   // Logs
   logs: [],
+  logSources: [],
   isSubscribedToLogs: false,
   isLoadingLogs: false,
   subscribeToLogs: () => Promise.reject(new Error('Socket not initialized')),
@@ -144,10 +216,19 @@ const SocketContext = createContext<SocketContextType>({
   clearLogs: () => {}
 });
 
+/**
+ * Ask the server for metrics at a rate - none at all while the tab is hidden
+ */
+function emitMetricsRate(target: Socket, rate: number | null): void {
+  target.emit('set_metrics_rate', document.hidden ? null : rate);
+}
+
 // Provider component
 export function SocketProvider({ children }: { children: ReactNode }) {
   const [socket, setSocket] = useState<Socket | null>(null);
   const [metrics, setMetrics] = useState<SystemMetrics | null>(null);
+  const [metricsRate, setMetricsRateState] = useState<number | null>(DEFAULT_METRICS_RATE);
+  const metricsRateRef = useRef<number | null>(DEFAULT_METRICS_RATE);
   const [connectionState, setConnectionState] = useState<ConnectionState>({
     connected: false,
     connecting: false,
@@ -155,17 +236,26 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     reconnectCount: 0,
     lastConnectAttempt: null
   });
-  const [credentialsBase64, setCredentialsBase64] = useState<string | null>(null);
+  const [sessionToken, setSessionTokenState] = useState<string | null>(null);
+  
+  // Instance state - the ref lets socket listeners see the selection without being recreated
+  const [instances, setInstances] = useState<ServerInstance[]>([]);
+  const [currentInstanceId, setCurrentInstanceId] = useState<number | null>(null);
+  const instanceIdRef = useRef<number | null>(null);
   
   // Server management state
   const [serverStatus, setServerStatus] = useState<ServerStatus | null>(null);
   const [isLoadingServerStatus, setIsLoadingServerStatus] = useState<boolean>(false);
   
   // Log state
-  const [logs, setLogs] = useState<string[]>([]);
+  const [logs, setLogs] = useState<LogRecord[]>([]);
+  const [logSources, setLogSources] = useState<string[]>([]);
   const [isSubscribedToLogs, setIsSubscribedToLogs] = useState<boolean>(false);
   const [isLoadingLogs, setIsLoadingLogs] = useState<boolean>(false);
   const maxLogLines = 1000; // Prevent memory issues by limiting stored logs
+  // What the page subscribed with and how far it got, read by the connect listener to resume
+  const logSubscriptionRef = useRef<LogSubscribeOptions | null>(null);
+  const logCursorRef = useRef<LogCursor | null>(null);
 
   // Helper function to log connection state changes
   const logConnectionEvent = useCallback((event: string, details?: Record<string, unknown>) => {
@@ -181,32 +271,18 @@ export function SocketProvider({ children }: { children: ReactNode }) {
 
   // Socket connection initialization
   const initializeSocket = useCallback(() => {
-    // Check for existing credentials
-    const storedCredentials = sessionStorage.getItem('credentials');
-    if (!storedCredentials) {
+    // Check for an existing session
+    const token = getSessionToken();
+    if (!token) {
       setConnectionState(prev => ({
         ...prev,
-        error: 'No credentials found',
+        error: 'Not logged in',
         connecting: false
       }));
       return null;
     }
 
     try {
-      // Decode credentials
-      const credentialsString = atob(storedCredentials);
-      const [username, password] = credentialsString.split(':');
-      
-      if (!username || !password) {
-        logConnectionEvent('Invalid credentials format', { username: !!username, password: !!password });
-        setConnectionState(prev => ({
-          ...prev,
-          error: 'Invalid credentials format',
-          connecting: false
-        }));
-        return null;
-      }
-      
       // Set connection state to connecting
       setConnectionState(prev => ({
         ...prev,
@@ -233,7 +309,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       
       // Create socket.io instance with enhanced reliability settings
       const socketInstance = io(serverUrl, {
-        auth: { username, password },
+        auth: { token },
         reconnection: true,
         reconnectionAttempts: 10,     // Increased from 5
         reconnectionDelay: 1000,
@@ -254,10 +330,35 @@ export function SocketProvider({ children }: { children: ReactNode }) {
           error: null,
           reconnectCount: 0
         }));
+        
+        // A new connection starts on the default instance
+        if (instanceIdRef.current !== null) {
+          socketInstance.emit('select_instance', instanceIdRef.current);
+        }
+        
+        // A new connection starts at the default metrics rate
+        emitMetricsRate(socketInstance, metricsRateRef.current);
+        
+        // The server forgets subscriptions with the old connection - pick up after the last line received
+        if (logSubscriptionRef.current) {
+          socketInstance.emit('subscribe_logs', {
+            ...logSubscriptionRef.current,
+            resume: logCursorRef.current ?? undefined
+          });
+        }
       });
       
       socketInstance.on('connect_error', (err) => {
         logConnectionEvent('Socket.io connect_error', { message: err.message });
+        
+        // An expired or revoked session will never connect, so send the user back to login
+        if (err.message === 'Session expired or invalid') {
+          socketInstance.disconnect();
+          clearSession();
+          window.location.href = '/';
+          return;
+        }
+        
         setConnectionState(prev => ({
           ...prev,
           connected: false,
@@ -277,7 +378,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
         }));
         
         // For certain disconnect reasons, attempt immediate reconnection
-        if (reason === 'io server disconnect' || reason === 'transport close') {
+        if (getSessionToken() && (reason === 'io server disconnect' || reason === 'transport close')) {
           // Server forced disconnect, try to reconnect
           socketInstance.connect();
         }
@@ -317,10 +418,31 @@ export function SocketProvider({ children }: { children: ReactNode }) {
         }));
       });
       
+      // The server closes sockets whose session was revoked (logout elsewhere, account disabled)
+      socketInstance.on('session_revoked', () => {
+        logConnectionEvent('Session revoked');
+        clearSession();
+        window.location.href = '/';
+      });
+      
       // Listen for system metrics updates
       socketInstance.on('system_metrics', (data: SystemMetrics) => {
         setMetrics(data);
       });
+
+      // Offered version and required-release lock, as soon as a check or a preference change alters them
+      socketInstance.on('update_version', (version: VersionStatus) => {
+        setMetrics(prev => (prev ? { ...prev, version } : prev));
+      });
+
+      // The server pushes every start, stop and crash, so the status never needs polling
+      socketInstance.on('server_state', (state: ServerStatus) => {
+        // Ignore the default instance's state sent on connect before the selection is restored
+        if (instanceIdRef.current === null || state.instanceId === instanceIdRef.current) {
+          setServerStatus(state);
+        }
+      });
+
       
       // Set up heartbeat mechanism
       const pingInterval = setInterval(() => {
@@ -428,18 +550,18 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     }
   }, [socket, initializeSocket, logConnectionEvent]);
 
-  // Effect to setup and manage socket connection based on credentials
+  // Effect to setup and manage socket connection based on the session token
   useEffect(() => {
-    // Check if credentials are in sessionStorage
-    const storedCredentials = sessionStorage.getItem('credentials');
-    if (storedCredentials !== credentialsBase64) {
-      logConnectionEvent('Credentials changed', { 
-        hadPrevious: !!credentialsBase64, 
-        hasNew: !!storedCredentials 
+    // Check if the session token in sessionStorage changed
+    const storedToken = getSessionToken();
+    if (storedToken !== sessionToken) {
+      logConnectionEvent('Session changed', { 
+        hadPrevious: !!sessionToken, 
+        hasNew: !!storedToken 
       });
       
-      // Update stored credentials
-      setCredentialsBase64(storedCredentials);
+      // Update stored token
+      setSessionTokenState(storedToken);
       
       // Clean up existing socket if any
       if (socket) {
@@ -447,10 +569,10 @@ export function SocketProvider({ children }: { children: ReactNode }) {
         socket.removeAllListeners();
       }
       
-      if (!storedCredentials) {
+      if (!storedToken) {
         setConnectionState(prev => ({
           ...prev,
-          error: 'No credentials found',
+          error: 'Not logged in',
           connected: false,
           connecting: false
         }));
@@ -474,27 +596,179 @@ export function SocketProvider({ children }: { children: ReactNode }) {
         socket.removeAllListeners();
       }
     };
-  }, [credentialsBase64, initializeSocket, socket, logConnectionEvent]);
+  }, [sessionToken, initializeSocket, socket, logConnectionEvent]);
+
+  // Point the socket at an instance. Log lines belong to one instance, so they are dropped
+  // and the server page subscribes again for the new one.
+  const applyInstance = useCallback((id: number) => {
+    if (instanceIdRef.current === id) return;
+    
+    instanceIdRef.current = id;
+    setCurrentInstanceId(id);
+    setServerStatus(null);
+    
+    if (socket?.connected) {
+      // Emitted right away so it reaches the server before any new log subscription
+      socket.emit('select_instance', id);
+    }
+    socket?.off('log_data');
+    logSubscriptionRef.current = null;
+    logCursorRef.current = null;
+    setLogs([]);
+    setLogSources([]);
+    setIsSubscribedToLogs(false);
+  }, [socket]);
+
+  const selectInstance = useCallback((id: number) => {
+    setStoredInstanceId(id);
+    applyInstance(id);
+  }, [applyInstance]);
+
+  const refreshInstances = useCallback(async () => {
+    try {
+      const response = await fetch('/api/instances', {
+        headers: {
+          ...getAuthHeader()
+        }
+      });
+
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load server instances');
+      }
+
+      const list: ServerInstance[] = data.instances;
+      setInstances(list);
+      
+      // Keep the selection while it exists, otherwise fall back to the stored one or the default
+      const selected = [instanceIdRef.current, getStoredInstanceId()]
+        .find(id => id !== null && list.some(instance => instance.id === id)) ?? list[0]?.id;
+      if (selected !== undefined) {
+        applyInstance(selected);
+      }
+    } catch (error) {
+      console.error('Error loading server instances:', error);
+    }
+  }, [applyInstance]);
+
+  // Load the instances once connected, and again whenever someone changes them
+  useEffect(() => {
+    if (!socket || !connectionState.connected) return;
+    
+    refreshInstances();
+    socket.on('instances_changed', refreshInstances);
+    return () => {
+      socket.off('instances_changed', refreshInstances);
+    };
+  }, [socket, connectionState.connected, refreshInstances]);
+
+  const cloneInstance = useCallback((
+    sourceId: number,
+    clone: { name: string; installDir: string },
+    onProgress?: (progress: CloneProgress) => void
+  ): Promise<ServerInstance> => {
+    return new Promise((resolve, reject) => {
+      if (!socket || !connectionState.connected) {
+        reject(new Error('Socket not connected'));
+        return;
+      }
+      
+      // Copying a large Assets folder takes a while, so the timeout only covers the gap between steps
+      const stepTimeout = 600000;
+      let timeoutId = setTimeout(handleTimeout, stepTimeout);
+      
+      function handleTimeout() {
+        socket?.off('instance_clone_progress', handleProgress);
+        reject(new Error('Instance clone request timed out'));
+      }
+      
+      function handleProgress(progress: CloneProgress) {
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(handleTimeout, stepTimeout);
+        onProgress?.(progress);
+      }
+      socket.on('instance_clone_progress', handleProgress);
+      
+      socket.emit('clone_instance', sourceId, clone, (response: {
+        success: boolean;
+        instance?: Omit<ServerInstance, 'state'>;
+        error?: string;
+      }) => {
+        clearTimeout(timeoutId);
+        socket.off('instance_clone_progress', handleProgress);
+        
+        if (response.success && response.instance) {
+          resolve({ ...response.instance, state: { running: false, phase: 'stopped' } });
+        } else {
+          reject(new Error(response.error || 'Failed to clone instance'));
+        }
+      });
+    });
+  }, [socket, connectionState.connected]);
 
-  // Execute command via socket
-  const executeCommand = useCallback((command: string, options?: { timeout?: number }): Promise<CommandResult> => {
+  const updateServer = useCallback((
+    update: { branch: ServerBranch; validate: boolean },
+    onProgress?: (progress: ServerUpdateProgress) => void
+  ): Promise<ServerBuildInfo> => {
     return new Promise((resolve, reject) => {
       if (!socket || !connectionState.connected) {
         reject(new Error('Socket not connected'));
         return;
       }
       
-      // Set a timeout for the command execution
+      // SteamCMD can sit on one step for a long time while it validates, so only the gap between steps is timed
+      const stepTimeout = 600000;
+      let timeoutId = setTimeout(handleTimeout, stepTimeout);
+      
+      function handleTimeout() {
+        socket?.off('server_update_progress', handleProgress);
+        reject(new Error('Server update request timed out'));
+      }
+      
+      function handleProgress(progress: ServerUpdateProgress) {
+        clearTimeout(timeoutId);
+        timeoutId = setTimeout(handleTimeout, stepTimeout);
+        onProgress?.(progress);
+      }
+      socket.on('server_update_progress', handleProgress);
+      
+      socket.emit('update_server', update, (response: {
+        success: boolean;
+        build?: ServerBuildInfo;
+        restored?: boolean;
+        error?: string;
+      }) => {
+        clearTimeout(timeoutId);
+        socket.off('server_update_progress', handleProgress);
+        
+        if (response.success && response.build) {
+          resolve(response.build);
+        } else {
+          const error = response.error || 'Failed to update the server';
+          reject(new Error(response.restored ? `${error} - the previous install was restored` : error));
+        }
+      });
+    });
+  }, [socket, connectionState.connected]);
+
+  // Run a named task via socket
+  const runTask = useCallback(<T = unknown>(name: string, args: Record<string, string> = {}, options?: { timeout?: number }): Promise<TaskResult<T>> => {
+    return new Promise((resolve, reject) => {
+      if (!socket || !connectionState.connected) {
+        reject(new Error('Socket not connected'));
+        return;
+      }
+      
+      // The server enforces its own limit per task; this only stops waiting for the answer
       const timeoutDuration = options?.timeout || 30000; // Default 30 second timeout
       const timeoutId = setTimeout(() => {
-        reject(new Error('Command execution timed out'));
+        reject(new Error(`Task ${name} timed out`));
       }, timeoutDuration);
       
-      // Pass the timeout to the server as well
-      socket.emit('execute_command', command, { timeout: timeoutDuration }, (response: SocketResponse<CommandResult>) => {
+      socket.emit('run_task', name, args, (response: { success: boolean; output?: string; result?: T; error?: string }) => {
         clearTimeout(timeoutId);
         if (response.success) {
-          resolve(response.result || { output: 'Command executed successfully' });
+          resolve({ output: response.output || '', result: response.result });
         } else {
           reject(new Error(response.error || 'Unknown error'));
         }
@@ -593,12 +867,8 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       const maxRetries = 2;
       
       const attemptFetchStatus = () => {
-        socket.emit('server_status', (response: { 
+        socket.emit('server_status', (response: Partial<ServerStatus> & { 
           success: boolean;
-          running?: boolean;
-          pid?: number;
-          uptime?: number;
-          configPath?: string;
           error?: string;
         }) => {
           console.log('Server status response:', response);
@@ -609,8 +879,10 @@ export function SocketProvider({ children }: { children: ReactNode }) {
             
             const status: ServerStatus = {
               running: !!response.running,
+              phase: response.phase,
               pid: response.pid,
               uptime: response.uptime,
+              startedAt: response.startedAt,
               configPath: response.configPath
             };
             
@@ -648,31 +920,15 @@ export function SocketProvider({ children }: { children: ReactNode }) {
         reject(new Error('Server start request timed out'));
       }, 30000);
       
+      // The new status arrives as a server_state event
       socket.emit('server_start', (response: {
         success: boolean;
         message?: string;
-        running?: boolean;
-        pid?: number;
         error?: string;
       }) => {
         clearTimeout(timeoutId);
         
         if (response.success) {
-          // Update server status if available
-          if (response.running !== undefined) {
-            setServerStatus(prev => {
-              if (!prev) return {
-                running: !!response.running,
-                pid: response.pid
-              };
-              return {
-                ...prev,
-                running: !!response.running,
-                pid: response.pid
-              };
-            });
-          }
-          
           resolve({
             success: true,
             message: response.message || 'Server started successfully'
@@ -684,41 +940,39 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     });
   }, [socket, connectionState.connected]);
   
-  const stopServer = useCallback((): Promise<ServerCommandResult> => {
+  const stopServer = useCallback((onProgress?: (progress: StopProgress) => void): Promise<ServerCommandResult> => {
     return new Promise((resolve, reject) => {
       if (!socket || !connectionState.connected) {
         reject(new Error('Socket not connected'));
         return;
       }
       
-      const timeoutId = setTimeout(() => {
+      // The stop sequence can take minutes, so the timeout only covers the gap between progress updates
+      let timeoutId = setTimeout(() => {
+        socket.off('server_stop_progress', handleProgress);
         reject(new Error('Server stop request timed out'));
       }, 30000);
       
+      function handleProgress(progress: StopProgress) {
+        clearTimeout(timeoutId);
+        // Longest wait between two steps is five minutes, plus a margin
+        timeoutId = setTimeout(() => {
+          socket?.off('server_stop_progress', handleProgress);
+          reject(new Error('Server stop request timed out'));
+        }, 330000);
+        onProgress?.(progress);
+      }
+      socket.on('server_stop_progress', handleProgress);
+      
       socket.emit('server_stop', (response: {
         success: boolean;
         message?: string;
-        running?: boolean;
         error?: string;
       }) => {
         clearTimeout(timeoutId);
+        socket.off('server_stop_progress', handleProgress);
         
         if (response.success) {
-          // Update server status if available
-          if (response.running !== undefined) {
-            setServerStatus(prev => {
-              if (!prev) return {
-                running: !!response.running
-              };
-              return {
-                ...prev,
-                running: !!response.running,
-                pid: undefined,
-                uptime: undefined
-              };
-            });
-          }
-          
           resolve({
             success: true,
             message: response.message || 'Server stopped successfully'
@@ -812,65 +1066,43 @@ export function SocketProvider({ children }: { children: ReactNode }) {
   }, []);
   
   const handleLogData = useCallback((data: LogData) => {
-    if (!data || !data.logs) return;
+    if (!data || !data.records) return;
+    
+    if (data.stream !== undefined && data.seq !== undefined) {
+      const cursor = logCursorRef.current;
+      // Lines of this stream up to the cursor have been received already
+      if (data.type === 'update' && cursor?.stream === data.stream && data.seq <= cursor.seq) return;
+      logCursorRef.current = { stream: data.stream, seq: data.seq };
+    }
+    
+    if (data.sources) {
+      setLogSources(data.sources);
+    }
+    
+    // Filter out command execution messages
+    const processedLogs = data.records.filter(record => {
+      const message = record.message.toLowerCase();
+      return record.raw.trim() && !(
+        message.includes('executing:') || 
+        message.includes('command sent to server') ||
+        message.includes('command executed successfully')
+      );
+    });
     
-    // Process log data to ensure complete lines and filter out command execution messages
-    const processedLogs = data.logs
-      .filter(Boolean)
-      .filter(log => {
-        // Filter out command execution messages
-        const lowerLog = log.toLowerCase();
-        return !(
-          lowerLog.includes('executing:') || 
-          lowerLog.includes('command sent to server') ||
-          lowerLog.includes('command executed successfully')
-        );
-      })
-      .map(log => log.trim());
+    if (data.type === 'initial') {
+      // The initial records replace whatever was shown, even when none match
+      setLogs(processedLogs);
+      return;
+    }
     
     // Only update if we have logs to add
     if (processedLogs.length === 0) return;
     
-    setLogs(prevLogs => {
-      if (data.type === 'initial') {
-        // When getting initial logs, handle duplication prevention differently
-        // We want to keep these logs regardless, but we should deduplicate them
-        const uniqueLogs = [];
-        const seenLines = new Set();
-        
-        for (const log of processedLogs) {
-          // Skip empty lines
-          if (!log) continue;
-          
-          // Skip duplicates by using a Set to track seen lines
-          if (!seenLines.has(log)) {
-            seenLines.add(log);
-            uniqueLogs.push(log);
-          }
-        }
-        
-        return uniqueLogs;
-      }
-      
-      // For incremental updates, we need to be more sophisticated with duplicate detection
-      // Hash for tracking seen logs to avoid duplicates
-      const seenLogs = new Set(prevLogs.slice(-100));  // Increased to 100 for better duplicate detection
-      
-      // Filter out duplicates
-      const uniqueNewLogs = processedLogs.filter(log => {
-        if (!log) return false;
-        return !seenLogs.has(log);
-      });
-      
-      if (uniqueNewLogs.length === 0) return prevLogs;
-      
-      // Add new logs while respecting the max limit
-      const newLogs = [...prevLogs, ...uniqueNewLogs];
-      return newLogs.slice(-maxLogLines);
-    });
+    // Add new logs while respecting the max limit
+    setLogs(prevLogs => [...prevLogs, ...processedLogs].slice(-maxLogLines));
   }, []);
   
-  const subscribeToLogs = useCallback((options: { initialLines?: number; fullHistory?: boolean } = {}): Promise<void> => {
+  const subscribeToLogs = useCallback((options: LogSubscribeOptions = {}): Promise<void> => {
     return new Promise((resolve, reject) => {
       if (!socket || !connectionState.connected) {
         reject(new Error('Socket not connected'));
@@ -900,8 +1132,12 @@ export function SocketProvider({ children }: { children: ReactNode }) {
       // Note: realtime parameter removed as server now always streams in real-time
       const subscribeOptions = {
         initialLines: options.initialLines || 50,
-        fullHistory: options.fullHistory || false
+        fullHistory: options.fullHistory || false,
+        filter: options.filter
       };
+      // A new subscription starts from its initial records rather than resuming
+      logSubscriptionRef.current = subscribeOptions;
+      logCursorRef.current = null;
       
       socket.emit('subscribe_logs', subscribeOptions, (response: {
         success: boolean;
@@ -916,6 +1152,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
           resolve();
         } else {
           socket.off('log_data');
+          logSubscriptionRef.current = null;
           setIsSubscribedToLogs(false);
           reject(new Error(response.error || response.message || 'Failed to subscribe to logs'));
         }
@@ -928,24 +1165,12 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     if (socket) {
       socket.off('log_data');
       socket.emit('unsubscribe_logs');
+      logSubscriptionRef.current = null;
+      logCursorRef.current = null;
       setIsSubscribedToLogs(false);
     }
   }, [socket]);
 
-  // Effect to check server status when socket connects
-  useEffect(() => {
-    if (socket && connectionState.connected) {
-      console.log('Socket connected, fetching server status');
-      fetchServerStatus()
-        .then(status => {
-          console.log('Initial server status:', status);
-        })
-        .catch(error => {
-          console.error('Error fetching server status:', error);
-        });
-    }
-  }, [socket, connectionState.connected, fetchServerStatus]);
-
   // Clean up logs subscription on unmount
   useEffect(() => {
     return () => {
@@ -953,6 +1178,29 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     };
   }, [unsubscribeFromLogs]);
 
+  // Restore the rate chosen in an earlier visit
+  useEffect(() => {
+    setMetricsRateState(getStoredMetricsRate());
+  }, []);
+
+  // Tell the server the rate whenever it changes, and stop metrics while the tab is hidden
+  useEffect(() => {
+    metricsRateRef.current = metricsRate;
+    if (!socket) return;
+
+    emitMetricsRate(socket, metricsRate);
+    const handleVisibilityChange = () => emitMetricsRate(socket, metricsRate);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [socket, metricsRate]);
+
+  const setMetricsRate = useCallback((rate: number | null) => {
+    setStoredMetricsRate(rate);
+    setMetricsRateState(rate);
+  }, []);
+
   // Context value
   const value = {
     socket,
@@ -960,12 +1208,21 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     isConnecting: connectionState.connecting,
     connectionError: connectionState.error,
     metrics,
+    metricsRate,
+    setMetricsRate,
     reconnect,
-    executeCommand,
+    runTask,
     readFile,
     writeFile,
     listFiles,
     connectionState,
+    // Server instances
+    instances,
+    currentInstance: instances.find(instance => instance.id === currentInstanceId) ?? null,
+    selectInstance,
+    refreshInstances,
+    cloneInstance,
+    updateServer,
     // Server management
     serverStatus,
     isLoadingServerStatus,
@@ -975,6 +1232,7 @@ export function SocketProvider({ children }: { children: ReactNode }) {
     sendServerCommand,
     // Logs
     logs,
+    logSources,
     isSubscribedToLogs,
     isLoadingLogs,
     subscribeToLogs,
@@ -1,9 +1,12 @@
 'use client';
 
 import { useState, useEffect, useCallback } from 'react';
+import { getAuthHeader, getSessionToken } from '@/lib/auth';
 
 interface UserData {
   username: string;
+  role: string;
+  permissions: string[];
   onboardingCompleted: boolean;
 }
 
@@ -18,10 +21,8 @@ export function useUser() {
       setLoading(true);
       setError(null);
       
-      // Get credentials from session storage
-      const credentialsBase64 = sessionStorage.getItem('credentials');
-      if (!credentialsBase64) {
-        setError('No credentials found');
+      if (!getSessionToken()) {
+        setError('Not logged in');
         setLoading(false);
         return;
       }
@@ -29,7 +30,7 @@ export function useUser() {
       // Make API request with authentication
       const response = await fetch('/api/users/me', {
         headers: {
-          'Authorization': `Basic ${credentialsBase64}`
+          ...getAuthHeader()
         }
       });
       
@@ -41,6 +42,8 @@ export function useUser() {
       const data = await response.json();
       setUserData({
         username: data.username,
+        role: data.role,
+        permissions: data.permissions || [],
         onboardingCompleted: data.onboardingCompleted
       });
     } catch (err) {
@@ -56,10 +59,8 @@ export function useUser() {
     try {
       setError(null);
       
-      // Get credentials from session storage
-      const credentialsBase64 = sessionStorage.getItem('credentials');
-      if (!credentialsBase64) {
-        setError('No credentials found');
+      if (!getSessionToken()) {
+        setError('Not logged in');
         return false;
       }
       
@@ -67,7 +68,7 @@ export function useUser() {
       const response = await fetch('/api/users/onboarding', {
         method: 'POST',
         headers: {
-          'Authorization': `Basic ${credentialsBase64}`,
+          ...getAuthHeader(),
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({ completed })
@@ -96,6 +97,11 @@ export function useUser() {
     }
   }, [userData]);
   
+  // Check whether the current user's role grants a permission
+  const hasPermission = useCallback((permission: string) => {
+    return !!userData?.permissions.includes(permission);
+  }, [userData]);
+  
   // Load user data on mount
   useEffect(() => {
     fetchUserData();
@@ -106,6 +112,7 @@ export function useUser() {
     loading,
     error,
     fetchUserData,
-    updateOnboardingStatus
+    updateOnboardingStatus,
+    hasPermission
   };
 }
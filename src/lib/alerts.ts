@@ -0,0 +1,47 @@
+// Client-side types and helpers for log alerts - rules are checked on the server as lines arrive
+
+// Alert as returned by /api/alerts and pushed in log_alert events
+export interface LogAlert {
+  id: number;
+  instanceId: number;
+  instanceName: string;
+  ruleId: number;
+  ruleName: string;
+  matchCount: number;
+  windowSeconds: number;
+  level: string;
+  source: string | null;
+  message: string;
+  // SQLite UTC time, e.g. "2024-05-01 14:03:27"
+  firedAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+}
+
+/**
+ * "90 seconds", "5 minutes" or "2 hours" - whole units only, like the server's warnings
+ */
+export function formatSeconds(seconds: number): string {
+  const [value, unit] = seconds >= 3600 && seconds % 3600 === 0
+    ? [seconds / 3600, 'hour']
+    : seconds >= 60 && seconds % 60 === 0
+      ? [seconds / 60, 'minute']
+      : [seconds, 'second'];
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
+
+/**
+ * What fired, e.g. "Error burst: 20 lines in 1 minute"
+ */
+export function describeAlert(alert: LogAlert): string {
+  return alert.matchCount > 1
+    ? `${alert.ruleName}: ${alert.matchCount} lines in ${formatSeconds(alert.windowSeconds)}`
+    : alert.ruleName;
+}
+
+/**
+ * When an alert fired, in the browser's time zone
+ */
+export function formatFiredAt(alert: LogAlert): string {
+  return new Date(`${alert.firedAt.replace(' ', 'T')}Z`).toLocaleString();
+}
@@ -0,0 +1,26 @@
+// Client-side session helpers shared by every component that talks to the API
+
+const SESSION_TOKEN_KEY = 'sessionToken';
+
+export function getSessionToken(): string | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  return sessionStorage.getItem(SESSION_TOKEN_KEY);
+}
+
+export function setSessionToken(token: string): void {
+  sessionStorage.setItem(SESSION_TOKEN_KEY, token);
+}
+
+export function clearSession(): void {
+  sessionStorage.removeItem(SESSION_TOKEN_KEY);
+  // Left behind by dashboard versions that stored Basic credentials
+  sessionStorage.removeItem('credentials');
+}
+
+// Get the authentication header for API requests
+export function getAuthHeader(): Record<string, string> {
+  const token = getSessionToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
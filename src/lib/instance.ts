@@ -0,0 +1,21 @@
+// Client-side helpers for the server instance the dashboard is pointed at
+
+const INSTANCE_ID_KEY = 'instanceId';
+
+// Kept in localStorage so the choice survives logging out and applies to new tabs
+export function getStoredInstanceId(): number | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+  const stored = Number.parseInt(localStorage.getItem(INSTANCE_ID_KEY) || '', 10);
+  return Number.isNaN(stored) ? null : stored;
+}
+
+export function setStoredInstanceId(id: number): void {
+  localStorage.setItem(INSTANCE_ID_KEY, String(id));
+}
+
+// Get the header that points an API request at an instance - without it the server uses the default one
+export function getInstanceHeader(instanceId?: number | null): Record<string, string> {
+  return instanceId ? { 'X-Instance-Id': String(instanceId) } : {};
+}
@@ -0,0 +1,76 @@
+// Client-side types and helpers for parsed server log lines - the parsing and filtering happen on the server
+
+export const LOG_LEVELS = ['debug', 'info', 'warning', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export interface LogRecord {
+  timestamp: string | null;
+  level: LogLevel;
+  source: string | null;
+  message: string;
+  raw: string;
+}
+
+// Fields left out match everything
+export interface LogFilter {
+  levels?: LogLevel[];
+  sources?: string[];
+  search?: string;
+}
+
+const ANSI_CODES = /\x1b\[[0-9;]*[A-Za-z]/g;
+
+/**
+ * Strip the colour codes the server writes, for showing a line as plain text
+ */
+export function stripAnsi(line: string): string {
+  return line.replace(ANSI_CODES, '');
+}
+
+/**
+ * The search of a filter as a pattern for highlighting its matches, or null if there is nothing valid to highlight
+ */
+export function getSearchPattern(search?: string): RegExp | null {
+  if (!search) {
+    return null;
+  }
+  try {
+    return new RegExp(search, 'gi');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Split a line into the parts that match a search pattern and the parts between them
+ */
+export function splitMatches(text: string, pattern: RegExp | null): { text: string; match: boolean }[] {
+  if (!pattern) {
+    return [{ text, match: false }];
+  }
+
+  const parts: { text: string; match: boolean }[] = [];
+  let last = 0;
+  for (const found of text.matchAll(pattern)) {
+    // Empty matches such as "^" have nothing to highlight
+    if (!found[0] || found.index === undefined) continue;
+    if (found.index > last) {
+      parts.push({ text: text.slice(last, found.index), match: false });
+    }
+    parts.push({ text: found[0], match: true });
+    last = found.index + found[0].length;
+  }
+  if (last < text.length) {
+    parts.push({ text: text.slice(last), match: false });
+  }
+  return parts;
+}
+
+// Turn a filter into the query parameters of the logs endpoint
+export function toLogQuery(filter: LogFilter): Record<string, string> {
+  const query: Record<string, string> = {};
+  if (filter.levels) query.level = filter.levels.join(',');
+  if (filter.sources && filter.sources.length > 0) query.source = filter.sources.join(',');
+  if (filter.search) query.search = filter.search;
+  return query;
+}
@@ -0,0 +1,79 @@
+// Client-side types and helpers for metrics history - samples are taken and averaged on the server
+
+export const METRIC_RANGES = ['1h', '6h', '24h', '7d', '30d', '90d'] as const;
+
+export type MetricRange = typeof METRIC_RANGES[number];
+
+// Seconds between system_metrics events a client can ask for
+export const METRICS_RATES = [5, 10, 30, 60] as const;
+export const DEFAULT_METRICS_RATE = 5;
+
+const METRICS_RATE_KEY = 'metricsRate';
+
+// Sample as returned by /api/system/metrics/history
+export interface MetricSample {
+  // Unix seconds at the start of the period the sample averages
+  timestamp: number;
+  cpu: number;
+  memoryUsed: number;
+  memoryTotal: number;
+  diskUsed: number;
+  diskTotal: number;
+  // Bytes per second
+  networkRx: number;
+  networkTx: number;
+}
+
+// A game server process and everything it started - sent live with system_metrics and
+// returned by /api/server/metrics/history
+export interface ProcessMetrics {
+  timestamp: number;
+  // Percent of one core, so a busy multithreaded server can go past 100
+  cpu: number;
+  // Resident memory in bytes
+  rss: number;
+  threads: number;
+  openFiles: number;
+  // TCP and UDP sockets
+  sockets: number;
+}
+
+// Kept in localStorage like the selected instance - null means metrics are paused
+export function getStoredMetricsRate(): number | null {
+  if (typeof window === 'undefined') {
+    return DEFAULT_METRICS_RATE;
+  }
+  const stored = localStorage.getItem(METRICS_RATE_KEY);
+  if (stored === 'paused') {
+    return null;
+  }
+  const rate = Number(stored);
+  return (METRICS_RATES as readonly number[]).includes(rate) ? rate : DEFAULT_METRICS_RATE;
+}
+
+export function setStoredMetricsRate(rate: number | null): void {
+  localStorage.setItem(METRICS_RATE_KEY, rate === null ? 'paused' : String(rate));
+}
+
+/**
+ * "512 B", "3.2 MB" or "1.5 GB"
+ */
+export function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${Math.round(value)} B` : `${value.toFixed(1)} ${units[unit]}`;
+}
+
+/**
+ * Local time of a sample - with the date once a range spans more than a day
+ */
+export function formatSampleTime(timestamp: number, withDate: boolean): string {
+  const date = new Date(timestamp * 1000);
+  const time = date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  return withDate ? `${date.toLocaleDateString([], { month: 'short', day: 'numeric' })} ${time}` : time;
+}
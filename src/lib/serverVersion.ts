@@ -0,0 +1,26 @@
+// Client-side types for the game server's Steam build - SteamCMD runs on the server
+
+export const SERVER_BRANCHES = ['standard', 'bleeding-edge'] as const;
+export type ServerBranch = typeof SERVER_BRANCHES[number];
+
+export const SERVER_BRANCH_LABELS: Record<ServerBranch, string> = {
+  standard: 'Stable',
+  'bleeding-edge': 'Bleeding Edge'
+};
+
+// The installed build, as returned by /api/server/build
+export interface ServerBuildInfo {
+  installed: boolean;
+  buildId: string | null;
+  branch: ServerBranch | null;
+  // ISO time SteamCMD last updated the install
+  lastUpdated: string | null;
+  sizeOnDisk: number | null;
+}
+
+// One step of a server update, streamed while it runs - download steps carry SteamCMD's progress
+export interface ServerUpdateProgress {
+  step: 'stop' | 'backup' | 'download' | 'verify' | 'restore' | 'start';
+  message: string;
+  percent?: number;
+}
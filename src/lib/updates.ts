@@ -0,0 +1,78 @@
+// Client-side types and helpers for dashboard updates - the build, swap and rollback run on the server
+
+export const UPDATE_CHANNELS = ['stable', 'beta'] as const;
+export type UpdateChannel = typeof UPDATE_CHANNELS[number];
+
+// Running and offered versions, as in system_metrics, update_version events and /api/updates
+export interface VersionStatus {
+  current: string;
+  // Newest release of the channel
+  latest: string | null;
+  // What Start Update installs - the newest release that is neither skipped nor past the pin
+  target: string | null;
+  updateAvailable: boolean;
+  // A required release is newer than the running version - the dashboard is locked until it is applied
+  required: boolean;
+  channel: UpdateChannel;
+  pinned: string | null;
+  // ISO time the server last fetched the manifest
+  checkedAt: string | null;
+  // Why the last check failed
+  error: string | null;
+}
+
+// A release of the channel, as listed by /api/updates newest first
+export interface ReleaseInfo {
+  version: string;
+  channel: UpdateChannel;
+  date: string | null;
+  changelog: string;
+  required: boolean;
+  // Newer than the running version
+  newer: boolean;
+  skipped: boolean;
+}
+
+export interface UpdatePreferences {
+  channel: UpdateChannel;
+  pinned: string | null;
+  skipped: string[];
+  manifestUrl: string;
+}
+
+export type UpdatePhase = 'checkout' | 'install' | 'build' | 'verify' | 'swap' | 'restart' | 'health-check' | 'rollback' | 'done';
+
+export type UpdateState = 'idle' | 'running' | 'succeeded' | 'failed' | 'rolled-back';
+
+// Progress of the current or last update, as returned by /api/updates and pushed in update_status events
+export interface UpdateStatus {
+  state: UpdateState;
+  phase: UpdatePhase | null;
+  fromVersion: string | null;
+  toVersion: string | null;
+  tag: string | null;
+  startedBy: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+  log: { at: string; message: string }[];
+}
+
+// Phases in the order they run - rollback only happens when the new version does not come up
+export const UPDATE_PHASES: { phase: UpdatePhase; label: string }[] = [
+  { phase: 'checkout', label: 'Check out' },
+  { phase: 'install', label: 'Install' },
+  { phase: 'build', label: 'Build' },
+  { phase: 'verify', label: 'Verify' },
+  { phase: 'swap', label: 'Swap' },
+  { phase: 'restart', label: 'Restart' },
+  { phase: 'health-check', label: 'Health check' }
+];
+
+export const UPDATE_STATE_LABELS: Record<UpdateState, string> = {
+  idle: 'No update has run',
+  running: 'Updating',
+  succeeded: 'Updated',
+  failed: 'Failed',
+  'rolled-back': 'Rolled back'
+};
@@ -0,0 +1,351 @@
+import { EventEmitter } from 'node:events';
+import {
+  listLogAlertRules,
+  insertLogAlert,
+  getLogAlert,
+  acknowledgeLogAlerts,
+  getAlertWebhook,
+  type LogAlert,
+  type LogAlertRule,
+  type LogAlertRuleInput
+} from '../database';
+import { instanceManager, getInstanceLogPath } from '../instances';
+import { compileLogFilter, LOG_LEVELS, type LogLevel, type LogMatcher, type LogRecord } from '../logs';
+import { getLogFollower, type LogFollower, type LogEntry } from '../logs/follower';
+import { sendWebhook, type AlertInfo } from './webhooks';
+
+export const DEFAULT_THRESHOLD = 1;
+export const DEFAULT_WINDOW_SECONDS = 60;
+export const DEFAULT_COOLDOWN_SECONDS = 300;
+const MAX_THRESHOLD = 10000;
+const MAX_WINDOW_SECONDS = 24 * 60 * 60;
+const MAX_COOLDOWN_SECONDS = 7 * 24 * 60 * 60;
+const MAX_PATTERN_LENGTH = 200;
+
+// Rule as returned by the API
+export interface AlertRuleInfo {
+  id: number;
+  instanceId: number;
+  name: string;
+  minLevel: LogLevel | null;
+  pattern: string | null;
+  threshold: number;
+  windowSeconds: number;
+  cooldownSeconds: number;
+  webhooks: number[];
+  enabled: boolean;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  lastFiredAt: string | null;
+}
+
+// A rule ready to be checked against new lines
+interface ActiveRule {
+  rule: LogAlertRule;
+  match: LogMatcher;
+  // When each line within the window matched
+  hits: number[];
+  lastFiredAt: number;
+}
+
+// An instance whose log is being checked
+interface WatchedLog {
+  follower: LogFollower;
+  listener: (entries: LogEntry[]) => void;
+  rules: ActiveRule[];
+}
+
+function parseWebhookIds(webhooks: string): number[] {
+  try {
+    const parsed = JSON.parse(webhooks);
+    return Array.isArray(parsed) ? parsed.filter(value => Number.isInteger(value)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * "2024-05-01 14:03:27" as stored by SQLite, in milliseconds
+ */
+function fromSqlTime(time: string): number {
+  return new Date(`${time.replace(' ', 'T')}Z`).getTime();
+}
+
+/**
+ * The matcher for a rule's level threshold and pattern
+ */
+function compileRule(rule: Pick<LogAlertRule, 'min_level' | 'pattern'>): { match?: LogMatcher; error?: string } {
+  return compileLogFilter({
+    levels: rule.min_level ? LOG_LEVELS.slice(LOG_LEVELS.indexOf(rule.min_level)) : undefined,
+    search: rule.pattern ?? undefined
+  });
+}
+
+function isWholeNumber(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= min && value <= max;
+}
+
+/**
+ * Check a rule sent by a client and convert it to its database form
+ * @param instanceId The instance whose log the rule watches
+ * @returns The rule, or an error describing the first invalid field
+ */
+export function validateAlertRule(input: unknown, instanceId: number): { rule?: LogAlertRuleInput; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Rule must be an object' };
+  }
+
+  const {
+    name,
+    minLevel = null,
+    pattern = null,
+    threshold = DEFAULT_THRESHOLD,
+    windowSeconds = DEFAULT_WINDOW_SECONDS,
+    cooldownSeconds = DEFAULT_COOLDOWN_SECONDS,
+    webhooks = [],
+    enabled = true
+  } = input as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 64) {
+    return { error: 'Name must be 1-64 characters' };
+  }
+
+  if (minLevel !== null && !(LOG_LEVELS as readonly unknown[]).includes(minLevel)) {
+    return { error: `Minimum level must be one of: ${LOG_LEVELS.join(', ')}` };
+  }
+
+  if (pattern !== null && (typeof pattern !== 'string' || pattern.length > MAX_PATTERN_LENGTH)) {
+    return { error: `Pattern must be a regular expression of at most ${MAX_PATTERN_LENGTH} characters` };
+  }
+  const trimmedPattern = typeof pattern === 'string' && pattern.trim() ? pattern.trim() : null;
+
+  if (minLevel === null && trimmedPattern === null) {
+    return { error: 'A rule needs a minimum level, a pattern or both' };
+  }
+
+  const { error: patternError } = compileRule({ min_level: minLevel as LogLevel | null, pattern: trimmedPattern });
+  if (patternError) {
+    return { error: patternError };
+  }
+
+  if (!isWholeNumber(threshold, 1, MAX_THRESHOLD)) {
+    return { error: `Threshold must be a whole number of lines between 1 and ${MAX_THRESHOLD}` };
+  }
+  if (!isWholeNumber(windowSeconds, 1, MAX_WINDOW_SECONDS)) {
+    return { error: `Window must be a whole number of seconds between 1 and ${MAX_WINDOW_SECONDS}` };
+  }
+  if (!isWholeNumber(cooldownSeconds, 0, MAX_COOLDOWN_SECONDS)) {
+    return { error: `Cooldown must be a whole number of seconds between 0 and ${MAX_COOLDOWN_SECONDS}` };
+  }
+
+  if (!Array.isArray(webhooks) || !webhooks.every(id => Number.isInteger(id) && getAlertWebhook(id))) {
+    return { error: 'Webhooks must be a list of existing webhook IDs' };
+  }
+
+  if (typeof enabled !== 'boolean') {
+    return { error: 'enabled must be true or false' };
+  }
+
+  return {
+    rule: {
+      instance_id: instanceId,
+      name: name.trim(),
+      min_level: minLevel as LogLevel | null,
+      pattern: trimmedPattern,
+      threshold,
+      window_seconds: windowSeconds,
+      cooldown_seconds: cooldownSeconds,
+      webhooks: JSON.stringify([...new Set(webhooks as number[])]),
+      enabled: enabled ? 1 : 0
+    }
+  };
+}
+
+export function toAlertRuleInfo(rule: LogAlertRule): AlertRuleInfo {
+  return {
+    id: rule.id,
+    instanceId: rule.instance_id,
+    name: rule.name,
+    minLevel: rule.min_level,
+    pattern: rule.pattern,
+    threshold: rule.threshold,
+    windowSeconds: rule.window_seconds,
+    cooldownSeconds: rule.cooldown_seconds,
+    webhooks: parseWebhookIds(rule.webhooks),
+    enabled: !!rule.enabled,
+    createdBy: rule.created_by,
+    createdAt: rule.created_at,
+    updatedAt: rule.updated_at,
+    lastFiredAt: rule.last_fired_at
+  };
+}
+
+export function toAlertInfo(alert: LogAlert): AlertInfo {
+  return {
+    id: alert.id,
+    instanceId: alert.instance_id,
+    instanceName: instanceManager.get(alert.instance_id)?.instance.name ?? `#${alert.instance_id}`,
+    ruleId: alert.rule_id,
+    ruleName: alert.rule_name,
+    matchCount: alert.match_count,
+    windowSeconds: alert.window_seconds,
+    level: alert.level,
+    source: alert.source,
+    message: alert.message,
+    firedAt: alert.fired_at,
+    acknowledgedAt: alert.acknowledged_at,
+    acknowledgedBy: alert.acknowledged_by
+  };
+}
+
+/**
+ * Checks every instance's log against its alert rules as lines arrive, using the same follower
+ * that streams the log to clients. Alerts are stored, then posted to the rule's webhooks.
+ *
+ * Emits 'alert' with the AlertInfo of every alert that fires,
+ * and 'acknowledged' with the IDs of alerts that were acknowledged.
+ */
+export class LogAlertMonitor extends EventEmitter {
+  private readonly watched = new Map<number, WatchedLog>();
+
+  start(): void {
+    this.sync();
+    // Follow instances as they are created and deleted
+    instanceManager.on('changed', () => this.sync());
+  }
+
+  /**
+   * Pick up the rules of an instance after one was created, changed or deleted
+   */
+  reload(instanceId: number): void {
+    const watched = this.watched.get(instanceId);
+    if (!watched) {
+      return;
+    }
+
+    // Windows of rules that are kept carry on, so editing one rule does not reset the others
+    const previous = new Map(watched.rules.map(active => [active.rule.id, active]));
+    watched.rules = [];
+    for (const rule of listLogAlertRules(instanceId)) {
+      if (!rule.enabled) {
+        continue;
+      }
+      const { match, error } = compileRule(rule);
+      if (!match) {
+        console.error(`Alert rule ${rule.name} cannot be checked: ${error}`);
+        continue;
+      }
+      watched.rules.push({
+        rule,
+        match,
+        hits: previous.get(rule.id)?.hits ?? [],
+        lastFiredAt: rule.last_fired_at ? fromSqlTime(rule.last_fired_at) : 0
+      });
+    }
+  }
+
+  /**
+   * Acknowledge one alert, or every unacknowledged alert when no ID is given
+   * @returns How many alerts were acknowledged
+   */
+  acknowledge(username: string, id?: number): number {
+    const ids = acknowledgeLogAlerts(username, id);
+    if (ids.length > 0) {
+      this.emit('acknowledged', ids);
+    }
+    return ids.length;
+  }
+
+  private sync(): void {
+    const runtimes = instanceManager.list();
+
+    for (const [instanceId, watched] of this.watched) {
+      if (!runtimes.some(runtime => runtime.instance.id === instanceId)) {
+        watched.follower.off('lines', watched.listener);
+        this.watched.delete(instanceId);
+      }
+    }
+
+    for (const { instance } of runtimes) {
+      if (this.watched.has(instance.id)) {
+        continue;
+      }
+      const follower = getLogFollower(getInstanceLogPath(instance));
+      const listener = (entries: LogEntry[]) => this.check(instance.id, entries);
+      follower.on('lines', listener);
+      this.watched.set(instance.id, { follower, listener, rules: [] });
+      this.reload(instance.id);
+    }
+  }
+
+  private check(instanceId: number, entries: LogEntry[]): void {
+    const watched = this.watched.get(instanceId);
+    if (!watched) {
+      return;
+    }
+
+    const now = Date.now();
+    for (const active of watched.rules) {
+      for (const { record } of entries) {
+        if (!active.match(record)) {
+          continue;
+        }
+
+        active.hits.push(now);
+        const windowStart = now - active.rule.window_seconds * 1000;
+        while (active.hits.length > 0 && active.hits[0] <= windowStart) {
+          active.hits.shift();
+        }
+
+        if (active.hits.length >= active.rule.threshold && now - active.lastFiredAt >= active.rule.cooldown_seconds * 1000) {
+          this.fire(active, record, now);
+        }
+      }
+    }
+  }
+
+  private fire(active: ActiveRule, record: LogRecord, now: number): void {
+    const { rule } = active;
+    const matchCount = active.hits.length;
+    active.hits = [];
+    active.lastFiredAt = now;
+
+    let alert: AlertInfo;
+    try {
+      const id = insertLogAlert({
+        instance_id: rule.instance_id,
+        rule_id: rule.id,
+        rule_name: rule.name,
+        match_count: matchCount,
+        window_seconds: rule.window_seconds,
+        level: record.level,
+        source: record.source,
+        message: record.message
+      });
+      const stored = getLogAlert(id);
+      if (!stored) {
+        return;
+      }
+      alert = toAlertInfo(stored);
+    } catch (error) {
+      console.error(`Could not record alert for rule ${rule.name}:`, error);
+      return;
+    }
+
+    console.log(`Alert rule ${rule.name} fired on instance ${alert.instanceName}`);
+    this.emit('alert', alert);
+
+    for (const webhookId of parseWebhookIds(rule.webhooks)) {
+      const webhook = getAlertWebhook(webhookId);
+      if (webhook?.enabled) {
+        sendWebhook(webhook, alert).catch(error => {
+          console.error(`Could not send alert to webhook ${webhook.name}:`, error);
+        });
+      }
+    }
+  }
+}
+
+// Alert rules for every Nanos World server managed by the dashboard
+export const logAlertMonitor = new LogAlertMonitor();
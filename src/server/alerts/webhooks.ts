@@ -0,0 +1,172 @@
+import fetch from 'node-fetch';
+import { recordAlertWebhookDelivery, type AlertWebhook, type AlertWebhookInput } from '../database';
+import { formatDuration } from '../supervisor/stopSequence';
+
+export const WEBHOOK_FORMATS = ['json', 'discord'] as const;
+export type WebhookFormat = typeof WEBHOOK_FORMATS[number];
+
+// Give up on a target that does not answer, so a slow one cannot pile up requests
+const DELIVERY_TIMEOUT = 10000;
+const MAX_URL_LENGTH = 500;
+// Discord rejects embed descriptions longer than 4096 characters
+const MAX_DISCORD_MESSAGE = 1000;
+
+// Embed colour for each level of the line that fired an alert
+const DISCORD_COLORS: Record<string, number> = {
+  error: 0xef4444,
+  warning: 0xf59e0b,
+  info: 0x3b82f6,
+  debug: 0x71717a
+};
+
+// Webhook as returned by the API
+export interface WebhookInfo {
+  id: number;
+  name: string;
+  url: string;
+  format: WebhookFormat;
+  enabled: boolean;
+  createdBy: string;
+  lastSentAt: string | null;
+  lastError: string | null;
+}
+
+// Alert as returned by the API and posted to webhooks
+export interface AlertInfo {
+  id: number;
+  instanceId: number;
+  instanceName: string;
+  ruleId: number;
+  ruleName: string;
+  matchCount: number;
+  windowSeconds: number;
+  level: string;
+  source: string | null;
+  message: string;
+  firedAt: string;
+  acknowledgedAt: string | null;
+  acknowledgedBy: string | null;
+}
+
+function isWebhookFormat(value: unknown): value is WebhookFormat {
+  return typeof value === 'string' && (WEBHOOK_FORMATS as readonly string[]).includes(value);
+}
+
+export function toWebhookInfo(webhook: AlertWebhook): WebhookInfo {
+  return {
+    id: webhook.id,
+    name: webhook.name,
+    url: webhook.url,
+    format: webhook.format,
+    enabled: !!webhook.enabled,
+    createdBy: webhook.created_by,
+    lastSentAt: webhook.last_sent_at,
+    lastError: webhook.last_error
+  };
+}
+
+/**
+ * Check a webhook sent by a client and convert it to its database form
+ * @returns The webhook, or an error describing the first invalid field
+ */
+export function validateWebhook(input: unknown): { webhook?: AlertWebhookInput; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Webhook must be an object' };
+  }
+
+  const { name, url, format = 'json', enabled = true } = input as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 64) {
+    return { error: 'Name must be 1-64 characters' };
+  }
+
+  if (typeof url !== 'string' || url.length > MAX_URL_LENGTH) {
+    return { error: `URL must be at most ${MAX_URL_LENGTH} characters` };
+  }
+  try {
+    const { protocol } = new URL(url.trim());
+    if (protocol !== 'http:' && protocol !== 'https:') {
+      return { error: 'URL must start with http:// or https://' };
+    }
+  } catch {
+    return { error: 'URL is not valid' };
+  }
+
+  if (!isWebhookFormat(format)) {
+    return { error: `Format must be one of: ${WEBHOOK_FORMATS.join(', ')}` };
+  }
+
+  if (typeof enabled !== 'boolean') {
+    return { error: 'enabled must be true or false' };
+  }
+
+  return {
+    webhook: {
+      name: name.trim(),
+      url: url.trim(),
+      format,
+      enabled: enabled ? 1 : 0
+    }
+  };
+}
+
+/**
+ * One line saying why an alert fired
+ */
+export function describeAlert(alert: AlertInfo): string {
+  if (alert.matchCount <= 1) {
+    return `${alert.ruleName} on ${alert.instanceName}`;
+  }
+  return `${alert.ruleName} on ${alert.instanceName}: ${alert.matchCount} matching lines in ${formatDuration(alert.windowSeconds)}`;
+}
+
+function buildPayload(format: WebhookFormat, alert: AlertInfo): unknown {
+  if (format === 'json') {
+    return { event: 'log_alert', summary: describeAlert(alert), alert };
+  }
+
+  const message = alert.message.length > MAX_DISCORD_MESSAGE ? `${alert.message.slice(0, MAX_DISCORD_MESSAGE)}...` : alert.message;
+  return {
+    username: 'nanos_dashboard',
+    embeds: [{
+      title: `Alert: ${alert.ruleName}`,
+      // Code blocks cannot hold backticks of their own
+      description: `${describeAlert(alert)}\n\`\`\`\n${message.replace(/`/g, "'")}\n\`\`\``,
+      color: DISCORD_COLORS[alert.level] ?? DISCORD_COLORS.info,
+      // Stored as SQLite UTC time
+      timestamp: new Date(`${alert.firedAt.replace(' ', 'T')}Z`).toISOString(),
+      fields: [
+        { name: 'Instance', value: alert.instanceName, inline: true },
+        { name: 'Level', value: alert.level, inline: true },
+        ...(alert.source ? [{ name: 'Package', value: alert.source, inline: true }] : [])
+      ]
+    }]
+  };
+}
+
+/**
+ * Post an alert to a webhook and remember whether it got there
+ */
+export async function sendWebhook(webhook: AlertWebhook, alert: AlertInfo): Promise<{ success: boolean; message: string }> {
+  let error: string | null = null;
+  try {
+    const response = await fetch(webhook.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(buildPayload(webhook.format, alert)),
+      timeout: DELIVERY_TIMEOUT
+    });
+    if (!response.ok) {
+      error = `HTTP ${response.status} ${response.statusText}`;
+    }
+  } catch (sendError) {
+    error = (sendError as Error).message;
+  }
+
+  recordAlertWebhookDelivery(webhook.id, error);
+  if (error) {
+    console.error(`Could not send alert to webhook ${webhook.name}: ${error}`);
+    return { success: false, message: error };
+  }
+  return { success: true, message: `Alert sent to ${webhook.name}` };
+}
@@ -0,0 +1,103 @@
+import { insertAuditEntry } from '../database';
+
+// Every action that ends up in the audit log
+export const AUDIT_ACTIONS = [
+  'auth.login',
+  'auth.lockout-clear',
+  'auth.2fa-enable',
+  'auth.2fa-disable',
+  'auth.recovery-codes',
+  'apikey.create',
+  'apikey.revoke',
+  'server.start',
+  'server.stop',
+  'server.restart',
+  'server.command',
+  'server.restart-policy',
+  'server.stop-sequence',
+  'server.log-retention',
+  'schedule.create',
+  'schedule.update',
+  'schedule.delete',
+  'schedule.run',
+  'instance.create',
+  'instance.update',
+  'instance.delete',
+  'instance.clone',
+  'alert.rule-create',
+  'alert.rule-update',
+  'alert.rule-delete',
+  'alert.acknowledge',
+  'alert.webhook-create',
+  'alert.webhook-update',
+  'alert.webhook-delete',
+  'file.write',
+  'file.upload',
+  'file.delete',
+  'file.move',
+  'file.extract',
+  'config.save',
+  'module.install',
+  'module.uninstall',
+  'shell.execute',
+  'nanos.install',
+  'nanos.update',
+  'dashboard.update',
+  'dashboard.update-preferences',
+  'user.create',
+  'user.disable',
+  'user.role',
+  'user.reset-password',
+  'user.reset-2fa'
+] as const;
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+
+export function isAuditAction(value: unknown): value is AuditAction {
+  return typeof value === 'string' && (AUDIT_ACTIONS as readonly string[]).includes(value);
+}
+
+export interface AuditActor {
+  id?: number;
+  username: string;
+}
+
+export interface AuditRecord {
+  actor?: AuditActor;
+  ip?: string;
+  action: AuditAction;
+  target?: string;
+  details?: Record<string, unknown>;
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Write an entry to the audit log. Failures are logged but never thrown,
+ * so a broken audit log cannot block the action being audited.
+ */
+export function recordAudit(record: AuditRecord): void {
+  try {
+    insertAuditEntry({
+      user_id: record.actor?.id ?? null,
+      username: record.actor?.username || 'unknown',
+      ip: record.ip || null,
+      action: record.action,
+      target: record.target || null,
+      details: record.details && Object.keys(record.details).length > 0 ? JSON.stringify(record.details) : null,
+      success: record.success ? 1 : 0,
+      error: record.success ? null : record.error || null
+    });
+  } catch (error) {
+    console.error(`Failed to write audit entry for ${record.action}:`, error);
+  }
+}
+
+/**
+ * Pull the outcome out of the { success, error | message } responses used by the REST and socket handlers
+ */
+export function getOutcome(response: unknown, failed = false): { success: boolean; error?: string } {
+  const body = (response && typeof response === 'object' ? response : {}) as { success?: unknown; error?: unknown; message?: unknown };
+  const success = !failed && body.success !== false;
+  const error = typeof body.error === 'string' ? body.error : typeof body.message === 'string' ? body.message : undefined;
+  return success ? { success } : { success, error };
+}
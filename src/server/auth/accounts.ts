@@ -0,0 +1,76 @@
+import {
+  getUser,
+  createUserWithPassword,
+  setUserPassword,
+  setUserDisabled,
+  setUserRole,
+  countActiveOwners
+} from '../database';
+import { hashPassword, verifyPassword } from './passwords';
+import { isRole, type Role } from './permissions';
+
+// Shape of the user attached to authenticated requests and sockets
+export interface AuthenticatedUser {
+  id: number;
+  username: string;
+  role: Role;
+  // Set when the user authenticated with a session token
+  sessionId?: number;
+  // Set when the request was made with an API key
+  apiKeyId?: number;
+}
+
+// Used to spend the same time on unknown usernames as on wrong passwords
+let dummyHash: string | null = null;
+
+/**
+ * Verify a username/password pair against the users table
+ * @returns The authenticated user, or null if the credentials are invalid or the account is disabled
+ */
+export async function authenticateCredentials(username: string, password: string): Promise<AuthenticatedUser | null> {
+  const user = getUser(username);
+
+  if (!user || !user.password_hash) {
+    dummyHash = dummyHash || await hashPassword('not-a-real-password');
+    await verifyPassword(password, dummyHash);
+    return null;
+  }
+
+  const valid = await verifyPassword(password, user.password_hash);
+  if (!valid || user.disabled || !isRole(user.role)) {
+    return null;
+  }
+
+  return { id: user.id, username: user.username, role: user.role };
+}
+
+/**
+ * Seed an owner account from ADMIN_USERNAME/ADMIN_PASSWORD when no owner can log in.
+ * This keeps installs created by setup.sh working after the move to database accounts.
+ */
+export async function bootstrapAdminUser(): Promise<void> {
+  if (countActiveOwners() > 0) {
+    return;
+  }
+
+  const username = process.env.ADMIN_USERNAME;
+  const password = process.env.ADMIN_PASSWORD;
+
+  if (!username || !password) {
+    console.warn('No owner account exists and ADMIN_USERNAME/ADMIN_PASSWORD are not set - nobody can manage the dashboard');
+    return;
+  }
+
+  const passwordHash = await hashPassword(password);
+  const existing = getUser(username);
+
+  if (existing) {
+    setUserPassword(existing.id, passwordHash);
+    setUserDisabled(existing.id, false);
+    setUserRole(existing.id, 'owner');
+  } else {
+    createUserWithPassword(username, passwordHash, 'owner');
+  }
+
+  console.log(`Created owner account for ${username} from environment`);
+}
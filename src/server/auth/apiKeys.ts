@@ -0,0 +1,210 @@
+import { randomBytes, createHash } from 'node:crypto';
+import type { Request } from 'express';
+import {
+  createApiKey,
+  getActiveApiKey,
+  touchApiKey,
+  type ApiKeySummary
+} from '../database';
+import { isRole, hasPermission, type Permission } from './permissions';
+import type { AuthenticatedUser } from './accounts';
+
+// Keys carry their own prefix so they are never mistaken for session tokens
+export const API_KEY_PREFIX = 'ndk_';
+
+// Scopes an API key can be limited to
+export const API_KEY_SCOPES = [
+  'server.status',
+  'server.logs',
+  'server.control',
+  'server.command',
+  'files.read',
+  'files.upload-packages',
+  'files.upload-assets',
+  'config.write'
+] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+interface ApiKeyRoute {
+  method: string;
+  path: string;
+  // Extra check on the request, for routes shared by several scopes
+  matches?: (req: Request) => boolean;
+}
+
+interface ApiKeyScopeDefinition {
+  label: string;
+  // The key's owner must hold this permission to grant the scope
+  permission: Permission;
+  routes: ApiKeyRoute[];
+}
+
+const isAssetUpload = (req: Request): boolean => String(req.query.type || 'packages').toLowerCase() === 'assets';
+
+const SCOPE_DEFINITIONS: Record<ApiKeyScope, ApiKeyScopeDefinition> = {
+  'server.status': {
+    label: 'Read server status',
+    permission: 'server.view',
+    routes: [
+      { method: 'GET', path: '/api/server/status' },
+      { method: 'GET', path: '/api/server/crashes' },
+      // Lets scripts find the instance IDs to send in X-Instance-Id
+      { method: 'GET', path: '/api/instances' }
+    ]
+  },
+  'server.logs': {
+    label: 'Read server logs',
+    permission: 'logs.view',
+    routes: [{ method: 'GET', path: '/api/server/logs' }]
+  },
+  'server.control': {
+    label: 'Start, stop and restart the server',
+    permission: 'server.control',
+    routes: [
+      { method: 'POST', path: '/api/server/start' },
+      { method: 'POST', path: '/api/server/stop' },
+      { method: 'POST', path: '/api/server/restart' }
+    ]
+  },
+  'server.command': {
+    label: 'Send console commands',
+    permission: 'server.command',
+    routes: [{ method: 'POST', path: '/api/server/command' }]
+  },
+  'files.read': {
+    label: 'List and read files',
+    permission: 'files.read',
+    routes: [
+      { method: 'GET', path: '/api/files/list' },
+      { method: 'GET', path: '/api/files/read' },
+      { method: 'GET', path: '/api/files/toml' }
+    ]
+  },
+  'files.upload-packages': {
+    label: 'Upload to Packages',
+    permission: 'files.write',
+    routes: [{ method: 'POST', path: '/api/files/upload', matches: req => !isAssetUpload(req) }]
+  },
+  'files.upload-assets': {
+    label: 'Upload to Assets',
+    permission: 'files.write',
+    routes: [{ method: 'POST', path: '/api/files/upload', matches: isAssetUpload }]
+  },
+  'config.write': {
+    label: 'Save Config.toml',
+    permission: 'config.write',
+    routes: [{ method: 'POST', path: '/api/files/toml' }]
+  }
+};
+
+export interface ApiKeyScopeInfo {
+  scope: ApiKeyScope;
+  label: string;
+  permission: Permission;
+}
+
+export interface IssuedApiKey {
+  id: number;
+  key: string;
+}
+
+// API key as shown in the dashboard, with its scopes parsed
+export interface ApiKeyInfo extends Omit<ApiKeySummary, 'scopes'> {
+  scopes: ApiKeyScope[];
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return typeof value === 'string' && (API_KEY_SCOPES as readonly string[]).includes(value);
+}
+
+function parseScopes(value: string): ApiKeyScope[] {
+  try {
+    const scopes = JSON.parse(value);
+    return Array.isArray(scopes) ? scopes.filter(isApiKeyScope) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * List every scope along with the permission needed to grant it
+ */
+export function getApiKeyScopes(): ApiKeyScopeInfo[] {
+  return API_KEY_SCOPES.map(scope => ({
+    scope,
+    label: SCOPE_DEFINITIONS[scope].label,
+    permission: SCOPE_DEFINITIONS[scope].permission
+  }));
+}
+
+/**
+ * Scopes a role is not allowed to grant, since a key can never do more than its owner
+ */
+export function getUngrantableScopes(role: string, scopes: ApiKeyScope[]): ApiKeyScope[] {
+  return scopes.filter(scope => !hasPermission(role, SCOPE_DEFINITIONS[scope].permission));
+}
+
+export function toApiKeyInfo(summary: ApiKeySummary): ApiKeyInfo {
+  return { ...summary, scopes: parseScopes(summary.scopes) };
+}
+
+/**
+ * Create an API key acting as the given user
+ * @param expiresInDays Lifetime of the key, or null for a key that never expires
+ * @returns The key ID and the plaintext key, which is never stored
+ */
+export function issueApiKey(user: AuthenticatedUser, name: string, scopes: ApiKeyScope[], expiresInDays: number | null): IssuedApiKey {
+  const key = `${API_KEY_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const id = createApiKey(
+    user.id,
+    name,
+    key.slice(0, API_KEY_PREFIX.length + 6),
+    hashKey(key),
+    JSON.stringify([...new Set(scopes)]),
+    expiresInDays === null ? null : expiresInDays * 86400
+  );
+
+  return { id, key };
+}
+
+/**
+ * Resolve an API key to the user it acts as
+ * @returns The user and the key's scopes, or null if the key is unknown, expired, revoked or belongs to a disabled account
+ */
+export function authenticateApiKey(key: string, ip?: string): { user: AuthenticatedUser; scopes: ApiKeyScope[] } | null {
+  if (!key.startsWith(API_KEY_PREFIX)) {
+    return null;
+  }
+
+  const apiKey = getActiveApiKey(hashKey(key));
+  if (!apiKey || apiKey.disabled || !isRole(apiKey.role)) {
+    return null;
+  }
+
+  touchApiKey(apiKey.id, ip);
+
+  return {
+    user: {
+      id: apiKey.user_id,
+      username: apiKey.username,
+      role: apiKey.role,
+      apiKeyId: apiKey.id
+    },
+    scopes: parseScopes(apiKey.scopes)
+  };
+}
+
+/**
+ * Check whether one of the scopes covers the request's method and path
+ */
+export function apiKeyAllowsRequest(scopes: ApiKeyScope[], req: Request): boolean {
+  const path = req.originalUrl.split('?')[0].replace(/\/+$/, '');
+
+  return scopes.some(scope => SCOPE_DEFINITIONS[scope].routes.some(route =>
+    route.method === req.method && route.path === path && (!route.matches || route.matches(req))
+  ));
+}
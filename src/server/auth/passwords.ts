@@ -0,0 +1,61 @@
+import { randomBytes, scrypt, timingSafeEqual } from 'node:crypto';
+
+// scrypt parameters - the defaults from Node (N=16384, r=8, p=1) with a 64 byte key
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+const HASH_PREFIX = 'scrypt';
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+function deriveKey(password: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password, salt, KEY_LENGTH, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(derivedKey);
+      }
+    });
+  });
+}
+
+/**
+ * Hash a password with a random salt
+ * @param password The plain text password
+ * @returns A string of the form `scrypt$<salt hex>$<hash hex>`
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const derivedKey = await deriveKey(password, salt);
+  return `${HASH_PREFIX}$${salt.toString('hex')}$${derivedKey.toString('hex')}`;
+}
+
+/**
+ * Check a password against a hash produced by hashPassword
+ * @param password The plain text password
+ * @param storedHash The stored hash
+ * @returns Whether the password matches
+ */
+export async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
+  const [prefix, saltHex, hashHex] = storedHash.split('$');
+  if (prefix !== HASH_PREFIX || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const derivedKey = await deriveKey(password, Buffer.from(saltHex, 'hex'));
+
+  return expected.length === derivedKey.length && timingSafeEqual(expected, derivedKey);
+}
+
+/**
+ * Validate a new password against the password policy
+ * @returns An error message, or null if the password is acceptable
+ */
+export function validatePassword(password: unknown): string | null {
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    return `Password must be at least ${MIN_PASSWORD_LENGTH} characters`;
+  }
+
+  return null;
+}
@@ -0,0 +1,45 @@
+// Roles ordered from most to least privileged
+export const ROLES = ['owner', 'operator', 'moderator', 'read-only'] as const;
+export type Role = typeof ROLES[number];
+
+export type Permission =
+  | 'server.view'      // See server status
+  | 'server.control'   // Start and stop the game server
+  | 'server.command'   // Send console commands to the game server
+  | 'logs.view'        // Read and stream server logs
+  | 'files.read'       // Browse and read files
+  | 'files.write'      // Upload, write, move, extract and delete files
+  | 'config.write'     // Save the server Config.toml
+  | 'apikeys.manage'   // Create and revoke own API keys
+  | 'system.view'      // See host information and metrics
+  | 'system.execute'   // Run shell commands on the host, when ENABLE_SHELL_COMMANDS is set
+  | 'system.manage'    // Install the game server and update the dashboard
+  | 'users.manage'     // Create, disable and change dashboard accounts
+  | 'audit.view';      // Browse the audit log
+
+const READ_ONLY_PERMISSIONS: Permission[] = ['server.view', 'logs.view', 'files.read', 'system.view'];
+const MODERATOR_PERMISSIONS: Permission[] = [...READ_ONLY_PERMISSIONS, 'server.command'];
+const OPERATOR_PERMISSIONS: Permission[] = [...MODERATOR_PERMISSIONS, 'server.control', 'files.write', 'config.write', 'apikeys.manage'];
+const OWNER_PERMISSIONS: Permission[] = [...OPERATOR_PERMISSIONS, 'system.execute', 'system.manage', 'users.manage', 'audit.view'];
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  owner: OWNER_PERMISSIONS,
+  operator: OPERATOR_PERMISSIONS,
+  moderator: MODERATOR_PERMISSIONS,
+  'read-only': READ_ONLY_PERMISSIONS
+};
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value);
+}
+
+/**
+ * Get every permission granted to a role. Unknown roles get no permissions.
+ */
+export function getPermissions(role: string): Permission[] {
+  return isRole(role) ? ROLE_PERMISSIONS[role] : [];
+}
+
+export function hasPermission(role: string, permission: Permission): boolean {
+  return getPermissions(role).includes(permission);
+}
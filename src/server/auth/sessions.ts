@@ -0,0 +1,111 @@
+import { randomBytes, createHash } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import {
+  createSession as insertSession,
+  getActiveSession,
+  getSessionExpiry,
+  isSessionActive as isStoredSessionActive,
+  touchSession,
+  revokeSession as markSessionRevoked,
+  revokeUserSessions as markUserSessionsRevoked,
+  deleteExpiredSessions
+} from '../database';
+import { isRole } from './permissions';
+import type { AuthenticatedUser } from './accounts';
+
+// Tokens carry a recognisable prefix so they can be told apart from other bearer credentials
+export const SESSION_TOKEN_PREFIX = 'nds_';
+
+// How long a session stays valid after login
+const SESSION_TTL_HOURS = Number.parseInt(process.env.SESSION_TTL_HOURS || '24', 10) || 24;
+
+// Emits 'revoked' with the IDs of sessions that were revoked, so live sockets can be closed, and
+// 'role' with the ID of a user whose role changed, so their live sockets drop what it no longer allows
+export const sessionEvents = new EventEmitter();
+
+export interface IssuedSession {
+  id: number;
+  token: string;
+  expiresAt: string;
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Create a new session for an authenticated user
+ * @returns The session with its plaintext token, which is never stored
+ */
+export function issueSession(user: AuthenticatedUser, ip?: string, userAgent?: string): IssuedSession {
+  // Expired and long-revoked sessions are pruned whenever a new one is created
+  deleteExpiredSessions();
+
+  const token = `${SESSION_TOKEN_PREFIX}${randomBytes(32).toString('base64url')}`;
+  const id = insertSession(user.id, hashToken(token), SESSION_TTL_HOURS * 3600, ip, userAgent);
+
+  return { id, token, expiresAt: getSessionExpiry(id) || '' };
+}
+
+/**
+ * Resolve a session token to its user
+ * @returns The user, or null if the token is unknown, expired, revoked or belongs to a disabled account
+ */
+export function authenticateSessionToken(token: string): AuthenticatedUser | null {
+  if (!token.startsWith(SESSION_TOKEN_PREFIX)) {
+    return null;
+  }
+
+  const session = getActiveSession(hashToken(token));
+  if (!session || session.disabled || !isRole(session.role)) {
+    return null;
+  }
+
+  touchSession(session.id);
+
+  return {
+    id: session.user_id,
+    username: session.username,
+    role: session.role,
+    sessionId: session.id
+  };
+}
+
+/**
+ * Whether a session is still neither expired nor revoked - for connections that outlive the login check
+ */
+export function isSessionActive(id: number): boolean {
+  return isStoredSessionActive(id);
+}
+
+/**
+ * When a session expires, in milliseconds since the epoch, or null if it does not exist
+ */
+export function getSessionExpiresAt(id: number): number | null {
+  const expiry = getSessionExpiry(id);
+  return expiry ? new Date(`${expiry.replace(' ', 'T')}Z`).getTime() : null;
+}
+
+export function revokeSession(id: number, userId?: number): boolean {
+  const revoked = markSessionRevoked(id, userId);
+  if (revoked) {
+    sessionEvents.emit('revoked', [id]);
+  }
+  return revoked;
+}
+
+export function notifyRoleChanged(userId: number): void {
+  sessionEvents.emit('role', userId);
+}
+
+/**
+ * Revoke all sessions of a user, optionally keeping one (e.g. the caller's own)
+ * @returns Number of sessions revoked
+ */
+export function revokeUserSessions(userId: number, exceptSessionId?: number): number {
+  const ids = markUserSessionsRevoked(userId, exceptSessionId);
+  if (ids.length > 0) {
+    sessionEvents.emit('revoked', ids);
+  }
+  return ids.length;
+}
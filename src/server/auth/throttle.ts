@@ -0,0 +1,150 @@
+import {
+  getUserById,
+  getLoginThrottle,
+  saveLoginFailure,
+  clearLoginThrottle,
+  listLoginThrottles,
+  pruneLoginThrottles,
+  type LoginThrottle
+} from '../database';
+import { recordAudit } from '../audit';
+import { authenticateCredentials, type AuthenticatedUser } from './accounts';
+import { isTwoFactorEnabled, verifySecondFactor } from './totp';
+
+// Failures allowed before every further attempt has to wait
+const FREE_ATTEMPTS = 3;
+// Longest wait imposed by the exponential backoff
+const MAX_BACKOFF_SECONDS = 5 * 60;
+// Failures after which the IP or username is locked out
+const USERNAME_LOCKOUT_THRESHOLD = 10;
+// Higher for IPs, since several admins may share one address
+const IP_LOCKOUT_THRESHOLD = 25;
+const LOCKOUT_SECONDS = (Number.parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10) || 15) * 60;
+// Failures older than this are forgotten
+const FAILURE_WINDOW_SECONDS = 60 * 60;
+
+export type LoginChannel = 'login' | 'basic' | 'socket';
+
+export interface LoginAttemptResult {
+  user: AuthenticatedUser | null;
+  // Seconds the caller must wait before trying again, when the attempt was refused outright
+  retryAfter?: number;
+  // The password was right but the account needs a TOTP or recovery code as well
+  twoFactorRequired?: boolean;
+}
+
+export interface Lockout extends LoginThrottle {
+  locked: boolean;
+}
+
+/**
+ * How long a key is blocked after its nth consecutive failure
+ */
+function getBlockSeconds(scope: LoginThrottle['scope'], failures: number): number {
+  const threshold = scope === 'ip' ? IP_LOCKOUT_THRESHOLD : USERNAME_LOCKOUT_THRESHOLD;
+  if (failures >= threshold) {
+    return LOCKOUT_SECONDS;
+  }
+  if (failures <= FREE_ATTEMPTS) {
+    return 0;
+  }
+  return Math.min(2 ** (failures - FREE_ATTEMPTS), MAX_BACKOFF_SECONDS);
+}
+
+function registerFailure(scope: LoginThrottle['scope'], key: string): void {
+  const failures = (getLoginThrottle(scope, key, FAILURE_WINDOW_SECONDS)?.failures || 0) + 1;
+  saveLoginFailure(scope, key, failures, getBlockSeconds(scope, failures));
+}
+
+/**
+ * Count a failed attempt against both the IP and the username, and write it to the audit log
+ */
+function recordFailure(username: string, ip: string | undefined, channel: LoginChannel, reason: string): void {
+  const ipKey = ip || 'unknown';
+  pruneLoginThrottles(FAILURE_WINDOW_SECONDS);
+  registerFailure('ip', ipKey);
+  registerFailure('username', username.toLowerCase());
+  console.log(`Failed login for ${username} from ${ipKey} (${channel}): ${reason}`);
+  recordAudit({
+    actor: { username },
+    ip,
+    action: 'auth.login',
+    details: { channel },
+    success: false,
+    error: reason
+  });
+}
+
+/**
+ * Check a username/password pair, plus a TOTP or recovery code for accounts with two-factor enabled.
+ * Attempts are refused while the IP or username is backing off or locked out.
+ */
+export async function attemptLogin(
+  username: string,
+  password: string,
+  ip: string | undefined,
+  channel: LoginChannel,
+  otp?: string
+): Promise<LoginAttemptResult> {
+  const ipKey = ip || 'unknown';
+  // Usernames are matched case-insensitively so the limit cannot be dodged by changing case
+  const usernameKey = username.toLowerCase();
+
+  const retryAfter = Math.max(
+    getLoginThrottle('ip', ipKey, FAILURE_WINDOW_SECONDS)?.retry_after || 0,
+    getLoginThrottle('username', usernameKey, FAILURE_WINDOW_SECONDS)?.retry_after || 0
+  );
+
+  if (retryAfter > 0) {
+    recordAudit({
+      actor: { username },
+      ip,
+      action: 'auth.login',
+      details: { channel },
+      success: false,
+      error: `Refused while throttled (${retryAfter}s remaining)`
+    });
+    return { user: null, retryAfter };
+  }
+
+  const user = await authenticateCredentials(username, password);
+
+  if (!user) {
+    recordFailure(username, ip, channel, 'Invalid credentials');
+    return { user: null };
+  }
+
+  const account = getUserById(user.id);
+  if (account && isTwoFactorEnabled(account)) {
+    // Asking for the code is not a failure; a wrong code is
+    if (!otp) {
+      return { user: null, twoFactorRequired: true };
+    }
+    if (!verifySecondFactor(account, otp)) {
+      recordFailure(username, ip, channel, 'Invalid two-factor code');
+      return { user: null, twoFactorRequired: true };
+    }
+  }
+
+  // The IP counter is left alone so one valid account cannot reset it while guessing others
+  clearLoginThrottle('username', usernameKey);
+  return { user };
+}
+
+/**
+ * List IPs and usernames with recent failures, marking the ones currently locked out
+ */
+export function listLockouts(): Lockout[] {
+  return listLoginThrottles(FAILURE_WINDOW_SECONDS).map(entry => ({
+    ...entry,
+    locked: entry.failures >= (entry.scope === 'ip' ? IP_LOCKOUT_THRESHOLD : USERNAME_LOCKOUT_THRESHOLD) && entry.retry_after > 0
+  }));
+}
+
+export function clearLockout(scope: LoginThrottle['scope'], key: string): boolean {
+  return clearLoginThrottle(scope, scope === 'username' ? key.toLowerCase() : key);
+}
+
+export function getRetryMessage(retryAfter: number): string {
+  return `Too many failed login attempts. Try again in ${retryAfter} seconds`;
+}
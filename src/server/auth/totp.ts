@@ -0,0 +1,189 @@
+import { createHmac, createHash, randomBytes, timingSafeEqual } from 'node:crypto';
+import QRCode from 'qrcode';
+import {
+  getUserById,
+  setTotpSecret,
+  enableTotp,
+  disableTotp,
+  claimTotpStep,
+  replaceRecoveryCodes,
+  useRecoveryCode,
+  countRecoveryCodes,
+  type User
+} from '../database';
+
+// Shown as the account issuer in authenticator apps
+const TOTP_ISSUER = 'Nanos Dashboard';
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DIGITS = 6;
+// Accept codes one step either side to tolerate clock drift
+const TOTP_DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string;
+}
+
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(input: string): Buffer {
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of input.toUpperCase().replace(/=+$/, '')) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in TOTP secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Compute the RFC 6238 code for a time step
+ */
+function generateCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = createHmac('sha1', base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 15;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** TOTP_DIGITS).padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Find the time step a code belongs to
+ * @returns The matching step, or null if the code is not valid right now
+ */
+function findTotpStep(secret: string, code: string): number | null {
+  const currentStep = Math.floor(Date.now() / 1000 / TOTP_PERIOD_SECONDS);
+
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const expected = Buffer.from(generateCode(secret, currentStep + drift));
+    const given = Buffer.from(code);
+    if (given.length === expected.length && timingSafeEqual(given, expected)) {
+      return currentStep + drift;
+    }
+  }
+
+  return null;
+}
+
+function hashRecoveryCode(code: string): string {
+  return createHash('sha256').update(code.replace(/[\s-]/g, '').toLowerCase()).digest('hex');
+}
+
+/**
+ * Create a fresh set of recovery codes for a user, replacing any old ones
+ * @returns The plaintext codes, which are only shown once
+ */
+export function regenerateRecoveryCodes(userId: number): string[] {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomBytes(5).toString('hex');
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  replaceRecoveryCodes(userId, codes.map(hashRecoveryCode));
+  return codes;
+}
+
+/**
+ * Start enrollment by generating a new secret. Two-factor is not enforced until confirmTwoFactor succeeds.
+ */
+export async function beginTwoFactorEnrollment(user: { id: number; username: string }): Promise<TwoFactorEnrollment> {
+  const secret = base32Encode(randomBytes(20));
+  setTotpSecret(user.id, secret);
+
+  const label = encodeURIComponent(`${TOTP_ISSUER}:${user.username}`);
+  const otpauthUrl = `otpauth://totp/${label}?secret=${secret}&issuer=${encodeURIComponent(TOTP_ISSUER)}&algorithm=SHA1&digits=${TOTP_DIGITS}&period=${TOTP_PERIOD_SECONDS}`;
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+  return { secret, otpauthUrl, qrCode };
+}
+
+/**
+ * Finish enrollment with a code from the authenticator app
+ * @returns The recovery codes, or null if the code is wrong or enrollment was not started
+ */
+export function confirmTwoFactor(userId: number, code: string): string[] | null {
+  const user = getUserById(userId);
+  if (!user?.totp_secret || user.totp_enabled) {
+    return null;
+  }
+
+  const step = findTotpStep(user.totp_secret, code.trim());
+  if (step === null || !claimTotpStep(user.id, step)) {
+    return null;
+  }
+
+  enableTotp(user.id);
+  return regenerateRecoveryCodes(user.id);
+}
+
+export function removeTwoFactor(userId: number): boolean {
+  return disableTotp(userId);
+}
+
+export function isTwoFactorEnabled(user: Pick<User, 'totp_enabled' | 'totp_secret'>): boolean {
+  return Boolean(user.totp_enabled && user.totp_secret);
+}
+
+/**
+ * Check a TOTP code or an unused recovery code for a user with two-factor enabled.
+ * Each TOTP code and each recovery code is accepted only once.
+ */
+export function verifySecondFactor(user: Pick<User, 'id' | 'totp_enabled' | 'totp_secret'>, code: string): boolean {
+  if (!isTwoFactorEnabled(user) || !user.totp_secret) {
+    return false;
+  }
+
+  const trimmed = code.trim();
+  if (/^\d{6}$/.test(trimmed)) {
+    const step = findTotpStep(user.totp_secret, trimmed);
+    return step !== null && claimTotpStep(user.id, step);
+  }
+
+  return useRecoveryCode(user.id, hashRecoveryCode(trimmed));
+}
+
+export function getTwoFactorStatus(userId: number): { enabled: boolean; recoveryCodesRemaining: number } {
+  const user = getUserById(userId);
+  const enabled = user ? isTwoFactorEnabled(user) : false;
+  return {
+    enabled,
+    recoveryCodesRemaining: enabled ? countRecoveryCodes(userId) : 0
+  };
+}
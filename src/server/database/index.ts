@@ -1,18 +1,281 @@
 import Database from 'better-sqlite3';
 import * as path from 'node:path';
 import * as fs from 'node:fs';
+import toml from 'toml';
 
 // Define the database file path
 const DB_PATH = path.join(process.cwd(), 'data', 'nanos-dashboard.db');
 
 // Define user interface
-interface User {
+export interface User {
   id: number;
   username: string;
+  password_hash: string | null;
+  disabled: number;
+  role: string;
+  totp_secret: string | null;
+  totp_enabled: number;
+  totp_last_step: number | null;
   created_at: string;
   updated_at: string;
 }
 
+// Define user listing interface (never exposes the password hash)
+export interface UserSummary {
+  id: number;
+  username: string;
+  role: string;
+  disabled: boolean;
+  two_factor: boolean;
+  created_at: string;
+  last_login: string | null;
+}
+
+// Define session interface (joined with the owning user)
+export interface SessionWithUser {
+  id: number;
+  user_id: number;
+  username: string;
+  role: string;
+  disabled: number;
+  expires_at: string;
+}
+
+// Define session listing interface
+export interface SessionSummary {
+  id: number;
+  created_at: string;
+  expires_at: string;
+  last_used_at: string;
+  ip: string | null;
+  user_agent: string | null;
+}
+
+// Define audit log entry interface
+export interface AuditEntry {
+  id: number;
+  created_at: string;
+  user_id: number | null;
+  username: string;
+  ip: string | null;
+  action: string;
+  target: string | null;
+  details: string | null;
+  success: number;
+  error: string | null;
+}
+
+// Filters for querying the audit log
+export interface AuditQuery {
+  action?: string;
+  username?: string;
+  search?: string;
+  success?: boolean;
+  from?: string;
+  to?: string;
+  limit: number;
+  offset: number;
+}
+
+// Failed login tracking for one IP address or username
+export interface LoginThrottle {
+  scope: 'ip' | 'username';
+  key: string;
+  failures: number;
+  last_failure_at: string;
+  blocked_until: string | null;
+  // Seconds until blocked_until, 0 when not blocked
+  retry_after: number;
+}
+
+// Define API key interface (joined with the owning user)
+export interface ApiKeyWithUser {
+  id: number;
+  user_id: number;
+  username: string;
+  role: string;
+  disabled: number;
+  scopes: string;
+}
+
+// Define API key listing interface (never exposes the key hash)
+export interface ApiKeySummary {
+  id: number;
+  user_id: number;
+  username: string;
+  name: string;
+  prefix: string;
+  scopes: string;
+  created_at: string;
+  expires_at: string | null;
+  last_used_at: string | null;
+  last_used_ip: string | null;
+  revoked_at: string | null;
+}
+
+// Define server instance interface - one game server installation managed by the dashboard
+export interface ServerInstance {
+  id: number;
+  name: string;
+  // Fixed at creation; names the instance's process files and log
+  slug: string;
+  install_dir: string;
+  game_port: number;
+  query_port: number;
+  created_at: string;
+  updated_at: string;
+}
+
+export type ServerInstanceInput = Pick<ServerInstance, 'name' | 'install_dir' | 'game_port' | 'query_port'>;
+
+// Define server crash interface - one row per unexpected exit of the game server
+export interface ServerCrash {
+  id: number;
+  instance_id: number;
+  occurred_at: string;
+  exit_code: number | null;
+  signal: string | null;
+  uptime_seconds: number | null;
+  // What the watchdog did about it: restarted after a delay, gave up at the restart limit, or nothing because it is disabled
+  action: 'restart' | 'limit' | 'disabled';
+  restart_delay_seconds: number | null;
+  log_tail: string | null;
+}
+
+// Define scheduled server action interface
+export interface ServerSchedule {
+  id: number;
+  instance_id: number;
+  name: string;
+  action: 'restart' | 'stop' | 'start';
+  cron: string;
+  // JSON array of how many seconds before the action each warning is sent
+  warnings: string;
+  // Console command used for warnings, with {action} and {time} placeholders
+  warning_command: string;
+  enabled: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  last_run_at: string | null;
+}
+
+export type ServerScheduleInput = Pick<ServerSchedule, 'instance_id' | 'name' | 'action' | 'cron' | 'warnings' | 'warning_command' | 'enabled'>;
+
+// Define schedule run interface - the name and action are copied so runs outlive their schedule
+export interface ScheduleRun {
+  id: number;
+  instance_id: number;
+  schedule_id: number;
+  schedule_name: string;
+  action: ServerSchedule['action'];
+  started_at: string;
+  finished_at: string | null;
+  success: number | null;
+  message: string | null;
+}
+
+// Define server log run interface - one row per start of the game server, its log archived in segments
+export interface ServerLogRun {
+  id: number;
+  instance_id: number;
+  started_at: string;
+  ended_at: string | null;
+  exit_code: number | null;
+  signal: string | null;
+  // Compressed segments on disk - the newest run also owns whatever is in the live log
+  segments: number;
+  // Size of the archived segments before and after compression
+  bytes: number;
+  compressed_bytes: number;
+}
+
+// Define log alert rule interface - fires when enough matching lines arrive within the window
+export interface LogAlertRule {
+  id: number;
+  instance_id: number;
+  name: string;
+  // Lowest level that counts, null for every level
+  min_level: 'debug' | 'info' | 'warning' | 'error' | null;
+  // Regular expression the line must match, null for every line
+  pattern: string | null;
+  threshold: number;
+  window_seconds: number;
+  // After firing, the rule stays quiet this long
+  cooldown_seconds: number;
+  // JSON array of the webhook IDs an alert is sent to
+  webhooks: string;
+  enabled: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  last_fired_at: string | null;
+}
+
+export type LogAlertRuleInput = Pick<LogAlertRule, 'instance_id' | 'name' | 'min_level' | 'pattern' | 'threshold' | 'window_seconds' | 'cooldown_seconds' | 'webhooks' | 'enabled'>;
+
+// Define log alert interface - the rule's name is copied so alerts outlive their rule
+export interface LogAlert {
+  id: number;
+  instance_id: number;
+  rule_id: number;
+  rule_name: string;
+  // Lines that matched within the window, and the last of them
+  match_count: number;
+  window_seconds: number;
+  level: string;
+  source: string | null;
+  message: string;
+  fired_at: string;
+  acknowledged_at: string | null;
+  acknowledged_by: string | null;
+}
+
+// Define alert webhook interface - where alerts are posted, shared by every instance
+export interface AlertWebhook {
+  id: number;
+  name: string;
+  url: string;
+  format: 'json' | 'discord';
+  enabled: number;
+  created_by: string;
+  created_at: string;
+  updated_at: string;
+  last_sent_at: string | null;
+  // Why the last delivery failed, null once one succeeds
+  last_error: string | null;
+}
+
+export type AlertWebhookInput = Pick<AlertWebhook, 'name' | 'url' | 'format' | 'enabled'>;
+
+// Define metric sample interface - host resources, averaged over the row's resolution
+export interface MetricSample {
+  // Unix seconds at the start of the period
+  timestamp: number;
+  // CPU usage in percent
+  cpu: number;
+  memory_used: number;
+  memory_total: number;
+  disk_used: number;
+  disk_total: number;
+  // Bytes per second received and sent on every interface but loopback
+  network_rx: number;
+  network_tx: number;
+}
+
+// Define process metric sample interface - a game server process and its children, averaged like MetricSample
+export interface ProcessMetricSample {
+  instance_id: number;
+  timestamp: number;
+  // CPU usage in percent of one core
+  cpu: number;
+  // Resident memory in bytes
+  rss: number;
+  threads: number;
+  open_files: number;
+  sockets: number;
+}
+
 // Define onboarding status interface
 interface OnboardingStatus {
   onboarding_completed: number;
@@ -31,6 +294,31 @@ const db = new Database(DB_PATH);
 db.pragma('foreign_keys = ON');
 db.pragma('journal_mode = WAL');
 
+// Ports set in an existing server's Config.toml, so it keeps them when it becomes an instance
+function readConfiguredPorts(configPath: string): { game: number; query: number } {
+  try {
+    const { discover } = toml.parse(fs.readFileSync(configPath, 'utf-8'));
+    return {
+      game: Number.isInteger(discover?.port) ? discover.port : 7777,
+      query: Number.isInteger(discover?.query_port) ? discover.query_port : 7778
+    };
+  } catch {
+    return { game: 7777, query: 7778 };
+  }
+}
+
+// Add a column to an existing table if an older database doesn't have it yet
+// Returns true if the column had to be added
+function ensureColumn(table: string, column: string, definition: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(existing => existing.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    console.log(`Added column ${table}.${column}`);
+    return true;
+  }
+  return false;
+}
+
 // Initialize database schema
 function initializeDatabase() {
   // Create users table
@@ -38,11 +326,28 @@ function initializeDatabase() {
     CREATE TABLE IF NOT EXISTS users (
       id INTEGER PRIMARY KEY AUTOINCREMENT,
       username TEXT NOT NULL UNIQUE,
+      password_hash TEXT,
+      disabled BOOLEAN DEFAULT 0,
+      role TEXT NOT NULL DEFAULT 'read-only',
       created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
       updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
     )
   `);
 
+  // Databases created before multi-user support lack the credential columns
+  ensureColumn('users', 'password_hash', 'TEXT');
+  ensureColumn('users', 'disabled', 'BOOLEAN DEFAULT 0');
+  
+  // Accounts that existed before roles had full access, so they become owners
+  if (ensureColumn('users', 'role', "TEXT NOT NULL DEFAULT 'read-only'")) {
+    db.exec("UPDATE users SET role = 'owner'");
+  }
+  
+  // Two-factor authentication - the secret is set during enrollment, before it is enabled
+  ensureColumn('users', 'totp_secret', 'TEXT');
+  ensureColumn('users', 'totp_enabled', 'BOOLEAN DEFAULT 0');
+  ensureColumn('users', 'totp_last_step', 'INTEGER');
+
   // Create user_settings table
   db.exec(`
     CREATE TABLE IF NOT EXISTS user_settings (
@@ -54,6 +359,266 @@ function initializeDatabase() {
     )
   `);
 
+  // Create sessions table - only a SHA-256 hash of each token is stored
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS sessions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      token_hash TEXT NOT NULL UNIQUE,
+      ip TEXT,
+      user_agent TEXT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP NOT NULL,
+      revoked_at TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Create audit log table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS audit_log (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      user_id INTEGER,
+      username TEXT NOT NULL,
+      ip TEXT,
+      action TEXT NOT NULL,
+      target TEXT,
+      details TEXT,
+      success BOOLEAN NOT NULL,
+      error TEXT
+    )
+  `);
+  db.exec('CREATE INDEX IF NOT EXISTS idx_audit_log_created_at ON audit_log(created_at)');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_audit_log_action ON audit_log(action)');
+
+  // Create login throttle table - failed login attempts per IP and per username
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS login_throttle (
+      scope TEXT NOT NULL,
+      key TEXT NOT NULL,
+      failures INTEGER NOT NULL DEFAULT 0,
+      last_failure_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      blocked_until TIMESTAMP,
+      PRIMARY KEY (scope, key)
+    )
+  `);
+
+  // Create recovery codes table - one-time codes for users who lose their authenticator
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS recovery_codes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      code_hash TEXT NOT NULL,
+      used_at TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Create API keys table - like sessions, only a SHA-256 hash of each key is stored
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS api_keys (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      user_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      prefix TEXT NOT NULL,
+      key_hash TEXT NOT NULL UNIQUE,
+      scopes TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      expires_at TIMESTAMP,
+      last_used_at TIMESTAMP,
+      last_used_ip TEXT,
+      revoked_at TIMESTAMP,
+      FOREIGN KEY (user_id) REFERENCES users(id) ON DELETE CASCADE
+    )
+  `);
+
+  // Create server settings table - dashboard-wide server options stored as JSON values
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS server_settings (
+      key TEXT PRIMARY KEY,
+      value TEXT NOT NULL,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Create server instances table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS server_instances (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT UNIQUE NOT NULL,
+      slug TEXT UNIQUE NOT NULL,
+      install_dir TEXT UNIQUE NOT NULL,
+      game_port INTEGER NOT NULL,
+      query_port INTEGER NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+
+  // Dashboards from before instances managed one server in the standard location
+  const instanceCount = db.prepare('SELECT COUNT(*) as count FROM server_instances').get() as { count: number };
+  if (instanceCount.count === 0) {
+    const ports = readConfiguredPorts('/opt/nanos-world-server/Config.toml');
+    db.prepare(`
+      INSERT INTO server_instances (name, slug, install_dir, game_port, query_port)
+      VALUES ('Default', 'default', '/opt/nanos-world-server', ?, ?)
+    `).run(ports.game, ports.query);
+  }
+
+  // Create server crashes table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS server_crashes (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      occurred_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      exit_code INTEGER,
+      signal TEXT,
+      uptime_seconds INTEGER,
+      action TEXT NOT NULL,
+      restart_delay_seconds INTEGER,
+      log_tail TEXT
+    )
+  `);
+  db.exec('CREATE INDEX IF NOT EXISTS idx_server_crashes_occurred_at ON server_crashes(occurred_at)');
+  // Older crashes and schedules all belong to the server that became the first instance
+  ensureColumn('server_crashes', 'instance_id', 'INTEGER NOT NULL DEFAULT 1');
+
+  // Create server schedules table - cron-style restarts, stops and starts
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS server_schedules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      action TEXT NOT NULL,
+      cron TEXT NOT NULL,
+      warnings TEXT NOT NULL DEFAULT '[]',
+      warning_command TEXT NOT NULL,
+      enabled BOOLEAN DEFAULT 1,
+      created_by TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_run_at TIMESTAMP
+    )
+  `);
+  ensureColumn('server_schedules', 'instance_id', 'INTEGER NOT NULL DEFAULT 1');
+
+  // Create schedule runs table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schedule_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      schedule_id INTEGER NOT NULL,
+      schedule_name TEXT NOT NULL,
+      action TEXT NOT NULL,
+      started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      finished_at TIMESTAMP,
+      success BOOLEAN,
+      message TEXT
+    )
+  `);
+  ensureColumn('schedule_runs', 'instance_id', 'INTEGER NOT NULL DEFAULT 1');
+
+  // Create server log runs table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS server_log_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      instance_id INTEGER NOT NULL,
+      started_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      ended_at TIMESTAMP,
+      exit_code INTEGER,
+      signal TEXT,
+      segments INTEGER NOT NULL DEFAULT 0,
+      bytes INTEGER NOT NULL DEFAULT 0,
+      compressed_bytes INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+  db.exec('CREATE INDEX IF NOT EXISTS idx_server_log_runs_instance_id ON server_log_runs(instance_id)');
+
+  // Create log alert rules table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS log_alert_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      instance_id INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      min_level TEXT,
+      pattern TEXT,
+      threshold INTEGER NOT NULL DEFAULT 1,
+      window_seconds INTEGER NOT NULL DEFAULT 60,
+      cooldown_seconds INTEGER NOT NULL DEFAULT 300,
+      webhooks TEXT NOT NULL DEFAULT '[]',
+      enabled BOOLEAN DEFAULT 1,
+      created_by TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_fired_at TIMESTAMP
+    )
+  `);
+
+  // Create log alerts table - the firing history
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS log_alerts (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      instance_id INTEGER NOT NULL,
+      rule_id INTEGER NOT NULL,
+      rule_name TEXT NOT NULL,
+      match_count INTEGER NOT NULL,
+      window_seconds INTEGER NOT NULL,
+      level TEXT NOT NULL,
+      source TEXT,
+      message TEXT NOT NULL,
+      fired_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      acknowledged_at TIMESTAMP,
+      acknowledged_by TEXT
+    )
+  `);
+  db.exec('CREATE INDEX IF NOT EXISTS idx_log_alerts_acknowledged_at ON log_alerts(acknowledged_at)');
+
+  // Create alert webhooks table
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS alert_webhooks (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      name TEXT NOT NULL,
+      url TEXT NOT NULL,
+      format TEXT NOT NULL,
+      enabled BOOLEAN DEFAULT 1,
+      created_by TEXT NOT NULL,
+      created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+      last_sent_at TIMESTAMP,
+      last_error TEXT
+    )
+  `);
+
+  // Create metric samples table - raw samples and their per-minute and per-hour averages
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS metric_samples (
+      resolution INTEGER NOT NULL,
+      timestamp INTEGER NOT NULL,
+      cpu REAL NOT NULL,
+      memory_used INTEGER NOT NULL,
+      memory_total INTEGER NOT NULL,
+      disk_used INTEGER NOT NULL,
+      disk_total INTEGER NOT NULL,
+      network_rx REAL NOT NULL,
+      network_tx REAL NOT NULL,
+      PRIMARY KEY (resolution, timestamp)
+    )
+  `);
+
+  // Create process metric samples table - the same resolutions, for each instance's server process
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS process_metric_samples (
+      instance_id INTEGER NOT NULL,
+      resolution INTEGER NOT NULL,
+      timestamp INTEGER NOT NULL,
+      cpu REAL NOT NULL,
+      rss INTEGER NOT NULL,
+      threads INTEGER NOT NULL,
+      open_files INTEGER NOT NULL,
+      sockets INTEGER NOT NULL,
+      PRIMARY KEY (instance_id, resolution, timestamp)
+    )
+  `);
+
   console.log('Database initialized successfully');
 }
 
@@ -82,6 +647,75 @@ export function createUser(username: string): User | undefined {
   return getUser(username);
 }
 
+export function getUserById(id: number): User | undefined {
+  const stmt = db.prepare('SELECT * FROM users WHERE id = ?');
+  return stmt.get(id) as User | undefined;
+}
+
+export function listUsers(): UserSummary[] {
+  const stmt = db.prepare(`
+    SELECT u.id, u.username, u.role, u.disabled, u.totp_enabled AS two_factor, u.created_at, us.last_login
+    FROM users u
+    LEFT JOIN user_settings us ON us.user_id = u.id
+    ORDER BY u.username
+  `);
+  
+  const rows = stmt.all() as (Omit<UserSummary, 'disabled' | 'two_factor'> & { disabled: number; two_factor: number })[];
+  return rows.map(row => ({ ...row, disabled: Boolean(row.disabled), two_factor: Boolean(row.two_factor) }));
+}
+
+export function createUserWithPassword(username: string, passwordHash: string, role: string): User | undefined {
+  const user = createUser(username);
+  if (!user) return undefined;
+  
+  setUserPassword(user.id, passwordHash);
+  setUserRole(user.id, role);
+  return getUserById(user.id);
+}
+
+export function setUserPassword(id: number, passwordHash: string): boolean {
+  const stmt = db.prepare(`
+    UPDATE users 
+    SET password_hash = ?, updated_at = CURRENT_TIMESTAMP 
+    WHERE id = ?
+  `);
+  
+  const result = stmt.run(passwordHash, id);
+  return result.changes > 0;
+}
+
+export function setUserDisabled(id: number, disabled: boolean): boolean {
+  const stmt = db.prepare(`
+    UPDATE users 
+    SET disabled = ?, updated_at = CURRENT_TIMESTAMP 
+    WHERE id = ?
+  `);
+  
+  const result = stmt.run(disabled ? 1 : 0, id);
+  return result.changes > 0;
+}
+
+export function setUserRole(id: number, role: string): boolean {
+  const stmt = db.prepare(`
+    UPDATE users 
+    SET role = ?, updated_at = CURRENT_TIMESTAMP 
+    WHERE id = ?
+  `);
+  
+  const result = stmt.run(role, id);
+  return result.changes > 0;
+}
+
+export function countActiveOwners(): number {
+  const stmt = db.prepare("SELECT COUNT(*) AS count FROM users WHERE role = 'owner' AND password_hash IS NOT NULL AND disabled = 0");
+  return (stmt.get() as { count: number }).count;
+}
+
+export function isInstallationOnboarded(): boolean {
+  const stmt = db.prepare('SELECT COUNT(*) AS count FROM user_settings WHERE onboarding_completed = 1');
+  return (stmt.get() as { count: number }).count > 0;
+}
+
 export function updateOnboardingStatus(username: string, completed: boolean): boolean {
   const user = getUser(username);
   if (!user) return false;
@@ -122,5 +756,871 @@ export function updateLastLogin(username: string): boolean {
   return result.changes > 0;
 }
 
+// Two-factor authentication functions
+
+/**
+ * Store a new TOTP secret for enrollment. Two-factor stays disabled until the secret is confirmed.
+ */
+export function setTotpSecret(id: number, secret: string): boolean {
+  const stmt = db.prepare(`
+    UPDATE users 
+    SET totp_secret = ?, totp_enabled = 0, totp_last_step = NULL, updated_at = CURRENT_TIMESTAMP 
+    WHERE id = ?
+  `);
+  
+  return stmt.run(secret, id).changes > 0;
+}
+
+export function enableTotp(id: number): boolean {
+  const stmt = db.prepare(`
+    UPDATE users 
+    SET totp_enabled = 1, updated_at = CURRENT_TIMESTAMP 
+    WHERE id = ? AND totp_secret IS NOT NULL
+  `);
+  
+  return stmt.run(id).changes > 0;
+}
+
+/**
+ * Remove two-factor authentication and its recovery codes from an account
+ */
+export function disableTotp(id: number): boolean {
+  const disable = db.transaction(() => {
+    db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').run(id);
+    return db.prepare(`
+      UPDATE users 
+      SET totp_secret = NULL, totp_enabled = 0, totp_last_step = NULL, updated_at = CURRENT_TIMESTAMP 
+      WHERE id = ?
+    `).run(id).changes > 0;
+  });
+  
+  return disable();
+}
+
+/**
+ * Record the time step of an accepted TOTP code
+ * @returns false if this or a later step was already used, so a code cannot be replayed
+ */
+export function claimTotpStep(id: number, step: number): boolean {
+  const stmt = db.prepare(`
+    UPDATE users 
+    SET totp_last_step = ? 
+    WHERE id = ? AND (totp_last_step IS NULL OR totp_last_step < ?)
+  `);
+  
+  return stmt.run(step, id, step).changes > 0;
+}
+
+export function replaceRecoveryCodes(userId: number, codeHashes: string[]): void {
+  const replace = db.transaction(() => {
+    db.prepare('DELETE FROM recovery_codes WHERE user_id = ?').run(userId);
+    const stmt = db.prepare('INSERT INTO recovery_codes (user_id, code_hash) VALUES (?, ?)');
+    for (const codeHash of codeHashes) {
+      stmt.run(userId, codeHash);
+    }
+  });
+  
+  replace();
+}
+
+/**
+ * Mark a recovery code as used
+ * @returns false if the code does not exist or was already used
+ */
+export function useRecoveryCode(userId: number, codeHash: string): boolean {
+  const stmt = db.prepare(`
+    UPDATE recovery_codes 
+    SET used_at = CURRENT_TIMESTAMP 
+    WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+  `);
+  
+  return stmt.run(userId, codeHash).changes > 0;
+}
+
+export function countRecoveryCodes(userId: number): number {
+  const stmt = db.prepare('SELECT COUNT(*) as count FROM recovery_codes WHERE user_id = ? AND used_at IS NULL');
+  return (stmt.get(userId) as { count: number }).count;
+}
+
+// Session-related functions
+export function createSession(userId: number, tokenHash: string, ttlSeconds: number, ip?: string, userAgent?: string): number {
+  const stmt = db.prepare(`
+    INSERT INTO sessions (user_id, token_hash, ip, user_agent, expires_at)
+    VALUES (?, ?, ?, ?, datetime('now', ?))
+  `);
+  
+  const result = stmt.run(userId, tokenHash, ip || null, userAgent || null, `+${ttlSeconds} seconds`);
+  return Number(result.lastInsertRowid);
+}
+
+export function getActiveSession(tokenHash: string): SessionWithUser | undefined {
+  const stmt = db.prepare(`
+    SELECT s.id, s.user_id, s.expires_at, u.username, u.role, u.disabled
+    FROM sessions s
+    JOIN users u ON s.user_id = u.id
+    WHERE s.token_hash = ? AND s.revoked_at IS NULL AND s.expires_at > datetime('now')
+  `);
+  
+  return stmt.get(tokenHash) as SessionWithUser | undefined;
+}
+
+export function isSessionActive(id: number): boolean {
+  const stmt = db.prepare(`
+    SELECT 1 FROM sessions
+    WHERE id = ? AND revoked_at IS NULL AND expires_at > datetime('now')
+  `);
+  return stmt.get(id) !== undefined;
+}
+
+export function getSessionExpiry(id: number): string | undefined {
+  const stmt = db.prepare('SELECT expires_at FROM sessions WHERE id = ?');
+  const result = stmt.get(id) as { expires_at: string } | undefined;
+  return result?.expires_at;
+}
+
+export function touchSession(id: number): void {
+  // Only write once a minute to keep request overhead low
+  db.prepare(`
+    UPDATE sessions 
+    SET last_used_at = CURRENT_TIMESTAMP 
+    WHERE id = ? AND last_used_at < datetime('now', '-60 seconds')
+  `).run(id);
+}
+
+export function listUserSessions(userId: number): SessionSummary[] {
+  const stmt = db.prepare(`
+    SELECT id, created_at, expires_at, last_used_at, ip, user_agent
+    FROM sessions
+    WHERE user_id = ? AND revoked_at IS NULL AND expires_at > datetime('now')
+    ORDER BY last_used_at DESC
+  `);
+  
+  return stmt.all(userId) as SessionSummary[];
+}
+
+export function revokeSession(id: number, userId?: number): boolean {
+  const stmt = userId === undefined
+    ? db.prepare('UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL')
+    : db.prepare('UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND revoked_at IS NULL');
+  
+  const result = userId === undefined ? stmt.run(id) : stmt.run(id, userId);
+  return result.changes > 0;
+}
+
+/**
+ * Revoke every active session of a user
+ * @returns The IDs of the sessions that were revoked
+ */
+export function revokeUserSessions(userId: number, exceptSessionId?: number): number[] {
+  const revoke = db.transaction(() => {
+    const rows = db.prepare(`
+      SELECT id FROM sessions 
+      WHERE user_id = ? AND revoked_at IS NULL AND id != ?
+    `).all(userId, exceptSessionId ?? -1) as { id: number }[];
+    
+    const stmt = db.prepare('UPDATE sessions SET revoked_at = CURRENT_TIMESTAMP WHERE id = ?');
+    for (const row of rows) {
+      stmt.run(row.id);
+    }
+    
+    return rows.map(row => row.id);
+  });
+  
+  return revoke();
+}
+
+export function deleteExpiredSessions(): number {
+  const stmt = db.prepare(`
+    DELETE FROM sessions 
+    WHERE expires_at <= datetime('now') OR revoked_at <= datetime('now', '-7 days')
+  `);
+  
+  return stmt.run().changes;
+}
+
+// Audit log functions
+export function insertAuditEntry(entry: Omit<AuditEntry, 'id' | 'created_at'>): void {
+  const stmt = db.prepare(`
+    INSERT INTO audit_log (user_id, username, ip, action, target, details, success, error)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  
+  stmt.run(
+    entry.user_id,
+    entry.username,
+    entry.ip,
+    entry.action,
+    entry.target,
+    entry.details,
+    entry.success,
+    entry.error
+  );
+}
+
+/**
+ * Query the audit log, newest first
+ * @returns The matching page of entries and the total number of matches
+ */
+export function queryAuditLog(query: AuditQuery): { entries: AuditEntry[]; total: number } {
+  const conditions: string[] = [];
+  const params: (string | number)[] = [];
+  
+  if (query.action) {
+    conditions.push('action = ?');
+    params.push(query.action);
+  }
+  
+  if (query.username) {
+    conditions.push('username = ?');
+    params.push(query.username);
+  }
+  
+  if (query.success !== undefined) {
+    conditions.push('success = ?');
+    params.push(query.success ? 1 : 0);
+  }
+  
+  if (query.from) {
+    conditions.push('created_at >= ?');
+    params.push(query.from);
+  }
+  
+  if (query.to) {
+    conditions.push('created_at <= ?');
+    params.push(query.to);
+  }
+  
+  if (query.search) {
+    conditions.push(`(username LIKE ? ESCAPE '\\' OR action LIKE ? ESCAPE '\\' OR target LIKE ? ESCAPE '\\' OR details LIKE ? ESCAPE '\\' OR error LIKE ? ESCAPE '\\')`);
+    const pattern = `%${query.search.replace(/[\\%_]/g, match => `\\${match}`)}%`;
+    params.push(pattern, pattern, pattern, pattern, pattern);
+  }
+  
+  const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  
+  const total = (db.prepare(`SELECT COUNT(*) as count FROM audit_log ${where}`).get(...params) as { count: number }).count;
+  const entries = db.prepare(`
+    SELECT * FROM audit_log ${where}
+    ORDER BY id DESC
+    LIMIT ? OFFSET ?
+  `).all(...params, query.limit, query.offset) as AuditEntry[];
+  
+  return { entries, total };
+}
+
+// Login throttle functions
+const LOGIN_THROTTLE_COLUMNS = `
+  scope, key, failures, last_failure_at, blocked_until,
+  MAX(0, COALESCE(CAST(strftime('%s', blocked_until) AS INTEGER) - CAST(strftime('%s', 'now') AS INTEGER), 0)) AS retry_after
+`;
+
+/**
+ * Get the failure count for an IP or username, ignoring failures older than the window
+ * @param windowSeconds How long failures are remembered
+ */
+export function getLoginThrottle(scope: LoginThrottle['scope'], key: string, windowSeconds: number): LoginThrottle | undefined {
+  const stmt = db.prepare(`
+    SELECT ${LOGIN_THROTTLE_COLUMNS}
+    FROM login_throttle
+    WHERE scope = ? AND key = ? AND (last_failure_at > datetime('now', ?) OR blocked_until > datetime('now'))
+  `);
+  
+  return stmt.get(scope, key, `-${windowSeconds} seconds`) as LoginThrottle | undefined;
+}
+
+export function saveLoginFailure(scope: LoginThrottle['scope'], key: string, failures: number, blockSeconds: number): void {
+  db.prepare(`
+    INSERT INTO login_throttle (scope, key, failures, last_failure_at, blocked_until)
+    VALUES (?, ?, ?, CURRENT_TIMESTAMP, datetime('now', ?))
+    ON CONFLICT(scope, key) DO UPDATE SET
+      failures = excluded.failures,
+      last_failure_at = excluded.last_failure_at,
+      blocked_until = excluded.blocked_until
+  `).run(scope, key, failures, `+${blockSeconds} seconds`);
+}
+
+export function clearLoginThrottle(scope: LoginThrottle['scope'], key: string): boolean {
+  const stmt = db.prepare('DELETE FROM login_throttle WHERE scope = ? AND key = ?');
+  return stmt.run(scope, key).changes > 0;
+}
+
+export function listLoginThrottles(windowSeconds: number): LoginThrottle[] {
+  const stmt = db.prepare(`
+    SELECT ${LOGIN_THROTTLE_COLUMNS}
+    FROM login_throttle
+    WHERE last_failure_at > datetime('now', ?) OR blocked_until > datetime('now')
+    ORDER BY last_failure_at DESC
+  `);
+  
+  return stmt.all(`-${windowSeconds} seconds`) as LoginThrottle[];
+}
+
+export function pruneLoginThrottles(windowSeconds: number): number {
+  const stmt = db.prepare(`
+    DELETE FROM login_throttle
+    WHERE last_failure_at <= datetime('now', ?) AND (blocked_until IS NULL OR blocked_until <= datetime('now'))
+  `);
+  
+  return stmt.run(`-${windowSeconds} seconds`).changes;
+}
+
+// API key functions
+/**
+ * Store a new API key
+ * @param scopes JSON array of the scopes the key is limited to
+ * @param ttlSeconds Lifetime of the key, or null for a key that never expires
+ */
+export function createApiKey(
+  userId: number,
+  name: string,
+  prefix: string,
+  keyHash: string,
+  scopes: string,
+  ttlSeconds: number | null
+): number {
+  const stmt = db.prepare(`
+    INSERT INTO api_keys (user_id, name, prefix, key_hash, scopes, expires_at)
+    VALUES (?, ?, ?, ?, ?, CASE WHEN ? IS NULL THEN NULL ELSE datetime('now', ?) END)
+  `);
+  
+  const result = stmt.run(userId, name, prefix, keyHash, scopes, ttlSeconds, `+${ttlSeconds} seconds`);
+  return Number(result.lastInsertRowid);
+}
+
+export function getActiveApiKey(keyHash: string): ApiKeyWithUser | undefined {
+  const stmt = db.prepare(`
+    SELECT k.id, k.user_id, k.scopes, u.username, u.role, u.disabled
+    FROM api_keys k
+    JOIN users u ON k.user_id = u.id
+    WHERE k.key_hash = ? AND k.revoked_at IS NULL AND (k.expires_at IS NULL OR k.expires_at > datetime('now'))
+  `);
+  
+  return stmt.get(keyHash) as ApiKeyWithUser | undefined;
+}
+
+export function getApiKey(id: number): ApiKeySummary | undefined {
+  const stmt = db.prepare(`
+    SELECT k.id, k.user_id, u.username, k.name, k.prefix, k.scopes, k.created_at, k.expires_at, k.last_used_at, k.last_used_ip, k.revoked_at
+    FROM api_keys k
+    JOIN users u ON k.user_id = u.id
+    WHERE k.id = ?
+  `);
+  
+  return stmt.get(id) as ApiKeySummary | undefined;
+}
+
+export function touchApiKey(id: number, ip?: string): void {
+  // Only write once a minute to keep request overhead low
+  db.prepare(`
+    UPDATE api_keys 
+    SET last_used_at = CURRENT_TIMESTAMP, last_used_ip = ? 
+    WHERE id = ? AND (last_used_at IS NULL OR last_used_at < datetime('now', '-60 seconds'))
+  `).run(ip || null, id);
+}
+
+/**
+ * List API keys, newest first. Revoked and expired keys are kept so their history stays visible.
+ * @param userId Only list the keys of this user
+ */
+export function listApiKeys(userId?: number): ApiKeySummary[] {
+  const stmt = db.prepare(`
+    SELECT k.id, k.user_id, u.username, k.name, k.prefix, k.scopes, k.created_at, k.expires_at, k.last_used_at, k.last_used_ip, k.revoked_at
+    FROM api_keys k
+    JOIN users u ON k.user_id = u.id
+    WHERE ? IS NULL OR k.user_id = ?
+    ORDER BY k.created_at DESC, k.id DESC
+  `);
+  
+  return stmt.all(userId ?? null, userId ?? null) as ApiKeySummary[];
+}
+
+export function revokeApiKey(id: number, userId?: number): boolean {
+  const stmt = userId === undefined
+    ? db.prepare('UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND revoked_at IS NULL')
+    : db.prepare('UPDATE api_keys SET revoked_at = CURRENT_TIMESTAMP WHERE id = ? AND user_id = ? AND revoked_at IS NULL');
+  
+  const result = userId === undefined ? stmt.run(id) : stmt.run(id, userId);
+  return result.changes > 0;
+}
+
+// Server settings functions
+export function getServerSetting(key: string): string | undefined {
+  const row = db.prepare('SELECT value FROM server_settings WHERE key = ?').get(key) as { value: string } | undefined;
+  return row?.value;
+}
+
+export function setServerSetting(key: string, value: string): void {
+  db.prepare(`
+    INSERT INTO server_settings (key, value, updated_at)
+    VALUES (?, ?, CURRENT_TIMESTAMP)
+    ON CONFLICT(key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+  `).run(key, value);
+}
+
+// An instance's own settings share the table, keyed "<key>:<instance id>"
+function instanceSettingKey(instanceId: number, key: string): string {
+  return `${key}:${instanceId}`;
+}
+
+/**
+ * Read one instance's setting - an instance that never saved its own uses the value saved before
+ * settings were kept per instance
+ */
+export function getInstanceSetting(instanceId: number, key: string): string | undefined {
+  return getServerSetting(instanceSettingKey(instanceId, key)) ?? getServerSetting(key);
+}
+
+export function setInstanceSetting(instanceId: number, key: string, value: string): void {
+  setServerSetting(instanceSettingKey(instanceId, key), value);
+}
+
+// Server instance functions
+export function listServerInstances(): ServerInstance[] {
+  return db.prepare('SELECT * FROM server_instances ORDER BY id').all() as ServerInstance[];
+}
+
+export function getServerInstance(id: number): ServerInstance | undefined {
+  return db.prepare('SELECT * FROM server_instances WHERE id = ?').get(id) as ServerInstance | undefined;
+}
+
+export function createServerInstance(instance: ServerInstanceInput, slug: string): number {
+  const stmt = db.prepare(`
+    INSERT INTO server_instances (name, slug, install_dir, game_port, query_port)
+    VALUES (?, ?, ?, ?, ?)
+  `);
+  
+  const result = stmt.run(instance.name, slug, instance.install_dir, instance.game_port, instance.query_port);
+  return Number(result.lastInsertRowid);
+}
+
+export function updateServerInstance(id: number, instance: ServerInstanceInput): boolean {
+  const stmt = db.prepare(`
+    UPDATE server_instances 
+    SET name = ?, install_dir = ?, game_port = ?, query_port = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `);
+  
+  const result = stmt.run(instance.name, instance.install_dir, instance.game_port, instance.query_port, id);
+  return result.changes > 0;
+}
+
+// Removes the instance with its schedules, their runs, its crash history, its log runs and its alerts
+export function deleteServerInstance(id: number): boolean {
+  const remove = db.transaction(() => {
+    db.prepare('DELETE FROM log_alert_rules WHERE instance_id = ?').run(id);
+    db.prepare('DELETE FROM log_alerts WHERE instance_id = ?').run(id);
+    db.prepare('DELETE FROM server_schedules WHERE instance_id = ?').run(id);
+    db.prepare('DELETE FROM schedule_runs WHERE instance_id = ?').run(id);
+    db.prepare('DELETE FROM server_crashes WHERE instance_id = ?').run(id);
+    db.prepare('DELETE FROM server_log_runs WHERE instance_id = ?').run(id);
+    db.prepare('DELETE FROM process_metric_samples WHERE instance_id = ?').run(id);
+    db.prepare('DELETE FROM server_settings WHERE key LIKE ?').run(instanceSettingKey(id, '%'));
+    return db.prepare('DELETE FROM server_instances WHERE id = ?').run(id).changes > 0;
+  });
+  return remove();
+}
+
+// Server crash functions
+export function insertServerCrash(crash: Omit<ServerCrash, 'id' | 'occurred_at'>): number {
+  const stmt = db.prepare(`
+    INSERT INTO server_crashes (instance_id, exit_code, signal, uptime_seconds, action, restart_delay_seconds, log_tail)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+  `);
+  
+  const result = stmt.run(
+    crash.instance_id,
+    crash.exit_code,
+    crash.signal,
+    crash.uptime_seconds,
+    crash.action,
+    crash.restart_delay_seconds,
+    crash.log_tail
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function countServerCrashesSince(instanceId: number, windowSeconds: number): number {
+  const row = db.prepare(`
+    SELECT COUNT(*) as count FROM server_crashes WHERE instance_id = ? AND occurred_at > datetime('now', ?)
+  `).get(instanceId, `-${windowSeconds} seconds`) as { count: number };
+  
+  return row.count;
+}
+
+export function listServerCrashes(instanceId: number, limit: number): ServerCrash[] {
+  const stmt = db.prepare('SELECT * FROM server_crashes WHERE instance_id = ? ORDER BY id DESC LIMIT ?');
+  return stmt.all(instanceId, limit) as ServerCrash[];
+}
+
+// Server schedule functions - all instances when no instance is given
+export function listServerSchedules(instanceId?: number): ServerSchedule[] {
+  if (instanceId === undefined) {
+    return db.prepare('SELECT * FROM server_schedules ORDER BY id').all() as ServerSchedule[];
+  }
+  return db.prepare('SELECT * FROM server_schedules WHERE instance_id = ? ORDER BY id').all(instanceId) as ServerSchedule[];
+}
+
+export function getServerSchedule(id: number): ServerSchedule | undefined {
+  return db.prepare('SELECT * FROM server_schedules WHERE id = ?').get(id) as ServerSchedule | undefined;
+}
+
+export function createServerSchedule(schedule: ServerScheduleInput, createdBy: string): number {
+  const stmt = db.prepare(`
+    INSERT INTO server_schedules (instance_id, name, action, cron, warnings, warning_command, enabled, created_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  
+  const result = stmt.run(
+    schedule.instance_id,
+    schedule.name,
+    schedule.action,
+    schedule.cron,
+    schedule.warnings,
+    schedule.warning_command,
+    schedule.enabled,
+    createdBy
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function updateServerSchedule(id: number, schedule: ServerScheduleInput): boolean {
+  const stmt = db.prepare(`
+    UPDATE server_schedules 
+    SET name = ?, action = ?, cron = ?, warnings = ?, warning_command = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `);
+  
+  const result = stmt.run(
+    schedule.name,
+    schedule.action,
+    schedule.cron,
+    schedule.warnings,
+    schedule.warning_command,
+    schedule.enabled,
+    id
+  );
+  return result.changes > 0;
+}
+
+export function deleteServerSchedule(id: number): boolean {
+  return db.prepare('DELETE FROM server_schedules WHERE id = ?').run(id).changes > 0;
+}
+
+export function startScheduleRun(schedule: ServerSchedule): number {
+  db.prepare('UPDATE server_schedules SET last_run_at = CURRENT_TIMESTAMP WHERE id = ?').run(schedule.id);
+  
+  const result = db.prepare(`
+    INSERT INTO schedule_runs (instance_id, schedule_id, schedule_name, action)
+    VALUES (?, ?, ?, ?)
+  `).run(schedule.instance_id, schedule.id, schedule.name, schedule.action);
+  return Number(result.lastInsertRowid);
+}
+
+export function finishScheduleRun(id: number, success: boolean, message: string): void {
+  db.prepare(`
+    UPDATE schedule_runs SET finished_at = CURRENT_TIMESTAMP, success = ?, message = ? WHERE id = ?
+  `).run(success ? 1 : 0, message, id);
+}
+
+export function listScheduleRuns(instanceId: number, limit: number): ScheduleRun[] {
+  return db.prepare('SELECT * FROM schedule_runs WHERE instance_id = ? ORDER BY id DESC LIMIT ?').all(instanceId, limit) as ScheduleRun[];
+}
+
+// Server log run functions
+export function createServerLogRun(instanceId: number, startedAt?: string): number {
+  const result = startedAt
+    ? db.prepare('INSERT INTO server_log_runs (instance_id, started_at) VALUES (?, ?)').run(instanceId, startedAt)
+    : db.prepare('INSERT INTO server_log_runs (instance_id) VALUES (?)').run(instanceId);
+  return Number(result.lastInsertRowid);
+}
+
+export function getServerLogRun(id: number): ServerLogRun | undefined {
+  return db.prepare('SELECT * FROM server_log_runs WHERE id = ?').get(id) as ServerLogRun | undefined;
+}
+
+export function getLatestServerLogRun(instanceId: number): ServerLogRun | undefined {
+  return db.prepare('SELECT * FROM server_log_runs WHERE instance_id = ? ORDER BY id DESC LIMIT 1').get(instanceId) as ServerLogRun | undefined;
+}
+
+// Newest first
+export function listServerLogRuns(instanceId: number): ServerLogRun[] {
+  return db.prepare('SELECT * FROM server_log_runs WHERE instance_id = ? ORDER BY id DESC').all(instanceId) as ServerLogRun[];
+}
+
+export function finishServerLogRun(id: number, exitCode: number | null, signal: string | null, endedAt?: string): void {
+  db.prepare(`
+    UPDATE server_log_runs SET ended_at = COALESCE(?, CURRENT_TIMESTAMP), exit_code = ?, signal = ? WHERE id = ?
+  `).run(endedAt ?? null, exitCode, signal, id);
+}
+
+export function addServerLogSegment(id: number, bytes: number, compressedBytes: number): void {
+  db.prepare(`
+    UPDATE server_log_runs SET segments = segments + 1, bytes = bytes + ?, compressed_bytes = compressed_bytes + ? WHERE id = ?
+  `).run(bytes, compressedBytes, id);
+}
+
+export function deleteServerLogRun(id: number): boolean {
+  return db.prepare('DELETE FROM server_log_runs WHERE id = ?').run(id).changes > 0;
+}
+
+// Log alert rule functions - all instances when no instance is given
+export function listLogAlertRules(instanceId?: number): LogAlertRule[] {
+  if (instanceId === undefined) {
+    return db.prepare('SELECT * FROM log_alert_rules ORDER BY id').all() as LogAlertRule[];
+  }
+  return db.prepare('SELECT * FROM log_alert_rules WHERE instance_id = ? ORDER BY id').all(instanceId) as LogAlertRule[];
+}
+
+export function getLogAlertRule(id: number): LogAlertRule | undefined {
+  return db.prepare('SELECT * FROM log_alert_rules WHERE id = ?').get(id) as LogAlertRule | undefined;
+}
+
+export function createLogAlertRule(rule: LogAlertRuleInput, createdBy: string): number {
+  const stmt = db.prepare(`
+    INSERT INTO log_alert_rules (instance_id, name, min_level, pattern, threshold, window_seconds, cooldown_seconds, webhooks, enabled, created_by)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  
+  const result = stmt.run(
+    rule.instance_id,
+    rule.name,
+    rule.min_level,
+    rule.pattern,
+    rule.threshold,
+    rule.window_seconds,
+    rule.cooldown_seconds,
+    rule.webhooks,
+    rule.enabled,
+    createdBy
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function updateLogAlertRule(id: number, rule: LogAlertRuleInput): boolean {
+  const stmt = db.prepare(`
+    UPDATE log_alert_rules 
+    SET name = ?, min_level = ?, pattern = ?, threshold = ?, window_seconds = ?, cooldown_seconds = ?, webhooks = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP
+    WHERE id = ?
+  `);
+  
+  const result = stmt.run(
+    rule.name,
+    rule.min_level,
+    rule.pattern,
+    rule.threshold,
+    rule.window_seconds,
+    rule.cooldown_seconds,
+    rule.webhooks,
+    rule.enabled,
+    id
+  );
+  return result.changes > 0;
+}
+
+export function deleteLogAlertRule(id: number): boolean {
+  return db.prepare('DELETE FROM log_alert_rules WHERE id = ?').run(id).changes > 0;
+}
+
+// Log alert functions
+export function insertLogAlert(alert: Omit<LogAlert, 'id' | 'fired_at' | 'acknowledged_at' | 'acknowledged_by'>): number {
+  db.prepare('UPDATE log_alert_rules SET last_fired_at = CURRENT_TIMESTAMP WHERE id = ?').run(alert.rule_id);
+  
+  const result = db.prepare(`
+    INSERT INTO log_alerts (instance_id, rule_id, rule_name, match_count, window_seconds, level, source, message)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    alert.instance_id,
+    alert.rule_id,
+    alert.rule_name,
+    alert.match_count,
+    alert.window_seconds,
+    alert.level,
+    alert.source,
+    alert.message
+  );
+  return Number(result.lastInsertRowid);
+}
+
+export function getLogAlert(id: number): LogAlert | undefined {
+  return db.prepare('SELECT * FROM log_alerts WHERE id = ?').get(id) as LogAlert | undefined;
+}
+
+// Newest first, across every instance
+export function listLogAlerts(limit: number, unacknowledgedOnly = false): LogAlert[] {
+  const where = unacknowledgedOnly ? 'WHERE acknowledged_at IS NULL' : '';
+  return db.prepare(`SELECT * FROM log_alerts ${where} ORDER BY id DESC LIMIT ?`).all(limit) as LogAlert[];
+}
+
+export function countUnacknowledgedLogAlerts(): number {
+  const row = db.prepare('SELECT COUNT(*) as count FROM log_alerts WHERE acknowledged_at IS NULL').get() as { count: number };
+  return row.count;
+}
+
+/**
+ * Acknowledge one alert, or every unacknowledged alert when no ID is given
+ * @returns The IDs of the alerts that were acknowledged
+ */
+export function acknowledgeLogAlerts(username: string, id?: number): number[] {
+  const acknowledge = db.transaction(() => {
+    const rows = (id === undefined
+      ? db.prepare('SELECT id FROM log_alerts WHERE acknowledged_at IS NULL').all()
+      : db.prepare('SELECT id FROM log_alerts WHERE id = ? AND acknowledged_at IS NULL').all(id)) as { id: number }[];
+    const stmt = db.prepare('UPDATE log_alerts SET acknowledged_at = CURRENT_TIMESTAMP, acknowledged_by = ? WHERE id = ?');
+    for (const row of rows) {
+      stmt.run(username, row.id);
+    }
+    return rows.map(row => row.id);
+  });
+  return acknowledge();
+}
+
+// Alert webhook functions
+export function listAlertWebhooks(): AlertWebhook[] {
+  return db.prepare('SELECT * FROM alert_webhooks ORDER BY id').all() as AlertWebhook[];
+}
+
+export function getAlertWebhook(id: number): AlertWebhook | undefined {
+  return db.prepare('SELECT * FROM alert_webhooks WHERE id = ?').get(id) as AlertWebhook | undefined;
+}
+
+export function createAlertWebhook(webhook: AlertWebhookInput, createdBy: string): number {
+  const result = db.prepare(`
+    INSERT INTO alert_webhooks (name, url, format, enabled, created_by) VALUES (?, ?, ?, ?, ?)
+  `).run(webhook.name, webhook.url, webhook.format, webhook.enabled, createdBy);
+  return Number(result.lastInsertRowid);
+}
+
+export function updateAlertWebhook(id: number, webhook: AlertWebhookInput): boolean {
+  const result = db.prepare(`
+    UPDATE alert_webhooks SET name = ?, url = ?, format = ?, enabled = ?, updated_at = CURRENT_TIMESTAMP WHERE id = ?
+  `).run(webhook.name, webhook.url, webhook.format, webhook.enabled, id);
+  return result.changes > 0;
+}
+
+export function deleteAlertWebhook(id: number): boolean {
+  return db.prepare('DELETE FROM alert_webhooks WHERE id = ?').run(id).changes > 0;
+}
+
+export function recordAlertWebhookDelivery(id: number, error: string | null): void {
+  db.prepare(`
+    UPDATE alert_webhooks SET last_sent_at = CURRENT_TIMESTAMP, last_error = ? WHERE id = ?
+  `).run(error, id);
+}
+
+// Metric sample functions - resolutions are in seconds. Periods are bucketed with % since it
+// works on integers, where / would divide by the bound value as a float
+const METRIC_AVERAGES = `
+  AVG(cpu), CAST(AVG(memory_used) AS INTEGER), MAX(memory_total),
+  CAST(AVG(disk_used) AS INTEGER), MAX(disk_total), AVG(network_rx), AVG(network_tx)
+`;
+
+export function insertMetricSample(resolution: number, sample: MetricSample): void {
+  db.prepare(`
+    INSERT OR REPLACE INTO metric_samples (resolution, timestamp, cpu, memory_used, memory_total, disk_used, disk_total, network_rx, network_tx)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    resolution,
+    sample.timestamp,
+    sample.cpu,
+    sample.memory_used,
+    sample.memory_total,
+    sample.disk_used,
+    sample.disk_total,
+    sample.network_rx,
+    sample.network_tx
+  );
+}
+
+/**
+ * Average the samples of one resolution into periods of a coarser one. Only periods that ended
+ * before the cutoff and come after the last one already averaged are written.
+ */
+export function rollUpMetricSamples(source: number, target: number, before: number): void {
+  db.prepare(`
+    INSERT OR IGNORE INTO metric_samples (resolution, timestamp, cpu, memory_used, memory_total, disk_used, disk_total, network_rx, network_tx)
+    SELECT ?, timestamp - timestamp % ?, ${METRIC_AVERAGES}
+    FROM metric_samples
+    WHERE resolution = ?
+      AND timestamp >= COALESCE((SELECT MAX(timestamp) + ? FROM metric_samples WHERE resolution = ?), 0)
+      AND timestamp < ? - ? % ?
+    GROUP BY timestamp - timestamp % ?
+  `).run(target, target, source, target, target, before, before, target, target);
+}
+
+export function deleteMetricSamplesBefore(resolution: number, before: number): number {
+  return db.prepare('DELETE FROM metric_samples WHERE resolution = ? AND timestamp < ?').run(resolution, before).changes;
+}
+
+/**
+ * Samples of one resolution since a time, averaged again into steps of the given length, oldest first
+ */
+export function queryMetricSamples(resolution: number, from: number, step: number): MetricSample[] {
+  return db.prepare(`
+    SELECT timestamp - timestamp % ? AS timestamp,
+      AVG(cpu) AS cpu, CAST(AVG(memory_used) AS INTEGER) AS memory_used, MAX(memory_total) AS memory_total,
+      CAST(AVG(disk_used) AS INTEGER) AS disk_used, MAX(disk_total) AS disk_total,
+      AVG(network_rx) AS network_rx, AVG(network_tx) AS network_tx
+    FROM metric_samples
+    WHERE resolution = ? AND timestamp >= ?
+    GROUP BY timestamp - timestamp % ?
+    ORDER BY timestamp
+  `).all(step, resolution, from, step) as MetricSample[];
+}
+
+const PROCESS_METRIC_AVERAGES = `
+  AVG(cpu), CAST(AVG(rss) AS INTEGER), CAST(ROUND(AVG(threads)) AS INTEGER),
+  CAST(ROUND(AVG(open_files)) AS INTEGER), CAST(ROUND(AVG(sockets)) AS INTEGER)
+`;
+
+export function insertProcessMetricSample(resolution: number, sample: ProcessMetricSample): void {
+  db.prepare(`
+    INSERT OR REPLACE INTO process_metric_samples (instance_id, resolution, timestamp, cpu, rss, threads, open_files, sockets)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).run(
+    sample.instance_id,
+    resolution,
+    sample.timestamp,
+    sample.cpu,
+    sample.rss,
+    sample.threads,
+    sample.open_files,
+    sample.sockets
+  );
+}
+
+/**
+ * rollUpMetricSamples for every instance's process samples
+ */
+export function rollUpProcessMetricSamples(source: number, target: number, before: number): void {
+  db.prepare(`
+    INSERT OR IGNORE INTO process_metric_samples (instance_id, resolution, timestamp, cpu, rss, threads, open_files, sockets)
+    SELECT instance_id, ?, timestamp - timestamp % ?, ${PROCESS_METRIC_AVERAGES}
+    FROM process_metric_samples AS samples
+    WHERE resolution = ?
+      AND timestamp >= COALESCE((
+        SELECT MAX(timestamp) + ? FROM process_metric_samples
+        WHERE resolution = ? AND instance_id = samples.instance_id
+      ), 0)
+      AND timestamp < ? - ? % ?
+    GROUP BY instance_id, timestamp - timestamp % ?
+  `).run(target, target, source, target, target, before, before, target, target);
+}
+
+export function deleteProcessMetricSamplesBefore(resolution: number, before: number): number {
+  return db.prepare('DELETE FROM process_metric_samples WHERE resolution = ? AND timestamp < ?').run(resolution, before).changes;
+}
+
+export function queryProcessMetricSamples(instanceId: number, resolution: number, from: number, step: number): ProcessMetricSample[] {
+  return db.prepare(`
+    SELECT instance_id, timestamp - timestamp % ? AS timestamp,
+      AVG(cpu) AS cpu, CAST(AVG(rss) AS INTEGER) AS rss, CAST(ROUND(AVG(threads)) AS INTEGER) AS threads,
+      CAST(ROUND(AVG(open_files)) AS INTEGER) AS open_files, CAST(ROUND(AVG(sockets)) AS INTEGER) AS sockets
+    FROM process_metric_samples
+    WHERE instance_id = ? AND resolution = ? AND timestamp >= ?
+    GROUP BY timestamp - timestamp % ?
+    ORDER BY timestamp
+  `).all(step, instanceId, resolution, from, step) as ProcessMetricSample[];
+}
+
 // Export the database instance for advanced usage
 export default db;
@@ -0,0 +1,321 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import {
+  listLogAlertRules,
+  getLogAlertRule,
+  createLogAlertRule,
+  updateLogAlertRule,
+  deleteLogAlertRule,
+  listLogAlerts,
+  countUnacknowledgedLogAlerts,
+  listAlertWebhooks,
+  getAlertWebhook,
+  createAlertWebhook,
+  updateAlertWebhook,
+  deleteAlertWebhook
+} from '../database';
+import {
+  logAlertMonitor,
+  validateAlertRule,
+  toAlertRuleInfo,
+  toAlertInfo,
+  DEFAULT_THRESHOLD,
+  DEFAULT_WINDOW_SECONDS,
+  DEFAULT_COOLDOWN_SECONDS
+} from '../alerts';
+import { validateWebhook, toWebhookInfo, sendWebhook, WEBHOOK_FORMATS } from '../alerts/webhooks';
+import { LOG_LEVELS } from '../logs';
+import { requirePermission } from '../middleware/permissions';
+import { auditAction } from '../middleware/audit';
+import { getRequestInstance } from '../middleware/instance';
+
+// Define interface for user in request
+interface RequestWithUser extends Request {
+  user?: {
+    id: number;
+    username: string;
+    role: string;
+  };
+}
+
+// Alerts returned unless the request asks for fewer
+const ALERT_HISTORY_LIMIT = 100;
+
+const router = Router();
+
+/**
+ * Name the rule behind an :id route parameter for the audit log
+ */
+function describeRule(id: string): string {
+  const rule = getLogAlertRule(Number.parseInt(id, 10));
+  return rule ? rule.name : `#${id}`;
+}
+
+/**
+ * Name the webhook behind an :id route parameter for the audit log
+ */
+function describeWebhook(id: string): string {
+  const webhook = getAlertWebhook(Number.parseInt(id, 10));
+  return webhook ? webhook.name : `#${id}`;
+}
+
+/**
+ * Check the rule behind an :id route parameter belongs to the request's instance
+ */
+function isInstanceRule(req: RequestWithUser, id: number): boolean {
+  return getLogAlertRule(id)?.instance_id === getRequestInstance(req).instance.id;
+}
+
+// List alerts of every instance, newest first - ?unacknowledged=true leaves out the acknowledged ones
+router.get('/', requirePermission('logs.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const limit = Math.min(Number.parseInt(req.query.limit as string, 10) || ALERT_HISTORY_LIMIT, ALERT_HISTORY_LIMIT);
+    res.json({
+      success: true,
+      alerts: listLogAlerts(limit, req.query.unacknowledged === 'true').map(toAlertInfo),
+      unacknowledged: countUnacknowledgedLogAlerts()
+    });
+  } catch (error) {
+    console.error('Error listing alerts:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Acknowledge every unacknowledged alert
+router.post('/acknowledge', auditAction('alert.acknowledge', () => ({
+  target: 'all'
+})), requirePermission('logs.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const acknowledged = logAlertMonitor.acknowledge(req.user?.username || 'unknown');
+    res.json({ success: true, acknowledged });
+  } catch (error) {
+    console.error('Error acknowledging alerts:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Acknowledge one alert
+router.post('/:id/acknowledge', auditAction('alert.acknowledge', req => ({
+  target: `#${req.params.id}`
+})), requirePermission('logs.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const acknowledged = logAlertMonitor.acknowledge(req.user?.username || 'unknown', Number.parseInt(req.params.id, 10));
+    if (acknowledged === 0) {
+      res.status(404).json({ success: false, error: 'Alert not found or already acknowledged' });
+      return;
+    }
+    res.json({ success: true, acknowledged });
+  } catch (error) {
+    console.error('Error acknowledging alert:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// List the instance's rules, with the webhooks they can send to
+router.get('/rules', requirePermission('logs.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      rules: listLogAlertRules(getRequestInstance(req).instance.id).map(toAlertRuleInfo),
+      // Names only - the URLs are for those who manage webhooks
+      webhooks: listAlertWebhooks().map(({ id, name, format, enabled }) => ({ id, name, format, enabled: !!enabled })),
+      levels: LOG_LEVELS,
+      defaults: {
+        threshold: DEFAULT_THRESHOLD,
+        windowSeconds: DEFAULT_WINDOW_SECONDS,
+        cooldownSeconds: DEFAULT_COOLDOWN_SECONDS
+      }
+    });
+  } catch (error) {
+    console.error('Error listing alert rules:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Create a rule
+router.post('/rules', auditAction('alert.rule-create', req => ({
+  target: req.body?.name,
+  details: { instanceId: getRequestInstance(req).instance.id, minLevel: req.body?.minLevel, pattern: req.body?.pattern }
+})), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const instanceId = getRequestInstance(req).instance.id;
+    const { rule, error } = validateAlertRule(req.body, instanceId);
+    if (!rule) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    const id = createLogAlertRule(rule, req.user?.username || 'unknown');
+    logAlertMonitor.reload(instanceId);
+
+    const created = getLogAlertRule(id);
+    res.status(201).json({ success: true, rule: created && toAlertRuleInfo(created) });
+  } catch (error) {
+    console.error('Error creating alert rule:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Replace a rule
+router.put('/rules/:id', auditAction('alert.rule-update', req => ({
+  target: describeRule(req.params.id),
+  details: { minLevel: req.body?.minLevel, pattern: req.body?.pattern, enabled: req.body?.enabled }
+})), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const id = Number.parseInt(req.params.id, 10);
+    const instanceId = getRequestInstance(req).instance.id;
+    const { rule, error } = validateAlertRule(req.body, instanceId);
+    if (!rule) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    if (!isInstanceRule(req, id) || !updateLogAlertRule(id, rule)) {
+      res.status(404).json({ success: false, error: 'Rule not found' });
+      return;
+    }
+    logAlertMonitor.reload(instanceId);
+
+    const updated = getLogAlertRule(id);
+    res.json({ success: true, rule: updated && toAlertRuleInfo(updated) });
+  } catch (error) {
+    console.error('Error updating alert rule:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Delete a rule - its alerts stay in the history
+router.delete('/rules/:id', auditAction('alert.rule-delete', req => ({
+  target: describeRule(req.params.id)
+})), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const id = Number.parseInt(req.params.id, 10);
+    if (!isInstanceRule(req, id) || !deleteLogAlertRule(id)) {
+      res.status(404).json({ success: false, error: 'Rule not found' });
+      return;
+    }
+    logAlertMonitor.reload(getRequestInstance(req).instance.id);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting alert rule:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// List webhooks - shared by every instance
+router.get('/webhooks', requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      webhooks: listAlertWebhooks().map(toWebhookInfo),
+      formats: WEBHOOK_FORMATS
+    });
+  } catch (error) {
+    console.error('Error listing webhooks:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Create a webhook
+router.post('/webhooks', auditAction('alert.webhook-create', req => ({
+  target: req.body?.name,
+  details: { format: req.body?.format }
+})), requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const { webhook, error } = validateWebhook(req.body);
+    if (!webhook) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    const id = createAlertWebhook(webhook, req.user?.username || 'unknown');
+    const created = getAlertWebhook(id);
+    res.status(201).json({ success: true, webhook: created && toWebhookInfo(created) });
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Replace a webhook
+router.put('/webhooks/:id', auditAction('alert.webhook-update', req => ({
+  target: describeWebhook(req.params.id),
+  details: { format: req.body?.format, enabled: req.body?.enabled }
+})), requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const id = Number.parseInt(req.params.id, 10);
+    const { webhook, error } = validateWebhook(req.body);
+    if (!webhook) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    if (!updateAlertWebhook(id, webhook)) {
+      res.status(404).json({ success: false, error: 'Webhook not found' });
+      return;
+    }
+
+    const updated = getAlertWebhook(id);
+    res.json({ success: true, webhook: updated && toWebhookInfo(updated) });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Delete a webhook - rules that sent to it carry on without it
+router.delete('/webhooks/:id', auditAction('alert.webhook-delete', req => ({
+  target: describeWebhook(req.params.id)
+})), requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    if (!deleteAlertWebhook(Number.parseInt(req.params.id, 10))) {
+      res.status(404).json({ success: false, error: 'Webhook not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Send a made-up alert to a webhook, to check it arrives
+router.post('/webhooks/:id/test', requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const webhook = getAlertWebhook(Number.parseInt(req.params.id, 10));
+    if (!webhook) {
+      res.status(404).json({ success: false, error: 'Webhook not found' });
+      return;
+    }
+
+    const { instance } = getRequestInstance(req);
+    const result = await sendWebhook(webhook, {
+      id: 0,
+      instanceId: instance.id,
+      instanceName: instance.name,
+      ruleId: 0,
+      ruleName: 'Test alert',
+      matchCount: 1,
+      windowSeconds: DEFAULT_WINDOW_SECONDS,
+      level: 'info',
+      source: null,
+      message: `Test alert sent by ${req.user?.username || 'unknown'}`,
+      firedAt: new Date().toISOString().replace('T', ' ').slice(0, 19),
+      acknowledgedAt: null,
+      acknowledgedBy: null
+    });
+
+    if (!result.success) {
+      res.status(502).json({ success: false, error: result.message });
+      return;
+    }
+    res.json({ success: true, message: result.message });
+  } catch (error) {
+    console.error('Error testing webhook:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
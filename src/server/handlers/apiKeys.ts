@@ -0,0 +1,135 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { listApiKeys, getApiKey, revokeApiKey } from '../database';
+import {
+  API_KEY_SCOPES,
+  isApiKeyScope,
+  getApiKeyScopes,
+  getUngrantableScopes,
+  issueApiKey,
+  toApiKeyInfo
+} from '../auth/apiKeys';
+import { hasPermission, isRole } from '../auth/permissions';
+import { requirePermission } from '../middleware/permissions';
+import { auditAction } from '../middleware/audit';
+
+// Define interface for user in request
+interface RequestWithUser extends Request {
+  user?: {
+    id: number;
+    username: string;
+    role: string;
+  };
+}
+
+// Longest lifetime that can be picked for a key; null means it never expires
+const MAX_EXPIRY_DAYS = 365;
+
+const router = Router();
+
+/**
+ * Name the key behind an :id route parameter for the audit log
+ */
+function describeKey(id: string): string {
+  const key = getApiKey(Number.parseInt(id, 10));
+  return key ? `${key.name} (${key.prefix}..., ${key.username})` : `#${id}`;
+}
+
+// List the current user's API keys - owners with users.manage see every key
+router.get('/', requirePermission('apikeys.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const user = req.user;
+    const canSeeAll = !!user && hasPermission(user.role, 'users.manage');
+
+    res.json({
+      success: true,
+      keys: listApiKeys(canSeeAll ? undefined : user?.id).map(toApiKeyInfo),
+      // Only the scopes this user could grant are offered
+      scopes: getApiKeyScopes().filter(scope => !!user && hasPermission(user.role, scope.permission))
+    });
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Create an API key acting as the current user
+router.post('/', auditAction('apikey.create', req => ({
+  target: req.body?.name,
+  details: { scopes: req.body?.scopes, expiresInDays: req.body?.expiresInDays ?? null }
+})), requirePermission('apikeys.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const { name, scopes, expiresInDays = null } = req.body || {};
+    const user = req.user;
+
+    if (!user || !isRole(user.role)) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    if (typeof name !== 'string' || !name.trim() || name.trim().length > 64) {
+      res.status(400).json({ success: false, error: 'Name must be 1-64 characters' });
+      return;
+    }
+
+    if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isApiKeyScope)) {
+      res.status(400).json({ success: false, error: `Scopes must be a non-empty list of: ${API_KEY_SCOPES.join(', ')}` });
+      return;
+    }
+
+    if (expiresInDays !== null && (!Number.isInteger(expiresInDays) || expiresInDays < 1 || expiresInDays > MAX_EXPIRY_DAYS)) {
+      res.status(400).json({ success: false, error: `Expiry must be between 1 and ${MAX_EXPIRY_DAYS} days, or null for no expiry` });
+      return;
+    }
+
+    const ungrantable = getUngrantableScopes(user.role, scopes);
+    if (ungrantable.length > 0) {
+      res.status(403).json({ success: false, error: `Your role cannot grant: ${ungrantable.join(', ')}` });
+      return;
+    }
+
+    const issued = issueApiKey({ id: user.id, username: user.username, role: user.role }, name.trim(), scopes, expiresInDays);
+    const apiKey = getApiKey(issued.id);
+
+    console.log(`API key ${issued.id} (${name.trim()}) created by ${user.username}`);
+
+    res.status(201).json({
+      success: true,
+      key: issued.key,
+      apiKey: apiKey ? toApiKeyInfo(apiKey) : undefined
+    });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Revoke an API key - your own, or anyone's with users.manage
+router.post('/:id/revoke', auditAction('apikey.revoke', req => ({
+  target: describeKey(req.params.id)
+})), requirePermission('apikeys.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const keyId = Number.parseInt(req.params.id, 10);
+    const user = req.user;
+
+    if (!user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const ownerId = hasPermission(user.role, 'users.manage') ? undefined : user.id;
+    if (Number.isNaN(keyId) || !revokeApiKey(keyId, ownerId)) {
+      res.status(404).json({ success: false, error: 'API key not found or already revoked' });
+      return;
+    }
+
+    console.log(`API key ${keyId} revoked by ${user.username}`);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -0,0 +1,58 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { queryAuditLog } from '../database';
+import { AUDIT_ACTIONS } from '../audit';
+import { requirePermission } from '../middleware/permissions';
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+
+const router = Router();
+
+/**
+ * Read an optional string query parameter
+ */
+function queryString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// List audit log entries, newest first
+router.get('/', requirePermission('audit.view'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const page = Math.max(1, Number.parseInt(req.query.page as string, 10) || 1);
+    const pageSize = Math.min(MAX_PAGE_SIZE, Math.max(1, Number.parseInt(req.query.pageSize as string, 10) || DEFAULT_PAGE_SIZE));
+    const success = queryString(req.query.success);
+
+    const { entries, total } = queryAuditLog({
+      action: queryString(req.query.action),
+      username: queryString(req.query.username),
+      search: queryString(req.query.search),
+      success: success === undefined ? undefined : success === 'true',
+      from: queryString(req.query.from),
+      to: queryString(req.query.to),
+      limit: pageSize,
+      offset: (page - 1) * pageSize
+    });
+
+    res.json({
+      success: true,
+      entries: entries.map(entry => ({
+        ...entry,
+        success: Boolean(entry.success),
+        details: entry.details ? JSON.parse(entry.details) : null
+      })),
+      total,
+      page,
+      pageSize,
+      actions: AUDIT_ACTIONS
+    });
+  } catch (error) {
+    console.error('Error reading audit log:', error);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,337 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { updateLastLogin, listUserSessions, getUserById } from '../database';
+import { issueSession, revokeSession, revokeUserSessions } from '../auth/sessions';
+import {
+  beginTwoFactorEnrollment,
+  confirmTwoFactor,
+  removeTwoFactor,
+  verifySecondFactor,
+  isTwoFactorEnabled,
+  regenerateRecoveryCodes,
+  getTwoFactorStatus
+} from '../auth/totp';
+import { verifyPassword } from '../auth/passwords';
+import { attemptLogin, getRetryMessage, listLockouts, clearLockout } from '../auth/throttle';
+import { getPermissions } from '../auth/permissions';
+import { recordAudit } from '../audit';
+import { authenticateRequest } from '../middleware/auth';
+import { requirePermission } from '../middleware/permissions';
+import { auditAction } from '../middleware/audit';
+
+// Define interface for user in request
+interface RequestWithUser extends Request {
+  user?: {
+    id: number;
+    username: string;
+    role: string;
+    sessionId?: number;
+  };
+}
+
+const router = Router();
+
+// Exchange a username/password for a session token
+router.post('/login', async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { username, password, otp } = req.body || {};
+
+    if (typeof username !== 'string' || typeof password !== 'string' || !username || !password) {
+      res.status(400).json({ success: false, error: 'Username and password are required' });
+      return;
+    }
+
+    const { user, retryAfter, twoFactorRequired } = await attemptLogin(
+      username,
+      password,
+      req.ip,
+      'login',
+      typeof otp === 'string' && otp ? otp : undefined
+    );
+
+    if (retryAfter) {
+      res.set('Retry-After', String(retryAfter));
+      res.status(429).json({ success: false, error: getRetryMessage(retryAfter), retryAfter });
+      return;
+    }
+
+    if (twoFactorRequired) {
+      res.status(401).json({
+        success: false,
+        twoFactorRequired: true,
+        error: otp ? 'Invalid two-factor code' : 'Two-factor code required'
+      });
+      return;
+    }
+
+    if (!user) {
+      res.status(401).json({ success: false, error: 'Invalid credentials' });
+      return;
+    }
+
+    const session = issueSession(user, req.ip, req.get('user-agent'));
+    updateLastLogin(user.username);
+    recordAudit({ actor: user, ip: req.ip, action: 'auth.login', details: { channel: 'login' }, success: true });
+
+    console.log(`User ${user.username} logged in (session ${session.id})`);
+
+    res.json({
+      success: true,
+      token: session.token,
+      expiresAt: session.expiresAt,
+      user: {
+        username: user.username,
+        role: user.role,
+        permissions: getPermissions(user.role)
+      }
+    });
+  } catch (error) {
+    console.error('Error logging in:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// End the current session
+router.post('/logout', authenticateRequest, async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    if (req.user?.sessionId) {
+      revokeSession(req.user.sessionId);
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error logging out:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// End every session of the current user, including this one
+router.post('/logout-all', authenticateRequest, async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const revoked = revokeUserSessions(userId);
+    console.log(`User ${req.user?.username} logged out of ${revoked} sessions`);
+
+    res.json({ success: true, revoked });
+  } catch (error) {
+    console.error('Error logging out all sessions:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// List the current user's active sessions
+router.get('/sessions', authenticateRequest, async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    res.json({
+      success: true,
+      sessions: listUserSessions(userId).map(session => ({
+        ...session,
+        current: session.id === req.user?.sessionId
+      }))
+    });
+  } catch (error) {
+    console.error('Error listing sessions:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Revoke one of the current user's sessions
+router.post('/sessions/:id/revoke', authenticateRequest, async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const sessionId = Number.parseInt(req.params.id, 10);
+    const userId = req.user?.id;
+
+    if (!userId) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    if (Number.isNaN(sessionId) || !revokeSession(sessionId, userId)) {
+      res.status(404).json({ success: false, error: 'Session not found' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error revoking session:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Get the current user's two-factor status
+router.get('/2fa', authenticateRequest, async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    res.json({ success: true, ...getTwoFactorStatus(req.user.id) });
+  } catch (error) {
+    console.error('Error getting two-factor status:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Start two-factor enrollment - returns the secret and a QR code for the authenticator app
+router.post('/2fa/setup', authenticateRequest, async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    if (getTwoFactorStatus(req.user.id).enabled) {
+      res.status(409).json({ success: false, error: 'Two-factor authentication is already enabled' });
+      return;
+    }
+
+    const enrollment = await beginTwoFactorEnrollment(req.user);
+    res.json({ success: true, ...enrollment });
+  } catch (error) {
+    console.error('Error starting two-factor enrollment:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Confirm enrollment with a code from the authenticator app
+router.post('/2fa/enable', authenticateRequest, auditAction('auth.2fa-enable'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body || {};
+
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    if (typeof code !== 'string' || !code.trim()) {
+      res.status(400).json({ success: false, error: 'Verification code is required' });
+      return;
+    }
+
+    const recoveryCodes = confirmTwoFactor(req.user.id, code);
+    if (!recoveryCodes) {
+      res.status(400).json({ success: false, error: 'Invalid verification code' });
+      return;
+    }
+
+    // Sessions opened with only a password must not outlive the switch to two-factor
+    revokeUserSessions(req.user.id, req.user.sessionId);
+
+    res.json({ success: true, recoveryCodes });
+  } catch (error) {
+    console.error('Error enabling two-factor:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Turn two-factor off - needs the password and a current code
+router.post('/2fa/disable', authenticateRequest, auditAction('auth.2fa-disable'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const { password, code } = req.body || {};
+    const account = req.user ? getUserById(req.user.id) : undefined;
+
+    if (!account) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    if (!isTwoFactorEnabled(account)) {
+      res.status(400).json({ success: false, error: 'Two-factor authentication is not enabled' });
+      return;
+    }
+
+    if (typeof password !== 'string' || !account.password_hash || !await verifyPassword(password, account.password_hash)) {
+      res.status(403).json({ success: false, error: 'Incorrect password' });
+      return;
+    }
+
+    if (typeof code !== 'string' || !verifySecondFactor(account, code)) {
+      res.status(403).json({ success: false, error: 'Invalid two-factor code' });
+      return;
+    }
+
+    removeTwoFactor(account.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error disabling two-factor:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Replace the recovery codes - needs a current code
+router.post('/2fa/recovery-codes', authenticateRequest, auditAction('auth.recovery-codes'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const { code } = req.body || {};
+    const account = req.user ? getUserById(req.user.id) : undefined;
+
+    if (!account) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    if (!isTwoFactorEnabled(account)) {
+      res.status(400).json({ success: false, error: 'Two-factor authentication is not enabled' });
+      return;
+    }
+
+    if (typeof code !== 'string' || !verifySecondFactor(account, code)) {
+      res.status(403).json({ success: false, error: 'Invalid two-factor code' });
+      return;
+    }
+
+    res.json({ success: true, recoveryCodes: regenerateRecoveryCodes(account.id) });
+  } catch (error) {
+    console.error('Error regenerating recovery codes:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// List IPs and usernames with recent failed logins
+router.get('/lockouts', authenticateRequest, requirePermission('users.manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    res.json({ success: true, lockouts: listLockouts() });
+  } catch (error) {
+    console.error('Error listing lockouts:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Clear the failed logins of an IP or username, lifting any lockout
+router.delete('/lockouts/:scope/:key', authenticateRequest, auditAction('auth.lockout-clear', req => ({
+  target: `${req.params.scope}:${req.params.key}`
+})), requirePermission('users.manage'), async (req: Request, res: Response): Promise<void> => {
+  try {
+    const { scope, key } = req.params;
+
+    if (scope !== 'ip' && scope !== 'username') {
+      res.status(400).json({ success: false, error: 'Scope must be ip or username' });
+      return;
+    }
+
+    if (!clearLockout(scope, key)) {
+      res.status(404).json({ success: false, error: 'No failed logins recorded for this entry' });
+      return;
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error clearing lockout:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -1,6 +1,9 @@
 import { Router, type Request, type Response } from 'express';
 import { exec } from 'node:child_process';
 import { promisify } from 'node:util';
+import { requirePermission } from '../middleware/permissions';
+import { auditAction } from '../middleware/audit';
+import { isShellEnabled } from '../tasks';
 
 // Define interface for user in request
 interface RequestWithUser extends Request {
@@ -31,11 +34,16 @@ export async function executeCommand(command: string, userId?: string): Promise<
   }
 }
 
-// Route to execute commands
-router.post('/execute', async (req: RequestWithUser, res: Response): Promise<void> => {
+// Route to execute commands - prefer the named operations under /api/tasks
+router.post('/execute', auditAction('shell.execute', req => ({ details: { command: req.body?.command } })), requirePermission('system.execute'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     const { command } = req.body;
     
+    if (!isShellEnabled()) {
+      res.status(403).json({ success: false, error: 'Shell commands are disabled on this server (ENABLE_SHELL_COMMANDS)' });
+      return;
+    }
+    
     if (!command) {
       res.status(400).json({ error: 'Command is required' });
       return;
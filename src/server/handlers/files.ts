@@ -6,7 +6,10 @@ import toml from 'toml';
 import multer from 'multer';
 import * as childProcess from 'node:child_process';
 import { promisify } from 'node:util';
-import { existsSync, mkdirSync } from 'node:fs';
+import { mkdirSync } from 'node:fs';
+import { requirePermission } from '../middleware/permissions';
+import { auditAction } from '../middleware/audit';
+import { getRequestInstance } from '../middleware/instance';
 
 // Define interface for user in request
 interface RequestWithUser extends Request {
@@ -47,29 +50,33 @@ declare global {
   }
 }
 
-// Paths for Nanos server packages and assets
-const NANOS_SERVER_PATH = '/opt/nanos-world-server';
-const NANOS_PACKAGES_PATH = path.join(NANOS_SERVER_PATH, 'Packages');
-const NANOS_ASSETS_PATH = path.join(NANOS_SERVER_PATH, 'Assets');
+// Packages and assets folders of the request's server instance
+function getContentPaths(req: Request): { packages: string; assets: string } {
+  const installDir = getRequestInstance(req).instance.install_dir;
+  return {
+    packages: path.join(installDir, 'Packages'),
+    assets: path.join(installDir, 'Assets')
+  };
+}
 
-// Create directories if they don't exist
-try {
-  if (!existsSync(NANOS_PACKAGES_PATH)) {
-    mkdirSync(NANOS_PACKAGES_PATH, { recursive: true });
-  }
-  if (!existsSync(NANOS_ASSETS_PATH)) {
-    mkdirSync(NANOS_ASSETS_PATH, { recursive: true });
-  }
-} catch (error) {
-  console.error('Failed to create directories:', error);
+// Uploads, deletes, moves and extractions are only allowed inside these folders
+function isContentPath(req: Request, filePath: string): boolean {
+  const { packages, assets } = getContentPaths(req);
+  return filePath.startsWith(packages) || filePath.startsWith(assets);
 }
 
 // Upload storage configuration
 const storage = multer.diskStorage({
   destination: (req: Request, file: Express.Multer.File, cb: (error: Error | null, destination: string) => void) => {
     const type = (req.query.type || 'packages') as string;
-    const uploadPath = type.toLowerCase() === 'assets' ? NANOS_ASSETS_PATH : NANOS_PACKAGES_PATH;
-    cb(null, uploadPath);
+    const { packages, assets } = getContentPaths(req);
+    const uploadPath = type.toLowerCase() === 'assets' ? assets : packages;
+    try {
+      mkdirSync(uploadPath, { recursive: true });
+      cb(null, uploadPath);
+    } catch (error) {
+      cb(error as Error, uploadPath);
+    }
   },
   filename: (req: Request, file: Express.Multer.File, cb: (error: Error | null, filename: string) => void) => {
     cb(null, file.originalname);
@@ -233,7 +240,7 @@ export async function saveTomlFile(filePath: string, content: Record<string, unk
 }
 
 // Route to read file
-router.get('/read', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.get('/read', requirePermission('files.read'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     const { path } = req.query;
     
@@ -258,7 +265,10 @@ router.get('/read', async (req: RequestWithUser, res: Response): Promise<void> =
 });
 
 // Route to write file
-router.post('/write', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.post('/write', auditAction('file.write', req => ({
+  target: req.body?.path,
+  details: { bytes: typeof req.body?.content === 'string' ? Buffer.byteLength(req.body.content) : undefined }
+})), requirePermission('files.write'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     const { path, content } = req.body;
     
@@ -288,7 +298,7 @@ router.post('/write', async (req: RequestWithUser, res: Response): Promise<void>
 });
 
 // Route to list directory contents
-router.get('/list', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.get('/list', requirePermission('files.read'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     const { path } = req.query;
     
@@ -313,7 +323,7 @@ router.get('/list', async (req: RequestWithUser, res: Response): Promise<void> =
 });
 
 // Route to read TOML file
-router.get('/toml', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.get('/toml', requirePermission('files.read'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     const { path: filePath } = req.query;
     
@@ -341,7 +351,7 @@ router.get('/toml', async (req: RequestWithUser, res: Response): Promise<void> =
 });
 
 // Route to save TOML file
-router.post('/toml', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.post('/toml', auditAction('config.save', req => ({ target: req.body?.path })), requirePermission('config.write'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     const { path: filePath, content } = req.body;
     
@@ -374,7 +384,10 @@ router.post('/toml', async (req: RequestWithUser, res: Response): Promise<void>
 });
 
 // Route to upload a file to Packages or Assets directory
-router.post('/upload', upload.single('file'), async (req: RequestWithUser & { file?: Express.Multer.File }, res: Response): Promise<void> => {
+router.post('/upload', auditAction('file.upload', req => ({
+  target: req.file?.path,
+  details: { type: req.query.type || 'packages', size: req.file?.size }
+})), requirePermission('files.write'), upload.single('file'), async (req: RequestWithUser & { file?: Express.Multer.File }, res: Response): Promise<void> => {
   try {
     if (!req.file) {
       res.status(400).json({ success: false, error: 'No file uploaded' });
@@ -398,7 +411,7 @@ router.post('/upload', upload.single('file'), async (req: RequestWithUser & { fi
 });
 
 // Route to delete a file or directory
-router.delete('/delete', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.delete('/delete', auditAction('file.delete', req => ({ target: req.query.path as string })), requirePermission('files.write'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     const { path: filePath } = req.query;
     
@@ -408,7 +421,7 @@ router.delete('/delete', async (req: RequestWithUser, res: Response): Promise<vo
     }
 
     // Security check to ensure we're only operating within allowed directories
-    if (!filePath.startsWith(NANOS_PACKAGES_PATH) && !filePath.startsWith(NANOS_ASSETS_PATH)) {
+    if (!isContentPath(req, filePath)) {
       res.status(403).json({ success: false, error: 'Operation not allowed on this path' });
       return;
     }
@@ -437,7 +450,7 @@ router.delete('/delete', async (req: RequestWithUser, res: Response): Promise<vo
 });
 
 // Route to extract zip/tar files
-router.post('/extract', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.post('/extract', auditAction('file.extract', req => ({ target: req.body?.path })), requirePermission('files.write'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     const { path: filePath } = req.body;
     
@@ -447,7 +460,7 @@ router.post('/extract', async (req: RequestWithUser, res: Response): Promise<voi
     }
 
     // Security check to ensure we're only operating within allowed directories
-    if (!filePath.startsWith(NANOS_PACKAGES_PATH) && !filePath.startsWith(NANOS_ASSETS_PATH)) {
+    if (!isContentPath(req, filePath)) {
       res.status(403).json({ success: false, error: 'Operation not allowed on this path' });
       return;
     }
@@ -490,7 +503,10 @@ router.post('/extract', async (req: RequestWithUser, res: Response): Promise<voi
 });
 
 // Route to move a file or directory
-router.post('/move', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.post('/move', auditAction('file.move', req => ({
+  target: req.body?.sourcePath,
+  details: { destinationPath: req.body?.destinationPath }
+})), requirePermission('files.write'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     const { sourcePath, destinationPath } = req.body;
     
@@ -505,12 +521,12 @@ router.post('/move', async (req: RequestWithUser, res: Response): Promise<void>
     }
 
     // Security check to ensure we're only operating within allowed directories
-    if (!sourcePath.startsWith(NANOS_PACKAGES_PATH) && !sourcePath.startsWith(NANOS_ASSETS_PATH)) {
+    if (!isContentPath(req, sourcePath)) {
       res.status(403).json({ success: false, error: 'Operation not allowed on source path' });
       return;
     }
     
-    if (!destinationPath.startsWith(NANOS_PACKAGES_PATH) && !destinationPath.startsWith(NANOS_ASSETS_PATH)) {
+    if (!isContentPath(req, destinationPath)) {
       res.status(403).json({ success: false, error: 'Operation not allowed on destination path' });
       return;
     }
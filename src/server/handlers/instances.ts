@@ -0,0 +1,163 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { getServerInstance, listServerSchedules } from '../database';
+import { instanceManager, validateInstance, toInstanceInfo, type InstanceRuntime } from '../instances';
+import { cloneInstance, type CloneProgress } from '../instances/clone';
+import { serverScheduler } from '../scheduler';
+import { requirePermission } from '../middleware/permissions';
+import { auditAction } from '../middleware/audit';
+
+// Define interface for user in request
+interface RequestWithUser extends Request {
+  user?: {
+    id: number;
+    username: string;
+    role: string;
+  };
+}
+
+const router = Router();
+
+/**
+ * Name the instance behind an :id route parameter for the audit log
+ */
+function describeInstance(id: string): string {
+  const instance = getServerInstance(Number.parseInt(id, 10));
+  return instance ? instance.name : `#${id}`;
+}
+
+function toInstanceResponse(runtime: InstanceRuntime) {
+  return {
+    ...toInstanceInfo(runtime.instance),
+    state: runtime.lifecycle.getState()
+  };
+}
+
+// List instances with the state of their servers
+router.get('/', requirePermission('server.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      instances: instanceManager.list().map(toInstanceResponse)
+    });
+  } catch (error) {
+    console.error('Error listing instances:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Register an instance - the server itself is installed from the dashboard afterwards
+router.post('/', auditAction('instance.create', req => ({
+  target: req.body?.name,
+  details: { installDir: req.body?.installDir, gamePort: req.body?.gamePort, queryPort: req.body?.queryPort }
+})), requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const { instance, error } = validateInstance(req.body);
+    if (!instance) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    const runtime = instanceManager.create(instance);
+    console.log(`Instance ${instance.name} created by ${req.user?.username || 'unknown'}`);
+
+    res.status(201).json({
+      success: true,
+      instance: runtime && toInstanceResponse(runtime)
+    });
+  } catch (error) {
+    console.error('Error creating instance:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Copy an instance's install into a new directory and register it on free ports
+router.post('/:id/clone', auditAction('instance.clone', req => ({
+  target: describeInstance(req.params.id),
+  details: { name: req.body?.name, installDir: req.body?.installDir }
+})), requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const id = Number.parseInt(req.params.id, 10);
+    if (!instanceManager.get(id)) {
+      res.status(404).json({ success: false, error: 'Instance not found' });
+      return;
+    }
+
+    // The socket streams these as they happen, over HTTP they come with the response
+    const steps: CloneProgress[] = [];
+    const { runtime, error } = await cloneInstance(id, req.body, { onProgress: progress => steps.push(progress) });
+    if (!runtime) {
+      res.status(400).json({ success: false, error, steps });
+      return;
+    }
+
+    console.log(`Instance ${runtime.instance.name} cloned by ${req.user?.username || 'unknown'}`);
+    res.status(201).json({ success: true, instance: toInstanceResponse(runtime), steps });
+  } catch (error) {
+    console.error('Error cloning instance:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Change an instance's name, directory or ports
+router.put('/:id', auditAction('instance.update', req => ({
+  target: describeInstance(req.params.id),
+  details: { name: req.body?.name, installDir: req.body?.installDir, gamePort: req.body?.gamePort, queryPort: req.body?.queryPort }
+})), requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const id = Number.parseInt(req.params.id, 10);
+    if (!instanceManager.get(id)) {
+      res.status(404).json({ success: false, error: 'Instance not found' });
+      return;
+    }
+
+    const { instance, error } = validateInstance(req.body, id);
+    if (!instance) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    const { runtime, error: updateError } = instanceManager.update(id, instance);
+    if (!runtime) {
+      res.status(409).json({ success: false, error: updateError });
+      return;
+    }
+
+    res.json({ success: true, instance: toInstanceResponse(runtime) });
+  } catch (error) {
+    console.error('Error updating instance:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Delete an instance with its schedules and crash history - files on disk are kept
+router.delete('/:id', auditAction('instance.delete', req => ({
+  target: describeInstance(req.params.id)
+})), requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const id = Number.parseInt(req.params.id, 10);
+    if (!instanceManager.get(id)) {
+      res.status(404).json({ success: false, error: 'Instance not found' });
+      return;
+    }
+
+    const scheduleIds = listServerSchedules(id).map(schedule => schedule.id);
+    const { error } = instanceManager.remove(id);
+    if (error) {
+      res.status(409).json({ success: false, error });
+      return;
+    }
+
+    // Drop the timers of the schedules that went with it
+    for (const scheduleId of scheduleIds) {
+      serverScheduler.reload(scheduleId);
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting instance:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -0,0 +1,123 @@
+import { Router, type Request, type Response } from 'express';
+import { requirePermission } from '../middleware/permissions';
+import { auditAction } from '../middleware/audit';
+import { getRequestInstance } from '../middleware/instance';
+import { compileLogQuery } from '../logs';
+import { getLogRetention, saveLogRetention } from '../logs/retention';
+
+// Define interface for user in request
+interface RequestWithUser extends Request {
+  user?: {
+    username: string;
+  };
+}
+
+// Matches returned by a search unless the request asks for fewer or more
+const DEFAULT_SEARCH_LIMIT = 500;
+
+const router = Router();
+
+/**
+ * The run behind a :runId route parameter, if it belongs to the request's instance
+ */
+function getRequestRun(req: Request) {
+  return getRequestInstance(req).logArchive.getRun(Number.parseInt(req.params.runId, 10));
+}
+
+// List the instance's archived runs, newest first, with the retention they are kept by
+router.get('/', requirePermission('logs.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      runs: getRequestInstance(req).logArchive.listRuns(),
+      retention: getLogRetention(getRequestInstance(req).instance.id)
+    });
+  } catch (error) {
+    console.error('Error in log archive endpoint:', error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${(error as Error).message}`
+    });
+  }
+});
+
+// Change how the instance's logs are split up and how long its runs are kept
+router.put('/retention', auditAction('server.log-retention', req => ({ target: getRequestInstance(req).instance.name, details: req.body })), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    console.log(`API request to update log retention from user: ${req.user?.username || 'unknown'}`);
+    const runtime = getRequestInstance(req);
+    const { retention, error } = saveLogRetention(runtime.instance.id, req.body);
+    if (error) {
+      res.status(400).json({ success: false, message: error });
+      return;
+    }
+
+    // Runs the new retention no longer keeps go right away rather than at the next rotation
+    await runtime.logArchive.applyRetention();
+    res.json({ success: true, retention });
+  } catch (error) {
+    console.error('Error in log retention endpoint:', error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${(error as Error).message}`
+    });
+  }
+});
+
+// Search one run - level, source and search work as for /api/server/logs, matches come oldest first
+router.get('/:runId/search', requirePermission('logs.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const run = getRequestRun(req);
+    if (!run) {
+      res.status(404).json({ success: false, message: 'Log run not found' });
+      return;
+    }
+
+    const { match, error } = compileLogQuery(req.query);
+    if (!match) {
+      res.status(400).json({ success: false, message: error });
+      return;
+    }
+
+    const limit = Number.parseInt(req.query.limit as string || String(DEFAULT_SEARCH_LIMIT), 10) || DEFAULT_SEARCH_LIMIT;
+    const { matches, total, sources } = await getRequestInstance(req).logArchive.search(run, match, limit);
+
+    res.json({ success: true, run, records: matches, total, sources });
+  } catch (error) {
+    console.error('Error in log search endpoint:', error);
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${(error as Error).message}`
+    });
+  }
+});
+
+// Download one run's whole log as plain text
+router.get('/:runId/download', requirePermission('logs.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const run = getRequestRun(req);
+    if (!run) {
+      res.status(404).json({ success: false, message: 'Log run not found' });
+      return;
+    }
+
+    const { instance, logArchive } = getRequestInstance(req);
+    res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${instance.slug}-run-${run.id}.log"`);
+    await logArchive.writeRun(run, res);
+    res.end();
+  } catch (error) {
+    console.error('Error in log download endpoint:', error);
+    // Once the log has started streaming the status can no longer change
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    res.status(500).json({
+      success: false,
+      message: `Internal server error: ${(error as Error).message}`
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,145 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import {
+  listServerSchedules,
+  getServerSchedule,
+  createServerSchedule,
+  updateServerSchedule,
+  deleteServerSchedule,
+  listScheduleRuns
+} from '../database';
+import {
+  serverScheduler,
+  validateSchedule,
+  SCHEDULE_ACTIONS,
+  DEFAULT_WARNINGS,
+  DEFAULT_WARNING_COMMAND
+} from '../scheduler';
+import { requirePermission } from '../middleware/permissions';
+import { auditAction } from '../middleware/audit';
+import { getRequestInstance } from '../middleware/instance';
+
+// Define interface for user in request
+interface RequestWithUser extends Request {
+  user?: {
+    id: number;
+    username: string;
+    role: string;
+  };
+}
+
+// Runs returned with the schedule list
+const RUN_HISTORY_LIMIT = 50;
+
+const router = Router();
+
+/**
+ * Name the schedule behind an :id route parameter for the audit log
+ */
+function describeSchedule(id: string): string {
+  const schedule = getServerSchedule(Number.parseInt(id, 10));
+  return schedule ? schedule.name : `#${id}`;
+}
+
+/**
+ * Check the schedule behind an :id route parameter belongs to the request's instance
+ */
+function isInstanceSchedule(req: RequestWithUser, id: number): boolean {
+  return getServerSchedule(id)?.instance_id === getRequestInstance(req).instance.id;
+}
+
+// List schedules and their recent runs
+router.get('/', requirePermission('server.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      schedules: listServerSchedules(getRequestInstance(req).instance.id).map(schedule => serverScheduler.toScheduleInfo(schedule)),
+      runs: listScheduleRuns(getRequestInstance(req).instance.id, RUN_HISTORY_LIMIT),
+      actions: SCHEDULE_ACTIONS,
+      defaults: { warnings: DEFAULT_WARNINGS, warningCommand: DEFAULT_WARNING_COMMAND },
+      // Cron expressions are evaluated in the dashboard host's time zone
+      timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone
+    });
+  } catch (error) {
+    console.error('Error listing schedules:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Create a schedule
+router.post('/', auditAction('schedule.create', req => ({
+  target: req.body?.name,
+  details: { instanceId: getRequestInstance(req).instance.id, action: req.body?.action, cron: req.body?.cron }
+})), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const { schedule, error } = validateSchedule(req.body, getRequestInstance(req).instance.id);
+    if (!schedule) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    const id = createServerSchedule(schedule, req.user?.username || 'unknown');
+    serverScheduler.reload(id);
+    console.log(`Schedule ${schedule.name} created by ${req.user?.username || 'unknown'}`);
+
+    const created = getServerSchedule(id);
+    res.status(201).json({
+      success: true,
+      schedule: created && serverScheduler.toScheduleInfo(created)
+    });
+  } catch (error) {
+    console.error('Error creating schedule:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Replace a schedule
+router.put('/:id', auditAction('schedule.update', req => ({
+  target: describeSchedule(req.params.id),
+  details: { action: req.body?.action, cron: req.body?.cron, enabled: req.body?.enabled }
+})), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const id = Number.parseInt(req.params.id, 10);
+    const { schedule, error } = validateSchedule(req.body, getRequestInstance(req).instance.id);
+    if (!schedule) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    if (!isInstanceSchedule(req, id) || !updateServerSchedule(id, schedule)) {
+      res.status(404).json({ success: false, error: 'Schedule not found' });
+      return;
+    }
+    serverScheduler.reload(id);
+
+    const updated = getServerSchedule(id);
+    res.json({
+      success: true,
+      schedule: updated && serverScheduler.toScheduleInfo(updated)
+    });
+  } catch (error) {
+    console.error('Error updating schedule:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Delete a schedule - its runs stay in the history
+router.delete('/:id', auditAction('schedule.delete', req => ({
+  target: describeSchedule(req.params.id)
+})), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const id = Number.parseInt(req.params.id, 10);
+    if (!isInstanceSchedule(req, id) || !deleteServerSchedule(id)) {
+      res.status(404).json({ success: false, error: 'Schedule not found' });
+      return;
+    }
+    serverScheduler.reload(id);
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting schedule:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
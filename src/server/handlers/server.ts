@@ -1,8 +1,17 @@
 import { Router, type Request, type Response } from 'express';
-import { exec, spawn } from 'node:child_process';
-import { promisify } from 'node:util';
 import * as fs from 'node:fs/promises';
-import * as path from 'node:path';
+import { requirePermission } from '../middleware/permissions';
+import { auditAction } from '../middleware/audit';
+import { getRequestInstance } from '../middleware/instance';
+import type { StopProgress } from '../supervisor';
+import { getStopSequence, saveStopSequence } from '../supervisor/stopSequence';
+import { saveRestartPolicy } from '../supervisor/watchdog';
+import { getInstanceLogPath } from '../instances';
+import { readInstalledBuild } from '../instances/steam';
+import { isUpdatingServer } from '../instances/serverUpdate';
+import { listServerCrashes } from '../database';
+import { compileLogQuery, readLogRecords, parseLogLine } from '../logs';
+import { metricsSampler, isMetricRange, METRIC_RANGES } from '../metrics';
 
 // Define interface for user in request
 interface RequestWithUser extends Request {
@@ -11,309 +20,19 @@ interface RequestWithUser extends Request {
   };
 }
 
-// Hardcoded paths as requested
-const NANOS_SERVER_PATH = '/opt/nanos-world-server/NanosWorldServer.sh';
-const NANOS_CONFIG_PATH = '/opt/nanos-world-server/Config.toml';
-const NANOS_LOG_PATH = '/tmp/nanos-server.log';
+// Server actions are recorded against the instance they were for
+const describeInstance = (req: Request) => ({ target: getRequestInstance(req).instance.name });
 
-// Process management - store the server process if it's running
-let serverProcess: ReturnType<typeof exec> | null = null;
-let serverRunning = false;
+// Crash records returned by the crash history endpoint
+const CRASH_HISTORY_LIMIT = 50;
 
-const execPromise = promisify(exec);
 const router = Router();
 
-/**
- * Check if the Nanos World server is running
- */
-async function checkServerStatus(): Promise<{running: boolean, pid?: number, uptime?: number}> {
-  try {
-    // First check if we have a screen session for the server
-    try {
-      const { stdout: screenList } = await execPromise('screen -ls');
-      if (screenList.includes('nanos-server')) {
-        console.log('Found nanos-server screen session');
-        
-        // Get PID of the screen session
-        const pidMatch = screenList.match(/(\d+)\.nanos-server/);
-        const pid = pidMatch ? Number.parseInt(pidMatch[1], 10) : undefined;
-        
-        // Try to get process uptime if we have a valid PID
-        let uptime = undefined;
-        if (pid && !Number.isNaN(pid)) {
-          try {
-            const { stdout: procStats } = await execPromise(`ps -o etimes= -p ${pid}`);
-            uptime = Number.parseInt(procStats.trim(), 10);
-          } catch (e) {
-            console.log('Error getting process uptime:', e);
-          }
-        }
-        
-        // If we have a screen session, consider the server running
-        serverRunning = true;
-        return { running: true, pid, uptime };
-      }
-    } catch (screenError) {
-      console.log('Error checking screen sessions:', screenError);
-      // Continue to try the ps method if screen check fails
-    }
-    
-    // Fallback: Use ps command to find the NanosWorldServer process
-    try {
-      // Use a more flexible search pattern - look for both NanosWorldServer and the script name
-      const { stdout } = await execPromise("ps aux | grep -E '(NanosWorldServer|nanos-world-server)' | grep -v grep");
-      
-      if (stdout.trim()) {
-        // Extract PID from ps output (second column)
-        const pid = Number.parseInt(stdout.trim().split(/\s+/)[1], 10);
-        
-        // Try to get process uptime if we have a valid PID
-        let uptime = undefined;
-        if (pid && !Number.isNaN(pid)) {
-          try {
-            const { stdout: procStats } = await execPromise(`ps -o etimes= -p ${pid}`);
-            uptime = Number.parseInt(procStats.trim(), 10);
-          } catch (e) {
-            console.log('Error getting process uptime:', e);
-          }
-        }
-        
-        serverRunning = true;
-        return { running: true, pid, uptime };
-      }
-    } catch (psError) {
-      console.log('Error using ps to find server process:', psError);
-    }
-    
-    // If we got here, we couldn't find the server process
-    serverRunning = false;
-    return { running: false };
-  } catch (error) {
-    console.error('Error checking server status:', error);
-    serverRunning = false;
-    return { running: false };
-  }
-}
-
-/**
- * Start the Nanos World server
- */
-async function startServer(): Promise<{success: boolean, message: string}> {
-  try {
-    // First check if server is already running
-    const status = await checkServerStatus();
-    if (status.running) {
-      return { 
-        success: false, 
-        message: `Server already running with PID ${status.pid}` 
-      };
-    }
-
-    // Check if server script exists
-    try {
-      await fs.access(NANOS_SERVER_PATH);
-    } catch (err) {
-      return { 
-        success: false, 
-        message: `Server script not found at ${NANOS_SERVER_PATH}` 
-      };
-    }
-
-    // Start the server in the background using screen to allow interactive commands
-    // First check if screen is installed
-    try {
-      await execPromise('which screen');
-    } catch {
-      // If screen is not installed, try to install it
-      console.log('Screen is not installed, attempting to install it...');
-      try {
-        // Try to detect the package manager and install screen
-        const { stdout: osRelease } = await execPromise('cat /etc/os-release');
-        
-        if (osRelease.includes('ID=debian') || osRelease.includes('ID=ubuntu')) {
-          console.log('Debian/Ubuntu detected, using apt to install screen');
-          await execPromise('sudo apt-get update && sudo apt-get install -y screen');
-        } else if (osRelease.includes('ID=fedora') || osRelease.includes('ID=centos') || osRelease.includes('ID=rhel')) {
-          console.log('Fedora/CentOS/RHEL detected, using dnf/yum to install screen');
-          await execPromise('sudo dnf install -y screen || sudo yum install -y screen');
-        } else if (osRelease.includes('ID=arch')) {
-          console.log('Arch Linux detected, using pacman to install screen');
-          await execPromise('sudo pacman -Sy --noconfirm screen');
-        } else {
-          // Unknown distro, try common package managers
-          console.log('Unknown Linux distribution, trying common package managers');
-          try {
-            await execPromise('sudo apt-get update && sudo apt-get install -y screen || sudo dnf install -y screen || sudo yum install -y screen || sudo pacman -Sy --noconfirm screen');
-          } catch (e) {
-            throw new Error('Could not install screen: Unknown package manager');
-          }
-        }
-        
-        // Verify screen was installed
-        await execPromise('which screen');
-        console.log('Screen installed successfully');
-      } catch (installError) {
-        // If we couldn't install screen, fall back to the original method
-        console.log('Failed to install screen:', installError);
-        console.log('Falling back to basic execution');
-        serverProcess = exec(`${NANOS_SERVER_PATH} > ${NANOS_LOG_PATH} 2>&1 &`);
-        serverRunning = true;
-        
-        return { 
-          success: true, 
-          message: 'Server starting (basic mode)...' 
-        };
-      }
-    }
-    
-    // Start the server in a detached screen session
-    // First, make sure we don't have an existing session
-    try {
-      await execPromise('screen -wipe'); // Clean up any dead sessions
-      await execPromise('screen -S nanos-server -X quit'); // Try to quit any existing session
-    } catch {
-      // It's okay if this fails (no existing session)
-    }
-    
-    // Start a new screen session with the server
-    serverProcess = exec(`screen -dmS nanos-server ${NANOS_SERVER_PATH} 2>&1`);
-    
-    // Set up logging by redirecting screen output to the log file
-    exec(`screen -S nanos-server -X logfile ${NANOS_LOG_PATH}`);
-    exec('screen -S nanos-server -X log on');
-    
-    serverRunning = true;
-    
-    return { 
-      success: true, 
-      message: 'Server starting in interactive mode...' 
-    };
-  } catch (error) {
-    console.error('Error starting server:', error);
-    return { 
-      success: false, 
-      message: `Failed to start server: ${(error as Error).message}` 
-    };
-  }
-}
-
-/**
- * Stop the Nanos World server
- */
-async function stopServer(): Promise<{success: boolean, message: string}> {
-  try {
-    // Check if server is running
-    const status = await checkServerStatus();
-    if (!status.running) {
-      return { 
-        success: false, 
-        message: 'Server is not running' 
-      };
-    }
-
-    // If we have a PID, kill the process
-    if (status.pid) {
-      // Try graceful termination first (SIGTERM)
-      await execPromise(`kill -15 ${status.pid}`);
-      
-      // Wait 5 seconds and check if it's still running
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      const checkStatus = await checkServerStatus();
-      
-      // If still running, force kill (SIGKILL)
-      if (checkStatus.running && checkStatus.pid) {
-        await execPromise(`kill -9 ${checkStatus.pid}`);
-      }
-      
-      serverProcess = null;
-      serverRunning = false;
-      
-      return { 
-        success: true, 
-        message: 'Server stopped' 
-      };
-    }
-    
-    return { 
-      success: false, 
-      message: 'Could not determine server PID' 
-    };
-  } catch (error) {
-    console.error('Error stopping server:', error);
-    return { 
-      success: false, 
-      message: `Failed to stop server: ${(error as Error).message}` 
-    };
-  }
-}
-
-/**
- * Send a command to the Nanos World server via its stdin
- */
-async function sendCommandToServer(command: string): Promise<{success: boolean, message: string}> {
-  try {
-    // Check if server is running
-    const status = await checkServerStatus();
-    if (!status.running) {
-      return { 
-        success: false, 
-        message: 'Server is not running' 
-      };
-    }
-
-    if (!status.pid) {
-      return { 
-        success: false, 
-        message: 'Could not determine server PID' 
-      };
-    }
-
-    // Try to use screen to send the command if available
-    try {
-      await execPromise('which screen');
-      
-      // Check if our screen session exists
-      const { stdout } = await execPromise('screen -ls');
-      if (stdout.includes('nanos-server')) {
-        // Send command to the screen session
-        await execPromise(`screen -S nanos-server -X stuff "${command.replace(/"/g, '\\"')}\\n"`);
-        return { 
-          success: true, 
-          message: 'Command sent to server via screen' 
-        };
-      }
-    } catch (screenError) {
-      console.log('Screen not available or session not found, falling back to direct input');
-    }
-
-    // Fall back to direct process input if screen is not available
-    try {
-      await execPromise(`echo "${command}" > /proc/${status.pid}/fd/0`);
-      return { 
-        success: true, 
-        message: 'Command sent to server' 
-      };
-    } catch (commandError) {
-      console.error('Error sending command to server:', commandError);
-      return { 
-        success: false, 
-        message: `Failed to send command: ${(commandError as Error).message}` 
-      };
-    }
-  } catch (error) {
-    console.error('Error in sendCommandToServer:', error);
-    return { 
-      success: false, 
-      message: `Internal error: ${(error as Error).message}` 
-    };
-  }
-}
-
 // Endpoint to start the server
-router.post('/start', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.post('/start', auditAction('server.start', describeInstance), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     console.log(`API request to start server from user: ${req.user?.username || 'unknown'}`);
-    const result = await startServer();
+    const result = await getRequestInstance(req).lifecycle.start();
     res.json(result);
   } catch (error) {
     console.error('Error in start server endpoint:', error);
@@ -325,11 +44,13 @@ router.post('/start', async (req: RequestWithUser, res: Response): Promise<void>
 });
 
 // Endpoint to stop the server
-router.post('/stop', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.post('/stop', auditAction('server.stop', describeInstance), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     console.log(`API request to stop server from user: ${req.user?.username || 'unknown'}`);
-    const result = await stopServer();
-    res.json(result);
+    // Plain HTTP cannot stream, so the progress comes back with the result
+    const steps: StopProgress[] = [];
+    const result = await getRequestInstance(req).lifecycle.stop({ onProgress: progress => steps.push(progress) });
+    res.json({ ...result, steps });
   } catch (error) {
     console.error('Error in stop server endpoint:', error);
     res.status(500).json({ 
@@ -339,15 +60,29 @@ router.post('/stop', async (req: RequestWithUser, res: Response): Promise<void>
   }
 });
 
+// Endpoint to restart the server
+router.post('/restart', auditAction('server.restart', describeInstance), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    console.log(`API request to restart server from user: ${req.user?.username || 'unknown'}`);
+    const steps: StopProgress[] = [];
+    const result = await getRequestInstance(req).lifecycle.restart({ onProgress: progress => steps.push(progress) });
+    res.json({ ...result, steps });
+  } catch (error) {
+    console.error('Error in restart server endpoint:', error);
+    res.status(500).json({ 
+      success: false, 
+      message: `Internal server error: ${(error as Error).message}` 
+    });
+  }
+});
+
 // Endpoint to get server status
-router.get('/status', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.get('/status', requirePermission('server.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     console.log(`API request to check server status from user: ${req.user?.username || 'unknown'}`);
-    const status = await checkServerStatus();
     res.json({
       success: true,
-      ...status,
-      configPath: NANOS_CONFIG_PATH
+      ...getRequestInstance(req).lifecycle.getState()
     });
   } catch (error) {
     console.error('Error in server status endpoint:', error);
@@ -358,52 +93,41 @@ router.get('/status', async (req: RequestWithUser, res: Response): Promise<void>
   }
 });
 
-// Endpoint to get server logs
-router.get('/logs', async (req: RequestWithUser, res: Response): Promise<void> => {
+// Endpoint to get server logs - level, source and search narrow them down to the last matching lines
+router.get('/logs', requirePermission('logs.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     console.log(`API request to get server logs from user: ${req.user?.username || 'unknown'}`);
     
     // Get the query parameters for tail options
     const lines = Number.parseInt(req.query.lines as string || '100', 10);
+    const logPath = getInstanceLogPath(getRequestInstance(req).instance);
+
+    const { match, error } = compileLogQuery(req.query);
+    if (!match) {
+      res.status(400).json({ success: false, message: error });
+      return;
+    }
     
     // First check if the log file exists
     let logFileExists = false;
     try {
-      await fs.access(NANOS_LOG_PATH);
+      await fs.access(logPath);
       logFileExists = true;
     } catch {
       // Log file doesn't exist yet
-      console.log(`Log file not found at ${NANOS_LOG_PATH}`);
-    }
-    
-    // If the server is running in a screen session, try to ensure logging is enabled
-    if (serverRunning) {
-      try {
-        const { stdout: screenList } = await execPromise('screen -ls');
-        if (screenList.includes('nanos-server')) {
-          // Try to enable logging if it's not already enabled
-          try {
-            await execPromise(`screen -S nanos-server -X logfile ${NANOS_LOG_PATH}`);
-            await execPromise('screen -S nanos-server -X log on');
-            console.log('Enabled screen logging to', NANOS_LOG_PATH);
-          } catch (screenLogError) {
-            console.log('Error enabling screen logging:', screenLogError);
-          }
-        }
-      } catch (screenError) {
-        console.log('Error checking screen sessions for logging:', screenError);
-      }
+      console.log(`Log file not found at ${logPath}`);
     }
     
     // If the log file exists, try to read it
     if (logFileExists) {
       try {
-        // Use tail command to get the last N lines of the log file
-        const { stdout } = await execPromise(`tail -n ${lines} ${NANOS_LOG_PATH}`);
+        const { records, sources } = await readLogRecords(logPath, lines || 100, match);
         
         res.json({
           success: true,
-          logs: stdout.split('\n')
+          logs: records.map(record => record.raw),
+          records,
+          sources
         });
         return;
       } catch (logError) {
@@ -413,17 +137,15 @@ router.get('/logs', async (req: RequestWithUser, res: Response): Promise<void> =
     }
     
     // If we reach here, either the log file doesn't exist or we couldn't read it
-    if (serverRunning) {
-      res.json({
-        success: true,
-        logs: ["Server is running, but logs haven't been generated yet or couldn't be accessed."]
-      });
-    } else {
-      res.json({
-        success: true,
-        logs: ["Server hasn't been started yet or hasn't produced any logs."]
-      });
-    }
+    const notice = getRequestInstance(req).lifecycle.getState().running
+      ? "Server is running, but logs haven't been generated yet or couldn't be accessed."
+      : "Server hasn't been started yet or hasn't produced any logs.";
+    res.json({
+      success: true,
+      logs: [notice],
+      records: [parseLogLine(notice)],
+      sources: []
+    });
   } catch (error) {
     console.error('Error in server logs endpoint:', error);
     res.status(500).json({ 
@@ -434,7 +156,7 @@ router.get('/logs', async (req: RequestWithUser, res: Response): Promise<void> =
 });
 
 // Endpoint to send a command to the server
-router.post('/command', async (req: RequestWithUser, res: Response): Promise<void> => {
+router.post('/command', auditAction('server.command', req => ({ ...describeInstance(req), details: { command: req.body?.command } })), requirePermission('server.command'), async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
     const { command } = req.body;
     
@@ -449,7 +171,7 @@ router.post('/command', async (req: RequestWithUser, res: Response): Promise<voi
     console.log(`API request to send command to server from user: ${req.user?.username || 'unknown'}`);
     console.log(`Command: ${command}`);
     
-    const result = await sendCommandToServer(command);
+    const result = getRequestInstance(req).lifecycle.sendCommand(command);
     res.json(result);
   } catch (error) {
     console.error('Error in server command endpoint:', error);
@@ -460,4 +182,114 @@ router.post('/command', async (req: RequestWithUser, res: Response): Promise<voi
   }
 });
 
+// Endpoint to get recent crashes and the automatic restart state
+router.get('/crashes', requirePermission('server.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      crashes: listServerCrashes(getRequestInstance(req).instance.id, CRASH_HISTORY_LIMIT),
+      watchdog: getRequestInstance(req).watchdog.getStatus()
+    });
+  } catch (error) {
+    console.error('Error in server crashes endpoint:', error);
+    res.status(500).json({ 
+      success: false, 
+      message: `Internal server error: ${(error as Error).message}` 
+    });
+  }
+});
+
+// Endpoint to get the build SteamCMD installed and whether an update of it is running
+router.get('/build', requirePermission('server.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const { instance } = getRequestInstance(req);
+    res.json({
+      success: true,
+      build: await readInstalledBuild(instance),
+      updating: isUpdatingServer(instance.id)
+    });
+  } catch (error) {
+    console.error('Error in server build endpoint:', error);
+    res.status(500).json({ 
+      success: false, 
+      message: `Internal server error: ${(error as Error).message}` 
+    });
+  }
+});
+
+// Endpoint to get the server process's resource use over a range (1h, 6h, 24h, 7d, 30d or 90d)
+router.get('/metrics/history', requirePermission('server.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  const range = req.query.range ?? '24h';
+  if (!isMetricRange(range)) {
+    res.status(400).json({ success: false, message: `Range must be one of ${Object.keys(METRIC_RANGES).join(', ')}` });
+    return;
+  }
+
+  try {
+    res.json({
+      success: true,
+      ...metricsSampler.getProcessHistory(getRequestInstance(req).instance.id, range)
+    });
+  } catch (error) {
+    console.error('Error in server metrics history endpoint:', error);
+    res.status(500).json({ 
+      success: false, 
+      message: `Internal server error: ${(error as Error).message}` 
+    });
+  }
+});
+
+// Endpoint to change how the instance's crashes are handled
+router.put('/restart-policy', auditAction('server.restart-policy', req => ({ ...describeInstance(req), details: req.body })), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    console.log(`API request to update restart policy from user: ${req.user?.username || 'unknown'}`);
+    const { policy, error } = saveRestartPolicy(getRequestInstance(req).instance.id, req.body);
+    if (error) {
+      res.status(400).json({ success: false, message: error });
+      return;
+    }
+
+    res.json({ success: true, policy });
+  } catch (error) {
+    console.error('Error in restart policy endpoint:', error);
+    res.status(500).json({ 
+      success: false, 
+      message: `Internal server error: ${(error as Error).message}` 
+    });
+  }
+});
+
+// Endpoint to get the instance's stop sequence
+router.get('/stop-sequence', requirePermission('server.view'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    res.json({ success: true, sequence: getStopSequence(getRequestInstance(req).instance.id) });
+  } catch (error) {
+    console.error('Error in stop sequence endpoint:', error);
+    res.status(500).json({ 
+      success: false, 
+      message: `Internal server error: ${(error as Error).message}` 
+    });
+  }
+});
+
+// Endpoint to change how the instance's server is stopped
+router.put('/stop-sequence', auditAction('server.stop-sequence', req => ({ ...describeInstance(req), details: req.body })), requirePermission('server.control'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    console.log(`API request to update stop sequence from user: ${req.user?.username || 'unknown'}`);
+    const { sequence, error } = saveStopSequence(getRequestInstance(req).instance.id, req.body);
+    if (error) {
+      res.status(400).json({ success: false, message: error });
+      return;
+    }
+
+    res.json({ success: true, sequence });
+  } catch (error) {
+    console.error('Error in stop sequence endpoint:', error);
+    res.status(500).json({ 
+      success: false, 
+      message: `Internal server error: ${(error as Error).message}` 
+    });
+  }
+});
+
 export default router;
\ No newline at end of file
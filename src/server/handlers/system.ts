@@ -2,6 +2,8 @@ import { Router } from 'express';
 import type { Request, Response } from 'express';
 import * as os from 'node:os';
 import { execSync } from 'node:child_process';
+import { requirePermission } from '../middleware/permissions';
+import { metricsSampler, isMetricRange, METRIC_RANGES } from '../metrics';
 
 // Define interface for user in request
 interface RequestWithUser extends Request {
@@ -91,7 +93,7 @@ export function getDiskUsage() {
 }
 
 // Route to get system information
-router.get('/info', (req: RequestWithUser, res: Response): void => {
+router.get('/info', requirePermission('system.view'), (req: RequestWithUser, res: Response): void => {
   try {
     const systemInfo = getSystemInfo();
     res.json({
@@ -108,7 +110,7 @@ router.get('/info', (req: RequestWithUser, res: Response): void => {
 });
 
 // Route to get disk usage
-router.get('/disk', (req: RequestWithUser, res: Response): void => {
+router.get('/disk', requirePermission('system.view'), (req: RequestWithUser, res: Response): void => {
   try {
     const diskUsage = getDiskUsage();
     res.json({
@@ -124,4 +126,29 @@ router.get('/disk', (req: RequestWithUser, res: Response): void => {
   }
 });
 
+// Route to get the history of host usage over a range (1h, 6h, 24h, 7d, 30d or 90d)
+router.get('/metrics/history', requirePermission('system.view'), (req: RequestWithUser, res: Response): void => {
+  const range = req.query.range ?? '24h';
+  if (!isMetricRange(range)) {
+    res.status(400).json({
+      success: false,
+      error: `Range must be one of ${Object.keys(METRIC_RANGES).join(', ')}`
+    });
+    return;
+  }
+
+  try {
+    res.json({
+      success: true,
+      ...metricsSampler.getHistory(range)
+    });
+  } catch (error) {
+    console.error('Error getting metrics history:', (error as Error).message);
+    res.status(500).json({
+      success: false,
+      error: (error as Error).message
+    });
+  }
+});
+
 export default router; 
\ No newline at end of file
@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { listTasks, runTask } from '../tasks';
+import { getRequestInstance } from '../middleware/instance';
+
+// Define interface for user in request
+interface RequestWithUser extends Request {
+  user?: {
+    id: number;
+    username: string;
+    role: string;
+  };
+}
+
+// HTTP status for each way a task can be refused or fail
+const FAILURE_STATUS = {
+  unknown: 404,
+  invalid: 400,
+  forbidden: 403,
+  failed: 500
+} as const;
+
+const router = Router();
+
+// List the tasks the current user may run
+router.get('/', async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    res.json({ success: true, tasks: listTasks(req.user?.role || '') });
+  } catch (error) {
+    console.error('Error listing tasks:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Run a task - the body holds its arguments
+router.post('/:name', async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    if (!req.user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    const outcome = await runTask(req.params.name, req.body, req.user, getRequestInstance(req).instance, req.ip);
+
+    if (!outcome.success) {
+      res.status(FAILURE_STATUS[outcome.reason]).json({ success: false, error: outcome.error });
+      return;
+    }
+
+    res.json(outcome);
+  } catch (error) {
+    console.error('Error running task:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
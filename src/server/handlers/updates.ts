@@ -0,0 +1,87 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { updateChecker } from '../updates';
+import { dashboardUpdater } from '../updates/updater';
+import { getUpdatePreferences } from '../updates/preferences';
+import { requirePermission } from '../middleware/permissions';
+import { auditAction } from '../middleware/audit';
+
+// Define interface for user in request
+interface RequestWithUser extends Request {
+  user?: {
+    id: number;
+    username: string;
+    role: string;
+  };
+}
+
+const router = Router();
+
+// The running and offered versions, the channel's releases and the progress of the current or last update
+router.get('/', requirePermission('system.manage'), (req: RequestWithUser, res: Response): void => {
+  res.json({
+    success: true,
+    version: updateChecker.getStatus(),
+    releases: updateChecker.getReleases(),
+    preferences: getUpdatePreferences(),
+    status: dashboardUpdater.getStatus()
+  });
+});
+
+// Fetch the manifest now rather than at the next interval
+router.post('/check', requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const version = await updateChecker.check();
+    if (version.error) {
+      res.status(502).json({ success: false, error: version.error });
+      return;
+    }
+
+    res.json({ success: true, version, releases: updateChecker.getReleases() });
+  } catch (error) {
+    console.error('Error checking for updates:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Change the channel, the pinned and skipped versions or the manifest URL
+router.put('/preferences', auditAction('dashboard.update-preferences', req => ({ details: req.body })), requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const { preferences, error } = await updateChecker.savePreferences(req.body);
+    if (error) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    res.json({ success: true, preferences, version: updateChecker.getStatus(), releases: updateChecker.getReleases() });
+  } catch (error) {
+    console.error('Error saving update preferences:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Start updating to the offered version - progress follows on the socket
+router.post('/', auditAction('dashboard.update', () => ({
+  target: updateChecker.getStatus().target ?? undefined,
+  details: { from: updateChecker.getStatus().current }
+})), requirePermission('system.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    if (dashboardUpdater.isBusy()) {
+      res.status(409).json({ success: false, error: 'An update is already running' });
+      return;
+    }
+
+    const { status, error } = await dashboardUpdater.run(req.user?.username ?? 'unknown');
+    if (error) {
+      res.status(400).json({ success: false, error });
+      return;
+    }
+
+    res.json({ success: true, status });
+  } catch (error) {
+    console.error('Error starting dashboard update:', error);
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+export default router;
@@ -2,21 +2,136 @@ import { Router } from 'express';
 import type { Request, Response } from 'express';
 import { 
   getUser, 
+  getUserById,
   createUser, 
+  createUserWithPassword,
+  listUsers,
+  setUserPassword,
+  setUserDisabled,
+  setUserRole,
+  countActiveOwners,
   updateOnboardingStatus, 
   getOnboardingStatus,
-  updateLastLogin
+  isInstallationOnboarded
 } from '../database';
+import { hashPassword, validatePassword } from '../auth/passwords';
+import { ROLES, isRole, getPermissions } from '../auth/permissions';
+import { requirePermission } from '../middleware/permissions';
+import { auditAction } from '../middleware/audit';
+import { revokeUserSessions, notifyRoleChanged } from '../auth/sessions';
+import { removeTwoFactor } from '../auth/totp';
 
 // Define interface for user in request
 interface RequestWithUser extends Request {
   user?: {
+    id: number;
     username: string;
+    role: string;
+    sessionId?: number;
   };
 }
 
+// Usernames end up in Basic auth headers, so colons and whitespace are not allowed
+const USERNAME_PATTERN = /^[A-Za-z0-9_.-]{3,32}$/;
+
 const router = Router();
 
+/**
+ * Parse the :id route parameter
+ * @returns The numeric user ID, or null if it is not a valid ID
+ */
+function parseUserId(id: string): number | null {
+  const userId = Number.parseInt(id, 10);
+  return Number.isNaN(userId) || userId <= 0 ? null : userId;
+}
+
+/**
+ * Name the account behind an :id route parameter for the audit log
+ */
+function describeUser(id: string): string {
+  const userId = parseUserId(id);
+  const user = userId === null ? undefined : getUserById(userId);
+  return user ? user.username : `#${id}`;
+}
+
+// List all dashboard accounts
+router.get('/', requirePermission('users.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    res.json({
+      success: true,
+      users: listUsers()
+    });
+  } catch (error) {
+    console.error('Error listing users:', error);
+    res.status(500).json({ 
+      error: 'Failed to list users',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Create a new dashboard account
+router.post('/', auditAction('user.create', req => ({
+  target: req.body?.username,
+  details: { role: req.body?.role || 'read-only' }
+})), requirePermission('users.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const { username, password, role = 'read-only' } = req.body;
+    
+    if (typeof username !== 'string' || !USERNAME_PATTERN.test(username)) {
+      res.status(400).json({ error: 'Username must be 3-32 characters of letters, digits, dot, dash or underscore' });
+      return;
+    }
+    
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      res.status(400).json({ error: passwordError });
+      return;
+    }
+    
+    if (!isRole(role)) {
+      res.status(400).json({ error: `Role must be one of: ${ROLES.join(', ')}` });
+      return;
+    }
+    
+    if (getUser(username)) {
+      res.status(409).json({ error: 'A user with this username already exists' });
+      return;
+    }
+    
+    const user = createUserWithPassword(username, await hashPassword(password), role);
+    if (!user) {
+      res.status(500).json({ error: 'Failed to create user' });
+      return;
+    }
+    
+    // Onboarding is per installation, so new accounts skip it once it has been done
+    if (isInstallationOnboarded()) {
+      updateOnboardingStatus(username, true);
+    }
+    
+    console.log(`User ${username} created by ${req.user?.username || 'unknown'}`);
+    
+    res.status(201).json({
+      success: true,
+      user: {
+        id: user.id,
+        username: user.username,
+        role: user.role,
+        disabled: Boolean(user.disabled),
+        created_at: user.created_at,
+        last_login: null
+      }
+    });
+  } catch (error) {
+    console.error('Error creating user:', error);
+    res.status(500).json({ 
+      error: 'Failed to create user',
+      details: (error as Error).message
+    });
+  }
+});
+
 // Get current user data
 router.get('/me', async (req: RequestWithUser, res: Response): Promise<void> => {
   try {
@@ -34,14 +149,13 @@ router.get('/me', async (req: RequestWithUser, res: Response): Promise<void> =>
       user = createUser(username);
     }
     
-    // Update last login time
-    updateLastLogin(username);
-    
-    // Get onboarding status
-    const onboardingCompleted = getOnboardingStatus(username);
+    // Get onboarding status - completing it once covers every account on this installation
+    const onboardingCompleted = getOnboardingStatus(username) || isInstallationOnboarded();
     
     res.json({
       username,
+      role: req.user?.role,
+      permissions: getPermissions(req.user?.role || ''),
       onboardingCompleted,
       success: true
     });
@@ -91,4 +205,188 @@ router.post('/onboarding', async (req: RequestWithUser, res: Response): Promise<
   }
 });
 
+// Disable or re-enable an account
+router.post('/:id/disable', auditAction('user.disable', req => ({
+  target: describeUser(req.params.id),
+  details: { disabled: req.body?.disabled ?? true }
+})), requirePermission('users.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const userId = parseUserId(req.params.id);
+    const { disabled = true } = req.body || {};
+    
+    if (userId === null) {
+      res.status(400).json({ error: 'Invalid user ID' });
+      return;
+    }
+    
+    if (typeof disabled !== 'boolean') {
+      res.status(400).json({ error: 'Disabled status must be a boolean' });
+      return;
+    }
+    
+    const user = getUserById(userId);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    
+    if (disabled && user.id === req.user?.id) {
+      res.status(400).json({ error: 'You cannot disable your own account' });
+      return;
+    }
+    
+    if (disabled && !user.disabled && user.role === 'owner' && countActiveOwners() <= 1) {
+      res.status(400).json({ error: 'Cannot disable the last active owner' });
+      return;
+    }
+    
+    setUserDisabled(user.id, disabled);
+    
+    // A disabled account must not keep working through sessions it already has
+    if (disabled) {
+      revokeUserSessions(user.id);
+    }
+    
+    console.log(`User ${user.username} ${disabled ? 'disabled' : 'enabled'} by ${req.user?.username || 'unknown'}`);
+    
+    res.json({
+      success: true,
+      id: user.id,
+      disabled
+    });
+  } catch (error) {
+    console.error('Error updating user status:', error);
+    res.status(500).json({ 
+      error: 'Failed to update user status',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Change an account's role
+router.post('/:id/role', auditAction('user.role', req => ({
+  target: describeUser(req.params.id),
+  details: { role: req.body?.role }
+})), requirePermission('users.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const userId = parseUserId(req.params.id);
+    const { role } = req.body;
+    
+    if (userId === null) {
+      res.status(400).json({ error: 'Invalid user ID' });
+      return;
+    }
+    
+    if (!isRole(role)) {
+      res.status(400).json({ error: `Role must be one of: ${ROLES.join(', ')}` });
+      return;
+    }
+    
+    const user = getUserById(userId);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    
+    if (user.role === 'owner' && role !== 'owner' && !user.disabled && countActiveOwners() <= 1) {
+      res.status(400).json({ error: 'Cannot change the role of the last active owner' });
+      return;
+    }
+    
+    setUserRole(user.id, role);
+    // Sockets cache the role they connected with, so they are told to look it up again
+    notifyRoleChanged(user.id);
+    
+    console.log(`Role of ${user.username} changed to ${role} by ${req.user?.username || 'unknown'}`);
+    
+    res.json({
+      success: true,
+      id: user.id,
+      role
+    });
+  } catch (error) {
+    console.error('Error changing user role:', error);
+    res.status(500).json({ 
+      error: 'Failed to change user role',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Reset an account's password
+router.post('/:id/reset-password', auditAction('user.reset-password', req => ({ target: describeUser(req.params.id) })), requirePermission('users.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const userId = parseUserId(req.params.id);
+    const { password } = req.body;
+    
+    if (userId === null) {
+      res.status(400).json({ error: 'Invalid user ID' });
+      return;
+    }
+    
+    const passwordError = validatePassword(password);
+    if (passwordError) {
+      res.status(400).json({ error: passwordError });
+      return;
+    }
+    
+    const user = getUserById(userId);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    
+    setUserPassword(user.id, await hashPassword(password));
+    
+    // Log the account out everywhere, except the session that made the change
+    const revokedSessions = revokeUserSessions(user.id, req.user?.sessionId);
+    
+    console.log(`Password for ${user.username} reset by ${req.user?.username || 'unknown'} (${revokedSessions} sessions revoked)`);
+    
+    res.json({
+      success: true,
+      id: user.id
+    });
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    res.status(500).json({ 
+      error: 'Failed to reset password',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Remove two-factor authentication from an account whose owner lost their authenticator
+router.post('/:id/reset-2fa', auditAction('user.reset-2fa', req => ({ target: describeUser(req.params.id) })), requirePermission('users.manage'), async (req: RequestWithUser, res: Response): Promise<void> => {
+  try {
+    const userId = parseUserId(req.params.id);
+    
+    if (userId === null) {
+      res.status(400).json({ error: 'Invalid user ID' });
+      return;
+    }
+    
+    const user = getUserById(userId);
+    if (!user) {
+      res.status(404).json({ error: 'User not found' });
+      return;
+    }
+    
+    removeTwoFactor(user.id);
+    
+    console.log(`Two-factor for ${user.username} reset by ${req.user?.username || 'unknown'}`);
+    
+    res.json({
+      success: true,
+      id: user.id
+    });
+  } catch (error) {
+    console.error('Error resetting two-factor:', error);
+    res.status(500).json({ 
+      error: 'Failed to reset two-factor',
+      details: (error as Error).message
+    });
+  }
+});
+
 export default router;
@@ -6,6 +6,18 @@ import * as fs from 'node:fs';
 import next from 'next';
 import { Server } from 'socket.io';
 import { authenticateRequest as authenticate } from './middleware/auth';
+import { enforceUpdateLock } from './middleware/updateLock';
+import { bootstrapAdminUser } from './auth/accounts';
+import { attemptLogin, getRetryMessage } from './auth/throttle';
+import { authenticateSessionToken, sessionEvents } from './auth/sessions';
+import { requirePermission } from './middleware/permissions';
+import { resolveInstance } from './middleware/instance';
+import { instanceManager } from './instances';
+import { serverScheduler } from './scheduler';
+import { logAlertMonitor } from './alerts';
+import { metricsSampler } from './metrics';
+import { updateChecker } from './updates';
+import { dashboardUpdater } from './updates/updater';
 import cors from 'cors';
 import helmet from 'helmet';
 import dotenv from 'dotenv';
@@ -17,17 +29,29 @@ import * as os from 'node:os';
 dotenv.config();
 
 // Import routes and middleware
+import authRouter from './handlers/auth';
+import apiKeyRouter from './handlers/apiKeys';
+import auditRouter from './handlers/audit';
 import commandRouter from './handlers/commands';
 import fileRouter from './handlers/files';
 import systemRouter from './handlers/system';
+import taskRouter from './handlers/tasks';
 import userRouter from './handlers/users';
 import serverRouter from './handlers/server';
+import logArchiveRouter from './handlers/logArchive';
+import scheduleRouter from './handlers/schedules';
+import instanceRouter from './handlers/instances';
+import alertRouter from './handlers/alerts';
+import updateRouter from './handlers/updates';
 import { configureSocketHandlers } from './socket/handlers';
 
 // Define interface for custom type
 interface CustomRequest extends express.Request {
   user?: {
+    id: number;
     username: string;
+    role: string;
+    sessionId?: number;
   };
 }
 
@@ -46,7 +70,17 @@ const allowedOrigins = process.env.ALLOWED_ORIGINS
 console.log('Allowed origins:', allowedOrigins);
 
 // Prepare Next.js for handling requests
-app.prepare().then(() => {
+app.prepare().then(async () => {
+  // Make sure at least one account can log in before accepting connections
+  await bootstrapAdminUser();
+  // Pick up game servers left running by a previous dashboard process
+  instanceManager.start();
+  serverScheduler.start();
+  logAlertMonitor.start();
+  metricsSampler.start();
+  updateChecker.start();
+  dashboardUpdater.start();
+  
   const server = express();
   
   // Create HTTP or HTTPS server based on environment
@@ -101,16 +135,43 @@ app.prepare().then(() => {
   });
   
   // Configure Socket.io authentication middleware
-  io.use((socket, next) => {
-    const { username, password } = socket.handshake.auth;
+  io.use(async (socket, next) => {
+    const { token, username, password, otp } = socket.handshake.auth;
+    
+    if (token) {
+      const user = authenticateSessionToken(String(token));
+      if (!user) {
+        return next(new Error('Session expired or invalid'));
+      }
+      socket.data.user = user;
+      return next();
+    }
     
     if (!username || !password) {
       return next(new Error('Authentication failed'));
     }
     
-    if (username === process.env.ADMIN_USERNAME && password === process.env.ADMIN_PASSWORD) {
-      socket.data.user = { username };
-      return next();
+    try {
+      const { user, retryAfter, twoFactorRequired } = await attemptLogin(
+        String(username),
+        String(password),
+        socket.handshake.address,
+        'socket',
+        otp ? String(otp) : undefined
+      );
+      if (retryAfter) {
+        return next(new Error(getRetryMessage(retryAfter)));
+      }
+      if (twoFactorRequired) {
+        return next(new Error(otp ? 'Invalid two-factor code' : 'Two-factor code required'));
+      }
+      if (user) {
+        socket.data.user = user;
+        return next();
+      }
+    } catch (error) {
+      console.error('Socket authentication error:', error);
+      return next(new Error('Authentication error'));
     }
     
     return next(new Error('Invalid credentials'));
@@ -119,6 +180,16 @@ app.prepare().then(() => {
   // Set up Socket.io event handlers
   configureSocketHandlers(io);
   
+  // Disconnect sockets whose session has been revoked (logout, disabled account, password reset)
+  sessionEvents.on('revoked', (sessionIds: number[]) => {
+    for (const socket of io.sockets.sockets.values()) {
+      if (socket.data.user?.sessionId && sessionIds.includes(socket.data.user.sessionId)) {
+        socket.emit('session_revoked');
+        socket.disconnect(true);
+      }
+    }
+  });
+  
   // Middleware
   server.use(cors({
     origin: allowedOrigins,
@@ -153,7 +224,7 @@ app.prepare().then(() => {
   server.use(express.json());
   
   // Simple ping endpoint for diagnostics
-  server.get('/api/system/ping', authenticate, (req, res) => {
+  server.get('/api/system/ping', authenticate, enforceUpdateLock, requirePermission('system.view'), (req, res) => {
     console.log('Ping request received');
     res.json({
       status: 'ok',
@@ -166,12 +237,27 @@ app.prepare().then(() => {
     });
   });
   
-  // API Routes - these bypass Next.js for system operations
-  server.use('/api/commands', authenticate, commandRouter);
-  server.use('/api/files', authenticate, fileRouter);
-  server.use('/api/system', authenticate, systemRouter);
-  server.use('/api/users', authenticate, userRouter);
-  server.use('/api/server', authenticate, serverRouter);
+  // Login/logout - handles its own authentication per route
+  server.use('/api/auth', authRouter);
+  
+  // API Routes - these bypass Next.js for system operations. A pending required update locks them once
+  // the caller is known, leaving only what is needed to log in and install it
+  server.use('/api/commands', authenticate, enforceUpdateLock, commandRouter);
+  server.use('/api/files', authenticate, enforceUpdateLock, resolveInstance, fileRouter);
+  server.use('/api/system', authenticate, enforceUpdateLock, systemRouter);
+  server.use('/api/tasks', authenticate, enforceUpdateLock, resolveInstance, taskRouter);
+  server.use('/api/users', authenticate, enforceUpdateLock, userRouter);
+  server.use('/api/instances', authenticate, enforceUpdateLock, instanceRouter);
+  // Routes for one game server - the instance comes from the X-Instance-Id header
+  server.use('/api/server/logs/archive', authenticate, enforceUpdateLock, resolveInstance, logArchiveRouter);
+  server.use('/api/server', authenticate, enforceUpdateLock, resolveInstance, serverRouter);
+  server.use('/api/schedules', authenticate, enforceUpdateLock, resolveInstance, scheduleRouter);
+  // Rules and tests use the instance header, alerts and webhooks span every instance
+  server.use('/api/alerts', authenticate, enforceUpdateLock, resolveInstance, alertRouter);
+  server.use('/api/audit', authenticate, enforceUpdateLock, auditRouter);
+  // Left unlocked, since installing the required update is how the lock is lifted
+  server.use('/api/updates', authenticate, updateRouter);
+  server.use('/api/keys', authenticate, enforceUpdateLock, apiKeyRouter);
   
   // Handle Next.js requests
   server.all('*', (req: express.Request, res: express.Response) => {
@@ -0,0 +1,205 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import {
+  instanceManager,
+  validateInstance,
+  suggestPorts,
+  getInstallClaim,
+  getInstanceConfigPath,
+  type InstanceRuntime
+} from './index';
+import { UPDATE_BACKUP_DIR } from './serverUpdate';
+
+// One step of a clone, reported while it runs
+export interface CloneProgress {
+  step: 'files' | 'packages' | 'assets' | 'config' | 'register';
+  message: string;
+}
+
+export interface CloneOptions {
+  onProgress?: (progress: CloneProgress) => void;
+}
+
+export interface CloneResult {
+  runtime?: InstanceRuntime;
+  error?: string;
+}
+
+// Game content, copied as steps of their own since they hold most of the data
+const CONTENT_DIRS = [
+  { dir: 'Packages', step: 'packages' },
+  { dir: 'Assets', step: 'assets' }
+] as const;
+
+// Belong to the original install only: its logs, its SteamCMD, leftovers of module downloads and of server updates
+const SKIPPED_ENTRIES = new Set(['Logs', 'steam', 'temp', UPDATE_BACKUP_DIR]);
+
+// Directories being cloned into, so two clones cannot write to the same one
+const cloningDirs = new Set<string>();
+// Ports picked for clones still copying - no instance holds them yet, so suggestPorts has to skip them
+const cloningPorts = new Set<number>();
+
+/**
+ * Point the [discover] section of a Config.toml at new ports. Only those two lines are touched,
+ * so comments and the rest of the file stay as they were.
+ */
+function setDiscoverPorts(content: string, gamePort: number, queryPort: number): string {
+  const pending = new Map<string, number>([['port', gamePort], ['query_port', queryPort]]);
+  const lines = content.split('\n');
+  let inDiscover = false;
+  let discoverLine = -1;
+
+  for (let i = 0; i < lines.length; i++) {
+    const header = /^\s*\[\s*([\w.-]+)\s*\]/.exec(lines[i]);
+    if (header) {
+      inDiscover = header[1] === 'discover';
+      if (inDiscover) {
+        discoverLine = i;
+      }
+      continue;
+    }
+
+    const entry = inDiscover ? /^(\s*)(port|query_port)(\s*=\s*)\d+(.*)$/.exec(lines[i]) : null;
+    if (entry) {
+      lines[i] = `${entry[1]}${entry[2]}${entry[3]}${pending.get(entry[2])}${entry[4]}`;
+      pending.delete(entry[2]);
+    }
+  }
+
+  // Keys the file did not set go at the top of [discover], which is added if it is missing too
+  const missing = [...pending].map(([key, value]) => `    ${key} = ${value}`);
+  if (missing.length > 0) {
+    if (discoverLine === -1) {
+      lines.unshift('[discover]', ...missing, '');
+    } else {
+      lines.splice(discoverLine + 1, 0, ...missing);
+    }
+  }
+  return lines.join('\n');
+}
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Copy an instance's install into a new directory and register the copy as an instance of its own,
+ * on the first free pair of ports. The original keeps running while it is copied.
+ * @param input The clone's name and install directory
+ */
+export async function cloneInstance(sourceId: number, input: unknown, options: CloneOptions = {}): Promise<CloneResult> {
+  const source = instanceManager.get(sourceId);
+  if (!source) {
+    return { error: 'Instance not found' };
+  }
+
+  // A copy taken while SteamCMD writes to the install could be neither the old build nor the new one
+  const holder = getInstallClaim(source.instance.id);
+  if (holder) {
+    return { error: `${source.instance.name} cannot be cloned while ${holder}` };
+  }
+
+  const { name, installDir } = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  const { instance, error } = validateInstance({ name, installDir, ...suggestPorts(cloningPorts) });
+  if (!instance) {
+    return { error };
+  }
+
+  const targetDir = instance.install_dir;
+  const ports = [instance.game_port, instance.query_port];
+  for (const dir of cloningDirs) {
+    if (dir === targetDir || dir.startsWith(`${targetDir}${path.sep}`) || targetDir.startsWith(`${dir}${path.sep}`)) {
+      return { error: `A clone into ${dir} is already running` };
+    }
+  }
+  // Claimed before the first await, so a second clone cannot pick the same directory or ports
+  cloningDirs.add(targetDir);
+  for (const port of ports) {
+    cloningPorts.add(port);
+  }
+
+  const report = (step: CloneProgress['step'], message: string) => {
+    console.log(`Cloning ${source.instance.name}: ${message}`);
+    options.onProgress?.({ step, message });
+  };
+
+  // Set once the checks pass - only then is the directory the clone's to remove if it fails
+  let copying = false;
+  try {
+    if (!await exists(source.instance.install_dir)) {
+      return { error: `${source.instance.name} has no install at ${source.instance.install_dir}` };
+    }
+    if (await exists(targetDir) && (await fs.readdir(targetDir)).length > 0) {
+      return { error: `${targetDir} already exists and is not empty` };
+    }
+
+    copying = true;
+    await fs.mkdir(targetDir, { recursive: true });
+
+    // Everything but the content and config - the server binaries and scripts that make it startable
+    report('files', `Copying server files from ${source.instance.install_dir}`);
+    const contentDirs: string[] = CONTENT_DIRS.map(content => content.dir);
+    for (const entry of await fs.readdir(source.instance.install_dir)) {
+      if (SKIPPED_ENTRIES.has(entry) || contentDirs.includes(entry) || entry === 'Config.toml') {
+        continue;
+      }
+      await fs.cp(path.join(source.instance.install_dir, entry), path.join(targetDir, entry), { recursive: true });
+    }
+
+    for (const { dir, step } of CONTENT_DIRS) {
+      const from = path.join(source.instance.install_dir, dir);
+      if (!await exists(from)) {
+        report(step, `No ${dir} to copy`);
+        await fs.mkdir(path.join(targetDir, dir), { recursive: true });
+        continue;
+      }
+      const count = (await fs.readdir(from)).length;
+      report(step, `Copying ${dir} (${count} ${count === 1 ? 'entry' : 'entries'})`);
+      await fs.cp(from, path.join(targetDir, dir), { recursive: true });
+    }
+
+    const sourceConfig = getInstanceConfigPath(source.instance);
+    if (await exists(sourceConfig)) {
+      report('config', `Writing Config.toml with port ${instance.game_port} and query port ${instance.query_port}`);
+      const content = await fs.readFile(sourceConfig, 'utf-8');
+      await fs.writeFile(path.join(targetDir, 'Config.toml'), setDiscoverPorts(content, instance.game_port, instance.query_port), 'utf-8');
+    } else {
+      report('config', `${source.instance.name} has no Config.toml - the clone creates its own on first start`);
+    }
+
+    // Another instance may have been created while copying, so check again before registering
+    const { instance: checked, error: registerError } = validateInstance({
+      name: instance.name,
+      installDir: targetDir,
+      gamePort: instance.game_port,
+      queryPort: instance.query_port
+    });
+    if (!checked) {
+      throw new Error(registerError);
+    }
+
+    const runtime = instanceManager.create(checked);
+    if (!runtime) {
+      throw new Error('Instance could not be registered');
+    }
+    report('register', `Registered ${runtime.instance.name} as a new instance`);
+    return { runtime };
+  } catch (error) {
+    console.error(`Error cloning ${source.instance.name}:`, error);
+    // Nothing of a failed clone is kept, the directory was empty or missing before
+    if (copying) {
+      await fs.rm(targetDir, { recursive: true, force: true });
+    }
+    return { error: `Clone failed: ${(error as Error).message}` };
+  } finally {
+    cloningDirs.delete(targetDir);
+    for (const port of ports) {
+      cloningPorts.delete(port);
+    }
+  }
+}
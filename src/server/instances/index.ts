@@ -0,0 +1,350 @@
+import { EventEmitter } from 'node:events';
+import * as path from 'node:path';
+import {
+  listServerInstances,
+  getServerInstance,
+  createServerInstance,
+  updateServerInstance,
+  deleteServerInstance,
+  type ServerInstance,
+  type ServerInstanceInput
+} from '../database';
+import { ServerSupervisor } from '../supervisor';
+import { CrashWatchdog } from '../supervisor/watchdog';
+import { ServerLifecycle, type ServerState } from '../lifecycle';
+import { LogArchive } from '../logs/archive';
+import { closeLogFollower } from '../logs/follower';
+
+// Where PID files and stdin FIFOs live - they outlast dashboard restarts
+const RUNTIME_DIR = path.join(process.cwd(), 'data');
+// Live logs and their archives, kept with the database so they survive a reboot
+const LOG_DIR = path.join(RUNTIME_DIR, 'logs');
+const SERVER_SCRIPT = 'NanosWorldServer.sh';
+// Slug of the instance created for the server that existed before instances
+const DEFAULT_SLUG = 'default';
+const MIN_PORT = 1024;
+const MAX_PORT = 65535;
+// Nanos World's own default game port, where port suggestions start
+const DEFAULT_GAME_PORT = 7777;
+
+// Instance as returned by the API
+export interface InstanceInfo {
+  id: number;
+  name: string;
+  slug: string;
+  installDir: string;
+  gamePort: number;
+  queryPort: number;
+  configPath: string;
+  logPath: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Everything the dashboard runs for one instance
+export interface InstanceRuntime {
+  instance: ServerInstance;
+  supervisor: ServerSupervisor;
+  lifecycle: ServerLifecycle;
+  watchdog: CrashWatchdog;
+  logArchive: LogArchive;
+}
+
+/**
+ * Name used for the instance's PID file, stdin FIFO, log and log archive. The first instance keeps the
+ * names from before instances existed, so a server started by an older dashboard is found again.
+ */
+function getProcessName(instance: ServerInstance): string {
+  return instance.slug === DEFAULT_SLUG ? 'nanos-server' : `nanos-server-${instance.slug}`;
+}
+
+export function getInstanceConfigPath(instance: ServerInstance): string {
+  return path.join(instance.install_dir, 'Config.toml');
+}
+
+export function getInstanceLogPath(instance: ServerInstance): string {
+  return path.join(LOG_DIR, `${getProcessName(instance)}.log`);
+}
+
+function getInstanceArchiveDir(instance: ServerInstance): string {
+  return path.join(LOG_DIR, getProcessName(instance));
+}
+
+export function toInstanceInfo(instance: ServerInstance): InstanceInfo {
+  return {
+    id: instance.id,
+    name: instance.name,
+    slug: instance.slug,
+    installDir: instance.install_dir,
+    gamePort: instance.game_port,
+    queryPort: instance.query_port,
+    configPath: getInstanceConfigPath(instance),
+    logPath: getInstanceLogPath(instance),
+    createdAt: instance.created_at,
+    updatedAt: instance.updated_at
+  };
+}
+
+function isPort(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= MIN_PORT && value <= MAX_PORT;
+}
+
+/**
+ * Check an instance sent by a client against itself and the other instances
+ * @param id The instance being changed, left out for a new one
+ * @returns The instance in its database form, or an error describing the first problem
+ */
+export function validateInstance(input: unknown, id?: number): { instance?: ServerInstanceInput; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Instance must be an object' };
+  }
+
+  const { name, installDir, gamePort, queryPort } = input as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 64) {
+    return { error: 'Name must be 1-64 characters' };
+  }
+
+  if (typeof installDir !== 'string' || !path.isAbsolute(installDir) || installDir.split(/[\\/]/).includes('..')) {
+    return { error: 'Install directory must be an absolute path' };
+  }
+  const dir = path.resolve(installDir);
+  if (dir === path.parse(dir).root) {
+    return { error: 'Install directory cannot be the filesystem root' };
+  }
+
+  if (!isPort(gamePort) || !isPort(queryPort)) {
+    return { error: `Ports must be whole numbers between ${MIN_PORT} and ${MAX_PORT}` };
+  }
+  if (gamePort === queryPort) {
+    return { error: 'Game port and query port must differ' };
+  }
+
+  for (const other of listServerInstances()) {
+    if (other.id === id) {
+      continue;
+    }
+    if (other.name.toLowerCase() === name.trim().toLowerCase()) {
+      return { error: `Instance name ${other.name} is already taken` };
+    }
+    const otherDir = path.resolve(other.install_dir);
+    if (dir === otherDir || dir.startsWith(`${otherDir}${path.sep}`) || otherDir.startsWith(`${dir}${path.sep}`)) {
+      return { error: `Install directory overlaps with instance ${other.name} (${other.install_dir})` };
+    }
+    const taken = [other.game_port, other.query_port];
+    const clash = [gamePort, queryPort].find(port => taken.includes(port));
+    if (clash !== undefined) {
+      return { error: `Port ${clash} is already used by instance ${other.name}` };
+    }
+  }
+
+  return {
+    instance: {
+      name: name.trim(),
+      install_dir: dir,
+      game_port: gamePort,
+      query_port: queryPort
+    }
+  };
+}
+
+/**
+ * The lowest game port from the Nanos World default up that, together with the next port as
+ * query port, no instance uses yet
+ * @param reserved Ports promised to instances that are not registered yet
+ */
+export function suggestPorts(reserved: Iterable<number> = []): { gamePort: number; queryPort: number } {
+  const taken = new Set(listServerInstances().flatMap(instance => [instance.game_port, instance.query_port]));
+  for (const port of reserved) {
+    taken.add(port);
+  }
+
+  let gamePort = DEFAULT_GAME_PORT;
+  while (taken.has(gamePort) || taken.has(gamePort + 1)) {
+    gamePort += 2;
+  }
+  return { gamePort, queryPort: gamePort + 1 };
+}
+
+/**
+ * Turn a name into a slug no other instance has, such as "staging" or "staging-2"
+ */
+function createSlug(name: string): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 32) || 'instance';
+  const taken = new Set(listServerInstances().map(instance => instance.slug));
+
+  let slug = base;
+  for (let suffix = 2; taken.has(slug); suffix++) {
+    slug = `${base}-${suffix}`;
+  }
+  return slug;
+}
+
+// Instances whose install a job is writing to, with what the job is doing
+const installClaims = new Map<number, string>();
+
+/**
+ * Give a job sole use of an instance's install, such as a SteamCMD update or install. Call it before
+ * the job's first await, so a second job on the same install is turned away.
+ * @param activity What the install is busy with, as in "it cannot be started while <activity>"
+ * @returns null once the install is claimed, or the activity of the job that holds it
+ */
+export function claimInstall(instanceId: number, activity: string): string | null {
+  const holder = installClaims.get(instanceId);
+  if (holder) {
+    return holder;
+  }
+  installClaims.set(instanceId, activity);
+  return null;
+}
+
+export function releaseInstall(instanceId: number): void {
+  installClaims.delete(instanceId);
+}
+
+/**
+ * What the job holding an instance's install is doing, or null when no job holds it
+ */
+export function getInstallClaim(instanceId: number): string | null {
+  return installClaims.get(instanceId) ?? null;
+}
+
+/**
+ * Keeps a supervisor, lifecycle and crash watchdog running for every registered instance.
+ *
+ * Emits 'state' with the ServerState of any instance that changes phase,
+ * and 'changed' when an instance is created, changed or deleted.
+ */
+export class InstanceManager extends EventEmitter {
+  private readonly runtimes = new Map<number, InstanceRuntime>();
+
+  /**
+   * Set up every instance, picking up servers left running by a previous dashboard process
+   */
+  start(): void {
+    for (const instance of listServerInstances()) {
+      this.load(instance);
+    }
+  }
+
+  get(id: number): InstanceRuntime | undefined {
+    return this.runtimes.get(id);
+  }
+
+  /**
+   * The instance used by requests that do not name one - the oldest
+   */
+  getDefault(): InstanceRuntime | undefined {
+    return this.list()[0];
+  }
+
+  list(): InstanceRuntime[] {
+    return [...this.runtimes.values()].sort((a, b) => a.instance.id - b.instance.id);
+  }
+
+  create(input: ServerInstanceInput): InstanceRuntime | undefined {
+    const id = createServerInstance(input, createSlug(input.name));
+    const instance = getServerInstance(id);
+    if (!instance) {
+      return undefined;
+    }
+
+    const runtime = this.load(instance);
+    this.emit('changed');
+    return runtime;
+  }
+
+  /**
+   * Change an instance. Its directory and ports can only change while the server is stopped.
+   */
+  update(id: number, input: ServerInstanceInput): { runtime?: InstanceRuntime; error?: string } {
+    const current = this.runtimes.get(id);
+    if (!current) {
+      return { error: 'Instance not found' };
+    }
+
+    const relocated = input.install_dir !== current.instance.install_dir
+      || input.game_port !== current.instance.game_port
+      || input.query_port !== current.instance.query_port;
+    if (relocated && current.supervisor.getStatus().phase !== 'stopped') {
+      return { error: 'Stop the server before changing its install directory or ports' };
+    }
+
+    updateServerInstance(id, input);
+    const instance = getServerInstance(id);
+    if (!instance) {
+      return { error: 'Instance not found' };
+    }
+
+    let runtime: InstanceRuntime;
+    if (relocated) {
+      current.watchdog.cancelPendingRestart();
+      current.logArchive.dispose();
+      runtime = this.load(instance);
+    } else {
+      current.instance = instance;
+      runtime = current;
+    }
+
+    this.emit('changed');
+    return { runtime };
+  }
+
+  /**
+   * Forget an instance along with its schedules, crash history and logs. Its install is left alone.
+   */
+  remove(id: number): { error?: string } {
+    const runtime = this.runtimes.get(id);
+    if (!runtime) {
+      return { error: 'Instance not found' };
+    }
+    if (this.runtimes.size === 1) {
+      return { error: 'The last instance cannot be deleted' };
+    }
+    if (runtime.supervisor.getStatus().phase !== 'stopped') {
+      return { error: 'Stop the server before deleting its instance' };
+    }
+
+    runtime.watchdog.cancelPendingRestart();
+    deleteServerInstance(id);
+    this.runtimes.delete(id);
+    closeLogFollower(getInstanceLogPath(runtime.instance));
+    runtime.logArchive.deleteFiles().catch(error => {
+      console.error(`Could not delete the logs of ${runtime.instance.name}:`, error);
+    });
+    this.emit('changed');
+    return {};
+  }
+
+  /**
+   * Set up an instance's runtime, picking up its server if a previous dashboard process left it running
+   */
+  private load(instance: ServerInstance): InstanceRuntime {
+    const logArchive = new LogArchive(instance.id, getInstanceLogPath(instance), getInstanceArchiveDir(instance));
+    const supervisor = new ServerSupervisor({
+      instanceId: instance.id,
+      scriptPath: path.join(instance.install_dir, SERVER_SCRIPT),
+      // Command line settings override Config.toml, so the ports registered here are the ones used
+      args: ['--port', String(instance.game_port), '--query_port', String(instance.query_port)],
+      logPath: getInstanceLogPath(instance),
+      runtimeDir: RUNTIME_DIR,
+      name: getProcessName(instance),
+      // Each run starts with an empty log, the previous one's is archived
+      beforeStart: () => logArchive.rotate()
+    });
+    const lifecycle = new ServerLifecycle(instance.id, getInstanceConfigPath(instance), supervisor);
+    const watchdog = new CrashWatchdog(instance.id, supervisor);
+
+    lifecycle.on('state', (state: ServerState) => this.emit('state', state));
+    watchdog.start();
+    supervisor.attach();
+    logArchive.track(supervisor);
+
+    const runtime = { instance, supervisor, lifecycle, watchdog, logArchive };
+    this.runtimes.set(instance.id, runtime);
+    return runtime;
+  }
+}
+
+// Every Nanos World server managed by the dashboard
+export const instanceManager = new InstanceManager();
@@ -0,0 +1,230 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { runProcess } from '../tasks/process';
+import { instanceManager, claimInstall, releaseInstall, getInstallClaim, type InstanceRuntime } from './index';
+import {
+  getSteamCmdDir,
+  getAppUpdateArgs,
+  readInstalledBuild,
+  SERVER_BRANCHES,
+  type ServerBranch,
+  type ServerBuildInfo
+} from './steam';
+
+// One step of a server update, reported while it runs - download steps carry SteamCMD's progress
+export interface ServerUpdateProgress {
+  step: 'stop' | 'backup' | 'download' | 'verify' | 'restore' | 'start';
+  message: string;
+  percent?: number;
+}
+
+export interface ServerUpdateOptions {
+  onProgress?: (progress: ServerUpdateProgress) => void;
+}
+
+export interface ServerUpdateResult {
+  build?: ServerBuildInfo;
+  error?: string;
+  // The update failed and the install was put back as it was
+  restored?: boolean;
+}
+
+// Where the install is copied before SteamCMD touches it - inside it, since its parent may belong to root
+export const UPDATE_BACKUP_DIR = '.update-backup';
+// Not part of what SteamCMD installs, so left out of the backup: logs, SteamCMD itself and module downloads
+const UNTOUCHED_ENTRIES = new Set(['Logs', 'steam', 'temp', UPDATE_BACKUP_DIR]);
+const SERVER_SCRIPT = 'NanosWorldServer.sh';
+const STEAMCMD_TIMEOUT = 60 * 60 * 1000;
+// SteamCMD prints this once the app is installed, and can exit 0 without it
+const STEAMCMD_SUCCESS = /Success! App '\d+' (fully installed|already up to date)/;
+const STEAMCMD_PROGRESS = /progress:\s*([\d.]+)/;
+
+// The install claim of an update, shared with the server installer so the two cannot overlap
+const UPDATE_ACTIVITY = 'its server files are being updated';
+
+async function exists(filePath: string): Promise<boolean> {
+  try {
+    await fs.access(filePath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isUpdatingServer(instanceId: number): boolean {
+  return getInstallClaim(instanceId) === UPDATE_ACTIVITY;
+}
+
+/**
+ * Entries of the install SteamCMD may write to
+ */
+async function listInstallEntries(installDir: string): Promise<string[]> {
+  return (await fs.readdir(installDir)).filter(entry => !UNTOUCHED_ENTRIES.has(entry));
+}
+
+/**
+ * Put the install back from its backup: everything SteamCMD may have written goes, the copies move back
+ */
+async function restoreBackup(installDir: string): Promise<void> {
+  const backupDir = path.join(installDir, UPDATE_BACKUP_DIR);
+  for (const entry of await listInstallEntries(installDir)) {
+    await fs.rm(path.join(installDir, entry), { recursive: true, force: true });
+  }
+  for (const entry of await fs.readdir(backupDir)) {
+    await fs.rename(path.join(backupDir, entry), path.join(installDir, entry));
+  }
+  await fs.rm(backupDir, { recursive: true, force: true });
+}
+
+/**
+ * Update an instance's server through SteamCMD, or switch it to another branch. The server is stopped
+ * first and nothing can start it until the update is over; the install is backed up, and restored if
+ * SteamCMD fails or leaves no startable server. A server that was running is started again either way.
+ * @param input The branch to update from and whether SteamCMD should validate every file
+ */
+export async function updateServer(instanceId: number, input: unknown, options: ServerUpdateOptions = {}): Promise<ServerUpdateResult> {
+  const runtime = instanceManager.get(instanceId);
+  if (!runtime) {
+    return { error: 'Instance not found' };
+  }
+
+  const { branch, validate } = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+  if (!SERVER_BRANCHES.includes(branch as ServerBranch)) {
+    return { error: `Branch must be one of ${SERVER_BRANCHES.join(', ')}` };
+  }
+  if (validate !== undefined && typeof validate !== 'boolean') {
+    return { error: 'validate must be true or false' };
+  }
+
+  const { instance } = runtime;
+  const steamCmd = path.join(getSteamCmdDir(instance), 'steamcmd.sh');
+  const holder = claimInstall(instance.id, UPDATE_ACTIVITY);
+  if (holder) {
+    return { error: `${instance.name} cannot be updated while ${holder}` };
+  }
+  try {
+    if (!await exists(steamCmd)) {
+      return { error: `SteamCMD is not installed for ${instance.name} - run the server installer first` };
+    }
+    return await runUpdate(runtime, branch as ServerBranch, validate !== false, steamCmd, options);
+  } finally {
+    releaseInstall(instance.id);
+  }
+}
+
+/**
+ * The update itself, once the instance is claimed: stop, back up, run SteamCMD, and restore or start again
+ */
+async function runUpdate(
+  runtime: InstanceRuntime,
+  branch: ServerBranch,
+  validate: boolean,
+  steamCmd: string,
+  options: ServerUpdateOptions
+): Promise<ServerUpdateResult> {
+  const { instance, supervisor, lifecycle, watchdog } = runtime;
+  const installDir = instance.install_dir;
+  const report = (step: ServerUpdateProgress['step'], message: string, percent?: number) => {
+    if (percent === undefined) {
+      console.log(`Updating ${instance.name}: ${message}`);
+    }
+    options.onProgress?.({ step, message, percent });
+  };
+
+  supervisor.holdStarts(UPDATE_ACTIVITY);
+  watchdog.cancelPendingRestart();
+  const wasRunning = supervisor.getStatus().running;
+
+  try {
+    if (wasRunning) {
+      report('stop', 'Stopping the server');
+      const stopped = await lifecycle.stop({ onProgress: progress => report('stop', progress.message) });
+      if (!stopped.success) {
+        return { error: `The server could not be stopped: ${stopped.message}` };
+      }
+    }
+
+    const previous = await readInstalledBuild(instance);
+    const backupDir = path.join(installDir, UPDATE_BACKUP_DIR);
+    const entries = await listInstallEntries(installDir);
+    report('backup', `Backing up ${entries.length} ${entries.length === 1 ? 'entry' : 'entries'} of ${installDir}`);
+    try {
+      await fs.rm(backupDir, { recursive: true, force: true });
+      await fs.mkdir(backupDir);
+      for (const entry of entries) {
+        await fs.cp(path.join(installDir, entry), path.join(backupDir, entry), { recursive: true, verbatimSymlinks: true });
+      }
+    } catch (error) {
+      // Nothing was changed yet, so a partial backup is just removed
+      await fs.rm(backupDir, { recursive: true, force: true });
+      return { error: `The install could not be backed up: ${(error as Error).message}` };
+    }
+
+    try {
+      report('download', previous.installed
+        ? `Updating build ${previous.buildId} (${previous.branch}) from the ${branch} branch${validate ? ' with validation' : ''}`
+        : `Installing from the ${branch} branch`);
+
+      let pending = '';
+      let lastPercent = -1;
+      const { stdout } = await runProcess(
+        steamCmd,
+        ['+force_install_dir', installDir, '+login', 'anonymous', ...getAppUpdateArgs(branch, validate), '+quit'],
+        {
+          cwd: getSteamCmdDir(instance),
+          timeout: STEAMCMD_TIMEOUT,
+          onOutput: chunk => {
+            // SteamCMD rewrites its progress line with carriage returns
+            const lines = (pending + chunk).split(/[\r\n]+/);
+            pending = lines.pop() ?? '';
+            for (const line of lines.map(text => text.trim()).filter(Boolean)) {
+              const progress = STEAMCMD_PROGRESS.exec(line);
+              const percent = progress ? Math.floor(Number(progress[1])) : undefined;
+              // A line per whole percent is plenty
+              if (percent === undefined || percent !== lastPercent) {
+                report('download', line, percent);
+                lastPercent = percent ?? lastPercent;
+              }
+            }
+          }
+        }
+      );
+      if (!STEAMCMD_SUCCESS.test(stdout)) {
+        const tail = stdout.trim().split('\n').slice(-5).join('\n');
+        throw new Error(`SteamCMD did not report a finished install${tail ? `: ${tail}` : ''}`);
+      }
+
+      report('verify', 'Checking the new install');
+      await fs.chmod(path.join(installDir, SERVER_SCRIPT), 0o755);
+      const build = await readInstalledBuild(instance);
+      if (!build.buildId) {
+        throw new Error('SteamCMD left no app manifest, so the installed build is unknown');
+      }
+
+      await fs.rm(backupDir, { recursive: true, force: true });
+      report('verify', previous.buildId === build.buildId && previous.branch === build.branch
+        ? `Build ${build.buildId} (${build.branch}) is already the newest`
+        : `Installed build ${build.buildId} (${build.branch})${previous.buildId ? `, was ${previous.buildId} (${previous.branch})` : ''}`);
+      return { build };
+    } catch (error) {
+      console.error(`Error updating ${instance.name}:`, error);
+      report('restore', `Update failed, restoring build ${previous.buildId ?? 'from before the update'}`);
+      try {
+        await restoreBackup(installDir);
+      } catch (restoreError) {
+        console.error(`Error restoring ${instance.name}:`, restoreError);
+        return {
+          error: `Update failed: ${(error as Error).message}. Restoring the backup failed too (${(restoreError as Error).message}) - it is in ${backupDir}`
+        };
+      }
+      return { error: `Update failed: ${(error as Error).message}`, restored: true };
+    }
+  } finally {
+    supervisor.holdStarts(null);
+    if (wasRunning && !supervisor.getStatus().running) {
+      report('start', 'Starting the server again');
+      const started = await lifecycle.start();
+      report('start', started.message);
+    }
+  }
+}
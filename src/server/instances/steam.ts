@@ -0,0 +1,73 @@
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { ServerInstance } from '../database';
+
+export const NANOS_APP_ID = '1936830';
+
+// Steam branches of the game server - standard is Steam's default "public" branch
+export const SERVER_BRANCHES = ['standard', 'bleeding-edge'] as const;
+export type ServerBranch = typeof SERVER_BRANCHES[number];
+
+// The installed build, as SteamCMD recorded it in the install's app manifest
+export interface ServerBuildInfo {
+  installed: boolean;
+  buildId: string | null;
+  branch: ServerBranch | null;
+  // ISO time SteamCMD last updated the install
+  lastUpdated: string | null;
+  sizeOnDisk: number | null;
+}
+
+// Where SteamCMD is unpacked for an instance
+export function getSteamCmdDir(instance: ServerInstance): string {
+  return path.join(instance.install_dir, 'steam');
+}
+
+function getAppManifestPath(instance: ServerInstance): string {
+  return path.join(instance.install_dir, 'steamapps', `appmanifest_${NANOS_APP_ID}.acf`);
+}
+
+/**
+ * SteamCMD arguments that install or update the server on a branch. Naming the branch every time
+ * matters: without -beta SteamCMD stays on whichever branch the install was last updated from.
+ */
+export function getAppUpdateArgs(branch: ServerBranch, validate: boolean): string[] {
+  return [
+    '+app_update', NANOS_APP_ID,
+    '-beta', branch === 'bleeding-edge' ? 'bleeding-edge' : 'public',
+    ...(validate ? ['validate'] : [])
+  ];
+}
+
+/**
+ * First value of a key in a Valve KeyValues (.acf) file - good enough for the flat keys read here
+ */
+function readAcfValue(content: string, key: string): string | null {
+  const match = new RegExp(`"${key}"\\s+"([^"]*)"`, 'i').exec(content);
+  return match ? match[1] : null;
+}
+
+/**
+ * Read the build SteamCMD installed - not installed when the app manifest is missing
+ */
+export async function readInstalledBuild(instance: ServerInstance): Promise<ServerBuildInfo> {
+  let content: string;
+  try {
+    content = await fs.readFile(getAppManifestPath(instance), 'utf-8');
+  } catch {
+    return { installed: false, buildId: null, branch: null, lastUpdated: null, sizeOnDisk: null };
+  }
+
+  const lastUpdated = Number(readAcfValue(content, 'LastUpdated'));
+  const sizeOnDisk = readAcfValue(content, 'SizeOnDisk');
+  // UserConfig comes first and holds the branch asked for; an empty key is the public branch
+  const betaKey = readAcfValue(content, 'BetaKey');
+
+  return {
+    installed: true,
+    buildId: readAcfValue(content, 'buildid'),
+    branch: betaKey === 'bleeding-edge' ? 'bleeding-edge' : 'standard',
+    lastUpdated: lastUpdated > 0 ? new Date(lastUpdated * 1000).toISOString() : null,
+    sizeOnDisk: sizeOnDisk ? Number(sizeOnDisk) : null
+  };
+}
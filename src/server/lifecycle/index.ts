@@ -0,0 +1,86 @@
+import { EventEmitter } from 'node:events';
+import type {
+  ServerSupervisor,
+  SupervisorStatus,
+  StopOptions,
+  StopStep
+} from '../supervisor';
+
+// Server state as sent to clients, both in responses and in server_state events
+export interface ServerState extends SupervisorStatus {
+  instanceId: number;
+  configPath: string;
+}
+
+// Outcome of a start, stop, restart or console command
+export interface ServerActionResult {
+  success: boolean;
+  message: string;
+  // Whether the server is running once the action has finished
+  running: boolean;
+  pid?: number;
+  stoppedBy?: StopStep;
+}
+
+/**
+ * The one place the dashboard starts, stops and talks to a game server instance from.
+ * The REST routes and socket handlers both go through it, so they answer the same way.
+ *
+ * Emits 'state' with a ServerState whenever the server changes phase, whoever caused it.
+ */
+export class ServerLifecycle extends EventEmitter {
+  private readonly instanceId: number;
+  private readonly configPath: string;
+  private readonly supervisor: ServerSupervisor;
+
+  constructor(instanceId: number, configPath: string, supervisor: ServerSupervisor) {
+    super();
+    this.instanceId = instanceId;
+    this.configPath = configPath;
+    this.supervisor = supervisor;
+    this.supervisor.on('state', () => this.emit('state', this.getState()));
+  }
+
+  getState(): ServerState {
+    return {
+      ...this.supervisor.getStatus(),
+      instanceId: this.instanceId,
+      configPath: this.configPath
+    };
+  }
+
+  async start(): Promise<ServerActionResult> {
+    const result = await this.supervisor.start();
+    return { ...result, running: this.supervisor.getStatus().running };
+  }
+
+  async stop(options: StopOptions = {}): Promise<ServerActionResult> {
+    const result = await this.supervisor.stop(options);
+    return {
+      success: result.success,
+      message: result.message,
+      stoppedBy: result.stoppedBy,
+      running: this.supervisor.getStatus().running
+    };
+  }
+
+  /**
+   * Stop the server if it is running and start it again - a stopped server is just started
+   */
+  async restart(options: StopOptions = {}): Promise<ServerActionResult> {
+    if (this.supervisor.getStatus().running) {
+      const stopped = await this.stop(options);
+      if (!stopped.success) {
+        return stopped;
+      }
+    }
+
+    const started = await this.start();
+    return started.success ? { ...started, message: 'Server restarted' } : started;
+  }
+
+  sendCommand(command: string): ServerActionResult {
+    const result = this.supervisor.sendCommand(command);
+    return { ...result, running: this.supervisor.getStatus().running };
+  }
+}
@@ -0,0 +1,391 @@
+import { createReadStream, createWriteStream } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { createInterface } from 'node:readline';
+import type { Readable, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createGunzip, createGzip } from 'node:zlib';
+import {
+  createServerLogRun,
+  getServerLogRun,
+  getLatestServerLogRun,
+  listServerLogRuns,
+  finishServerLogRun,
+  addServerLogSegment,
+  deleteServerLogRun,
+  type ServerLogRun
+} from '../database';
+import type { ServerSupervisor, ServerExit } from '../supervisor';
+import { getLogRetention } from './retention';
+import { parseLogLine, MAX_LOG_RECORDS, type LogMatcher, type LogRecord } from './index';
+import { cutLogHead } from './follower';
+
+// How often the live log is checked against the segment size
+const SIZE_CHECK_INTERVAL = 60 * 1000;
+// "segment-0003.log.gz", or "segment-0003.log" if compressing it failed
+const SEGMENT_FILE = /^segment-(\d+)\.log(\.gz)?$/;
+// Bytes read at a time when looking back for the end of the last whole line
+const LINE_END_CHUNK = 64 * 1024;
+
+// Run as returned by the API
+export interface LogRunInfo {
+  id: number;
+  startedAt: string;
+  endedAt: string | null;
+  exitCode: number | null;
+  signal: string | null;
+  segments: number;
+  bytes: number;
+  compressedBytes: number;
+  // The newest run, whose latest lines are still in the live log
+  live: boolean;
+}
+
+// A search match, with its line number within the run
+export interface LogSearchMatch extends LogRecord {
+  line: number;
+}
+
+/**
+ * "2024-05-01 14:03:27", the format SQLite's CURRENT_TIMESTAMP uses
+ */
+function toSqlTime(date: Date): string {
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function toRunInfo(run: ServerLogRun, live: boolean): LogRunInfo {
+  return {
+    id: run.id,
+    startedAt: run.started_at,
+    endedAt: run.ended_at,
+    exitCode: run.exit_code,
+    signal: run.signal,
+    segments: run.segments,
+    bytes: run.bytes,
+    compressedBytes: run.compressed_bytes,
+    live
+  };
+}
+
+async function getSize(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.stat(filePath)).size;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The offset just past the last newline before a point of a file, or the point itself if the
+ * file has no newline before it
+ */
+async function findLineEnd(filePath: string, before: number): Promise<number> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    for (let end = before; end > 0; end -= LINE_END_CHUNK) {
+      const start = Math.max(end - LINE_END_CHUNK, 0);
+      const buffer = Buffer.alloc(end - start);
+      await handle.read(buffer, 0, buffer.length, start);
+      const newline = buffer.lastIndexOf(0x0a);
+      if (newline !== -1) {
+        return start + newline + 1;
+      }
+    }
+    return before;
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Keeps the log of one instance across runs of its server.
+ *
+ * The server appends to a live log. Before every start, and whenever the live log grows past the
+ * segment size, its contents are moved into a compressed segment of the run they belong to. The
+ * newest run keeps the live log, so the last run's output stays readable after the server stops.
+ * Old runs are deleted according to the log retention.
+ */
+export class LogArchive {
+  private readonly instanceId: number;
+  private readonly logPath: string;
+  private readonly archiveDir: string;
+  private sizeTimer: NodeJS.Timeout | null = null;
+  // Segments are written one at a time, so a size check cannot overlap the rotation at a start
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(instanceId: number, logPath: string, archiveDir: string) {
+    this.instanceId = instanceId;
+    this.logPath = logPath;
+    this.archiveDir = archiveDir;
+  }
+
+  /**
+   * Follow a supervisor's starts and exits. Call once it has re-attached to a running server, if any.
+   */
+  track(supervisor: ServerSupervisor): void {
+    const status = supervisor.getStatus();
+    const latest = getLatestServerLogRun(this.instanceId);
+
+    if (status.running && (!latest || latest.ended_at)) {
+      // Started by a dashboard from before runs were recorded
+      createServerLogRun(this.instanceId, status.startedAt ? toSqlTime(new Date(status.startedAt)) : undefined);
+    } else if (!status.running && latest && !latest.ended_at) {
+      // The server went down while the dashboard was not running, so how is unknown
+      this.enqueue(async () => finishServerLogRun(latest.id, null, null, await this.getLastWrite()));
+    }
+
+    supervisor.on('start', () => {
+      createServerLogRun(this.instanceId);
+    });
+    supervisor.on('exit', (exit: ServerExit) => {
+      const run = getLatestServerLogRun(this.instanceId);
+      if (run && !run.ended_at) {
+        finishServerLogRun(run.id, exit.code, exit.signal);
+      }
+    });
+
+    this.sizeTimer = setInterval(() => {
+      this.enqueue(async () => {
+        const size = await getSize(this.logPath);
+        if (size !== null && size >= getLogRetention(this.instanceId).segmentSizeMb * 1024 * 1024) {
+          await this.sealLiveLog(true);
+          await this.prune();
+        }
+      });
+    }, SIZE_CHECK_INTERVAL);
+    this.sizeTimer.unref();
+
+    this.enqueue(() => this.prune());
+  }
+
+  /**
+   * Move the live log into the archive before the server starts again, so the new run begins with an empty log
+   */
+  rotate(): Promise<void> {
+    return this.enqueue(async () => {
+      await this.sealLiveLog(false);
+      await this.prune();
+    });
+  }
+
+  /**
+   * Delete the runs a changed retention no longer keeps
+   */
+  applyRetention(): Promise<void> {
+    return this.enqueue(() => this.prune());
+  }
+
+  /**
+   * Stop checking the live log's size, for an instance that is removed or reloaded
+   */
+  dispose(): void {
+    if (this.sizeTimer) {
+      clearInterval(this.sizeTimer);
+      this.sizeTimer = null;
+    }
+  }
+
+  /**
+   * Delete the live log and every archived run, for an instance that is removed. Its rows go with the instance.
+   */
+  async deleteFiles(): Promise<void> {
+    this.dispose();
+    await this.queue;
+    await fs.rm(this.archiveDir, { recursive: true, force: true });
+    await fs.rm(this.logPath, { force: true });
+  }
+
+  listRuns(): LogRunInfo[] {
+    return listServerLogRuns(this.instanceId).map((run, index) => toRunInfo(run, index === 0));
+  }
+
+  getRun(runId: number): LogRunInfo | undefined {
+    const run = getServerLogRun(runId);
+    if (!run || run.instance_id !== this.instanceId) {
+      return undefined;
+    }
+    return toRunInfo(run, getLatestServerLogRun(this.instanceId)?.id === run.id);
+  }
+
+  /**
+   * Search a whole run, segments and live log alike
+   * @param limit Most matches returned, counted from the start of the run
+   * @returns The first matches, how many lines matched in total and every package the run names
+   */
+  async search(run: LogRunInfo, match: LogMatcher, limit: number): Promise<{ matches: LogSearchMatch[]; total: number; sources: string[] }> {
+    const matches: LogSearchMatch[] = [];
+    const sources = new Set<string>();
+    const max = Math.min(Math.max(1, limit), MAX_LOG_RECORDS);
+    let total = 0;
+    let line = 0;
+
+    for (const open of await this.getRunParts(run)) {
+      for await (const text of createInterface({ input: open(), crlfDelay: Number.POSITIVE_INFINITY })) {
+        line++;
+        if (!text.trim()) {
+          continue;
+        }
+        const record = parseLogLine(text);
+        if (record.source) {
+          sources.add(record.source);
+        }
+        if (match(record)) {
+          total++;
+          if (matches.length < max) {
+            matches.push({ ...record, line });
+          }
+        }
+      }
+    }
+
+    return { matches, total, sources: [...sources].sort() };
+  }
+
+  /**
+   * Write a run's whole log, uncompressed, without ending the output
+   */
+  async writeRun(run: LogRunInfo, output: Writable): Promise<void> {
+    for (const open of await this.getRunParts(run)) {
+      await pipeline(open(), output, { end: false });
+    }
+  }
+
+  private getRunDir(runId: number): string {
+    return path.join(this.archiveDir, `run-${runId}`);
+  }
+
+  /**
+   * The parts of a run's log in order - its segments, then the live log if the run is the newest -
+   * each opened only when it is read
+   */
+  private async getRunParts(run: LogRunInfo): Promise<(() => Readable)[]> {
+    const dir = this.getRunDir(run.id);
+    let files: string[] = [];
+    try {
+      files = (await fs.readdir(dir))
+        .filter(file => SEGMENT_FILE.test(file))
+        .sort((a, b) => Number(SEGMENT_FILE.exec(a)?.[1]) - Number(SEGMENT_FILE.exec(b)?.[1]));
+    } catch {
+      // A run that never grew past the live log has no directory
+    }
+
+    const parts = files.map(file => () => {
+      const input = createReadStream(path.join(dir, file));
+      return file.endsWith('.gz') ? input.pipe(createGunzip()) : input;
+    });
+    if (run.live && await getSize(this.logPath) !== null) {
+      parts.push(() => createReadStream(this.logPath));
+    }
+    return parts;
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    this.queue = this.queue.then(task).catch(error => {
+      console.error(`Error archiving log ${this.logPath}:`, error);
+    });
+    return this.queue;
+  }
+
+  private async getLastWrite(): Promise<string> {
+    try {
+      return toSqlTime((await fs.stat(this.logPath)).mtime);
+    } catch {
+      return toSqlTime(new Date());
+    }
+  }
+
+  /**
+   * Move what is in the live log into a new compressed segment of the newest run
+   * @param wholeLines Leave a last line without a newline in the live log, for a server that may still be writing it
+   */
+  private async sealLiveLog(wholeLines: boolean): Promise<void> {
+    const written = await getSize(this.logPath);
+    const size = written && wholeLines ? await findLineEnd(this.logPath, written) : written;
+    if (!size) {
+      return;
+    }
+
+    let run = getLatestServerLogRun(this.instanceId);
+    if (!run) {
+      // A log written before runs were recorded becomes a run of its own
+      const runId = createServerLogRun(this.instanceId);
+      finishServerLogRun(runId, null, null, await this.getLastWrite());
+      run = getServerLogRun(runId);
+      if (!run) {
+        return;
+      }
+    }
+
+    const dir = this.getRunDir(run.id);
+    await fs.mkdir(dir, { recursive: true });
+    const rawPath = path.join(dir, `segment-${String(run.segments + 1).padStart(4, '0')}.log`);
+
+    // Copy and truncate rather than rename: the server keeps the file open and writes in append
+    // mode, so after the truncate it carries on at the start of the same, now empty, file.
+    // Only the bytes there before the copy go into the segment - what the server writes while it
+    // runs is read back and kept as the start of the emptied log
+    await pipeline(createReadStream(this.logPath, { start: 0, end: size - 1 }), createWriteStream(rawPath));
+    await cutLogHead(this.logPath, () => this.truncateLiveLog(size));
+    const bytes = size;
+
+    try {
+      await pipeline(createReadStream(rawPath), createGzip(), createWriteStream(`${rawPath}.gz`));
+      const compressed = (await fs.stat(`${rawPath}.gz`)).size;
+      await fs.rm(rawPath);
+      addServerLogSegment(run.id, bytes, compressed);
+    } catch (error) {
+      // The segment stays readable uncompressed
+      console.error(`Could not compress ${rawPath}:`, error);
+      await fs.rm(`${rawPath}.gz`, { force: true });
+      addServerLogSegment(run.id, bytes, bytes);
+    }
+  }
+
+  /**
+   * Drop the first bytes of the live log and keep the rest. Opened for appending, so a line the server
+   * writes between the truncate and the write-back is not overwritten.
+   *
+   * The file cannot be cut and written back in one step, so this is lossy for the moment it takes:
+   * output the server writes after the rest is read back and before the truncate is lost, and output
+   * written between the truncate and the write-back ends up ahead of the rest. Sealing happens once
+   * per segment, so that is at most a few lines each time the live log reaches the segment size.
+   * @returns How many bytes were dropped
+   */
+  private async truncateLiveLog(archived: number): Promise<number> {
+    const handle = await fs.open(this.logPath, 'a+');
+    try {
+      const { size } = await handle.stat();
+      const tail = Buffer.alloc(Math.max(size - archived, 0));
+      if (tail.length > 0) {
+        await handle.read(tail, 0, tail.length, archived);
+      }
+      await handle.truncate(0);
+      if (tail.length > 0) {
+        await handle.write(tail);
+      }
+      return archived;
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Delete the runs the retention no longer keeps. The newest run is always kept.
+   */
+  private async prune(): Promise<void> {
+    const { maxRuns, maxAgeDays } = getLogRetention(this.instanceId);
+    const oldest = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+    const runs = listServerLogRuns(this.instanceId);
+    for (const [index, run] of runs.entries()) {
+      if (index === 0) {
+        continue;
+      }
+      const tooOld = maxAgeDays > 0 && run.ended_at !== null && new Date(`${run.ended_at.replace(' ', 'T')}Z`).getTime() < oldest;
+      if (index >= maxRuns || tooOld) {
+        await fs.rm(this.getRunDir(run.id), { recursive: true, force: true });
+        deleteServerLogRun(run.id);
+      }
+    }
+  }
+}
@@ -0,0 +1,268 @@
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { statSync, watch, type FSWatcher } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import { StringDecoder } from 'node:string_decoder';
+import { parseLogLine, type LogRecord } from './index';
+
+// Lines kept for clients that reconnect and resume
+const RING_SIZE = 5000;
+// Checked in case a change event is missed, and to notice a log that did not exist yet
+const POLL_INTERVAL = 1000;
+// Largest read at once, so a log that grew a lot is taken in steps
+const READ_CHUNK = 1024 * 1024;
+
+// A line of the log with its place in the stream
+export interface LogEntry {
+  seq: number;
+  record: LogRecord;
+}
+
+// Where a subscriber has got to - the stream changes whenever the follower is recreated
+export interface LogCursor {
+  stream: string;
+  seq: number;
+}
+
+/**
+ * Follows one log file in process and numbers every line it reads.
+ *
+ * The last lines are kept in a ring buffer, so a client that reconnects can ask for everything
+ * after the last sequence number it saw instead of reloading the log. Numbers keep counting when
+ * the log is rotated and started over.
+ *
+ * Emits 'lines' with the LogEntry[] read in one go.
+ */
+export class LogFollower extends EventEmitter {
+  readonly logPath: string;
+  // Sequence numbers only mean something within one stream
+  readonly stream = randomUUID();
+  private readonly ring: (LogEntry | undefined)[] = new Array(RING_SIZE);
+  private seq = 0;
+  private position = 0;
+  private decoder = new StringDecoder('utf8');
+  private partial = '';
+  private watcher: FSWatcher | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private reading: Promise<void> | null = null;
+  private readAgain = false;
+  // Set while the start of the file is being cut off, when its contents are in flux
+  private cutting = false;
+
+  constructor(logPath: string) {
+    super();
+    this.logPath = logPath;
+  }
+
+  /**
+   * Start following from the current end of the log - what is already there is read from the file itself
+   */
+  start(): void {
+    try {
+      this.position = statSync(this.logPath).size;
+    } catch {
+      this.position = 0;
+    }
+
+    this.watchFile();
+    this.pollTimer = setInterval(() => this.read(), POLL_INTERVAL);
+    this.pollTimer.unref();
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.removeAllListeners();
+  }
+
+  /**
+   * How far the follower has read: the stream and last sequence number, and the byte offset
+   * up to which the file has been turned into entries
+   */
+  getCursor(): LogCursor & { position: number } {
+    return { stream: this.stream, seq: this.seq, position: this.position - Buffer.byteLength(this.partial) };
+  }
+
+  /**
+   * Entries after a sequence number of this stream
+   * @returns The entries, or null if some of them have already left the ring buffer
+   */
+  since(seq: number): LogEntry[] | null {
+    const oldest = Math.max(1, this.seq - RING_SIZE + 1);
+    if (seq + 1 < oldest) {
+      return null;
+    }
+
+    const entries: LogEntry[] = [];
+    for (let next = Math.max(seq + 1, oldest); next <= this.seq; next++) {
+      const entry = this.ring[next % RING_SIZE];
+      if (entry) {
+        entries.push(entry);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Cut off the start of the log, as the archive does when it seals a segment, without the follower
+   * reading the file halfway through or taking the lines kept for new ones. It reads up to the cut
+   * first, waits for it, and then carries on from the same line in the shorter file.
+   * @param cut Removes the start of the file and resolves with how many bytes it removed
+   */
+  async cutHead(cut: () => Promise<number>): Promise<void> {
+    await this.read();
+    this.cutting = true;
+    try {
+      const removed = await cut();
+      this.position = Math.max(this.position - removed, 0);
+    } finally {
+      this.cutting = false;
+    }
+    this.read();
+  }
+
+  /**
+   * Read whatever was added since the last read. Calls while a read runs are folded into one more read.
+   */
+  read(): Promise<void> {
+    if (this.reading) {
+      this.readAgain = true;
+      return this.reading;
+    }
+
+    this.reading = (async () => {
+      do {
+        this.readAgain = false;
+        await this.readNewContent();
+      } while (this.readAgain);
+    })().catch(error => {
+      console.error(`Error following ${this.logPath}:`, error);
+    }).finally(() => {
+      this.reading = null;
+    });
+    return this.reading;
+  }
+
+  private watchFile(): void {
+    try {
+      this.watcher = watch(this.logPath, { persistent: false }, eventType => {
+        this.read();
+        // A replaced file needs a new watch, the old one follows the file that is gone
+        if (eventType === 'rename') {
+          this.watcher?.close();
+          this.watcher = null;
+        }
+      });
+      this.watcher.on('error', () => {
+        this.watcher?.close();
+        this.watcher = null;
+      });
+    } catch {
+      // The log does not exist yet - polling finds it and watches it then
+    }
+  }
+
+  private async readNewContent(): Promise<void> {
+    if (this.cutting) {
+      return;
+    }
+
+    let size: number;
+    try {
+      size = (await fs.stat(this.logPath)).size;
+    } catch {
+      return;
+    }
+    if (!this.watcher && this.pollTimer) {
+      this.watchFile();
+    }
+
+    // The log was moved into the archive and started over
+    if (size < this.position) {
+      this.position = 0;
+      this.partial = '';
+      this.decoder = new StringDecoder('utf8');
+    }
+
+    if (size === this.position) {
+      return;
+    }
+
+    const file = await fs.open(this.logPath, 'r');
+    try {
+      while (this.position < size) {
+        const buffer = Buffer.alloc(Math.min(READ_CHUNK, size - this.position));
+        const { bytesRead } = await file.read(buffer, 0, buffer.length, this.position);
+        if (bytesRead === 0) {
+          break;
+        }
+        this.position += bytesRead;
+        this.addText(this.decoder.write(buffer.subarray(0, bytesRead)));
+      }
+    } finally {
+      await file.close();
+    }
+  }
+
+  private addText(text: string): void {
+    const lines = (this.partial + text).split('\n');
+    // The last part has no newline yet and waits for the rest of its line
+    this.partial = lines.pop() ?? '';
+
+    const entries: LogEntry[] = [];
+    for (const line of lines) {
+      const raw = line.endsWith('\r') ? line.slice(0, -1) : line;
+      if (!raw.trim()) {
+        continue;
+      }
+      const entry = { seq: ++this.seq, record: parseLogLine(raw) };
+      this.ring[entry.seq % RING_SIZE] = entry;
+      entries.push(entry);
+    }
+
+    if (entries.length > 0) {
+      this.emit('lines', entries);
+    }
+  }
+}
+
+// One follower per log file, however many clients read it
+const followers = new Map<string, LogFollower>();
+
+/**
+ * The follower of a log file, started on first use
+ */
+export function getLogFollower(logPath: string): LogFollower {
+  let follower = followers.get(logPath);
+  if (!follower) {
+    follower = new LogFollower(logPath);
+    followers.set(logPath, follower);
+    follower.start();
+  }
+  return follower;
+}
+
+/**
+ * Cut off the start of a log file through its follower, if it has one, so the follower keeps its place
+ * @param cut Removes the start of the file and resolves with how many bytes it removed
+ */
+export async function cutLogHead(logPath: string, cut: () => Promise<number>): Promise<void> {
+  const follower = followers.get(logPath);
+  if (follower) {
+    await follower.cutHead(cut);
+  } else {
+    await cut();
+  }
+}
+
+/**
+ * Stop following a log file, for an instance that is removed
+ */
+export function closeLogFollower(logPath: string): void {
+  followers.get(logPath)?.stop();
+  followers.delete(logPath);
+}
@@ -0,0 +1,281 @@
+import { createReadStream } from 'node:fs';
+import { createInterface } from 'node:readline';
+
+export const LOG_LEVELS = ['debug', 'info', 'warning', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+// One line of a server log, taken apart
+export interface LogRecord {
+  // As written by the server, e.g. "14:03:27.341" - null for lines without one
+  timestamp: string | null;
+  level: LogLevel;
+  // Package the line came from, when it names one
+  source: string | null;
+  message: string;
+  // The line itself, colour codes included
+  raw: string;
+}
+
+// What a client asks to see - every field left out matches everything
+export interface LogFilter {
+  levels?: LogLevel[];
+  sources?: string[];
+  // Regular expression, matched case-insensitively against the whole line - ones that could backtrack
+  // exponentially are refused
+  search?: string;
+}
+
+export type LogMatcher = (record: LogRecord) => boolean;
+
+// Most records one request can return, so a full history of a long-running server stays sendable
+export const MAX_LOG_RECORDS = 10000;
+const MAX_SEARCH_LENGTH = 200;
+
+// Colour codes the server writes to its console
+const ANSI_CODES = /\x1b\[[0-9;]*[A-Za-z]/g;
+// "[14:03:27]", "[14:03:27.341]" or a date in front of the time
+const TIMESTAMP = /^\[((?:\d{1,4}[-/.]\d{1,2}[-/.]\d{1,4}[ T])?\d{1,2}:\d{2}:\d{2}(?:[.,]\d+)?)\]\s*/;
+const TAG = /^\[([^\][]{1,64})\]\s*/;
+// Lines without a level tag that still say what they are
+const MESSAGE_LEVEL = /^(error|warning|warn)\b\s*:?/i;
+
+/**
+ * The level a tag such as "Warning", "Script Error" or "Debug" stands for, or null if it names something else
+ */
+function toLevel(tag: string): LogLevel | null {
+  const lower = tag.toLowerCase();
+  if (/error|fatal|critical/.test(lower)) return 'error';
+  if (lower.includes('warn')) return 'warning';
+  if (/debug|verbose|trace/.test(lower)) return 'debug';
+  if (lower === 'info' || lower === 'log') return 'info';
+  return null;
+}
+
+/**
+ * Split a Nanos World log line into its timestamp, level, package and message.
+ * A line looks like "[14:03:27.341] [Script Warning] [my-package] Something happened", where every
+ * part but the message is optional. Of several non-level tags, the one closest to the message is the package.
+ */
+export function parseLogLine(raw: string): LogRecord {
+  let rest = raw.replace(ANSI_CODES, '').trim();
+  let timestamp: string | null = null;
+  let level: LogLevel | null = null;
+  let source: string | null = null;
+
+  const time = TIMESTAMP.exec(rest);
+  if (time) {
+    timestamp = time[1];
+    rest = rest.slice(time[0].length);
+  }
+
+  for (let tag = TAG.exec(rest); tag; tag = TAG.exec(rest)) {
+    const tagLevel = toLevel(tag[1].trim());
+    if (tagLevel && !level) {
+      level = tagLevel;
+    } else if (!tagLevel) {
+      source = tag[1].trim();
+    }
+    rest = rest.slice(tag[0].length);
+  }
+
+  if (!level) {
+    const prefix = MESSAGE_LEVEL.exec(rest);
+    level = prefix ? (prefix[1].toLowerCase() === 'error' ? 'error' : 'warning') : 'info';
+  }
+
+  return { timestamp, level, source, message: rest, raw };
+}
+
+// A quantifier at the start of the rest of a pattern: how many times it lets the atom before it repeat
+const QUANTIFIER = /^(?:[*+?]|\{(\d+)(,(\d*))?\})/;
+
+/**
+ * Look for the constructs that make a regular expression backtrack exponentially on a line that
+ * almost matches, such as (a+)+ or (a|a)*: a group repeated by a quantifier while it holds a
+ * repeated atom or an alternation of its own. Backreferences are refused as well, since they are
+ * matched by backtracking alone. Patterns are taken apart only as far as needed to tell atoms,
+ * groups and quantifiers apart.
+ * @returns Why the pattern is refused, or null if it is safe to run on every log line
+ */
+function findBacktrackingHazard(source: string): string | null {
+  // Per open group: whether it repeats anything inside, and whether it has alternatives
+  const groups = [{ repeats: false, alternates: false }];
+  // The atom a quantifier would apply to: null before the first one and after a quantifier
+  let atom: { repeats: boolean; alternates: boolean } | null = null;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    const quantifier = QUANTIFIER.exec(source.slice(i));
+
+    if (quantifier && atom) {
+      // ? and {0,1} make an atom optional, only the others can repeat it
+      const max = quantifier[1] === undefined
+        ? (quantifier[0] === '?' ? 1 : Infinity)
+        : (quantifier[2] === undefined ? Number(quantifier[1]) : quantifier[3] ? Number(quantifier[3]) : Infinity);
+      if (max > 1) {
+        if (atom.repeats || atom.alternates) {
+          return 'a repeated group may not contain a repetition or alternatives of its own';
+        }
+        groups[groups.length - 1].repeats = true;
+      }
+      atom = null;
+      i += quantifier[0].length - 1;
+      // A lazy or possessive marker belongs to the quantifier
+      if (source[i + 1] === '?') {
+        i++;
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '\\':
+        if (/^[1-9]$/.test(source[i + 1] ?? '') || source[i + 1] === 'k') {
+          return 'backreferences are not supported';
+        }
+        atom = { repeats: false, alternates: false };
+        i++;
+        break;
+      case '[':
+        // Character class - runs to the first ] that is neither escaped nor its first character
+        i += source[i + 1] === '^' ? 2 : 1;
+        if (source[i] === ']') {
+          i++;
+        }
+        while (i < source.length && source[i] !== ']') {
+          i += source[i] === '\\' ? 2 : 1;
+        }
+        atom = { repeats: false, alternates: false };
+        break;
+      case '(': {
+        groups.push({ repeats: false, alternates: false });
+        // Skip the ?:, ?=, ?!, ?<=, ?<! or ?<name> that says what kind of group it is
+        const kind = /^\?(?:[:=!]|<[=!]|<[^>]*>)/.exec(source.slice(i + 1));
+        i += kind ? kind[0].length : 0;
+        atom = null;
+        break;
+      }
+      case ')': {
+        const group = groups.length > 1 ? groups.pop()! : { repeats: false, alternates: false };
+        // What the group holds counts for the groups around it too
+        groups[groups.length - 1].repeats ||= group.repeats;
+        groups[groups.length - 1].alternates ||= group.alternates;
+        atom = group;
+        break;
+      }
+      case '|':
+        groups[groups.length - 1].alternates = true;
+        atom = null;
+        break;
+      default:
+        atom = { repeats: false, alternates: false };
+    }
+  }
+  return null;
+}
+
+/**
+ * Check a filter sent by a client and turn it into a matcher
+ * @returns The matcher, or an error describing the first problem
+ */
+export function compileLogFilter(input: unknown): { match?: LogMatcher; error?: string } {
+  if (input === undefined || input === null) {
+    return { match: () => true };
+  }
+  if (typeof input !== 'object') {
+    return { error: 'Log filter must be an object' };
+  }
+
+  const { levels, sources, search } = input as Record<string, unknown>;
+
+  if (levels !== undefined && (!Array.isArray(levels) || !levels.every(level => LOG_LEVELS.includes(level)))) {
+    return { error: `Levels must be a list of ${LOG_LEVELS.join(', ')}` };
+  }
+  if (sources !== undefined && (!Array.isArray(sources) || !sources.every(source => typeof source === 'string'))) {
+    return { error: 'Sources must be a list of package names' };
+  }
+
+  let pattern: RegExp | null = null;
+  if (search !== undefined && search !== '') {
+    if (typeof search !== 'string' || search.length > MAX_SEARCH_LENGTH) {
+      return { error: `Search must be a regular expression of at most ${MAX_SEARCH_LENGTH} characters` };
+    }
+    try {
+      pattern = new RegExp(search, 'i');
+    } catch (error) {
+      return { error: `Invalid search expression: ${(error as Error).message}` };
+    }
+    // The pattern runs on every line of a log, on the server's event loop
+    const hazard = findBacktrackingHazard(search);
+    if (hazard) {
+      return { error: `Search expression is too expensive to run: ${hazard}` };
+    }
+  }
+
+  const levelSet = levels ? new Set<string>(levels) : null;
+  const sourceSet = sources && sources.length > 0 ? new Set<string>(sources) : null;
+
+  return {
+    match: record => (!levelSet || levelSet.has(record.level))
+      && (!sourceSet || (record.source !== null && sourceSet.has(record.source)))
+      && (!pattern || pattern.test(record.raw.replace(ANSI_CODES, '')))
+  };
+}
+
+/**
+ * Comma-separated query parameter as a list, undefined when it is not set
+ */
+function queryList(value: unknown): string[] | undefined {
+  return typeof value === 'string' && value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+}
+
+/**
+ * Turn the level, source and search query parameters of a log request into a matcher.
+ * Levels and sources are comma-separated lists.
+ */
+export function compileLogQuery(query: Record<string, unknown>): { match?: LogMatcher; error?: string } {
+  return compileLogFilter({
+    levels: queryList(query.level),
+    sources: queryList(query.source),
+    search: typeof query.search === 'string' ? query.search : undefined
+  });
+}
+
+/**
+ * Read a log file line by line and keep the last records that match, so a large history is
+ * filtered here rather than sent to the browser in full
+ * @param limit Most matching records to return, counted from the end of the file
+ * @param end Byte offset to stop reading at, for a history that a follower carries on from
+ * @returns The matching records, oldest first, and every package seen in the whole file
+ */
+export async function readLogRecords(logPath: string, limit: number, match: LogMatcher, end?: number): Promise<{ records: LogRecord[]; sources: string[] }> {
+  const records: LogRecord[] = [];
+  const sources = new Set<string>();
+  const max = Math.min(Math.max(1, limit), MAX_LOG_RECORDS);
+  if (end === 0) {
+    return { records, sources: [] };
+  }
+
+  const input = createReadStream(logPath, { encoding: 'utf-8', end: end === undefined ? undefined : end - 1 });
+  const lines = createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+  for await (const line of lines) {
+    if (!line.trim()) {
+      continue;
+    }
+    const record = parseLogLine(line);
+    if (record.source) {
+      sources.add(record.source);
+    }
+    if (match(record)) {
+      records.push(record);
+      // Trim in batches rather than shifting on every line
+      if (records.length >= max * 2) {
+        records.splice(0, records.length - max);
+      }
+    }
+  }
+
+  return {
+    records: records.slice(-max),
+    sources: [...sources].sort()
+  };
+}
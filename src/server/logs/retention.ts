@@ -0,0 +1,67 @@
+import { getInstanceSetting, setInstanceSetting } from '../database';
+
+const RETENTION_SETTING_KEY = 'log_retention';
+
+// How server logs are split up and how long they are kept
+export interface LogRetention {
+  // The live log is moved into a compressed segment once it grows past this size
+  segmentSizeMb: number;
+  // Most runs kept per instance, counting the current one
+  maxRuns: number;
+  // Runs that ended longer ago are deleted - 0 keeps them regardless of age
+  maxAgeDays: number;
+}
+
+export const DEFAULT_LOG_RETENTION: LogRetention = {
+  segmentSizeMb: 10,
+  maxRuns: 50,
+  maxAgeDays: 30
+};
+
+// Allowed range for each field
+const RETENTION_LIMITS: Record<keyof LogRetention, [number, number]> = {
+  segmentSizeMb: [1, 500],
+  maxRuns: [1, 1000],
+  maxAgeDays: [0, 3650]
+};
+
+export function getLogRetention(instanceId: number): LogRetention {
+  const stored = getInstanceSetting(instanceId, RETENTION_SETTING_KEY);
+  if (!stored) {
+    return { ...DEFAULT_LOG_RETENTION };
+  }
+
+  try {
+    return { ...DEFAULT_LOG_RETENTION, ...JSON.parse(stored) };
+  } catch {
+    console.error('Ignoring unreadable log retention, using defaults');
+    return { ...DEFAULT_LOG_RETENTION };
+  }
+}
+
+/**
+ * Validate and store an instance's log retention. Fields left out keep their current value.
+ * @returns The saved retention, or an error describing the first invalid field
+ */
+export function saveLogRetention(instanceId: number, input: unknown): { retention?: LogRetention; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Log retention must be an object' };
+  }
+
+  const values = input as Record<string, unknown>;
+  const retention = getLogRetention(instanceId);
+
+  for (const [field, [min, max]] of Object.entries(RETENTION_LIMITS) as [keyof LogRetention, [number, number]][]) {
+    const value = values[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      return { error: `${field} must be a whole number between ${min} and ${max}` };
+    }
+    retention[field] = value;
+  }
+
+  setInstanceSetting(instanceId, RETENTION_SETTING_KEY, JSON.stringify(retention));
+  return { retention };
+}
@@ -0,0 +1,337 @@
+import { EventEmitter } from 'node:events';
+import { readFile } from 'node:fs/promises';
+import * as os from 'node:os';
+import * as osUtils from 'node-os-utils';
+import {
+  insertMetricSample,
+  rollUpMetricSamples,
+  deleteMetricSamplesBefore,
+  queryMetricSamples,
+  insertProcessMetricSample,
+  rollUpProcessMetricSamples,
+  deleteProcessMetricSamplesBefore,
+  queryProcessMetricSamples,
+  type MetricSample,
+  type ProcessMetricSample
+} from '../database';
+import { instanceManager, type InstanceRuntime } from '../instances';
+import { readProcessCounters, type ProcessCounters } from './process';
+
+export const SAMPLE_INTERVAL_SECONDS = 5;
+const ROLLUP_INTERVAL = 60 * 1000;
+// Most points a history response holds - longer ranges are averaged into wider steps
+const MAX_HISTORY_POINTS = 360;
+
+// Each resolution is averaged from the one before it and kept for as long as stated
+const RESOLUTIONS = [
+  { seconds: SAMPLE_INTERVAL_SECONDS, keepSeconds: 24 * 60 * 60 },
+  { seconds: 60, keepSeconds: 7 * 24 * 60 * 60 },
+  { seconds: 60 * 60, keepSeconds: 90 * 24 * 60 * 60 }
+];
+
+// Ranges the history can be requested for, in seconds
+export const METRIC_RANGES = {
+  '1h': 60 * 60,
+  '6h': 6 * 60 * 60,
+  '24h': 24 * 60 * 60,
+  '7d': 7 * 24 * 60 * 60,
+  '30d': 30 * 24 * 60 * 60,
+  '90d': 90 * 24 * 60 * 60
+} as const;
+
+export type MetricRange = keyof typeof METRIC_RANGES;
+
+// Sample as returned by the API
+export interface MetricSampleInfo {
+  timestamp: number;
+  cpu: number;
+  memoryUsed: number;
+  memoryTotal: number;
+  diskUsed: number;
+  diskTotal: number;
+  networkRx: number;
+  networkTx: number;
+}
+
+// Process sample as returned by the API and sent with system_metrics
+export interface ProcessMetricsInfo {
+  timestamp: number;
+  cpu: number;
+  rss: number;
+  threads: number;
+  openFiles: number;
+  sockets: number;
+}
+
+export interface MetricsHistory<T = MetricSampleInfo> {
+  range: MetricRange;
+  // Seconds each sample averages
+  step: number;
+  samples: T[];
+}
+
+// Byte counters of every interface but loopback, as of a moment
+interface NetworkCounters {
+  rx: number;
+  tx: number;
+  time: number;
+}
+
+// The last reading of an instance's server process, which the next one measures CPU against
+interface ProcessReading {
+  pid: number;
+  counters: ProcessCounters;
+  time: number;
+  latest: ProcessMetricSample | null;
+}
+
+export function isMetricRange(value: unknown): value is MetricRange {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(METRIC_RANGES, value);
+}
+
+export function toMetricSampleInfo(sample: MetricSample): MetricSampleInfo {
+  return {
+    timestamp: sample.timestamp,
+    cpu: sample.cpu,
+    memoryUsed: sample.memory_used,
+    memoryTotal: sample.memory_total,
+    diskUsed: sample.disk_used,
+    diskTotal: sample.disk_total,
+    networkRx: sample.network_rx,
+    networkTx: sample.network_tx
+  };
+}
+
+export function toProcessMetricsInfo(sample: ProcessMetricSample): ProcessMetricsInfo {
+  return {
+    timestamp: sample.timestamp,
+    cpu: sample.cpu,
+    rss: sample.rss,
+    threads: sample.threads,
+    openFiles: sample.open_files,
+    sockets: sample.sockets
+  };
+}
+
+/**
+ * The resolution a range is read from - the finest that still covers it - and the step it is averaged into
+ */
+function planHistory(range: MetricRange): { resolution: number, step: number, from: number } {
+  const seconds = METRIC_RANGES[range];
+  const resolution = RESOLUTIONS.find(candidate => candidate.keepSeconds >= seconds) ?? RESOLUTIONS[RESOLUTIONS.length - 1];
+  return {
+    resolution: resolution.seconds,
+    // Whole multiples of the resolution, so every step averages the same number of rows
+    step: Math.max(1, Math.ceil(seconds / MAX_HISTORY_POINTS / resolution.seconds)) * resolution.seconds,
+    from: Math.floor(Date.now() / 1000) - seconds
+  };
+}
+
+/**
+ * Read the received and sent byte totals from /proc/net/dev - null where it does not exist
+ */
+async function readNetworkCounters(): Promise<NetworkCounters | null> {
+  try {
+    const content = await readFile('/proc/net/dev', 'utf8');
+    let rx = 0;
+    let tx = 0;
+    // The first two lines are headers
+    for (const line of content.split('\n').slice(2)) {
+      const [name, values] = line.split(':');
+      if (!values || name.trim() === 'lo') continue;
+
+      const fields = values.trim().split(/\s+/);
+      rx += Number(fields[0]) || 0;
+      tx += Number(fields[8]) || 0;
+    }
+    return { rx, tx, time: Date.now() };
+  } catch {
+    return null;
+  }
+}
+
+async function readDiskUsage(): Promise<{ used: number, total: number }> {
+  try {
+    const diskData = await osUtils.drive.info('/');
+    const total = Number(diskData.totalGb) * 1024 * 1024 * 1024;
+    return {
+      used: total - Number(diskData.freeGb) * 1024 * 1024 * 1024,
+      total
+    };
+  } catch (error) {
+    console.error('Error getting disk info:', error);
+    return { used: 0, total: 0 };
+  }
+}
+
+/**
+ * Samples the host and each instance's server process once for everyone and keeps the history,
+ * averaging older samples into coarser resolutions and dropping each once it is past its retention.
+ */
+class MetricsSampler extends EventEmitter {
+  private sampleTimer: NodeJS.Timeout | null = null;
+  private rollupTimer: NodeJS.Timeout | null = null;
+  private network: NetworkCounters | null = null;
+  private latest: MetricSample | null = null;
+  private processes: Map<number, ProcessReading> = new Map();
+  private sampling = false;
+
+  start(): void {
+    if (this.sampleTimer) return;
+
+    this.sampleTimer = setInterval(() => this.sample(), SAMPLE_INTERVAL_SECONDS * 1000);
+    this.rollupTimer = setInterval(() => this.rollUp(), ROLLUP_INTERVAL);
+    this.sample();
+    this.rollUp();
+  }
+
+  stop(): void {
+    if (this.sampleTimer) clearInterval(this.sampleTimer);
+    if (this.rollupTimer) clearInterval(this.rollupTimer);
+    this.sampleTimer = null;
+    this.rollupTimer = null;
+  }
+
+  /**
+   * The most recent sample, or null until the first one is taken
+   */
+  getLatest(): MetricSample | null {
+    return this.latest;
+  }
+
+  /**
+   * The most recent sample of each running server process, by instance ID
+   */
+  getProcessMetrics(): Record<number, ProcessMetricsInfo> {
+    const metrics: Record<number, ProcessMetricsInfo> = {};
+    for (const [instanceId, reading] of this.processes) {
+      if (reading.latest) {
+        metrics[instanceId] = toProcessMetricsInfo(reading.latest);
+      }
+    }
+    return metrics;
+  }
+
+  getHistory(range: MetricRange): MetricsHistory {
+    const { resolution, step, from } = planHistory(range);
+    return {
+      range,
+      step,
+      samples: queryMetricSamples(resolution, from, step).map(toMetricSampleInfo)
+    };
+  }
+
+  getProcessHistory(instanceId: number, range: MetricRange): MetricsHistory<ProcessMetricsInfo> {
+    const { resolution, step, from } = planHistory(range);
+    return {
+      range,
+      step,
+      samples: queryProcessMetricSamples(instanceId, resolution, from, step).map(toProcessMetricsInfo)
+    };
+  }
+
+  private async sample(): Promise<void> {
+    // CPU usage takes a second to measure, so a slow host must not pile samples up
+    if (this.sampling) return;
+    this.sampling = true;
+
+    try {
+      const [cpu, disk, network] = await Promise.all([
+        osUtils.cpu.usage(),
+        readDiskUsage(),
+        readNetworkCounters(),
+        this.sampleProcesses()
+      ]);
+
+      // Rates need two readings, so the very first sample reports none
+      let networkRx = 0;
+      let networkTx = 0;
+      if (network && this.network && network.time > this.network.time) {
+        const elapsed = (network.time - this.network.time) / 1000;
+        // Counters restart when an interface comes back, which would read as a negative rate
+        networkRx = Math.max(0, (network.rx - this.network.rx) / elapsed);
+        networkTx = Math.max(0, (network.tx - this.network.tx) / elapsed);
+      }
+      this.network = network;
+
+      const totalMem = os.totalmem();
+      const sample: MetricSample = {
+        timestamp: Math.floor(Date.now() / 1000),
+        cpu,
+        memory_used: totalMem - os.freemem(),
+        memory_total: totalMem,
+        disk_used: Math.round(disk.used),
+        disk_total: Math.round(disk.total),
+        network_rx: networkRx,
+        network_tx: networkTx
+      };
+
+      this.latest = sample;
+      insertMetricSample(SAMPLE_INTERVAL_SECONDS, sample);
+      this.emit('sample', sample);
+    } catch (error) {
+      console.error('Error sampling system metrics:', error);
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  private async sampleProcesses(): Promise<void> {
+    const runtimes = instanceManager.list();
+    // Forget instances that were deleted
+    for (const instanceId of this.processes.keys()) {
+      if (!runtimes.some(runtime => runtime.instance.id === instanceId)) {
+        this.processes.delete(instanceId);
+      }
+    }
+    await Promise.all(runtimes.map(runtime => this.sampleProcess(runtime)));
+  }
+
+  private async sampleProcess(runtime: InstanceRuntime): Promise<void> {
+    const instanceId = runtime.instance.id;
+    const pid = runtime.supervisor.getStatus().pid;
+    const counters = pid ? await readProcessCounters(pid) : null;
+    if (!pid || !counters) {
+      this.processes.delete(instanceId);
+      return;
+    }
+
+    const time = Date.now();
+    const previous = this.processes.get(instanceId);
+    const reading: ProcessReading = { pid, counters, time, latest: null };
+    this.processes.set(instanceId, reading);
+
+    // CPU is measured between two readings, so a process just started waits for its second one
+    if (!previous || previous.pid !== pid || time <= previous.time) return;
+
+    const elapsed = (time - previous.time) / 1000;
+    reading.latest = {
+      instance_id: instanceId,
+      timestamp: Math.floor(time / 1000),
+      cpu: Math.max(0, ((counters.cpuSeconds - previous.counters.cpuSeconds) / elapsed) * 100),
+      rss: counters.rss,
+      threads: counters.threads,
+      open_files: counters.openFiles,
+      sockets: counters.sockets
+    };
+    insertProcessMetricSample(SAMPLE_INTERVAL_SECONDS, reading.latest);
+  }
+
+  private rollUp(): void {
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      for (let i = 1; i < RESOLUTIONS.length; i++) {
+        rollUpMetricSamples(RESOLUTIONS[i - 1].seconds, RESOLUTIONS[i].seconds, now);
+        rollUpProcessMetricSamples(RESOLUTIONS[i - 1].seconds, RESOLUTIONS[i].seconds, now);
+      }
+      for (const resolution of RESOLUTIONS) {
+        deleteMetricSamplesBefore(resolution.seconds, now - resolution.keepSeconds);
+        deleteProcessMetricSamplesBefore(resolution.seconds, now - resolution.keepSeconds);
+      }
+    } catch (error) {
+      console.error('Error rolling up system metrics:', error);
+    }
+  }
+}
+
+export const metricsSampler = new MetricsSampler();
@@ -0,0 +1,141 @@
+import { readFile, readdir, readlink } from 'node:fs/promises';
+
+// Kernel clock ticks per second that CPU times in /proc are counted in - 100 on every Linux build we run on
+const CLOCK_TICKS = 100;
+// Socket tables of the process's network namespace - unix sockets are not network sockets
+const NETWORK_TABLES = ['tcp', 'tcp6', 'udp', 'udp6'];
+
+// Totals over a process and everything it started, as of a moment
+export interface ProcessCounters {
+  // Seconds of CPU time used so far
+  cpuSeconds: number;
+  rss: number;
+  threads: number;
+  openFiles: number;
+  sockets: number;
+}
+
+interface ProcessStat {
+  ppid: number;
+  cpuSeconds: number;
+  threads: number;
+}
+
+async function readStat(pid: number): Promise<ProcessStat | null> {
+  try {
+    const content = await readFile(`/proc/${pid}/stat`, 'utf8');
+    // The command name can hold spaces and brackets, so fields are counted from the last one
+    const fields = content.slice(content.lastIndexOf(')') + 2).split(' ');
+    return {
+      ppid: Number(fields[1]),
+      cpuSeconds: (Number(fields[11]) + Number(fields[12])) / CLOCK_TICKS,
+      threads: Number(fields[17])
+    };
+  } catch {
+    return null;
+  }
+}
+
+async function readRss(pid: number): Promise<number> {
+  try {
+    const content = await readFile(`/proc/${pid}/status`, 'utf8');
+    const match = content.match(/^VmRSS:\s+(\d+) kB/m);
+    return match ? Number(match[1]) * 1024 : 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Inodes of every socket open on one process - readlink gives "socket:[inode]" for them
+ */
+async function readFileDescriptors(pid: number): Promise<{ count: number, socketInodes: string[] }> {
+  let fds: string[];
+  try {
+    fds = await readdir(`/proc/${pid}/fd`);
+  } catch {
+    return { count: 0, socketInodes: [] };
+  }
+
+  const socketInodes: string[] = [];
+  await Promise.all(fds.map(async fd => {
+    try {
+      const target = await readlink(`/proc/${pid}/fd/${fd}`);
+      const match = target.match(/^socket:\[(\d+)\]$/);
+      if (match) socketInodes.push(match[1]);
+    } catch {
+      // Closed while being listed
+    }
+  }));
+  return { count: fds.length, socketInodes };
+}
+
+async function readNetworkInodes(pid: number): Promise<Set<string>> {
+  const inodes = new Set<string>();
+  await Promise.all(NETWORK_TABLES.map(async table => {
+    try {
+      const content = await readFile(`/proc/${pid}/net/${table}`, 'utf8');
+      // Skip the header - the inode is the tenth column
+      for (const line of content.split('\n').slice(1)) {
+        const inode = line.trim().split(/\s+/)[9];
+        if (inode && inode !== '0') inodes.add(inode);
+      }
+    } catch {
+      // Not built into this kernel
+    }
+  }));
+  return inodes;
+}
+
+/**
+ * The process and all its descendants - the server script may run the game server as a child
+ * rather than exec it, and the script alone would say nothing about the server
+ */
+async function readProcessTree(pid: number): Promise<Map<number, ProcessStat> | null> {
+  const root = await readStat(pid);
+  if (!root) return null;
+
+  const stats = new Map<number, ProcessStat>();
+  try {
+    const pids = (await readdir('/proc')).filter(name => /^\d+$/.test(name)).map(Number);
+    await Promise.all(pids.map(async other => {
+      const stat = other === pid ? root : await readStat(other);
+      if (stat) stats.set(other, stat);
+    }));
+  } catch {
+    return new Map([[pid, root]]);
+  }
+
+  const tree = new Map<number, ProcessStat>([[pid, root]]);
+  let added = true;
+  while (added) {
+    added = false;
+    for (const [other, stat] of stats) {
+      if (!tree.has(other) && tree.has(stat.ppid)) {
+        tree.set(other, stat);
+        added = true;
+      }
+    }
+  }
+  return tree;
+}
+
+/**
+ * Read the resource use of a process from /proc - null once it no longer exists
+ */
+export async function readProcessCounters(pid: number): Promise<ProcessCounters | null> {
+  const tree = await readProcessTree(pid);
+  if (!tree) return null;
+
+  const networkInodes = await readNetworkInodes(pid);
+  const counters: ProcessCounters = { cpuSeconds: 0, rss: 0, threads: 0, openFiles: 0, sockets: 0 };
+  await Promise.all([...tree].map(async ([member, stat]) => {
+    const [rss, fds] = await Promise.all([readRss(member), readFileDescriptors(member)]);
+    counters.cpuSeconds += stat.cpuSeconds;
+    counters.threads += stat.threads;
+    counters.rss += rss;
+    counters.openFiles += fds.count;
+    counters.sockets += fds.socketInodes.filter(inode => networkInodes.has(inode)).length;
+  }));
+  return counters;
+}
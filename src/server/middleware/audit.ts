@@ -0,0 +1,47 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { recordAudit, getOutcome, type AuditAction } from '../audit';
+
+// Define interface for user in request
+interface RequestWithUser extends Request {
+  user?: {
+    id: number;
+    username: string;
+    apiKeyId?: number;
+  };
+}
+
+type AuditDescriber = (req: Request) => { target?: string; details?: Record<string, unknown> };
+
+/**
+ * Middleware factory that records the request in the audit log once the response has been sent.
+ * Place it before requirePermission so denied attempts are recorded too.
+ * @param describe Builds the target and arguments from the request; called after the handler ran
+ */
+export function auditAction(action: AuditAction, describe?: AuditDescriber): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    let responseBody: unknown;
+
+    // Capture the JSON body so its success/error fields can be recorded
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    res.on('finish', () => {
+      const { target, details } = describe ? describe(req) : {};
+      const user = (req as RequestWithUser).user;
+      recordAudit({
+        actor: user,
+        ip: req.ip,
+        action,
+        target,
+        // Note which key made the change, since keys act as their owner
+        details: user?.apiKeyId ? { ...details, apiKeyId: user.apiKeyId } : details,
+        ...getOutcome(responseBody, res.statusCode >= 400)
+      });
+    });
+
+    next();
+  };
+}
@@ -1,18 +1,58 @@
 import type { Request, Response, NextFunction } from 'express';
+import { authenticateSessionToken } from '../auth/sessions';
+import { API_KEY_PREFIX, authenticateApiKey, apiKeyAllowsRequest } from '../auth/apiKeys';
+import { attemptLogin, getRetryMessage } from '../auth/throttle';
 
 /**
- * Middleware to authenticate API requests with username/password
+ * Middleware to authenticate API requests with a session token or API key (Bearer),
+ * or with username/password (Basic) for scripts using the API directly
  */
-export function authenticateRequest(req: Request, res: Response, next: NextFunction): void {
+export async function authenticateRequest(req: Request, res: Response, next: NextFunction): Promise<void> {
   // Get authorization header
   const authHeader = req.headers.authorization;
   
   console.log('API auth attempt:', {
     path: req.path,
     hasAuthHeader: !!authHeader,
-    isBasicAuth: authHeader?.startsWith('Basic ')
+    isBasicAuth: authHeader?.startsWith('Basic '),
+    isBearerAuth: authHeader?.startsWith('Bearer ')
   });
   
+  if (authHeader?.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    const apiKey = authenticateApiKey(authHeader.slice(7).trim(), req.ip);
+    
+    if (!apiKey) {
+      console.log('API authentication failed: Invalid, expired or revoked API key');
+      res.status(401).json({ error: 'API key invalid, expired or revoked' });
+      return;
+    }
+    
+    // Keys only reach the routes their scopes list; the owner's role is still checked by requirePermission
+    if (!apiKeyAllowsRequest(apiKey.scopes, req)) {
+      console.log(`API key ${apiKey.user.apiKeyId} of ${apiKey.user.username} not scoped for ${req.method} ${req.originalUrl}`);
+      res.status(403).json({ success: false, error: 'This API key is not allowed to call this route' });
+      return;
+    }
+    
+    (req as any).user = apiKey.user;
+    next();
+    return;
+  }
+  
+  if (authHeader?.startsWith('Bearer ')) {
+    const user = authenticateSessionToken(authHeader.slice(7).trim());
+    
+    if (!user) {
+      console.log('API authentication failed: Invalid or expired session');
+      res.status(401).json({ error: 'Session expired or invalid' });
+      return;
+    }
+    
+    (req as any).user = user;
+    next();
+    return;
+  }
+  
   if (!authHeader || !authHeader.startsWith('Basic ')) {
     console.log('API authentication failed: No valid authorization header');
     res.status(401).json({ error: 'Authentication required' });
@@ -23,20 +63,36 @@ export function authenticateRequest(req: Request, res: Response, next: NextFunct
     // Extract and decode the base64 credentials
     const base64Credentials = authHeader.split(' ')[1];
     const credentials = Buffer.from(base64Credentials, 'base64').toString('utf8');
-    const [username, password] = credentials.split(':');
+    
+    // Passwords may contain colons, usernames may not
+    const separatorIndex = credentials.indexOf(':');
+    const username = separatorIndex >= 0 ? credentials.slice(0, separatorIndex) : credentials;
+    const password = separatorIndex >= 0 ? credentials.slice(separatorIndex + 1) : '';
     
     console.log('API credentials check:', { 
       username, 
-      passwordProvided: !!password,
-      expectedUsername: process.env.ADMIN_USERNAME
+      passwordProvided: !!password
     });
     
-    // Compare with environment variables
-    if (username === process.env.ADMIN_USERNAME && 
-        password === process.env.ADMIN_PASSWORD) {
+    // Compare against the accounts stored in the database, subject to brute-force limits
+    const { user, retryAfter, twoFactorRequired } = password ? await attemptLogin(username, password, req.ip, 'basic') : { user: null };
+    
+    if (retryAfter) {
+      res.set('Retry-After', String(retryAfter));
+      res.status(429).json({ error: getRetryMessage(retryAfter), retryAfter });
+      return;
+    }
+    
+    // Basic auth has nowhere to put a one-time code, so these accounts must use a session
+    if (twoFactorRequired) {
+      res.status(401).json({ error: 'Two-factor authentication is enabled for this account. Log in through /api/auth/login instead' });
+      return;
+    }
+    
+    if (user) {
       console.log('API authentication successful for:', username);
       // Add user info to request
-      (req as any).user = { username };
+      (req as any).user = user;
       next();
     } else {
       console.log('API authentication failed: Invalid credentials');
@@ -48,4 +104,4 @@ export function authenticateRequest(req: Request, res: Response, next: NextFunct
     res.status(403).json({ error: 'Authentication error' });
     return;
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,41 @@
+import type { Request, Response, NextFunction } from 'express';
+import { instanceManager, type InstanceRuntime } from '../instances';
+
+// Requests name their instance with this header, or the instance query parameter
+export const INSTANCE_HEADER = 'x-instance-id';
+
+// Set by resolveInstance on every router mounted behind it
+interface RequestWithInstance extends Request {
+  instance?: InstanceRuntime;
+}
+
+/**
+ * Look up the server instance a request is for and attach it as req.instance.
+ * Requests that do not name one get the default instance, so older clients and API keys keep working.
+ */
+export function resolveInstance(req: Request, res: Response, next: NextFunction): void {
+  const requested = req.header(INSTANCE_HEADER) || (typeof req.query.instance === 'string' ? req.query.instance : undefined);
+
+  const runtime = requested === undefined
+    ? instanceManager.getDefault()
+    : instanceManager.get(Number.parseInt(requested, 10));
+
+  if (!runtime) {
+    res.status(404).json({ success: false, message: 'Server instance not found', error: 'Server instance not found' });
+    return;
+  }
+
+  (req as RequestWithInstance).instance = runtime;
+  next();
+}
+
+/**
+ * The instance resolveInstance attached to a request
+ */
+export function getRequestInstance(req: Request): InstanceRuntime {
+  const runtime = (req as RequestWithInstance).instance;
+  if (!runtime) {
+    throw new Error('Route is not mounted behind resolveInstance');
+  }
+  return runtime;
+}
@@ -0,0 +1,33 @@
+import type { Request, Response, NextFunction, RequestHandler } from 'express';
+import { hasPermission, type Permission } from '../auth/permissions';
+
+// Define interface for user in request
+interface RequestWithUser extends Request {
+  user?: {
+    username: string;
+    role: string;
+  };
+}
+
+/**
+ * Middleware factory that rejects requests from users whose role lacks a permission.
+ * Must run after authenticateRequest.
+ */
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const user = (req as RequestWithUser).user;
+
+    if (!user) {
+      res.status(401).json({ success: false, error: 'Authentication required' });
+      return;
+    }
+
+    if (!hasPermission(user.role, permission)) {
+      console.log(`Permission denied: ${user.username} (${user.role}) lacks ${permission} for ${req.method} ${req.originalUrl}`);
+      res.status(403).json({ success: false, error: `Your role does not allow this action (${permission})` });
+      return;
+    }
+
+    next();
+  };
+}
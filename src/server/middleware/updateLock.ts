@@ -0,0 +1,24 @@
+import type { Request, Response, NextFunction } from 'express';
+import { updateChecker } from '../updates';
+
+// Authenticated routes left open while a required update is pending: the account the lock screen is
+// shown to. Logging in and out, the update itself and the health check are mounted without the lock.
+const UNLOCKED_ROUTES: { method?: string; path: RegExp }[] = [
+  { method: 'GET', path: /^\/api\/users\/me\/?$/ }
+];
+
+/**
+ * Middleware that rejects API requests, whether from users or API keys, while a required update is pending.
+ * Goes after authenticate, so only signed-in callers learn that an update is required and which one.
+ */
+export function enforceUpdateLock(req: Request, res: Response, next: NextFunction): void {
+  const lock = updateChecker.getLock();
+  // Mounted below routers too, so the path is rebuilt from where the router was mounted
+  const route = `${req.baseUrl}${req.path}`;
+  if (!lock || UNLOCKED_ROUTES.some(item => (!item.method || item.method === req.method) && item.path.test(route))) {
+    next();
+    return;
+  }
+
+  res.status(423).json({ success: false, error: lock, message: lock });
+}
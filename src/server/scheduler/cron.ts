@@ -0,0 +1,147 @@
+// Five-field cron expressions: minute hour day-of-month month day-of-week, in the server's local time
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 0 and 7 are both Sunday
+  { name: 'day of week', min: 0, max: 7 }
+] as const;
+
+const ALIASES: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+// Give up looking for a matching time after this long - catches expressions like "0 0 31 2 *"
+const MAX_SEARCH_YEARS = 5;
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Standard cron matches either day field when both are restricted
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+/**
+ * Expand one field, such as "*", "5", "1-5", "*\/15" or "0,30", into the values it matches
+ */
+function parseField(value: string, field: typeof FIELDS[number]): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of value.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid ${field.name} "${part}"`);
+    }
+
+    const [, range, start, end, stepText] = match;
+    let from: number = field.min;
+    let to: number = field.max;
+    if (range !== '*') {
+      from = Number.parseInt(start, 10);
+      // A single value with a step, like "5/15", runs from that value to the end of the range
+      to = end !== undefined ? Number.parseInt(end, 10) : stepText ? field.max : from;
+    }
+    const step = stepText ? Number.parseInt(stepText, 10) : 1;
+
+    if (from < field.min || to > field.max) {
+      throw new Error(`${field.name} must be between ${field.min} and ${field.max}`);
+    }
+    if (from > to) {
+      throw new Error(`Invalid range in ${field.name} "${part}"`);
+    }
+    if (step < 1) {
+      throw new Error(`Invalid step in ${field.name} "${part}"`);
+    }
+
+    for (let i = from; i <= to; i += step) {
+      values.add(i);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const parts = (ALIASES[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+  if (parts.length !== FIELDS.length) {
+    throw new Error('Cron expressions need 5 fields: minute hour day-of-month month day-of-week');
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, index) => parseField(part, FIELDS[index]));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    dayOfMonthRestricted: parts[2] !== '*',
+    dayOfWeekRestricted: parts[4] !== '*'
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+/**
+ * Find the first time after the given one that the schedule matches
+ * @returns The next run, or null if the expression can never match
+ */
+export function getNextRun(schedule: CronSchedule, after: Date): Date | null {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + MAX_SEARCH_YEARS);
+
+  // Skip whole months, days and hours that cannot match instead of stepping minute by minute
+  while (date <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+      continue;
+    }
+    if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+      continue;
+    }
+    return date;
+  }
+
+  return null;
+}
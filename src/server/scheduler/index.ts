@@ -0,0 +1,305 @@
+import {
+  listServerSchedules,
+  getServerSchedule,
+  startScheduleRun,
+  finishScheduleRun,
+  type ServerSchedule,
+  type ServerScheduleInput
+} from '../database';
+import { recordAudit } from '../audit';
+import { instanceManager } from '../instances';
+import type { ServerSupervisor } from '../supervisor';
+import { formatDuration } from '../supervisor/stopSequence';
+import { parseCron, getNextRun } from './cron';
+
+export const SCHEDULE_ACTIONS = ['restart', 'stop', 'start'] as const;
+export type ScheduleAction = typeof SCHEDULE_ACTIONS[number];
+
+// Seconds before a restart or stop that players are warned
+export const DEFAULT_WARNINGS = [600, 300, 60, 10];
+export const DEFAULT_WARNING_COMMAND = 'chat The server will {action} in {time}';
+const MAX_WARNINGS = 10;
+const MAX_WARNING_SECONDS = 60 * 60;
+// Timers further out than this are re-planned later instead - setTimeout cannot wait longer than ~24.8 days
+const MAX_TIMER_DELAY = 24 * 60 * 60 * 1000;
+
+// How each action reads in a warning
+const ACTION_WORDS: Record<ScheduleAction, string> = {
+  restart: 'restart',
+  stop: 'shut down',
+  start: 'start'
+};
+
+// Schedule as returned by the API
+export interface ScheduleInfo {
+  id: number;
+  instanceId: number;
+  name: string;
+  action: ScheduleAction;
+  cron: string;
+  warnings: number[];
+  warningCommand: string;
+  enabled: boolean;
+  createdBy: string;
+  createdAt: string;
+  updatedAt: string;
+  lastRunAt: string | null;
+  nextRunAt: string | null;
+}
+
+function isScheduleAction(value: unknown): value is ScheduleAction {
+  return typeof value === 'string' && (SCHEDULE_ACTIONS as readonly string[]).includes(value);
+}
+
+function parseWarnings(warnings: string): number[] {
+  try {
+    const parsed = JSON.parse(warnings);
+    return Array.isArray(parsed) ? parsed.filter(value => Number.isInteger(value)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Check a schedule sent by a client and convert it to its database form
+ * @param instanceId The instance the schedule runs against
+ * @returns The schedule, or an error describing the first invalid field
+ */
+export function validateSchedule(input: unknown, instanceId: number): { schedule?: ServerScheduleInput; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Schedule must be an object' };
+  }
+
+  const {
+    name,
+    action,
+    cron,
+    warnings = DEFAULT_WARNINGS,
+    warningCommand = DEFAULT_WARNING_COMMAND,
+    enabled = true
+  } = input as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim() || name.trim().length > 64) {
+    return { error: 'Name must be 1-64 characters' };
+  }
+
+  if (!isScheduleAction(action)) {
+    return { error: `Action must be one of: ${SCHEDULE_ACTIONS.join(', ')}` };
+  }
+
+  if (typeof cron !== 'string') {
+    return { error: 'Cron expression is required' };
+  }
+  try {
+    if (!getNextRun(parseCron(cron), new Date())) {
+      return { error: 'Cron expression never matches' };
+    }
+  } catch (error) {
+    return { error: (error as Error).message };
+  }
+
+  if (
+    !Array.isArray(warnings) ||
+    warnings.length > MAX_WARNINGS ||
+    !warnings.every(value => Number.isInteger(value) && value >= 1 && value <= MAX_WARNING_SECONDS)
+  ) {
+    return { error: `Warnings must be up to ${MAX_WARNINGS} whole numbers of seconds between 1 and ${MAX_WARNING_SECONDS}` };
+  }
+
+  if (typeof warningCommand !== 'string' || !warningCommand.trim() || warningCommand.length > 200 || /[\r\n]/.test(warningCommand)) {
+    return { error: 'Warning command must be a single line of 1-200 characters' };
+  }
+
+  if (typeof enabled !== 'boolean') {
+    return { error: 'enabled must be true or false' };
+  }
+
+  return {
+    schedule: {
+      instance_id: instanceId,
+      name: name.trim(),
+      action,
+      cron: cron.trim(),
+      // Largest first, which is the order they are sent in
+      warnings: JSON.stringify([...new Set(warnings as number[])].sort((a, b) => b - a)),
+      warning_command: warningCommand.trim(),
+      enabled: enabled ? 1 : 0
+    }
+  };
+}
+
+/**
+ * Runs scheduled restarts, stops and starts, warning players through the server console first
+ */
+export class ServerScheduler {
+  // Finds the server a schedule belongs to at the time it runs
+  private readonly getSupervisor: (instanceId: number) => ServerSupervisor | undefined;
+  // Pending warning and action timers for each schedule
+  private readonly timers = new Map<number, NodeJS.Timeout[]>();
+  private readonly nextRuns = new Map<number, Date>();
+
+  constructor(getSupervisor: (instanceId: number) => ServerSupervisor | undefined) {
+    this.getSupervisor = getSupervisor;
+  }
+
+  start(): void {
+    for (const schedule of listServerSchedules()) {
+      if (schedule.enabled) {
+        this.plan(schedule, new Date());
+      }
+    }
+  }
+
+  /**
+   * Pick up a schedule that was created, changed or deleted
+   */
+  reload(id: number): void {
+    this.clear(id);
+    const schedule = getServerSchedule(id);
+    if (schedule?.enabled) {
+      this.plan(schedule, new Date());
+    }
+  }
+
+  toScheduleInfo(schedule: ServerSchedule): ScheduleInfo {
+    return {
+      id: schedule.id,
+      instanceId: schedule.instance_id,
+      name: schedule.name,
+      action: schedule.action,
+      cron: schedule.cron,
+      warnings: parseWarnings(schedule.warnings),
+      warningCommand: schedule.warning_command,
+      enabled: !!schedule.enabled,
+      createdBy: schedule.created_by,
+      createdAt: schedule.created_at,
+      updatedAt: schedule.updated_at,
+      lastRunAt: schedule.last_run_at,
+      nextRunAt: this.nextRuns.get(schedule.id)?.toISOString() || null
+    };
+  }
+
+  private clear(id: number): void {
+    for (const timer of this.timers.get(id) || []) {
+      clearTimeout(timer);
+    }
+    this.timers.delete(id);
+    this.nextRuns.delete(id);
+  }
+
+  private plan(schedule: ServerSchedule, after: Date): void {
+    let next: Date | null;
+    try {
+      next = getNextRun(parseCron(schedule.cron), after);
+    } catch (error) {
+      console.error(`Schedule ${schedule.name} has an invalid cron expression:`, (error as Error).message);
+      return;
+    }
+    if (!next) {
+      console.error(`Schedule ${schedule.name} never matches, not planning it`);
+      return;
+    }
+
+    const runAt = next;
+    const delay = runAt.getTime() - Date.now();
+    this.nextRuns.set(schedule.id, runAt);
+
+    // Come back once the run is close enough that every warning still fits in front of it
+    if (delay > MAX_TIMER_DELAY) {
+      this.timers.set(schedule.id, [
+        setTimeout(() => {
+          this.clear(schedule.id);
+          this.plan(schedule, after);
+        }, MAX_TIMER_DELAY - MAX_WARNING_SECONDS * 1000)
+      ]);
+      return;
+    }
+
+    const timers: NodeJS.Timeout[] = [];
+    if (schedule.action !== 'start') {
+      for (const seconds of parseWarnings(schedule.warnings)) {
+        if (seconds * 1000 < delay) {
+          timers.push(setTimeout(() => this.sendWarning(schedule, seconds), delay - seconds * 1000));
+        }
+      }
+    }
+
+    timers.push(setTimeout(() => {
+      this.clear(schedule.id);
+      // Plan the following run straight away, so a slow stop cannot make it skip one
+      this.plan(schedule, runAt);
+      this.run(schedule).catch(error => {
+        console.error(`Scheduled ${schedule.action} ${schedule.name} failed:`, error);
+      });
+    }, delay));
+
+    this.timers.set(schedule.id, timers);
+  }
+
+  private sendWarning(schedule: ServerSchedule, seconds: number): void {
+    const supervisor = this.getSupervisor(schedule.instance_id);
+    if (!supervisor?.getStatus().running) {
+      return;
+    }
+
+    const command = schedule.warning_command
+      .replace(/\{action\}/g, ACTION_WORDS[schedule.action])
+      .replace(/\{time\}/g, formatDuration(seconds));
+    const result = supervisor.sendCommand(command);
+    if (!result.success) {
+      console.error(`Could not send warning for schedule ${schedule.name}: ${result.message}`);
+    }
+  }
+
+  private async run(schedule: ServerSchedule): Promise<void> {
+    console.log(`Running scheduled ${schedule.action}: ${schedule.name}`);
+    const runId = startScheduleRun(schedule);
+
+    let result: { success: boolean; message: string };
+    try {
+      result = await this.performAction(schedule);
+    } catch (error) {
+      result = { success: false, message: (error as Error).message };
+    }
+
+    finishScheduleRun(runId, result.success, result.message);
+    recordAudit({
+      actor: { username: 'scheduler' },
+      action: 'schedule.run',
+      target: schedule.name,
+      details: { scheduleId: schedule.id, instanceId: schedule.instance_id, action: schedule.action, runId },
+      success: result.success,
+      error: result.message
+    });
+  }
+
+  private async performAction(schedule: ServerSchedule): Promise<{ success: boolean; message: string }> {
+    const supervisor = this.getSupervisor(schedule.instance_id);
+    if (!supervisor) {
+      return { success: false, message: `Server instance ${schedule.instance_id} no longer exists` };
+    }
+
+    if (schedule.action === 'start') {
+      return supervisor.start();
+    }
+
+    // Players were already warned on the schedule's own countdown
+    if (schedule.action === 'stop') {
+      return supervisor.stop({ skipWarning: true });
+    }
+
+    // A restart of a stopped server just starts it
+    if (supervisor.getStatus().running) {
+      const stopped = await supervisor.stop({ skipWarning: true });
+      if (!stopped.success) {
+        return stopped;
+      }
+    }
+
+    const started = await supervisor.start();
+    return started.success ? { success: true, message: 'Server restarted' } : started;
+  }
+}
+
+// Schedules for every Nanos World server managed by the dashboard
+export const serverScheduler = new ServerScheduler(instanceId => instanceManager.get(instanceId)?.supervisor);
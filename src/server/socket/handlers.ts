@@ -1,112 +1,99 @@
 import type { Server, Socket } from 'socket.io';
 import { exec } from 'node:child_process';
 import * as fsPromises from 'node:fs/promises';
-import { createReadStream, watch, type FSWatcher } from 'node:fs';
 import * as path from 'node:path';
 import * as util from 'node:util';
 import * as os from 'node:os';
-import * as osUtils from 'node-os-utils';
-import fetch from 'node-fetch';
 import { readFile, access } from 'node:fs/promises';
-
-// Hardcoded paths as per server.ts
-const NANOS_SERVER_PATH = '/opt/nanos-world-server/NanosWorldServer.sh';
-const NANOS_CONFIG_PATH = '/opt/nanos-world-server/Config.toml';
-const NANOS_LOG_PATH = '/tmp/nanos-server.log';
-
-// Add an interface for the custom watcher object
-interface CustomWatcher {
-  close: () => void;
-}
-
-// Track active log watchers by socket ID
-const logWatchers: Map<string, { 
-  watcher: FSWatcher | CustomWatcher, 
-  tail: NodeJS.ReadStream | NodeJS.ReadableStream | null,
-  lastPosition?: number
+import { hasPermission, isRole, type Permission } from '../auth/permissions';
+import { sessionEvents, isSessionActive, getSessionExpiresAt } from '../auth/sessions';
+import { recordAudit, getOutcome, type AuditAction } from '../audit';
+import { isShellEnabled, runTask, type TaskOutcome } from '../tasks';
+import type { StopStep } from '../supervisor';
+import type { ServerState } from '../lifecycle';
+import { instanceManager, getInstanceLogPath, toInstanceInfo, type InstanceRuntime, type InstanceInfo } from '../instances';
+import { cloneInstance } from '../instances/clone';
+import { updateServer } from '../instances/serverUpdate';
+import type { ServerBuildInfo } from '../instances/steam';
+import { logAlertMonitor } from '../alerts';
+import type { AlertInfo } from '../alerts/webhooks';
+import { compileLogFilter, readLogRecords, MAX_LOG_RECORDS, type LogMatcher } from '../logs';
+import { getLogFollower, type LogFollower, type LogEntry, type LogCursor } from '../logs/follower';
+import { metricsSampler, SAMPLE_INTERVAL_SECONDS, type ProcessMetricsInfo } from '../metrics';
+import { updateChecker, type VersionStatus } from '../updates';
+import { dashboardUpdater, type UpdateStatus } from '../updates/updater';
+import { getUserById, type MetricSample } from '../database';
+
+// Track log subscriptions by socket ID - every socket reading a log shares its one follower
+const logSubscriptions: Map<string, {
+  follower: LogFollower,
+  listener: (entries: LogEntry[]) => void,
+  // The subscriber's filter, applied to every line before it is sent
+  match: LogMatcher
 }> = new Map();
 
-// Function to check server status (simplified version)
-async function checkServerStatus(): Promise<{running: boolean, pid?: number, uptime?: number}> {
-  try {
-    // First check if we have a screen session for the server
-    try {
-      const { stdout: screenList } = await execPromise('screen -ls');
-      if (screenList.includes('nanos-server')) {
-        // Get PID of the screen session
-        const pidMatch = screenList.match(/(\d+)\.nanos-server/);
-        const pid = pidMatch ? Number.parseInt(pidMatch[1], 10) : undefined;
-        
-        // Try to get process uptime if we have a valid PID
-        let uptime = undefined;
-        if (pid && !Number.isNaN(pid)) {
-          try {
-            const { stdout: procStats } = await execPromise(`ps -o etimes= -p ${pid}`);
-            uptime = Number.parseInt(procStats.trim(), 10);
-          } catch (e) {
-            console.log('Error getting process uptime:', e);
-          }
-        }
-        
-        return { running: true, pid, uptime };
-      }
-    } catch (screenError) {
-      // Continue to try the ps method if screen check fails
-    }
-    
-    // Fallback: Use ps command to find the NanosWorldServer process
-    try {
-      const { stdout } = await execPromise("ps aux | grep -E '(NanosWorldServer|nanos-world-server)' | grep -v grep");
-      
-      if (stdout.trim()) {
-        // Extract PID from ps output (second column)
-        const pid = Number.parseInt(stdout.trim().split(/\s+/)[1], 10);
-        
-        // Try to get process uptime if we have a valid PID
-        let uptime = undefined;
-        if (pid && !Number.isNaN(pid)) {
-          try {
-            const { stdout: procStats } = await execPromise(`ps -o etimes= -p ${pid}`);
-            uptime = Number.parseInt(procStats.trim(), 10);
-          } catch (e) {
-            console.log('Error getting process uptime:', e);
-          }
-        }
-        
-        return { running: true, pid, uptime };
-      }
-    } catch (psError) {
-      // Ignore error
-    }
-    
-    return { running: false };
-  } catch (error) {
-    console.error('Error checking server status:', error);
-    return { running: false };
+/**
+ * Send a socket the log entries its filter lets through, numbered so it can resume after them
+ */
+function emitLogEntries(socket: SocketWithUser, follower: LogFollower, entries: LogEntry[], match: LogMatcher): void {
+  const records = entries.filter(entry => match(entry.record)).map(entry => entry.record);
+  if (records.length > 0) {
+    socket.emit('log_data', {
+      type: 'update',
+      records,
+      stream: follower.stream,
+      seq: entries[entries.length - 1].seq
+    });
   }
 }
 
+// Sockets that selected an instance and may see its state get its server_state events
+const instanceRoom = (instanceId: number) => `instance:${instanceId}`;
+// Sockets that may read logs hear about log alerts of every instance
+const ALERTS_ROOM = 'alerts';
+// Sockets that may update the dashboard follow an update's progress and build output
+const UPDATES_ROOM = 'updates';
+// Longest delay setTimeout accepts - sessions expiring later are caught by the check on every event
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+// Events still handled while a required update locks the dashboard - they only choose what the socket is sent
+const UNLOCKED_EVENTS = new Set(['set_metrics_rate', 'select_instance', 'unsubscribe_logs']);
+// Sockets get system metrics at the rate they chose, every sample or every few - none while paused
+const METRICS_RATES = [5, 10, 30, 60];
+const DEFAULT_METRICS_RATE = 5;
+const metricsRoom = (rate: number) => `metrics:${rate}`;
+
 // Response type for server operations
-interface ServerResponse {
+interface ServerResponse extends Partial<ServerState> {
   success: boolean;
-  running?: boolean;
-  pid?: number;
-  uptime?: number;
   logs?: string[];
   message?: string;
   error?: string;
-  configPath?: string;
+  stoppedBy?: StopStep;
+}
+
+interface CloneResponse {
+  success: boolean;
+  instance?: InstanceInfo;
+  error?: string;
+}
+
+interface ServerUpdateResponse {
+  success: boolean;
+  build?: ServerBuildInfo;
+  restored?: boolean;
+  error?: string;
 }
 
 // Function to ensure the log file exists and is accessible
-async function ensureLogFile(): Promise<boolean> {
+async function ensureLogFile(logPath: string): Promise<boolean> {
   try {
-    await fsPromises.access(NANOS_LOG_PATH);
+    await fsPromises.access(logPath);
     return true;
   } catch {
     try {
       // Create an empty log file if it doesn't exist
-      await fsPromises.writeFile(NANOS_LOG_PATH, '', 'utf-8');
+      await fsPromises.mkdir(path.dirname(logPath), { recursive: true });
+      await fsPromises.writeFile(logPath, '', 'utf-8');
       return true;
     } catch (error) {
       console.error(`Error creating log file: ${error}`);
@@ -118,81 +105,157 @@ async function ensureLogFile(): Promise<boolean> {
 // Convert exec to use promises
 const execPromise = util.promisify(exec);
 
-// Constants for version checking
-const UPDATE_CHECK_INTERVAL = 30000; // 30 seconds
-const LOCAL_UPDATE_FILE = path.join(process.cwd(), 'update.json');
+// Interface for socket with user data
+interface SocketWithUser extends Socket {
+  data: {
+    user: {
+      id: number;
+      username: string;
+      role: string;
+      sessionId?: number;
+    };
+    // The server instance the socket's server, log and task events apply to
+    instanceId?: number;
+  };
+}
 
-// Interface for update info from manifest
-interface UpdateManifest {
-  latest_version: string;
-  repository_url: string;
-  changelog: string;
-  required: boolean;
+/**
+ * The instance a socket selected, or the default one if it has not picked one or it was deleted
+ */
+function findSocketInstance(socket: SocketWithUser): InstanceRuntime | undefined {
+  return (socket.data.instanceId !== undefined && instanceManager.get(socket.data.instanceId)) || instanceManager.getDefault();
 }
 
-// Track update check interval
-let updateCheckInterval: NodeJS.Timeout | null = null;
-let currentVersion: string | null = null;
+/**
+ * Like findSocketInstance, for use inside a handler's try - throws when no instance is registered
+ */
+function getSocketInstance(socket: SocketWithUser): InstanceRuntime {
+  const runtime = findSocketInstance(socket);
+  if (!runtime) {
+    throw new Error('No server instance is registered');
+  }
+  return runtime;
+}
 
-// Function to read current version from local update.json
-async function getCurrentVersion(): Promise<string> {
-  if (currentVersion) return currentVersion;
-  
-  try {
-    const content = await fsPromises.readFile(LOCAL_UPDATE_FILE, 'utf-8');
-    const localManifest: UpdateManifest = JSON.parse(content);
-    currentVersion = localManifest.latest_version;
-    return currentVersion;
-  } catch (error) {
-    console.error('Error reading current version:', error);
-    return '0.0.0'; // Fallback version if file cannot be read
+/**
+ * Point a socket at an instance: move it to the instance's room and send the current state
+ */
+function selectSocketInstance(socket: SocketWithUser, runtime: InstanceRuntime): void {
+  if (socket.data.instanceId !== undefined) {
+    socket.leave(instanceRoom(socket.data.instanceId));
+  }
+  socket.data.instanceId = runtime.instance.id;
+
+  if (hasPermission(socket.data.user.role, 'server.view')) {
+    socket.join(instanceRoom(runtime.instance.id));
+    socket.emit('server_state', runtime.lifecycle.getState());
   }
 }
 
-// Function to check for updates
-async function checkForUpdates(): Promise<{
-  current: string;
-  latest: string | null;
-  updateAvailable: boolean;
-  updateInfo: UpdateManifest | null;
-}> {
-  try {
-    // Get current version from local file
-    const currentVer = await getCurrentVersion();
-    
-    // Fetch remote update.json from GitHub
-    const response = await fetch('https://raw.githubusercontent.com/Walanors/nanos-dashboard/main/update.json');
-    if (!response.ok) {
-      throw new Error('Failed to fetch remote update.json');
+/**
+ * Stop streaming logs to a socket
+ * @returns true if it had a log subscription
+ */
+function closeLogWatcher(socketId: string): boolean {
+  const subscription = logSubscriptions.get(socketId);
+  if (!subscription) {
+    return false;
+  }
+
+  subscription.follower.off('lines', subscription.listener);
+  logSubscriptions.delete(socketId);
+  return true;
+}
+
+/**
+ * Join or leave the rooms a socket's role decides on, and drop a log subscription it may no longer have
+ */
+function syncSocketRooms(socket: SocketWithUser): void {
+  const { role } = socket.data.user;
+  const rooms: [string, boolean][] = [
+    [ALERTS_ROOM, hasPermission(role, 'logs.view')],
+    [UPDATES_ROOM, hasPermission(role, 'system.manage')]
+  ];
+  if (socket.data.instanceId !== undefined) {
+    rooms.push([instanceRoom(socket.data.instanceId), hasPermission(role, 'server.view')]);
+  }
+
+  for (const [room, allowed] of rooms) {
+    if (allowed) {
+      socket.join(room);
+    } else {
+      socket.leave(room);
     }
-    
-    const remoteManifest: UpdateManifest = await response.json();
-    const updateAvailable = remoteManifest.latest_version !== currentVer;
-
-    return {
-      current: currentVer,
-      latest: remoteManifest.latest_version,
-      updateAvailable,
-      updateInfo: updateAvailable ? remoteManifest : null
-    };
-  } catch (error) {
-    console.error('Error checking for updates:', error);
-    const currentVer = await getCurrentVersion();
-    return {
-      current: currentVer,
-      latest: null,
-      updateAvailable: false,
-      updateInfo: null
-    };
+  }
+  if (!hasPermission(role, 'logs.view')) {
+    closeLogWatcher(socket.id);
   }
 }
 
-// Interface for socket with user data
-interface SocketWithUser extends Socket {
-  data: {
-    user: {
-      username: string;
-    };
+/**
+ * Look the socket's user up again - the role cached at the handshake may have changed since
+ * @returns false if the account was deleted or disabled or the session expired, in which case the socket is disconnected
+ */
+function refreshSocketUser(socket: SocketWithUser): boolean {
+  const { sessionId } = socket.data.user;
+  const user = getUserById(socket.data.user.id);
+  if (!user || user.disabled || !isRole(user.role) || (sessionId !== undefined && !isSessionActive(sessionId))) {
+    socket.emit('session_revoked');
+    socket.disconnect(true);
+    return false;
+  }
+
+  if (user.role !== socket.data.user.role) {
+    console.log(`Socket ${socket.id} of ${user.username} now has role ${user.role}`);
+    socket.data.user.role = user.role;
+    syncSocketRooms(socket);
+  }
+  return true;
+}
+
+/**
+ * Check that the socket's user has a permission, answering the callback with an error if not
+ * @returns true if the handler may continue
+ */
+function checkSocketPermission(socket: SocketWithUser, permission: Permission, callback?: unknown): boolean {
+  const { username, role } = socket.data.user;
+  if (hasPermission(role, permission)) {
+    return true;
+  }
+
+  console.log(`Socket permission denied: ${username} (${role}) lacks ${permission}`);
+  const error = `Your role does not allow this action (${permission})`;
+  if (typeof callback === 'function') {
+    callback({ success: false, error, message: error, output: error });
+  }
+  return false;
+}
+
+/**
+ * Wrap a socket callback so the action and its outcome are written to the audit log.
+ * Only the first response is recorded; later progress callbacks are passed through.
+ */
+function withAudit<T>(
+  socket: SocketWithUser,
+  action: AuditAction,
+  callback: SocketCallback<T>,
+  describe: { target?: string; details?: Record<string, unknown> } = {}
+): SocketCallback<T> {
+  let recorded = false;
+  return (response: T) => {
+    if (!recorded) {
+      recorded = true;
+      recordAudit({
+        actor: socket.data.user,
+        ip: socket.handshake.address,
+        action,
+        ...describe,
+        ...getOutcome(response)
+      });
+    }
+    if (typeof callback === 'function') {
+      callback(response);
+    }
   };
 }
 
@@ -228,107 +291,204 @@ interface SystemMetrics {
     used: number;
     usedPercent: number;
   };
-  version: {
-    current: string;
-    latest: string | null;
-    updateAvailable: boolean;
-    updateInfo: UpdateManifest | null;
+  network: {
+    rxPerSecond: number;
+    txPerSecond: number;
   };
+  // Server processes of every running instance, by instance ID
+  processes: Record<number, ProcessMetricsInfo>;
+  version: VersionStatus;
   timestamp: number;
 }
 
 // Callback type for socket operations
 type SocketCallback<T> = (response: T) => void;
 
-// Track metrics intervals by socket ID
-const metricsIntervals: Map<string, NodeJS.Timeout> = new Map();
+// Options accepted by execute_command
+interface CommandOptions {
+  timeout?: number;
+}
 
-async function getSystemMetrics(): Promise<SystemMetrics> {
-  const totalMem = os.totalmem();
-  const freeMem = os.freemem();
-  const usedMem = totalMem - freeMem;
-  
-  // Get CPU usage using node-os-utils
-  const cpuUsage = await osUtils.cpu.usage();
-  
-  // Get version information
-  const versionInfo = await checkForUpdates();
-
-  // Get disk usage information for root directory
-  let diskInfo = {
-    total: 0,
-    free: 0,
-    used: 0,
-    usedPercent: 0
-  };
+// Samples seen since the broadcast started - a rate gets every sample whose count it divides
+let metricsTick = 0;
+
+/**
+ * Everything a system_metrics event carries, built once per sample for every socket
+ */
+function buildSystemMetrics(sample: MetricSample): SystemMetrics {
+  const totalMem = sample.memory_total;
+  const usedMem = sample.memory_used;
 
-  try {
-    // Using node-os-utils to get disk info
-    const drive = osUtils.drive;
-    const diskData = await drive.info('/');
-    
-    diskInfo = {
-      total: Number(diskData.totalGb) * 1024 * 1024 * 1024, // Convert GB to bytes
-      free: Number(diskData.freeGb) * 1024 * 1024 * 1024,
-      used: (Number(diskData.totalGb) - Number(diskData.freeGb)) * 1024 * 1024 * 1024,
-      usedPercent: Number(diskData.usedPercentage)
-    };
-  } catch (error) {
-    console.error('Error getting disk info:', error);
-  }
-  
   return {
     uptime: os.uptime(),
     memory: {
       total: totalMem,
-      free: freeMem,
+      free: totalMem - usedMem,
       used: usedMem,
       usedPercent: (usedMem / totalMem) * 100
     },
     cpu: {
       loadAvg: os.loadavg(),
       cores: os.cpus().length,
-      usage: cpuUsage
+      usage: sample.cpu
+    },
+    disk: {
+      total: sample.disk_total,
+      free: sample.disk_total - sample.disk_used,
+      used: sample.disk_used,
+      usedPercent: sample.disk_total > 0 ? (sample.disk_used / sample.disk_total) * 100 : 0
     },
-    disk: diskInfo,
-    version: versionInfo,
-    timestamp: Date.now()
+    network: {
+      rxPerSecond: sample.network_rx,
+      txPerSecond: sample.network_tx
+    },
+    processes: metricsSampler.getProcessMetrics(),
+    // Cached by the update checker, which fetches on its own interval
+    version: updateChecker.getStatus(),
+    timestamp: sample.timestamp * 1000
   };
 }
 
+/**
+ * Move a socket to the room of a metrics rate, or out of all of them for null
+ */
+function setSocketMetricsRate(socket: SocketWithUser, rate: number | null): void {
+  for (const other of METRICS_RATES) {
+    if (other !== rate) {
+      socket.leave(metricsRoom(other));
+    }
+  }
+  if (rate === null) return;
+
+  socket.join(metricsRoom(rate));
+  // A socket resuming after a pause should not have to wait out its rate for the first numbers
+  const sample = metricsSampler.getLatest();
+  if (sample) {
+    socket.emit('system_metrics', buildSystemMetrics(sample));
+  }
+}
+
 /**
  * Configure all Socket.io event handlers
  */
 export function configureSocketHandlers(io: Server): void {
-  // Start system-wide metrics broadcast
-  const METRICS_INTERVAL = 5000; // 5 seconds
+  // One set of metrics per sample, sent to each rate's room when its turn comes up
+  metricsSampler.on('sample', (sample: MetricSample) => {
+    metricsTick++;
+    const rooms = METRICS_RATES
+      .filter(rate => metricsTick % (rate / SAMPLE_INTERVAL_SECONDS) === 0)
+      .map(metricsRoom);
+    if (rooms.length > 0) {
+      io.to(rooms).emit('system_metrics', buildSystemMetrics(sample));
+    }
+  });
+
+  // Push every server state change, whether it came from a user, the scheduler or a crash
+  instanceManager.on('state', (state: ServerState) => {
+    io.to(instanceRoom(state.instanceId)).emit('server_state', state);
+  });
+
+  // Clients reload their instance list; sockets on a deleted instance fall back to the default one
+  instanceManager.on('changed', () => {
+    for (const socket of io.sockets.sockets.values()) {
+      const userSocket = socket as SocketWithUser;
+      if (userSocket.data.instanceId !== undefined && !instanceManager.get(userSocket.data.instanceId)) {
+        closeLogWatcher(userSocket.id);
+        const fallback = instanceManager.getDefault();
+        if (fallback) {
+          selectSocketInstance(userSocket, fallback);
+        }
+      }
+    }
+    io.emit('instances_changed');
+  });
+
+  // The notification center shows alerts as they fire and drops them once someone acknowledges them
+  logAlertMonitor.on('alert', (alert: AlertInfo) => {
+    io.to(ALERTS_ROOM).emit('log_alert', alert);
+  });
+  logAlertMonitor.on('acknowledged', (ids: number[]) => {
+    io.to(ALERTS_ROOM).emit('log_alerts_acknowledged', ids);
+  });
+
+  // Everyone's sidebar shows the offered version and the lock of a required release without waiting for the next metrics
+  updateChecker.on('status', (version: VersionStatus) => {
+    io.emit('update_version', version);
+  });
+  dashboardUpdater.on('status', (status: UpdateStatus) => {
+    io.to(UPDATES_ROOM).emit('update_status', status);
+  });
+  dashboardUpdater.on('output', (chunk: string) => {
+    io.to(UPDATES_ROOM).emit('update_output', chunk);
+  });
   
-  // Start update checker if not already running
-  if (!updateCheckInterval) {
-    updateCheckInterval = setInterval(async () => {
-      const metrics = await getSystemMetrics();
-      io.emit('system_metrics', metrics);
-    }, UPDATE_CHECK_INTERVAL);
-  }
+  // A changed role applies to the user's open sockets at once, not only from their next event
+  sessionEvents.on('role', (userId: number) => {
+    for (const socket of io.sockets.sockets.values()) {
+      const userSocket = socket as SocketWithUser;
+      if (userSocket.data.user?.id === userId) {
+        refreshSocketUser(userSocket);
+      }
+    }
+  });
   
   io.on('connection', (socket: Socket) => {
     const userSocket = socket as SocketWithUser;
     console.log(`Socket connected: ${userSocket.id} - User: ${userSocket.data.user.username}`);
+
+    const defaultInstance = instanceManager.getDefault();
+    if (defaultInstance) {
+      selectSocketInstance(userSocket, defaultInstance);
+    }
+    syncSocketRooms(userSocket);
+
+    // A socket that sends nothing is still cut off when its session runs out, so it stops receiving broadcasts
+    const sessionId = userSocket.data.user.sessionId;
+    const expiresAt = sessionId !== undefined ? getSessionExpiresAt(sessionId) : null;
+    const expiryTimer = expiresAt !== null && expiresAt - Date.now() < MAX_TIMER_DELAY
+      ? setTimeout(() => refreshSocketUser(userSocket), Math.max(expiresAt - Date.now(), 0) + 1000)
+      : null;
+
+    // Every event is checked against the account as it is now, so permission checks never use a stale role,
+    // and turned away while a required update is pending, as the REST routes are
+    userSocket.use(([event, ...args], next) => {
+      if (!refreshSocketUser(userSocket)) {
+        return;
+      }
+
+      const lock = updateChecker.getLock();
+      if (lock && !UNLOCKED_EVENTS.has(event)) {
+        const callback = args[args.length - 1];
+        if (typeof callback === 'function') {
+          callback({ success: false, error: lock, message: lock, output: lock });
+        }
+        return;
+      }
+      next();
+    });
     
-    // Start sending metrics to this client
-    const metricsInterval = setInterval(async () => {
-      const metrics = await getSystemMetrics();
-      userSocket.emit('system_metrics', metrics);
-    }, METRICS_INTERVAL);
-    
-    // Store the interval reference
-    metricsIntervals.set(userSocket.id, metricsInterval);
+    setSocketMetricsRate(userSocket, DEFAULT_METRICS_RATE);
+
+    // Choose how often system metrics arrive, in seconds - null pauses them, e.g. while the tab is hidden
+    userSocket.on('set_metrics_rate', (rate: number | null, callback?: SocketCallback<{ success: boolean, error?: string }>) => {
+      if (rate !== null && !METRICS_RATES.includes(rate)) {
+        if (typeof callback === 'function') {
+          callback({ success: false, error: `Rate must be one of ${METRICS_RATES.join(', ')} seconds` });
+        }
+        return;
+      }
+
+      setSocketMetricsRate(userSocket, rate);
+      if (typeof callback === 'function') {
+        callback({ success: true });
+      }
+    });
 
     // Handle command execution
-    userSocket.on('execute_command', async (commandOrOptions: string | { command: string, timeout?: number }, callbackOrOptions: SocketCallback<CommandResponse> | { timeout?: number }, maybeCallback?: SocketCallback<CommandResponse>) => {
+    userSocket.on('execute_command', async (commandOrOptions: string | ({ command: string } & CommandOptions), callbackOrOptions: SocketCallback<CommandResponse> | CommandOptions, maybeCallback?: SocketCallback<CommandResponse>) => {
       // Handle different parameter patterns
       let command: string;
-      let timeout: number | undefined;
+      let options: CommandOptions | undefined;
       let callback: SocketCallback<CommandResponse>;
       
       if (typeof commandOrOptions === 'string') {
@@ -339,16 +499,27 @@ export function configureSocketHandlers(io: Server): void {
           callback = callbackOrOptions;
         } else {
           // New style: (command, options, callback)
-          timeout = callbackOrOptions?.timeout;
+          options = callbackOrOptions;
           callback = maybeCallback as SocketCallback<CommandResponse>;
         }
       } else {
         // Object style: ({ command, timeout }, callback)
         command = commandOrOptions.command;
-        timeout = commandOrOptions.timeout;
+        options = commandOrOptions;
         callback = callbackOrOptions as SocketCallback<CommandResponse>;
       }
       
+      const timeout = options?.timeout;
+      callback = withAudit(userSocket, 'shell.execute', callback, { details: { command } });
+      
+      if (!checkSocketPermission(userSocket, 'system.execute', callback)) return;
+      
+      if (!isShellEnabled()) {
+        const error = 'Shell commands are disabled on this server (ENABLE_SHELL_COMMANDS)';
+        callback({ success: false, output: error, error });
+        return;
+      }
+      
       try {
         console.log(`Executing command: ${command} by ${userSocket.data.user.username}`);
         
@@ -385,6 +556,88 @@ export function configureSocketHandlers(io: Server): void {
       }
     });
 
+    // Switch the instance this socket's server, log and task events apply to
+    userSocket.on('select_instance', (instanceId: number, callback?: SocketCallback<ServerResponse>) => {
+      const runtime = instanceManager.get(Number(instanceId));
+      if (!runtime) {
+        if (typeof callback === 'function') {
+          callback({ success: false, error: 'Server instance not found' });
+        }
+        return;
+      }
+
+      // A log stream belongs to the instance it was started for
+      if (runtime.instance.id !== userSocket.data.instanceId) {
+        closeLogWatcher(userSocket.id);
+      }
+      selectSocketInstance(userSocket, runtime);
+
+      if (typeof callback === 'function') {
+        callback({ success: true });
+      }
+    });
+
+    // Copy an instance into a new one, streaming each step of the copy
+    userSocket.on('clone_instance', async (sourceId: number, input: unknown, callback: SocketCallback<CloneResponse>) => {
+      const source = instanceManager.get(Number(sourceId));
+      const { name, installDir } = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+      callback = withAudit(userSocket, 'instance.clone', callback, {
+        target: source ? source.instance.name : `#${sourceId}`,
+        details: { name, installDir }
+      });
+      if (!checkSocketPermission(userSocket, 'system.manage', callback)) return;
+
+      try {
+        const { runtime, error } = await cloneInstance(Number(sourceId), input, {
+          onProgress: progress => userSocket.emit('instance_clone_progress', progress)
+        });
+        callback(runtime ? { success: true, instance: toInstanceInfo(runtime.instance) } : { success: false, error });
+      } catch (error) {
+        console.error('Instance clone error:', error);
+        callback({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    });
+
+    // Update the selected instance's server through SteamCMD, streaming the stop, backup and download
+    userSocket.on('update_server', async (input: unknown, callback: SocketCallback<ServerUpdateResponse>) => {
+      const { branch, validate } = (input && typeof input === 'object' ? input : {}) as Record<string, unknown>;
+      callback = withAudit(userSocket, 'nanos.update', callback, {
+        target: findSocketInstance(userSocket)?.instance.name,
+        details: { branch, validate }
+      });
+      if (!checkSocketPermission(userSocket, 'system.manage', callback)) return;
+
+      try {
+        const runtime = getSocketInstance(userSocket);
+        const { build, restored, error } = await updateServer(runtime.instance.id, input, {
+          onProgress: progress => userSocket.emit('server_update_progress', progress)
+        });
+        callback(build ? { success: true, build } : { success: false, restored, error });
+      } catch (error) {
+        console.error('Server update error:', error);
+        callback({
+          success: false,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        });
+      }
+    });
+
+    // Run one of the named tasks from the task registry
+    userSocket.on('run_task', async (name: string, args: unknown, callback: SocketCallback<TaskOutcome>) => {
+      if (typeof callback !== 'function') return;
+      
+      try {
+        // Permission checks and auditing happen inside runTask
+        callback(await runTask(String(name), args, userSocket.data.user, getSocketInstance(userSocket).instance, userSocket.handshake.address));
+      } catch (error) {
+        console.error('Task error:', error);
+        callback({ success: false, error: error instanceof Error ? error.message : 'Unknown error', reason: 'failed' });
+      }
+    });
+
     // Handle ping for connection health checks
     userSocket.on('ping', (data, callback) => {
       // Simply respond to confirm connection is alive
@@ -395,6 +648,8 @@ export function configureSocketHandlers(io: Server): void {
 
     // Handle file reading
     userSocket.on('read_file', async (filePath: string, callback: SocketCallback<FileResponse>) => {
+      if (!checkSocketPermission(userSocket, 'files.read', callback)) return;
+      
       try {
         console.log(`Reading file: ${filePath} by ${userSocket.data.user.username}`);
         
@@ -425,6 +680,12 @@ export function configureSocketHandlers(io: Server): void {
       content: string, 
       callback: SocketCallback<FileResponse>
     ) => {
+      callback = withAudit(userSocket, 'file.write', callback, {
+        target: filePath,
+        details: { bytes: typeof content === 'string' ? Buffer.byteLength(content) : undefined }
+      });
+      if (!checkSocketPermission(userSocket, 'files.write', callback)) return;
+      
       try {
         console.log(`Writing file: ${filePath} by ${userSocket.data.user.username}`);
         
@@ -454,6 +715,8 @@ export function configureSocketHandlers(io: Server): void {
 
     // Handle directory listing
     userSocket.on('list_files', async (dirPath: string, callback: SocketCallback<FileResponse>) => {
+      if (!checkSocketPermission(userSocket, 'files.read', callback)) return;
+      
       try {
         console.log(`Listing directory: ${dirPath} by ${userSocket.data.user.username}`);
         
@@ -492,13 +755,12 @@ export function configureSocketHandlers(io: Server): void {
 
     // Handle server status check
     userSocket.on('server_status', async (callback: SocketCallback<ServerResponse>) => {
+      if (!checkSocketPermission(userSocket, 'server.view', callback)) return;
+      
       try {
-        const status = await checkServerStatus();
-        
         callback({
           success: true,
-          ...status,
-          configPath: NANOS_CONFIG_PATH
+          ...getSocketInstance(userSocket).lifecycle.getState()
         });
       } catch (error) {
         console.error('Server status error:', error);
@@ -512,37 +774,14 @@ export function configureSocketHandlers(io: Server): void {
 
     // Handle server start
     userSocket.on('server_start', async (callback: SocketCallback<ServerResponse>) => {
+      callback = withAudit(userSocket, 'server.start', callback, { target: findSocketInstance(userSocket)?.instance.name });
+      if (!checkSocketPermission(userSocket, 'server.control', callback)) return;
+      
       try {
         console.log(`Server start request from ${userSocket.data.user.username}`);
         
-        // First check if server is already running
-        const status = await checkServerStatus();
-        if (status.running) {
-          callback({ 
-            success: false, 
-            message: `Server already running with PID ${status.pid}`,
-            running: true,
-            pid: status.pid
-          });
-          return;
-        }
-
-        // Execute the start server command (simplified)
-        await execPromise(`screen -dmS nanos-server ${NANOS_SERVER_PATH} 2>&1`);
-        await execPromise(`screen -S nanos-server -X logfile ${NANOS_LOG_PATH}`);
-        await execPromise('screen -S nanos-server -X log on');
-        
-        // Wait a moment for server to start
-        await new Promise(resolve => setTimeout(resolve, 1000));
-        
-        // Check status again
-        const newStatus = await checkServerStatus();
-        callback({
-          success: true,
-          message: 'Server starting in interactive mode...',
-          running: newStatus.running,
-          pid: newStatus.pid
-        });
+        const result = await getSocketInstance(userSocket).lifecycle.start();
+        callback(result);
       } catch (error) {
         console.error('Server start error:', error);
         callback({
@@ -555,46 +794,17 @@ export function configureSocketHandlers(io: Server): void {
 
     // Handle server stop
     userSocket.on('server_stop', async (callback: SocketCallback<ServerResponse>) => {
+      callback = withAudit(userSocket, 'server.stop', callback, { target: findSocketInstance(userSocket)?.instance.name });
+      if (!checkSocketPermission(userSocket, 'server.control', callback)) return;
+      
       try {
         console.log(`Server stop request from ${userSocket.data.user.username}`);
         
-        // Check if server is running
-        const status = await checkServerStatus();
-        if (!status.running) {
-          callback({ 
-            success: false, 
-            message: 'Server is not running',
-            running: false
-          });
-          return;
-        }
-
-        if (!status.pid) {
-          callback({ 
-            success: false, 
-            message: 'Could not determine server PID',
-            running: true
-          });
-          return;
-        }
-
-        // Try graceful termination first (SIGTERM)
-        await execPromise(`kill -15 ${status.pid}`);
-        
-        // Wait 5 seconds and check if it's still running
-        await new Promise(resolve => setTimeout(resolve, 5000));
-        const checkStatus = await checkServerStatus();
-        
-        // If still running, force kill (SIGKILL)
-        if (checkStatus.running && checkStatus.pid) {
-          await execPromise(`kill -9 ${checkStatus.pid}`);
-        }
-        
-        callback({ 
-          success: true, 
-          message: 'Server stopped',
-          running: false
+        // Each step of the stop sequence is streamed to the client as it happens
+        const result = await getSocketInstance(userSocket).lifecycle.stop({
+          onProgress: progress => userSocket.emit('server_stop_progress', progress)
         });
+        callback(result);
       } catch (error) {
         console.error('Server stop error:', error);
         callback({
@@ -607,6 +817,9 @@ export function configureSocketHandlers(io: Server): void {
 
     // Handle server command
     userSocket.on('server_command', async (command: string, callback: SocketCallback<ServerResponse>) => {
+      callback = withAudit(userSocket, 'server.command', callback, { target: findSocketInstance(userSocket)?.instance.name, details: { command } });
+      if (!checkSocketPermission(userSocket, 'server.command', callback)) return;
+      
       try {
         // Validate command
         if (!command || typeof command !== 'string') {
@@ -616,126 +829,9 @@ export function configureSocketHandlers(io: Server): void {
           });
         }
         
-        // Check if server is running
-        const serverStatus = await checkServerStatus();
-        if (!serverStatus.running) {
-          return callback({
-            success: false,
-            error: 'Server is not running'
-          });
-        }
-
         console.log(`[${userSocket.id}] Executing server command: ${command}`);
-        
-        // Get current log file size before sending command
-        let beforeSize = 0;
-        try {
-          const beforeStats = await fsPromises.stat(NANOS_LOG_PATH);
-          beforeSize = beforeStats.size;
-          console.log(`Log file size before command: ${beforeSize} bytes`);
-        } catch (statError) {
-          console.error('Error getting log file size before command:', statError);
-          // Continue even if we can't get the file size
-        }
-
-        // Send command via screen - prioritize this method for reliability
-        let commandSent = false;
-        try {
-          const { stdout } = await execPromise('screen -ls');
-          if (stdout.includes('nanos-server')) {
-            // Ensure the command is properly escaped and has a newline
-            const escapedCommand = command.replace(/"/g, '\\"');
-            await execPromise(`screen -S nanos-server -X stuff "${escapedCommand}\\n"`);
-            commandSent = true;
-            
-            // Send immediate callback to client
-            callback({ 
-              success: true, 
-              message: 'Command sent to server via screen'
-            });
-          }
-        } catch (screenError) {
-          console.error('Screen command error:', screenError);
-          // Fall back to direct process input
-        }
-
-        // Fall back method if screen is not available
-        if (!commandSent && serverStatus.pid) {
-          await execPromise(`echo "${command.replace(/"/g, '\\"')}" > /proc/${serverStatus.pid}/fd/0`);
-          commandSent = true;
-          
-          // Send immediate callback to client
-          callback({ 
-            success: true, 
-            message: 'Command sent to server'
-          });
-        } else if (!commandSent) {
-          callback({ 
-            success: false, 
-            message: 'Could not determine server PID'
-          });
-          return;
-        }
-
-        // Wait for log file to change after sending command
-        // This ensures we capture the command output
-        let retries = 0;
-        const maxRetries = 20; // Try for up to 2 seconds (20 * 100ms)
-        
-        const waitForLogs = async () => {
-          try {
-            const afterStats = await fsPromises.stat(NANOS_LOG_PATH);
-            console.log(`Log file size after command (attempt ${retries+1}): ${afterStats.size}`);
-            
-            // If log file has grown, read the new content
-            if (afterStats.size > beforeSize) {
-              // Read only the new content
-              const fileHandle = await fsPromises.open(NANOS_LOG_PATH, 'r');
-              const buffer = Buffer.alloc(afterStats.size - beforeSize);
-              
-              await fileHandle.read(buffer, 0, buffer.length, beforeSize);
-              await fileHandle.close();
-              
-              // Convert buffer to string and split into lines
-              const content = buffer.toString();
-              if (content.trim()) {
-                const lines = content.split('\n').filter(Boolean);
-                if (lines.length > 0) {
-                  console.log(`Sending ${lines.length} new log lines after command`);
-                  userSocket.emit('log_data', {
-                    type: 'update',
-                    logs: lines
-                  });
-                  return; // Successfully sent logs
-                }
-              }
-            }
-            
-            // If we haven't found new logs yet and haven't exceeded max retries
-            if (retries < maxRetries) {
-              retries++;
-              // Wait 100ms before checking again
-              setTimeout(waitForLogs, 100);
-            } else {
-              console.log('No new logs detected after command execution');
-              // Even if no new logs, send a final check with tail
-              try {
-                const { stdout: logOutput } = await execPromise(`tail -n 10 ${NANOS_LOG_PATH}`);
-                userSocket.emit('log_data', {
-                  type: 'update',
-                  logs: logOutput.split('\n')
-                });
-              } catch (logError) {
-                console.error('Error fetching logs after command:', logError);
-              }
-            }
-          } catch (error) {
-            console.error('Error checking for new logs:', error);
-          }
-        };
-        
-        // Start waiting for logs
-        waitForLogs();
+        // The server's answer reaches log subscribers through the log follower like any other output
+        callback(getSocketInstance(userSocket).lifecycle.sendCommand(command));
       } catch (error) {
         console.error('Server command error:', error);
         callback({
@@ -745,29 +841,37 @@ export function configureSocketHandlers(io: Server): void {
       }
     });
 
-    // Subscribe to server logs
+    // Subscribe to server logs - a client that reconnects passes the cursor of the last line it got to resume after it
     userSocket.on('subscribe_logs', async (options: { 
       initialLines?: number, 
-      fullHistory?: boolean
+      fullHistory?: boolean,
+      filter?: unknown,
+      resume?: LogCursor
     } = {}, callback?: SocketCallback<ServerResponse>) => {
+      if (!checkSocketPermission(userSocket, 'logs.view', callback)) return;
+      
       try {
         console.log(`Log subscription from ${userSocket.data.user.username}`, options);
         
-        // Close any existing watcher for this socket
-        const existingWatcher = logWatchers.get(userSocket.id);
-        if (existingWatcher) {
-          existingWatcher.watcher.close();
-          if (existingWatcher.tail) {
-            // Use type guard to check if destroy method exists
-            if ('destroy' in existingWatcher.tail) {
-              existingWatcher.tail.destroy();
-            }
+        // Close any existing subscription for this socket
+        closeLogWatcher(userSocket.id);
+
+        // Filtering happens here so a large history never has to reach the browser
+        const { match, error: filterError } = compileLogFilter(options.filter);
+        if (!match) {
+          if (callback) {
+            callback({
+              success: false,
+              error: filterError,
+              message: filterError
+            });
           }
-          logWatchers.delete(userSocket.id);
+          return;
         }
 
         // Ensure log file exists
-        const logFileExists = await ensureLogFile();
+        const logPath = getInstanceLogPath(getSocketInstance(userSocket).instance);
+        const logFileExists = await ensureLogFile(logPath);
         if (!logFileExists) {
           if (callback) {
             callback({
@@ -782,184 +886,57 @@ export function configureSocketHandlers(io: Server): void {
         const initialLines = options.initialLines || 100;
         const fullHistory = options.fullHistory || false;
 
-        // Send initial logs if requested
-        if (initialLines > 0 || fullHistory) {
+        const follower = getLogFollower(logPath);
+        // Bring the follower up to date, so the history below ends where its stream carries on
+        await follower.read();
+        const cursor = follower.getCursor();
+
+        // Lines that arrive while the history is read are held back until it has been sent
+        let pending: LogEntry[] | null = [];
+        const listener = (entries: LogEntry[]) => {
+          if (pending) {
+            pending.push(...entries);
+          } else {
+            emitLogEntries(userSocket, follower, entries, match);
+          }
+        };
+        follower.on('lines', listener);
+        logSubscriptions.set(userSocket.id, { follower, listener, match });
+
+        const missed = options.resume?.stream === follower.stream ? follower.since(options.resume.seq) : null;
+        if (missed) {
+          // Only what the client has not seen yet - nothing twice and nothing left out
+          emitLogEntries(userSocket, follower, missed, match);
+        } else if (initialLines > 0 || fullHistory) {
+          // The last matching records before the follower's position, with every package in the log
           try {
-            // Use tail to get initial lines
-            const lines = fullHistory ? null : initialLines;
-            const tailCmd = lines 
-              ? `tail -n ${lines} ${NANOS_LOG_PATH}` 
-              : `cat ${NANOS_LOG_PATH}`;
-              
-            const { stdout } = await execPromise(tailCmd);
+            const { records, sources } = await readLogRecords(logPath, fullHistory ? MAX_LOG_RECORDS : initialLines, match, cursor.position);
             userSocket.emit('log_data', {
               type: 'initial',
-              logs: stdout.split('\n')
+              records,
+              sources,
+              stream: cursor.stream,
+              seq: cursor.seq
             });
-          } catch (tailError) {
-            console.error('Error getting initial logs:', tailError);
+          } catch (historyError) {
+            console.error('Error getting initial logs:', historyError);
             // Continue even if initial logs fail
           }
         }
 
-        // Setup real-time log streaming using tail -f
-        console.log('Setting up real-time log streaming for socket', userSocket.id);
-        
-        try {
-          // Store recent lines to prevent duplicates - using a Set for efficient lookups
-          const recentLines = new Set<string>();
-          const MAX_RECENT_LINES = 100;
-          
-          // Use tail -f for true streaming with line buffering (-n 0 to avoid repeating lines)
-          // Adding --follow=name to handle log rotation better
-          const tailProcess = exec(`tail -f --follow=name -n 0 ${NANOS_LOG_PATH}`);
-          
-          if (!tailProcess.stdout) {
-            throw new Error('Failed to create tail process stdout');
-          }
-          
-          // Process log lines one by one in real-time with more robust handling
-          let buffer = '';
-          tailProcess.stdout.on('data', (data) => {
-            // Append new data to buffer
-            buffer += data.toString();
-            
-            // Process complete lines
-            if (buffer.includes('\n')) {
-              const lines = buffer.split('\n');
-              // Keep the last incomplete line in the buffer
-              buffer = lines.pop() || '';
-              
-              // Filter out empty lines and duplicates
-              const uniqueLines = lines
-                .filter(line => line.trim().length > 0) // Filter empty lines
-                .filter(line => {
-                  // More sophisticated duplicate detection
-                  if (recentLines.has(line)) return false;
-                  
-                  // Add to recent lines cache
-                  recentLines.add(line);
-                  
-                  // Keep the Set size limited
-                  if (recentLines.size > MAX_RECENT_LINES) {
-                    // Remove oldest lines when set gets too big (approximate FIFO)
-                    const iterator = recentLines.values();
-                    const firstValue = iterator.next().value;
-                    if (firstValue !== undefined) {
-                      recentLines.delete(firstValue);
-                    }
-                  }
-                  
-                  return true;
-                });
-              
-              // Only emit if we have unique complete lines
-              if (uniqueLines.length > 0) {
-                userSocket.emit('log_data', {
-                  type: 'update',
-                  logs: uniqueLines
-                });
-              }
-            }
-          });
-          
-          // Handle errors
-          tailProcess.on('error', (error) => {
-            console.error('Tail process error:', error);
-          });
-          
-          // Store references for cleanup
-          logWatchers.set(userSocket.id, { 
-            watcher: { 
-              close: () => {
-                tailProcess.kill();
-              } 
-            } as CustomWatcher, 
-            tail: tailProcess.stdout
+        const held = pending;
+        pending = null;
+        // A newer subscription from the same socket has taken over
+        if (logSubscriptions.get(userSocket.id)?.listener !== listener) {
+          return;
+        }
+        emitLogEntries(userSocket, follower, held, match);
+
+        if (callback) {
+          callback({
+            success: true,
+            message: missed ? `Resumed log updates after line ${options.resume?.seq}` : 'Subscribed to real-time log updates'
           });
-          
-          if (callback) {
-            callback({
-              success: true,
-              message: 'Subscribed to real-time log updates'
-            });
-          }
-        } catch (error) {
-          console.error('Error setting up log streaming:', error);
-          
-          // If tail process fails, use Node.js readline interface with a file stream
-          // This is a fallback that's still efficient for real-time monitoring
-          try {
-            console.log('Falling back to file stream reading for socket', userSocket.id);
-            
-            const { createInterface } = require('node:readline');
-            
-            // Get current file size to start watching from the end
-            const stats = await fsPromises.stat(NANOS_LOG_PATH);
-            let lastPosition = stats.size;
-            
-            // Create a watcher to detect file changes
-            const watcher = watch(NANOS_LOG_PATH, { persistent: true });
-            
-            // Function to read new content when file changes
-            const readNewContent = async () => {
-              try {
-                const newStats = await fsPromises.stat(NANOS_LOG_PATH);
-                
-                // Only read if file has grown
-                if (newStats.size > lastPosition) {
-                  // Open file handle and read only new content
-                  const fileHandle = await fsPromises.open(NANOS_LOG_PATH, 'r');
-                  const buffer = Buffer.alloc(newStats.size - lastPosition);
-                  
-                  await fileHandle.read(buffer, 0, buffer.length, lastPosition);
-                  await fileHandle.close();
-                  
-                  // Update last position
-                  lastPosition = newStats.size;
-                  
-                  // Send new lines immediately
-                  const content = buffer.toString();
-                  if (content.trim()) {
-                    const lines = content.split('\n').filter(line => line.length > 0);
-                    if (lines.length > 0) {
-                      userSocket.emit('log_data', {
-                        type: 'update',
-                        logs: lines
-                      });
-                    }
-                  }
-                }
-              } catch (readError) {
-                console.error('Error reading file changes:', readError);
-              }
-            };
-            
-            // Watch for file changes
-            watcher.on('change', readNewContent);
-            
-            // Store watcher reference for cleanup
-            logWatchers.set(userSocket.id, { 
-              watcher, 
-              tail: null
-            });
-            
-            if (callback) {
-              callback({
-                success: true,
-                message: 'Subscribed to log updates (file watch mode)'
-              });
-            }
-          } catch (watchError) {
-            console.error('Error setting up file watcher:', watchError);
-            
-            if (callback) {
-              callback({
-                success: false,
-                message: `Could not setup log streaming: ${watchError instanceof Error ? watchError.message : 'Unknown error'}`
-              });
-            }
-          }
         }
       } catch (error) {
         console.error('Log subscription error:', error);
@@ -974,16 +951,7 @@ export function configureSocketHandlers(io: Server): void {
 
     // Unsubscribe from logs
     userSocket.on('unsubscribe_logs', () => {
-      const watcher = logWatchers.get(userSocket.id);
-      if (watcher) {
-        watcher.watcher.close();
-        if (watcher.tail) {
-          // Use type guard to check if destroy method exists
-          if ('destroy' in watcher.tail) {
-            watcher.tail.destroy();
-          }
-        }
-        logWatchers.delete(userSocket.id);
+      if (closeLogWatcher(userSocket.id)) {
         console.log(`Unsubscribed ${userSocket.id} from log updates`);
       }
     });
@@ -991,26 +959,12 @@ export function configureSocketHandlers(io: Server): void {
     // Handle disconnection - clean up any log watchers
     userSocket.on('disconnect', () => {
       console.log(`User disconnected: ${userSocket.data.user.username}`);
-      
-      // Clean up any active log watchers
-      const watcher = logWatchers.get(userSocket.id);
-      if (watcher) {
-        watcher.watcher.close();
-        if (watcher.tail) {
-          // Use type guard to check if destroy method exists
-          if ('destroy' in watcher.tail) {
-            watcher.tail.destroy();
-          }
-        }
-        logWatchers.delete(userSocket.id);
+      if (expiryTimer) {
+        clearTimeout(expiryTimer);
       }
       
-      // Clean up the metrics interval
-      const interval = metricsIntervals.get(userSocket.id);
-      if (interval) {
-        clearInterval(interval);
-        metricsIntervals.delete(userSocket.id);
-      }
+      // Clean up any active log watchers
+      closeLogWatcher(userSocket.id);
     });
   });
 } 
\ No newline at end of file
@@ -0,0 +1,544 @@
+import { spawn, type ChildProcess } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { runProcess } from '../tasks/process';
+import { getStopSequence, formatDuration } from './stopSequence';
+
+// How often a re-attached server (one we did not spawn ourselves) is checked for exit
+const ATTACHED_POLL_INTERVAL = 2000;
+// Seconds stop() waits after SIGKILL before giving up
+const KILL_TIMEOUT = 10;
+// Runs the server script and writes its exit status to the file named first, so a dashboard that
+// re-attached to the server, and is no longer its parent, can still tell a clean exit from a crash.
+// The trap keeps the wrapper alive to write it when a signal goes to the whole process group -
+// the script gets the default handling back, as trapped signals are not inherited.
+const EXIT_WRAPPER = 'exit_file=$1; shift; trap : HUP INT TERM; "$@"; status=$?; echo "$status" > "$exit_file"; exit "$status"';
+
+// Wording for the step that stopped the server
+const STEP_DESCRIPTIONS: Record<StopStep, string> = {
+  warning: 'itself during the warning period',
+  command: 'the quit command',
+  sigterm: 'SIGTERM',
+  sigkill: 'SIGKILL'
+};
+
+export interface SupervisorOptions {
+  // The instance whose stop sequence stop() follows
+  instanceId: number;
+  scriptPath: string;
+  // Command line passed to the script
+  args?: string[];
+  logPath: string;
+  // Where the PID file and stdin FIFO live - they outlast dashboard restarts
+  runtimeDir: string;
+  name: string;
+  // Run before each start, while nothing writes to the log - a failure here does not stop the start
+  beforeStart?: () => Promise<void>;
+}
+
+export interface ServerExit {
+  code: number | null;
+  signal: NodeJS.Signals | null;
+  at: string;
+  // Seconds the server had been running
+  uptime: number | null;
+  // True when the exit was asked for through stop(), false when the server went down by itself
+  requested: boolean;
+  // True when no exit status could be read - a re-attached server whose wrapper was killed with it,
+  // or one started before the wrapper existed - so whether it crashed or was quit cleanly is unknown
+  unobserved: boolean;
+}
+
+export type ServerPhase = 'stopped' | 'starting' | 'running' | 'stopping';
+
+export interface SupervisorStatus {
+  running: boolean;
+  phase: ServerPhase;
+  pid?: number;
+  // Seconds since the server was started
+  uptime?: number;
+  startedAt?: string;
+  // True when the server was found through the PID file after a dashboard restart
+  reattached?: boolean;
+  lastExit?: ServerExit;
+}
+
+export type StopStep = 'warning' | 'command' | 'sigterm' | 'sigkill';
+
+export interface StopProgress {
+  step: StopStep;
+  message: string;
+}
+
+export interface StopOptions {
+  // Leave out the warning, for callers that already warned players
+  skipWarning?: boolean;
+  onProgress?: (progress: StopProgress) => void;
+}
+
+export interface StopResult {
+  success: boolean;
+  message: string;
+  // The step after which the server exited
+  stoppedBy?: StopStep;
+  exit?: ServerExit;
+}
+
+// Contents of the PID file
+interface PidFile {
+  pid: number;
+  startedAt: string;
+  scriptPath: string;
+}
+
+/**
+ * Owns the game server process: starts it with spawn, feeds its stdin through a FIFO,
+ * sends its output to the log file and records how it exits.
+ *
+ * The server runs in its own process group and outlives the dashboard. The PID file lets
+ * a restarted dashboard find it again, and the FIFO lets it keep sending console commands.
+ *
+ * Emits 'start' with the PID, 'stopping' when stop() is called and 'exit' with a ServerExit.
+ * Every change of phase is also emitted as 'state' with the new SupervisorStatus.
+ */
+export class ServerSupervisor extends EventEmitter {
+  private readonly options: SupervisorOptions;
+  private child: ChildProcess | null = null;
+  private pid: number | null = null;
+  private startedAt: string | null = null;
+  private stdinFd: number | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private lastExit: ServerExit | undefined;
+  private starting = false;
+  private stopping = false;
+  private stopRequested = false;
+  private startHold: string | null = null;
+
+  constructor(options: SupervisorOptions) {
+    super();
+    this.options = options;
+  }
+
+  get logPath(): string {
+    return this.options.logPath;
+  }
+
+  private get pidFilePath(): string {
+    return path.join(this.options.runtimeDir, `${this.options.name}.pid`);
+  }
+
+  private get exitFilePath(): string {
+    return path.join(this.options.runtimeDir, `${this.options.name}.exit`);
+  }
+
+  private get fifoPath(): string {
+    return path.join(this.options.runtimeDir, `${this.options.name}.stdin`);
+  }
+
+  /**
+   * Pick up a server left running by a previous dashboard process
+   * @returns true if a running server was found
+   */
+  attach(): boolean {
+    if (this.pid) {
+      return true;
+    }
+
+    let saved: PidFile;
+    try {
+      saved = JSON.parse(fs.readFileSync(this.pidFilePath, 'utf-8'));
+    } catch {
+      return false;
+    }
+
+    if (!saved.pid || !this.isServerProcess(saved.pid)) {
+      console.log(`Removing stale PID file for ${this.options.name} (PID ${saved.pid})`);
+      this.removePidFile();
+      return false;
+    }
+
+    this.pid = saved.pid;
+    this.startedAt = saved.startedAt;
+    this.openStdin();
+
+    // We are not the parent any more, so exits can only be noticed by polling
+    this.pollTimer = setInterval(() => {
+      if (this.pid && !this.isAlive(this.pid)) {
+        this.handleExit(null, null, true);
+      }
+    }, ATTACHED_POLL_INTERVAL);
+    this.pollTimer.unref();
+
+    console.log(`Re-attached to ${this.options.name} (PID ${saved.pid})`);
+    this.emitState();
+    return true;
+  }
+
+  getStatus(): SupervisorStatus {
+    if (!this.pid) {
+      return { running: false, phase: this.starting ? 'starting' : 'stopped', lastExit: this.lastExit };
+    }
+
+    return {
+      running: true,
+      phase: this.stopping ? 'stopping' : 'running',
+      pid: this.pid,
+      uptime: this.startedAt ? Math.floor((Date.now() - new Date(this.startedAt).getTime()) / 1000) : undefined,
+      startedAt: this.startedAt || undefined,
+      reattached: this.child === null,
+      lastExit: this.lastExit
+    };
+  }
+
+  /**
+   * Refuse starts from anyone - users, schedules and the watchdog - while something works on the install
+   * @param reason Completes "Server cannot start while ...", or null to allow starts again
+   */
+  holdStarts(reason: string | null): void {
+    this.startHold = reason;
+  }
+
+  /**
+   * Why starts are held, or null if they are not
+   */
+  getStartHold(): string | null {
+    return this.startHold;
+  }
+
+  async start(): Promise<{ success: boolean; message: string; pid?: number }> {
+    if (this.startHold) {
+      return { success: false, message: `Server cannot start while ${this.startHold}` };
+    }
+    if (this.starting) {
+      return { success: false, message: 'Server is already starting' };
+    }
+    if (this.pid) {
+      return { success: false, message: `Server already running with PID ${this.pid}`, pid: this.pid };
+    }
+
+    try {
+      await fs.promises.access(this.options.scriptPath, fs.constants.X_OK);
+    } catch {
+      return { success: false, message: `Server script not found or not executable at ${this.options.scriptPath}` };
+    }
+
+    this.starting = true;
+    this.emitState();
+    let stdinFd: number | null = null;
+    let logFd: number | null = null;
+
+    try {
+      await fs.promises.mkdir(this.options.runtimeDir, { recursive: true });
+      await fs.promises.mkdir(path.dirname(this.options.logPath), { recursive: true });
+      await this.ensureFifo();
+      await this.options.beforeStart?.();
+
+      // Opening read-write never blocks, and the server holding a writer means it never sees EOF
+      stdinFd = fs.openSync(this.fifoPath, fs.constants.O_RDWR);
+      logFd = fs.openSync(this.options.logPath, 'a');
+      fs.rmSync(this.exitFilePath, { force: true });
+
+      const child = spawn('/bin/sh', ['-c', EXIT_WRAPPER, 'sh', this.exitFilePath, this.options.scriptPath, ...(this.options.args || [])], {
+        cwd: path.dirname(this.options.scriptPath),
+        detached: true,
+        stdio: [stdinFd, logFd, logFd]
+      });
+
+      await new Promise<void>((resolve, reject) => {
+        child.once('spawn', resolve);
+        child.once('error', reject);
+      });
+
+      this.child = child;
+      this.pid = child.pid ?? null;
+      this.startedAt = new Date().toISOString();
+      child.unref();
+
+      child.on('exit', (code, signal) => this.handleExit(code, signal));
+
+      this.writePidFile();
+      this.openStdin();
+
+      console.log(`Started ${this.options.name} with PID ${this.pid}`);
+      this.emit('start', this.pid);
+
+      return { success: true, message: 'Server started', pid: this.pid || undefined };
+    } catch (error) {
+      console.error(`Failed to start ${this.options.name}:`, error);
+      return { success: false, message: `Failed to start server: ${(error as Error).message}` };
+    } finally {
+      // The child has its own copies of these descriptors
+      if (stdinFd !== null) fs.closeSync(stdinFd);
+      if (logFd !== null) fs.closeSync(logFd);
+      this.starting = false;
+      this.emitState();
+    }
+  }
+
+  /**
+   * Stop the server with the configured stop sequence: warning, quit command, SIGTERM, then SIGKILL.
+   * Each step only runs if the server is still up after the one before.
+   */
+  async stop(options: StopOptions = {}): Promise<StopResult> {
+    this.emit('stopping');
+
+    const pid = this.pid;
+    if (!pid) {
+      return { success: false, message: 'Server is not running' };
+    }
+    if (this.stopping) {
+      return { success: false, message: 'Server is already stopping' };
+    }
+
+    const sequence = getStopSequence(this.options.instanceId);
+    const progress = (step: StopStep, message: string) => {
+      console.log(`Stopping ${this.options.name}: ${message}`);
+      options.onProgress?.({ step, message });
+    };
+
+    // One listener for the whole sequence, so an exit between steps is not missed
+    let onExit: (exit: ServerExit) => void = () => {};
+    const exited = new Promise<ServerExit>(resolve => {
+      onExit = resolve;
+    });
+    this.once('exit', onExit);
+    const waitForExit = (seconds: number) => new Promise<ServerExit | null>(resolve => {
+      const timer = setTimeout(() => resolve(null), seconds * 1000);
+      exited.then(exit => {
+        clearTimeout(timer);
+        resolve(exit);
+      });
+    });
+    const stopped = (step: StopStep, exit: ServerExit): StopResult => {
+      progress(step, `Server stopped after ${STEP_DESCRIPTIONS[step]}`);
+      return { success: true, message: `Server stopped by ${STEP_DESCRIPTIONS[step]}`, stoppedBy: step, exit };
+    };
+
+    this.stopRequested = true;
+    this.stopping = true;
+    this.emitState();
+    try {
+      let exit: ServerExit | null = null;
+
+      if (sequence.warningCommand && !options.skipWarning && sequence.warningSeconds > 0) {
+        const warning = sequence.warningCommand.replace(/\{time\}/g, formatDuration(sequence.warningSeconds));
+        const sent = this.sendCommand(warning);
+        progress('warning', sent.success
+          ? `Warned players, waiting ${sequence.warningSeconds} seconds`
+          : `Could not warn players: ${sent.message}`);
+        if (sent.success) {
+          exit = await waitForExit(sequence.warningSeconds);
+          if (exit) return stopped('warning', exit);
+        }
+      }
+
+      if (sequence.quitCommand) {
+        const sent = this.sendCommand(sequence.quitCommand);
+        if (sent.success) {
+          progress('command', `Sent "${sequence.quitCommand}", waiting up to ${sequence.graceSeconds} seconds`);
+          exit = await waitForExit(sequence.graceSeconds);
+          if (exit) return stopped('command', exit);
+        } else {
+          progress('command', `Could not send "${sequence.quitCommand}": ${sent.message}`);
+        }
+      }
+
+      progress('sigterm', `Sending SIGTERM, waiting up to ${sequence.termSeconds} seconds`);
+      this.signal(pid, 'SIGTERM');
+      exit = await waitForExit(sequence.termSeconds);
+      if (exit) return stopped('sigterm', exit);
+
+      progress('sigkill', 'Sending SIGKILL');
+      this.signal(pid, 'SIGKILL');
+      exit = await waitForExit(KILL_TIMEOUT);
+      if (exit) return stopped('sigkill', exit);
+
+      return { success: false, message: `Server (PID ${pid}) did not exit after SIGKILL` };
+    } finally {
+      this.off('exit', onExit);
+      this.stopping = false;
+      // An exit has already reported the stopped state
+      if (this.pid) {
+        this.emitState();
+      }
+    }
+  }
+
+  /**
+   * Write a line to the server console
+   */
+  sendCommand(command: string): { success: boolean; message: string } {
+    if (!this.pid) {
+      return { success: false, message: 'Server is not running' };
+    }
+
+    if (/[\r\n]/.test(command)) {
+      return { success: false, message: 'Commands must be a single line' };
+    }
+
+    if (this.stdinFd === null) {
+      this.openStdin();
+    }
+    if (this.stdinFd === null) {
+      return { success: false, message: 'Server console is not available' };
+    }
+
+    try {
+      fs.writeSync(this.stdinFd, `${command}\n`);
+      return { success: true, message: 'Command sent to server' };
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      return {
+        success: false,
+        message: code === 'EAGAIN' ? 'Server is not reading console input' : `Failed to send command: ${(error as Error).message}`
+      };
+    }
+  }
+
+  private handleExit(code: number | null, signal: NodeJS.Signals | null, unobserved = false): void {
+    if (!this.pid) {
+      return;
+    }
+
+    // The wrapper's record is the script's own status, whether or not we are the parent
+    const recorded = this.readExitFile();
+    if (recorded) {
+      ({ code, signal } = recorded);
+      unobserved = false;
+    }
+
+    const exit: ServerExit = {
+      code,
+      signal,
+      at: new Date().toISOString(),
+      uptime: this.startedAt ? Math.floor((Date.now() - new Date(this.startedAt).getTime()) / 1000) : null,
+      requested: this.stopRequested,
+      unobserved
+    };
+    console.log(`${this.options.name} (PID ${this.pid}) exited with ${
+      unobserved ? 'an unknown status' : signal ? `signal ${signal}` : `code ${code}`
+    }`);
+
+    this.lastExit = exit;
+    this.stopRequested = false;
+    this.pid = null;
+    this.startedAt = null;
+    this.child = null;
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.closeStdin();
+    this.removePidFile();
+
+    this.emit('exit', exit);
+    this.emitState();
+  }
+
+  private emitState(): void {
+    this.emit('state', this.getStatus());
+  }
+
+  /**
+   * Signal the server's whole process group, so processes started by the script go too
+   */
+  private signal(pid: number, signal: NodeJS.Signals): void {
+    try {
+      process.kill(-pid, signal);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ESRCH') {
+        throw error;
+      }
+    }
+  }
+
+  private isAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0);
+      return true;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'EPERM';
+    }
+  }
+
+  /**
+   * Check the PID still belongs to the server script, in case it was reused after a reboot
+   */
+  private isServerProcess(pid: number): boolean {
+    try {
+      const cmdline = fs.readFileSync(`/proc/${pid}/cmdline`, 'utf-8');
+      return cmdline.includes(path.basename(this.options.scriptPath));
+    } catch {
+      return false;
+    }
+  }
+
+  private async ensureFifo(): Promise<void> {
+    try {
+      if (fs.statSync(this.fifoPath).isFIFO()) {
+        return;
+      }
+      fs.unlinkSync(this.fifoPath);
+    } catch {
+      // Does not exist yet
+    }
+    await runProcess('mkfifo', ['-m', '600', this.fifoPath]);
+  }
+
+  private openStdin(): void {
+    this.closeStdin();
+    try {
+      // Non-blocking so a server that stops reading cannot hang the dashboard
+      this.stdinFd = fs.openSync(this.fifoPath, fs.constants.O_WRONLY | fs.constants.O_NONBLOCK);
+    } catch (error) {
+      console.error(`Could not open console input for ${this.options.name}:`, (error as Error).message);
+    }
+  }
+
+  private closeStdin(): void {
+    if (this.stdinFd !== null) {
+      try {
+        fs.closeSync(this.stdinFd);
+      } catch {
+        // Already closed
+      }
+      this.stdinFd = null;
+    }
+  }
+
+  /**
+   * Read and remove the exit status the wrapper wrote - shells report death by signal N as 128 + N
+   */
+  private readExitFile(): { code: number | null; signal: NodeJS.Signals | null } | null {
+    let status: number;
+    try {
+      status = Number.parseInt(fs.readFileSync(this.exitFilePath, 'utf-8').trim(), 10);
+    } catch {
+      return null;
+    } finally {
+      fs.rmSync(this.exitFilePath, { force: true });
+    }
+    if (Number.isNaN(status)) {
+      return null;
+    }
+
+    const signal = status > 128
+      ? (Object.entries(os.constants.signals).find(([, number]) => number === status - 128)?.[0] as NodeJS.Signals | undefined)
+      : undefined;
+    return signal ? { code: null, signal } : { code: status, signal: null };
+  }
+
+  private writePidFile(): void {
+    if (!this.pid || !this.startedAt) {
+      return;
+    }
+    const contents: PidFile = { pid: this.pid, startedAt: this.startedAt, scriptPath: this.options.scriptPath };
+    fs.writeFileSync(this.pidFilePath, JSON.stringify(contents), 'utf-8');
+  }
+
+  private removePidFile(): void {
+    fs.rmSync(this.pidFilePath, { force: true });
+  }
+}
@@ -0,0 +1,96 @@
+import { getInstanceSetting, setInstanceSetting } from '../database';
+
+const SEQUENCE_SETTING_KEY = 'stop_sequence';
+
+// How the server is asked to stop, from most to least polite
+export interface StopSequence {
+  // Console command announcing the stop, with a {time} placeholder - empty to skip the warning
+  warningCommand: string;
+  // Seconds between the warning and the quit command
+  warningSeconds: number;
+  // Console command that shuts the server down cleanly - empty to go straight to SIGTERM
+  quitCommand: string;
+  // Seconds the server gets to exit after the quit command
+  graceSeconds: number;
+  // Seconds the server gets to exit after SIGTERM before it is killed
+  termSeconds: number;
+}
+
+export const DEFAULT_STOP_SEQUENCE: StopSequence = {
+  warningCommand: '',
+  warningSeconds: 10,
+  quitCommand: 'stop',
+  graceSeconds: 30,
+  termSeconds: 10
+};
+
+// Allowed range for each numeric field
+const SEQUENCE_LIMITS: Record<'warningSeconds' | 'graceSeconds' | 'termSeconds', [number, number]> = {
+  warningSeconds: [0, 300],
+  graceSeconds: [0, 300],
+  termSeconds: [1, 120]
+};
+
+/**
+ * "10 minutes", "1 hour", "30 seconds"
+ */
+export function formatDuration(seconds: number): string {
+  const [value, unit] = seconds >= 3600 && seconds % 3600 === 0
+    ? [seconds / 3600, 'hour']
+    : seconds >= 60 && seconds % 60 === 0
+      ? [seconds / 60, 'minute']
+      : [seconds, 'second'];
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+}
+
+export function getStopSequence(instanceId: number): StopSequence {
+  const stored = getInstanceSetting(instanceId, SEQUENCE_SETTING_KEY);
+  if (!stored) {
+    return { ...DEFAULT_STOP_SEQUENCE };
+  }
+
+  try {
+    return { ...DEFAULT_STOP_SEQUENCE, ...JSON.parse(stored) };
+  } catch {
+    console.error('Ignoring unreadable stop sequence, using defaults');
+    return { ...DEFAULT_STOP_SEQUENCE };
+  }
+}
+
+/**
+ * Validate and store an instance's stop sequence. Fields left out keep their current value.
+ * @returns The saved sequence, or an error describing the first invalid field
+ */
+export function saveStopSequence(instanceId: number, input: unknown): { sequence?: StopSequence; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Stop sequence must be an object' };
+  }
+
+  const values = input as Record<string, unknown>;
+  const sequence = getStopSequence(instanceId);
+
+  for (const field of ['warningCommand', 'quitCommand'] as const) {
+    const value = values[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string' || value.length > 200 || /[\r\n]/.test(value)) {
+      return { error: `${field} must be a single line of at most 200 characters` };
+    }
+    sequence[field] = value.trim();
+  }
+
+  for (const [field, [min, max]] of Object.entries(SEQUENCE_LIMITS) as [keyof typeof SEQUENCE_LIMITS, [number, number]][]) {
+    const value = values[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      return { error: `${field} must be a whole number between ${min} and ${max}` };
+    }
+    sequence[field] = value;
+  }
+
+  setInstanceSetting(instanceId, SEQUENCE_SETTING_KEY, JSON.stringify(sequence));
+  return { sequence };
+}
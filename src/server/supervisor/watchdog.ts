@@ -0,0 +1,240 @@
+import * as fs from 'node:fs/promises';
+import {
+  getInstanceSetting,
+  setInstanceSetting,
+  insertServerCrash,
+  countServerCrashesSince,
+  getServerInstance,
+  type ServerCrash
+} from '../database';
+import { recordAudit } from '../audit';
+import type { ServerSupervisor, ServerExit } from './index';
+
+const POLICY_SETTING_KEY = 'restart_policy';
+// How much of the end of the log file is read when looking for the last lines
+const LOG_TAIL_BYTES = 64 * 1024;
+
+export interface RestartPolicy {
+  enabled: boolean;
+  // Delay before the first restart, doubled for every further crash in the window
+  initialDelaySeconds: number;
+  maxDelaySeconds: number;
+  // Crashes allowed within the window before the watchdog gives up
+  maxRestarts: number;
+  windowMinutes: number;
+  // Log lines kept with each crash record
+  logLines: number;
+}
+
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  enabled: true,
+  initialDelaySeconds: 5,
+  maxDelaySeconds: 300,
+  maxRestarts: 5,
+  windowMinutes: 30,
+  logLines: 50
+};
+
+// Allowed range for each numeric policy field
+const POLICY_LIMITS: Record<Exclude<keyof RestartPolicy, 'enabled'>, [number, number]> = {
+  initialDelaySeconds: [1, 3600],
+  maxDelaySeconds: [1, 24 * 3600],
+  maxRestarts: [1, 100],
+  windowMinutes: [1, 24 * 60],
+  logLines: [0, 500]
+};
+
+export interface WatchdogStatus {
+  policy: RestartPolicy;
+  // When the pending restart will happen, if one is scheduled
+  pendingRestartAt: string | null;
+  crashesInWindow: number;
+}
+
+export function getRestartPolicy(instanceId: number): RestartPolicy {
+  const stored = getInstanceSetting(instanceId, POLICY_SETTING_KEY);
+  if (!stored) {
+    return { ...DEFAULT_RESTART_POLICY };
+  }
+
+  try {
+    return { ...DEFAULT_RESTART_POLICY, ...JSON.parse(stored) };
+  } catch {
+    console.error('Ignoring unreadable restart policy, using defaults');
+    return { ...DEFAULT_RESTART_POLICY };
+  }
+}
+
+/**
+ * Validate and store an instance's restart policy. Fields left out keep their current value.
+ * @returns The saved policy, or an error describing the first invalid field
+ */
+export function saveRestartPolicy(instanceId: number, input: unknown): { policy?: RestartPolicy; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Restart policy must be an object' };
+  }
+
+  const values = input as Record<string, unknown>;
+  const policy = getRestartPolicy(instanceId);
+
+  if (values.enabled !== undefined) {
+    if (typeof values.enabled !== 'boolean') {
+      return { error: 'enabled must be true or false' };
+    }
+    policy.enabled = values.enabled;
+  }
+
+  for (const [field, [min, max]] of Object.entries(POLICY_LIMITS) as [keyof typeof POLICY_LIMITS, [number, number]][]) {
+    const value = values[field];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+      return { error: `${field} must be a whole number between ${min} and ${max}` };
+    }
+    policy[field] = value;
+  }
+
+  if (policy.maxDelaySeconds < policy.initialDelaySeconds) {
+    return { error: 'maxDelaySeconds cannot be less than initialDelaySeconds' };
+  }
+
+  setInstanceSetting(instanceId, POLICY_SETTING_KEY, JSON.stringify(policy));
+  return { policy };
+}
+
+/**
+ * Read the last lines of a log file without loading all of it
+ */
+async function readLogTail(logPath: string, lines: number): Promise<string | null> {
+  if (lines === 0) {
+    return null;
+  }
+
+  let handle: fs.FileHandle | undefined;
+  try {
+    handle = await fs.open(logPath, 'r');
+    const { size } = await handle.stat();
+    const length = Math.min(size, LOG_TAIL_BYTES);
+    const buffer = Buffer.alloc(length);
+    await handle.read(buffer, 0, length, size - length);
+    return buffer.toString('utf-8').split('\n').filter(Boolean).slice(-lines).join('\n');
+  } catch (error) {
+    console.error('Could not read server log for crash record:', (error as Error).message);
+    return null;
+  } finally {
+    await handle?.close();
+  }
+}
+
+/**
+ * Restarts the game server when it exits without being asked to, backing off between attempts.
+ *
+ * Any exit not requested through stop() counts as a crash, except a clean exit with code 0
+ * (for example a "quit" typed into the console). Crashes are stored with the end of the log.
+ * An exit whose status could not be read at all counts as a crash too, with an unknown status.
+ */
+export class CrashWatchdog {
+  private readonly instanceId: number;
+  private readonly supervisor: ServerSupervisor;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private pendingRestartAt: string | null = null;
+
+  constructor(instanceId: number, supervisor: ServerSupervisor) {
+    this.instanceId = instanceId;
+    this.supervisor = supervisor;
+  }
+
+  start(): void {
+    this.supervisor.on('exit', (exit: ServerExit) => {
+      this.handleExit(exit).catch(error => {
+        console.error('Crash watchdog failed to handle server exit:', error);
+      });
+    });
+
+    // A manual start or stop takes over from any restart still waiting
+    this.supervisor.on('start', () => this.cancelPendingRestart());
+    this.supervisor.on('stopping', () => this.cancelPendingRestart());
+  }
+
+  getStatus(): WatchdogStatus {
+    const policy = getRestartPolicy(this.instanceId);
+    return {
+      policy,
+      pendingRestartAt: this.pendingRestartAt,
+      crashesInWindow: countServerCrashesSince(this.instanceId, policy.windowMinutes * 60)
+    };
+  }
+
+  cancelPendingRestart(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+      this.pendingRestartAt = null;
+      console.log('Cancelled pending server restart');
+    }
+  }
+
+  private async handleExit(exit: ServerExit): Promise<void> {
+    if (exit.requested || exit.code === 0) {
+      return;
+    }
+    if (exit.unobserved) {
+      console.log(`Server instance ${this.instanceId} exited with an unknown status - handling it as a crash`);
+    }
+
+    const policy = getRestartPolicy(this.instanceId);
+    // Includes the crash being handled, which is recorded below
+    const crashes = countServerCrashesSince(this.instanceId, policy.windowMinutes * 60) + 1;
+
+    const action: ServerCrash['action'] = !policy.enabled ? 'disabled' : crashes > policy.maxRestarts ? 'limit' : 'restart';
+    const delay = Math.min(policy.initialDelaySeconds * 2 ** (crashes - 1), policy.maxDelaySeconds);
+
+    const crashId = insertServerCrash({
+      instance_id: this.instanceId,
+      exit_code: exit.code,
+      signal: exit.signal,
+      uptime_seconds: exit.uptime,
+      action,
+      restart_delay_seconds: action === 'restart' ? delay : null,
+      log_tail: await readLogTail(this.supervisor.logPath, policy.logLines)
+    });
+
+    if (action === 'disabled') {
+      console.log(`Server instance ${this.instanceId} crashed - automatic restarts are disabled`);
+      return;
+    }
+
+    if (action === 'limit') {
+      console.error(`Server instance ${this.instanceId} crashed ${crashes} times in ${policy.windowMinutes} minutes - not restarting it again`);
+      return;
+    }
+
+    console.log(`Server instance ${this.instanceId} crashed (crash ${crashes} of ${policy.maxRestarts} allowed), restarting in ${delay} seconds`);
+    this.cancelPendingRestart();
+    this.pendingRestartAt = new Date(Date.now() + delay * 1000).toISOString();
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.pendingRestartAt = null;
+      this.restart(crashId).catch(error => {
+        console.error('Automatic server restart failed:', error);
+      });
+    }, delay * 1000);
+  }
+
+  private async restart(crashId: number): Promise<void> {
+    if (this.supervisor.getStatus().running) {
+      return;
+    }
+
+    const result = await this.supervisor.start();
+    recordAudit({
+      actor: { username: 'watchdog' },
+      action: 'server.start',
+      target: getServerInstance(this.instanceId)?.name,
+      details: { reason: 'crash', crashId },
+      success: result.success,
+      error: result.message
+    });
+  }
+}
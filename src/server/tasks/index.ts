@@ -0,0 +1,398 @@
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { hasPermission, type Permission } from '../auth/permissions';
+import { recordAudit, type AuditAction } from '../audit';
+import type { ServerInstance } from '../database';
+import { runProcess } from './process';
+import { getSteamCmdDir, getAppUpdateArgs, SERVER_BRANCHES, type ServerBranch } from '../instances/steam';
+import { claimInstall, releaseInstall } from '../instances';
+
+const STEAMCMD_URL = 'https://steamcdn-a.akamaihd.net/client/installer/steamcmd_linux.tar.gz';
+const DASHBOARD_SERVICE = 'nanos-dashboard.service';
+
+const MINUTE = 60 * 1000;
+
+// Module IDs and package/asset folder names end up in paths, so they must be plain names
+const NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]{0,63}$/;
+
+type TaskArgumentSpec =
+  | { type: 'string'; pattern: RegExp; description: string }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'url'; protocols: readonly string[] };
+
+type TaskArguments = Record<string, string>;
+
+interface TaskDefinition {
+  description: string;
+  permission: Permission;
+  // Read-only tasks are not written to the audit log
+  audit?: AuditAction;
+  // Argument recorded as the audit target instead of the task name
+  auditTarget?: string;
+  timeout: number;
+  args: Record<string, TaskArgumentSpec>;
+  // Tasks working on a game server get the instance the request was for
+  run: (args: TaskArguments, timeout: number, instance: ServerInstance) => Promise<{ output: string; result?: unknown }>;
+}
+
+// Module as tracked in installed_modules.json
+interface InstalledModule {
+  id: string;
+  installedAt: string;
+  version: string;
+  files: {
+    packages: string[];
+    assets: string[];
+  };
+}
+
+export interface TaskInfo {
+  name: string;
+  description: string;
+  args: Record<string, { type: TaskArgumentSpec['type']; values?: readonly string[] }>;
+}
+
+export interface TaskActor {
+  id?: number;
+  username: string;
+  role: string;
+}
+
+export type TaskOutcome =
+  | { success: true; output: string; result?: unknown }
+  | { success: false; error: string; reason: 'unknown' | 'invalid' | 'forbidden' | 'failed' };
+
+function getInstalledModulesPath(instance: ServerInstance): string {
+  return path.join(instance.install_dir, 'installed_modules.json');
+}
+
+async function readInstalledModules(instance: ServerInstance): Promise<InstalledModule[]> {
+  try {
+    const modules = JSON.parse(await fs.readFile(getInstalledModulesPath(instance), 'utf-8'));
+    return Array.isArray(modules) ? modules : [];
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return [];
+    }
+    throw error;
+  }
+}
+
+async function writeInstalledModules(instance: ServerInstance, modules: InstalledModule[]): Promise<void> {
+  await fs.writeFile(getInstalledModulesPath(instance), JSON.stringify(modules, null, 2), 'utf-8');
+}
+
+/**
+ * List the folders directly inside a directory, or nothing if it does not exist
+ */
+async function listFolders(dirPath: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.filter(entry => entry.isDirectory() && NAME_PATTERN.test(entry.name)).map(entry => entry.name);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Run a series of sudo commands, collecting their output
+ */
+async function runSudoSteps(steps: string[][], timeout: number, cwd?: string): Promise<{ output: string }> {
+  const output: string[] = [];
+  for (const step of steps) {
+    const { stdout, stderr } = await runProcess('sudo', step, { cwd, timeout });
+    output.push(stdout || stderr);
+  }
+  return { output: output.join('').trim() || 'Done' };
+}
+
+// Every operation the dashboard can run on the host
+const TASKS: Record<string, TaskDefinition> = {
+  'modules.list': {
+    description: 'List the installed modules',
+    permission: 'files.read',
+    timeout: MINUTE,
+    args: {},
+    run: async (args, timeout, instance) => {
+      const modules = await readInstalledModules(instance);
+      return { output: `${modules.length} modules installed`, result: modules };
+    }
+  },
+
+  'modules.install': {
+    description: 'Download a module archive and copy its packages and assets into the server',
+    permission: 'files.write',
+    audit: 'module.install',
+    auditTarget: 'moduleId',
+    timeout: 15 * MINUTE,
+    args: {
+      moduleId: { type: 'string', pattern: NAME_PATTERN, description: 'letters, digits, dot, dash or underscore' },
+      version: { type: 'string', pattern: /^[A-Za-z0-9_.+-]{1,32}$/, description: 'a version number' },
+      downloadUrl: { type: 'url', protocols: ['https:'] }
+    },
+    run: async ({ moduleId, version, downloadUrl }, timeout, instance) => {
+      const tempDir = path.join(instance.install_dir, 'temp', moduleId);
+      const archivePath = path.join(tempDir, 'module.zip');
+
+      await fs.rm(tempDir, { recursive: true, force: true });
+      await fs.mkdir(tempDir, { recursive: true });
+
+      try {
+        await runProcess('curl', ['-fsSL', '--proto', '=https', '-o', archivePath, downloadUrl], { timeout });
+        await runProcess('unzip', ['-o', '-q', archivePath, '-d', tempDir], { timeout });
+
+        const packages = await listFolders(path.join(tempDir, 'Packages'));
+        const assets = await listFolders(path.join(tempDir, 'Assets'));
+
+        for (const [folder, names] of [['Packages', packages], ['Assets', assets]] as const) {
+          await fs.mkdir(path.join(instance.install_dir, folder), { recursive: true });
+          for (const name of names) {
+            await fs.cp(path.join(tempDir, folder, name), path.join(instance.install_dir, folder, name), { recursive: true, force: true });
+          }
+        }
+
+        const installed: InstalledModule = {
+          id: moduleId,
+          installedAt: new Date().toISOString(),
+          version,
+          files: { packages, assets }
+        };
+        const modules = (await readInstalledModules(instance)).filter(module => module.id !== moduleId);
+        await writeInstalledModules(instance, [...modules, installed]);
+
+        return { output: `Installed ${packages.length} packages and ${assets.length} assets`, result: installed };
+      } finally {
+        await fs.rm(tempDir, { recursive: true, force: true });
+      }
+    }
+  },
+
+  'modules.uninstall': {
+    description: 'Remove the packages and assets of an installed module',
+    permission: 'files.write',
+    audit: 'module.uninstall',
+    auditTarget: 'moduleId',
+    timeout: 5 * MINUTE,
+    args: {
+      moduleId: { type: 'string', pattern: NAME_PATTERN, description: 'letters, digits, dot, dash or underscore' }
+    },
+    run: async ({ moduleId }, timeout, instance) => {
+      const modules = await readInstalledModules(instance);
+      const module = modules.find(m => m.id === moduleId);
+      if (!module) {
+        throw new Error(`Module ${moduleId} is not installed`);
+      }
+
+      // Names come from a file on disk, so they are checked again before anything is deleted
+      for (const [folder, names] of [['Packages', module.files.packages], ['Assets', module.files.assets]] as const) {
+        for (const name of names.filter(n => NAME_PATTERN.test(n))) {
+          await fs.rm(path.join(instance.install_dir, folder, name), { recursive: true, force: true });
+        }
+      }
+
+      await writeInstalledModules(instance, modules.filter(m => m.id !== moduleId));
+      return { output: `Uninstalled ${moduleId}` };
+    }
+  },
+
+  'nanos.install-dependencies': {
+    description: 'Install the system packages the game server needs',
+    permission: 'system.manage',
+    audit: 'nanos.install',
+    timeout: 10 * MINUTE,
+    args: {},
+    run: (args, timeout) => runSudoSteps([['apt-get', 'install', '-y', 'lib32gcc-s1', 'unzip']], timeout)
+  },
+
+  'nanos.prepare-directory': {
+    description: 'Create the server directory and hand it to the dashboard user',
+    permission: 'system.manage',
+    audit: 'nanos.install',
+    timeout: MINUTE,
+    args: {},
+    run: (args, timeout, instance) => {
+      const user = os.userInfo().username;
+      return runSudoSteps([
+        ['mkdir', '-p', getSteamCmdDir(instance)],
+        ['chown', '-R', `${user}:${user}`, instance.install_dir]
+      ], timeout);
+    }
+  },
+
+  'nanos.install-steamcmd': {
+    description: 'Download and unpack SteamCMD',
+    permission: 'system.manage',
+    audit: 'nanos.install',
+    timeout: 10 * MINUTE,
+    args: {},
+    run: async (args, timeout, instance) => {
+      const steamCmdDir = getSteamCmdDir(instance);
+      const archivePath = path.join(steamCmdDir, 'steamcmd_linux.tar.gz');
+      await fs.mkdir(steamCmdDir, { recursive: true });
+      await runProcess('curl', ['-fsSL', '-o', archivePath, STEAMCMD_URL], { timeout });
+      await runProcess('tar', ['-xzf', archivePath, '-C', steamCmdDir], { timeout });
+      await fs.rm(archivePath, { force: true });
+      return { output: 'SteamCMD installed' };
+    }
+  },
+
+  'nanos.install-server': {
+    description: 'Download or update the game server through SteamCMD',
+    permission: 'system.manage',
+    audit: 'nanos.install',
+    timeout: 60 * MINUTE,
+    args: {
+      channel: { type: 'enum', values: SERVER_BRANCHES }
+    },
+    run: async ({ channel }, timeout, instance) => {
+      // Shares the update's claim, so an install and an update never write to one install together
+      const holder = claimInstall(instance.id, 'its server files are being installed');
+      if (holder) {
+        throw new Error(`${instance.name} cannot be installed while ${holder}`);
+      }
+
+      try {
+        const steamCmdDir = getSteamCmdDir(instance);
+        const { stdout } = await runProcess(
+          path.join(steamCmdDir, 'steamcmd.sh'),
+          ['+force_install_dir', instance.install_dir, '+login', 'anonymous', ...getAppUpdateArgs(channel as ServerBranch, true), '+quit'],
+          { cwd: steamCmdDir, timeout }
+        );
+
+        await fs.chmod(path.join(instance.install_dir, 'NanosWorldServer.sh'), 0o755);
+        return { output: stdout.trim().split('\n').slice(-20).join('\n') };
+      } finally {
+        releaseInstall(instance.id);
+      }
+    }
+  },
+
+  'dashboard.restart': {
+    description: 'Restart the dashboard service',
+    permission: 'system.manage',
+    audit: 'dashboard.update',
+    timeout: MINUTE,
+    args: {},
+    run: (args, timeout) => runSudoSteps([['systemctl', 'restart', DASHBOARD_SERVICE]], timeout)
+  }
+};
+
+/**
+ * Arbitrary shell commands (/api/commands/execute and the execute_command socket event)
+ * stay off unless ENABLE_SHELL_COMMANDS=true
+ */
+export function isShellEnabled(): boolean {
+  return process.env.ENABLE_SHELL_COMMANDS === 'true';
+}
+
+/**
+ * Check raw arguments against a task's specification
+ * @returns The validated arguments, or an error message
+ */
+function validateArguments(definition: TaskDefinition, raw: unknown): TaskArguments | string {
+  const input = (raw && typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+  const args: TaskArguments = {};
+
+  for (const key of Object.keys(input)) {
+    if (!(key in definition.args)) {
+      return `Unknown argument: ${key}`;
+    }
+  }
+
+  for (const [key, spec] of Object.entries(definition.args)) {
+    const value = input[key];
+    if (typeof value !== 'string' || !value) {
+      return `Argument ${key} is required`;
+    }
+
+    switch (spec.type) {
+      case 'string':
+        if (!spec.pattern.test(value)) {
+          return `Argument ${key} must be ${spec.description}`;
+        }
+        break;
+      case 'enum':
+        if (!spec.values.includes(value)) {
+          return `Argument ${key} must be one of: ${spec.values.join(', ')}`;
+        }
+        break;
+      case 'url': {
+        let url: URL;
+        try {
+          url = new URL(value);
+        } catch {
+          return `Argument ${key} must be a URL`;
+        }
+        if (!spec.protocols.includes(url.protocol)) {
+          return `Argument ${key} must use ${spec.protocols.join(' or ')}`;
+        }
+        break;
+      }
+    }
+
+    args[key] = value;
+  }
+
+  return args;
+}
+
+/**
+ * List the tasks a role may run
+ */
+export function listTasks(role: string): TaskInfo[] {
+  return Object.entries(TASKS)
+    .filter(([, definition]) => hasPermission(role, definition.permission))
+    .map(([name, definition]) => ({
+      name,
+      description: definition.description,
+      args: Object.fromEntries(Object.entries(definition.args).map(([key, spec]) => [
+        key,
+        spec.type === 'enum' ? { type: spec.type, values: spec.values } : { type: spec.type }
+      ]))
+    }));
+}
+
+/**
+ * Run a named task after checking its arguments and the actor's permission.
+ * Tasks with an audit action are recorded whatever the outcome.
+ * @param instance The server instance tasks that work on a game server apply to
+ */
+export async function runTask(name: string, rawArgs: unknown, actor: TaskActor, instance: ServerInstance, ip?: string): Promise<TaskOutcome> {
+  const definition = Object.prototype.hasOwnProperty.call(TASKS, name) ? TASKS[name] : undefined;
+  if (!definition) {
+    return { success: false, error: `Unknown task: ${name}`, reason: 'unknown' };
+  }
+
+  const audit = (success: boolean, error?: string, args?: TaskArguments) => {
+    if (definition.audit) {
+      const target = (definition.auditTarget && args?.[definition.auditTarget]) || name;
+      recordAudit({ actor, ip, action: definition.audit, target, details: { ...args, instanceId: instance.id }, success, error });
+    }
+  };
+
+  if (!hasPermission(actor.role, definition.permission)) {
+    const error = `Your role does not allow this action (${definition.permission})`;
+    audit(false, error);
+    return { success: false, error, reason: 'forbidden' };
+  }
+
+  const args = validateArguments(definition, rawArgs);
+  if (typeof args === 'string') {
+    audit(false, args);
+    return { success: false, error: args, reason: 'invalid' };
+  }
+
+  console.log(`Running task ${name} for ${actor.username} on instance ${instance.name}`, args);
+
+  try {
+    const { output, result } = await definition.run(args, definition.timeout, instance);
+    audit(true, undefined, args);
+    return { success: true, output, result };
+  } catch (error) {
+    const message = (error as Error).message;
+    console.error(`Task ${name} failed:`, message);
+    audit(false, message, args);
+    return { success: false, error: message, reason: 'failed' };
+  }
+}
@@ -0,0 +1,84 @@
+import { spawn } from 'node:child_process';
+
+// Output kept per stream; older output is dropped so a chatty process cannot exhaust memory
+const MAX_OUTPUT_BYTES = 1024 * 1024;
+
+export interface ProcessResult {
+  stdout: string;
+  stderr: string;
+}
+
+export interface RunProcessOptions {
+  cwd?: string;
+  // Milliseconds before the process is killed
+  timeout?: number;
+  // Called with each chunk of output as it arrives
+  onOutput?: (chunk: string) => void;
+}
+
+/**
+ * Keep the tail of a stream's output within MAX_OUTPUT_BYTES
+ */
+function appendOutput(current: string, chunk: string): string {
+  const combined = current + chunk;
+  return combined.length > MAX_OUTPUT_BYTES ? combined.slice(combined.length - MAX_OUTPUT_BYTES) : combined;
+}
+
+/**
+ * Run a program with an argument array - no shell is involved, so arguments are never interpreted
+ * @returns The collected output; rejects if the program cannot start, times out or exits non-zero
+ */
+export function runProcess(command: string, args: string[], options: RunProcessOptions = {}): Promise<ProcessResult> {
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    let timedOut = false;
+
+    const child = spawn(command, args, {
+      cwd: options.cwd,
+      stdio: ['ignore', 'pipe', 'pipe']
+    });
+
+    const timer = options.timeout
+      ? setTimeout(() => {
+          timedOut = true;
+          child.kill('SIGTERM');
+        }, options.timeout)
+      : null;
+
+    child.stdout.setEncoding('utf-8');
+    child.stderr.setEncoding('utf-8');
+
+    child.stdout.on('data', (chunk: string) => {
+      stdout = appendOutput(stdout, chunk);
+      options.onOutput?.(chunk);
+    });
+
+    child.stderr.on('data', (chunk: string) => {
+      stderr = appendOutput(stderr, chunk);
+      options.onOutput?.(chunk);
+    });
+
+    child.on('error', error => {
+      if (timer) clearTimeout(timer);
+      reject(new Error(`Failed to start ${command}: ${error.message}`));
+    });
+
+    child.on('close', (code, signal) => {
+      if (timer) clearTimeout(timer);
+
+      if (timedOut) {
+        reject(new Error(`${command} timed out after ${Math.round((options.timeout || 0) / 1000)} seconds`));
+        return;
+      }
+
+      if (code !== 0) {
+        const detail = (stderr || stdout).trim().split('\n').slice(-5).join('\n');
+        reject(new Error(`${command} ${signal ? `was killed by ${signal}` : `exited with code ${code}`}${detail ? `: ${detail}` : ''}`));
+        return;
+      }
+
+      resolve({ stdout, stderr });
+    });
+  });
+}
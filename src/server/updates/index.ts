@@ -0,0 +1,247 @@
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import fetch from 'node-fetch';
+import { compareVersions, isValidVersion } from './semver';
+import {
+  getUpdatePreferences,
+  saveUpdatePreferences,
+  isOnChannel,
+  UPDATE_CHANNELS,
+  type UpdateChannel,
+  type UpdatePreferences
+} from './preferences';
+
+// How often the remote manifest is fetched - everything in between is served from the last result
+const UPDATE_CHECK_INTERVAL = 30 * 60 * 1000;
+const LOCAL_UPDATE_FILE = path.join(process.cwd(), 'update.json');
+
+// A release in the manifest's releases list - only the version is mandatory
+export interface ManifestRelease {
+  version: string;
+  channel?: UpdateChannel;
+  // ISO date the release was published
+  date?: string;
+  changelog?: string;
+  required?: boolean;
+}
+
+// Contents of update.json, both the local copy and the published one. The top-level fields
+// describe the newest stable release, which is all dashboards from before channels read; in the
+// local copy latest_version is the version of the install itself.
+export interface UpdateManifest {
+  latest_version: string;
+  repository_url: string;
+  changelog: string;
+  required: boolean;
+  releases?: ManifestRelease[];
+}
+
+// A release of the fetched manifest, as shown on the updates page
+export interface ReleaseInfo {
+  version: string;
+  channel: UpdateChannel;
+  date: string | null;
+  changelog: string;
+  required: boolean;
+  // Newer than the running version
+  newer: boolean;
+  skipped: boolean;
+}
+
+export interface VersionStatus {
+  current: string;
+  // Newest release of the channel - null until the remote manifest has been fetched once
+  latest: string | null;
+  // What an update installs now: the newest release that is neither skipped nor past the pin
+  target: string | null;
+  updateAvailable: boolean;
+  // A required release is newer than the running version - the dashboard is locked until it is applied
+  required: boolean;
+  channel: UpdateChannel;
+  pinned: string | null;
+  // ISO time of the last successful check
+  checkedAt: string | null;
+  // Why the last check failed, cleared by the next successful one
+  error: string | null;
+}
+
+type Release = Omit<ReleaseInfo, 'newer' | 'skipped'>;
+
+/**
+ * Read the running version from the local update.json
+ */
+async function readCurrentVersion(): Promise<string> {
+  try {
+    const content = await fs.readFile(LOCAL_UPDATE_FILE, 'utf-8');
+    const localManifest: UpdateManifest = JSON.parse(content);
+    return localManifest.latest_version;
+  } catch (error) {
+    console.error('Error reading current version:', error);
+    return '0.0.0'; // Fallback version if file cannot be read
+  }
+}
+
+/**
+ * The manifest's releases, newest first - a manifest without a list is its one stable release
+ */
+function readReleases(manifest: UpdateManifest): Release[] {
+  const listed: ManifestRelease[] = Array.isArray(manifest.releases)
+    ? manifest.releases
+    : [{ version: manifest.latest_version, channel: 'stable', changelog: manifest.changelog, required: manifest.required }];
+
+  return listed
+    .filter(release => typeof release?.version === 'string' && isValidVersion(release.version))
+    .map(release => ({
+      version: release.version.replace(/^v/, ''),
+      channel: UPDATE_CHANNELS.includes(release.channel as UpdateChannel) ? release.channel as UpdateChannel : 'stable',
+      date: release.date ?? null,
+      changelog: release.changelog ?? '',
+      required: release.required === true
+    }))
+    .sort((a, b) => compareVersions(b.version, a.version));
+}
+
+/**
+ * Checks the published manifest for a newer dashboard on its own interval and keeps the answer,
+ * so showing the version never costs a request. Which release is offered follows the channel,
+ * pinned and skipped versions in the update preferences.
+ *
+ * Emits 'status' with the VersionStatus whenever a check or a preference change alters it.
+ */
+class UpdateChecker extends EventEmitter {
+  private current = '0.0.0';
+  // Null until the remote manifest has been fetched once
+  private releases: Release[] | null = null;
+  private checkedAt: string | null = null;
+  private error: string | null = null;
+  private status: VersionStatus = {
+    current: '0.0.0',
+    latest: null,
+    target: null,
+    updateAvailable: false,
+    required: false,
+    channel: 'stable',
+    pinned: null,
+    checkedAt: null,
+    error: null
+  };
+  private timer: NodeJS.Timeout | null = null;
+
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    this.current = await readCurrentVersion();
+    this.refresh();
+    this.timer = setInterval(() => this.check(), UPDATE_CHECK_INTERVAL);
+    await this.check();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  getStatus(): VersionStatus {
+    return this.status;
+  }
+
+  /**
+   * Why the dashboard is locked, or null - it is while a required release is newer than the running version
+   */
+  getLock(): string | null {
+    const { required, target } = this.status;
+    return required ? `v${target} is a required update - install it from Updates to use the dashboard again` : null;
+  }
+
+  /**
+   * Releases of the channel, newest first - empty until the manifest has been fetched
+   */
+  getReleases(): ReleaseInfo[] {
+    const { channel, skipped } = getUpdatePreferences();
+    return (this.releases ?? [])
+      .filter(release => isOnChannel(release, channel))
+      .map(release => ({
+        ...release,
+        newer: compareVersions(release.version, this.current) > 0,
+        skipped: skipped.some(version => compareVersions(version, release.version) === 0)
+      }));
+  }
+
+  /**
+   * Validate and store update preferences, then work out what is offered under them
+   */
+  async savePreferences(input: unknown): Promise<{ preferences?: UpdatePreferences; error?: string }> {
+    const previousUrl = getUpdatePreferences().manifestUrl;
+    const result = saveUpdatePreferences(input, this.releases, this.current);
+    if (result.preferences) {
+      if (result.preferences.manifestUrl !== previousUrl) {
+        await this.check();
+      } else {
+        this.refresh();
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Fetch the remote manifest now - a failed check keeps the last known releases
+   */
+  async check(): Promise<VersionStatus> {
+    const { manifestUrl } = getUpdatePreferences();
+    try {
+      const response = await fetch(manifestUrl, { timeout: 10000 });
+      if (!response.ok) {
+        throw new Error(`Failed to fetch ${manifestUrl}: HTTP ${response.status}`);
+      }
+
+      this.releases = readReleases(await response.json() as UpdateManifest);
+      this.checkedAt = new Date().toISOString();
+      this.error = null;
+    } catch (error) {
+      console.error('Error checking for updates:', (error as Error).message);
+      this.error = (error as Error).message;
+    }
+    this.refresh();
+    return this.status;
+  }
+
+  private refresh(): void {
+    const previous = this.status;
+    this.status = this.buildStatus();
+    // The check time alone is no news
+    if (JSON.stringify({ ...previous, checkedAt: null }) !== JSON.stringify({ ...this.status, checkedAt: null })) {
+      this.emit('status', this.status);
+    }
+  }
+
+  private buildStatus(): VersionStatus {
+    const { channel, pinned, skipped } = getUpdatePreferences();
+    const releases = (this.releases ?? []).filter(release => isOnChannel(release, channel));
+    // Sorted newest first, so the first match is always the newest
+    const newer = releases.filter(release => compareVersions(release.version, this.current) > 0);
+    const required = newer.find(release => release.required);
+
+    let target = pinned
+      ? newer.find(release => compareVersions(release.version, pinned) === 0)
+      : newer.find(release => !skipped.some(version => compareVersions(version, release.version) === 0));
+    // Neither a pin nor a skip holds the dashboard back from a required release
+    if (required && (!target || compareVersions(target.version, required.version) < 0)) {
+      target = required;
+    }
+
+    return {
+      current: this.current,
+      latest: releases[0]?.version ?? null,
+      target: target?.version ?? null,
+      updateAvailable: target !== undefined,
+      required: required !== undefined,
+      channel,
+      pinned,
+      checkedAt: this.checkedAt,
+      error: this.error
+    };
+  }
+}
+
+export const updateChecker = new UpdateChecker();
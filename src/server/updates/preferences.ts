@@ -0,0 +1,125 @@
+import { getServerSetting, setServerSetting } from '../database';
+import { compareVersions, isValidVersion } from './semver';
+
+const PREFERENCES_SETTING_KEY = 'update_preferences';
+
+export const UPDATE_CHANNELS = ['stable', 'beta'] as const;
+export type UpdateChannel = typeof UPDATE_CHANNELS[number];
+
+export const DEFAULT_MANIFEST_URL = 'https://raw.githubusercontent.com/Walanors/nanos-dashboard/main/update.json';
+
+// Which releases the dashboard offers to install
+export interface UpdatePreferences {
+  // Stable sees stable releases only, beta sees both
+  channel: UpdateChannel;
+  // Offer this version and nothing newer - null follows the newest release of the channel
+  pinned: string | null;
+  // Versions never offered, unless a required release leaves no choice
+  skipped: string[];
+  // Where the manifest is fetched from, e.g. a mirror on the local network
+  manifestUrl: string;
+}
+
+// A release as listed in the manifest - the fields the preferences are checked against
+export interface ReleaseRef {
+  version: string;
+  channel: UpdateChannel;
+  required: boolean;
+}
+
+export const DEFAULT_UPDATE_PREFERENCES: UpdatePreferences = {
+  channel: 'stable',
+  pinned: null,
+  skipped: [],
+  manifestUrl: DEFAULT_MANIFEST_URL
+};
+
+export function getUpdatePreferences(): UpdatePreferences {
+  const stored = getServerSetting(PREFERENCES_SETTING_KEY);
+  if (!stored) {
+    return { ...DEFAULT_UPDATE_PREFERENCES };
+  }
+
+  try {
+    return { ...DEFAULT_UPDATE_PREFERENCES, ...JSON.parse(stored) };
+  } catch {
+    console.error('Ignoring unreadable update preferences, using defaults');
+    return { ...DEFAULT_UPDATE_PREFERENCES };
+  }
+}
+
+/**
+ * Whether a release is offered on a channel
+ */
+export function isOnChannel(release: ReleaseRef, channel: UpdateChannel): boolean {
+  return channel === 'beta' || release.channel === 'stable';
+}
+
+/**
+ * Validate and store the update preferences. Fields left out keep their current value.
+ * Pinned and skipped versions are checked against the releases of the last fetched manifest.
+ * @param releases Releases of the last fetched manifest, or null if none has been fetched
+ * @returns The saved preferences, or an error describing the first invalid field
+ */
+export function saveUpdatePreferences(
+  input: unknown,
+  releases: ReleaseRef[] | null,
+  currentVersion: string
+): { preferences?: UpdatePreferences; error?: string } {
+  if (!input || typeof input !== 'object') {
+    return { error: 'Update preferences must be an object' };
+  }
+
+  const values = input as Record<string, unknown>;
+  const preferences = getUpdatePreferences();
+
+  if (values.channel !== undefined) {
+    if (!UPDATE_CHANNELS.includes(values.channel as UpdateChannel)) {
+      return { error: `channel must be one of ${UPDATE_CHANNELS.join(', ')}` };
+    }
+    preferences.channel = values.channel as UpdateChannel;
+  }
+
+  if (values.manifestUrl !== undefined) {
+    if (typeof values.manifestUrl !== 'string' || !/^https?:\/\/\S+$/.test(values.manifestUrl.trim())) {
+      return { error: 'manifestUrl must be an http or https URL' };
+    }
+    preferences.manifestUrl = values.manifestUrl.trim();
+  }
+
+  if (values.skipped !== undefined) {
+    if (!Array.isArray(values.skipped) || !values.skipped.every(version => typeof version === 'string' && isValidVersion(version))) {
+      return { error: 'skipped must be a list of versions like 1.2.3' };
+    }
+    const required = values.skipped.find(version => releases?.some(release => release.required && compareVersions(release.version, version) === 0));
+    if (required) {
+      return { error: `v${required} is a required release and cannot be skipped` };
+    }
+    preferences.skipped = [...new Set(values.skipped as string[])];
+  }
+
+  if (values.pinned !== undefined) {
+    if (values.pinned !== null && (typeof values.pinned !== 'string' || !isValidVersion(values.pinned))) {
+      return { error: 'pinned must be a version like 1.2.3, or null' };
+    }
+    preferences.pinned = values.pinned as string | null;
+  }
+
+  // Checked last, since a new channel can take the pinned version out of reach
+  if (preferences.pinned !== null && (values.pinned !== undefined || values.channel !== undefined)) {
+    const pinned = preferences.pinned;
+    if (!releases) {
+      return { error: 'The release list has not been fetched yet, so no version can be pinned' };
+    }
+    const release = releases.find(candidate => compareVersions(candidate.version, pinned) === 0);
+    if (!release || !isOnChannel(release, preferences.channel)) {
+      return { error: `v${pinned} is not a ${preferences.channel} release` };
+    }
+    if (compareVersions(pinned, currentVersion) < 0) {
+      return { error: `v${pinned} is older than the running v${currentVersion} - downgrades are not supported` };
+    }
+  }
+
+  setServerSetting(PREFERENCES_SETTING_KEY, JSON.stringify(preferences));
+  return { preferences };
+}
@@ -0,0 +1,78 @@
+// Just enough semantic versioning to order dashboard releases - see https://semver.org
+
+export interface ParsedVersion {
+  major: number;
+  minor: number;
+  patch: number;
+  // Dot-separated pre-release identifiers, e.g. ['beta', 2] for 1.3.0-beta.2 - empty for a release
+  prerelease: (string | number)[];
+}
+
+const VERSION_PATTERN = /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z.-]+)?$/;
+
+/**
+ * Parse "1.2.3", "v1.2.3" or "1.3.0-beta.2" - build metadata after "+" is ignored
+ */
+export function parseVersion(version: string): ParsedVersion | null {
+  const match = VERSION_PATTERN.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4]
+      ? match[4].split('.').map(identifier => (/^\d+$/.test(identifier) ? Number(identifier) : identifier))
+      : []
+  };
+}
+
+export function isValidVersion(version: string): boolean {
+  return parseVersion(version) !== null;
+}
+
+function compareIdentifiers(a: string | number, b: string | number): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  // Numeric identifiers sort before alphanumeric ones
+  if (typeof a === 'number') return -1;
+  if (typeof b === 'number') return 1;
+  return a < b ? -1 : a > b ? 1 : 0;
+}
+
+/**
+ * Negative when a is older than b, positive when newer, 0 when they are the same version.
+ * Versions that do not parse sort before every valid one.
+ */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) {
+    return (left ? 1 : 0) - (right ? 1 : 0);
+  }
+
+  const core = left.major - right.major || left.minor - right.minor || left.patch - right.patch;
+  if (core !== 0) {
+    return Math.sign(core);
+  }
+
+  // A pre-release comes before the release it leads up to
+  if (left.prerelease.length === 0 && right.prerelease.length === 0) return 0;
+  if (left.prerelease.length === 0) return 1;
+  if (right.prerelease.length === 0) return -1;
+
+  const length = Math.max(left.prerelease.length, right.prerelease.length);
+  for (let i = 0; i < length; i++) {
+    // A shorter list of identifiers comes first when all of its identifiers match
+    if (i >= left.prerelease.length) return -1;
+    if (i >= right.prerelease.length) return 1;
+    const result = compareIdentifiers(left.prerelease[i], right.prerelease[i]);
+    if (result !== 0) {
+      return Math.sign(result);
+    }
+  }
+  return 0;
+}
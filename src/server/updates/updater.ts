@@ -0,0 +1,305 @@
+import { spawn } from 'node:child_process';
+import { EventEmitter } from 'node:events';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { runProcess } from '../tasks/process';
+import { updateChecker } from './index';
+
+const MINUTE = 60 * 1000;
+const DASHBOARD_SERVICE = 'nanos-dashboard.service';
+const INSTALL_DIR = process.cwd();
+// Siblings of the install, so swapping them is a rename on the same filesystem
+const STAGING_DIR = `${INSTALL_DIR}-staging`;
+const PREVIOUS_DIR = `${INSTALL_DIR}-previous`;
+const STATUS_PATH = path.join(INSTALL_DIR, 'data', 'updates', 'status.json');
+// Runs outside the dashboard process, since restarting the service ends this one
+const SWAP_SCRIPT = path.join(INSTALL_DIR, 'scripts', 'update-swap.js');
+// Seconds the new version gets to answer /api/server-check before it is rolled back
+const HEALTH_CHECK_TIMEOUT = 180;
+// Lines of step output kept in the log when a step fails
+const FAILURE_OUTPUT_LINES = 20;
+const MAX_LOG_LINES = 200;
+
+export type UpdatePhase = 'checkout' | 'install' | 'build' | 'verify' | 'swap' | 'restart' | 'health-check' | 'rollback' | 'done';
+
+export type UpdateState = 'idle' | 'running' | 'succeeded' | 'failed' | 'rolled-back';
+
+// Phases run by the swap script - the dashboard is restarted in the middle of them
+const HANDED_OFF_PHASES: UpdatePhase[] = ['swap', 'restart', 'health-check', 'rollback'];
+
+export interface UpdateLogLine {
+  at: string;
+  message: string;
+}
+
+// Contents of data/updates/status.json, written by the updater and then by the swap script
+export interface UpdateStatus {
+  state: UpdateState;
+  phase: UpdatePhase | null;
+  fromVersion: string | null;
+  toVersion: string | null;
+  tag: string | null;
+  startedBy: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+  error: string | null;
+  log: UpdateLogLine[];
+}
+
+const IDLE_STATUS: UpdateStatus = {
+  state: 'idle',
+  phase: null,
+  fromVersion: null,
+  toVersion: null,
+  tag: null,
+  startedBy: null,
+  startedAt: null,
+  finishedAt: null,
+  error: null,
+  log: []
+};
+
+function readStatusFile(): UpdateStatus {
+  try {
+    return { ...IDLE_STATUS, ...JSON.parse(fs.readFileSync(STATUS_PATH, 'utf-8')) };
+  } catch {
+    return IDLE_STATUS;
+  }
+}
+
+/**
+ * The last lines of a failed step's output, which say why it failed
+ */
+function tailOutput(output: string): string {
+  return output.trim().split('\n').slice(-FAILURE_OUTPUT_LINES).join('\n');
+}
+
+/**
+ * Updates the dashboard to the version the update checker offers without touching the running install
+ * until the new one is built: the release tag is cloned and built next to the install, then the
+ * swap script renames it into place, restarts the service, waits for /api/server-check to report
+ * the new version and puts the previous install back if it does not.
+ *
+ * Emits 'status' with the UpdateStatus on every change, including those the swap script makes
+ * after a restart, and 'output' with each chunk of git and npm output.
+ */
+class DashboardUpdater extends EventEmitter {
+  private status: UpdateStatus = IDLE_STATUS;
+  private watching = false;
+  // Set from the moment run() accepts an update until its status is 'running', while the release tag is looked up
+  private starting = false;
+
+  start(): void {
+    this.status = readStatusFile();
+    if (this.status.state !== 'running') return;
+
+    if (this.status.phase && HANDED_OFF_PHASES.includes(this.status.phase)) {
+      // The swap script restarted us and is now checking on us
+      this.watchStatusFile();
+    } else {
+      // Nothing carries on a build once the process running it is gone
+      this.finish('failed', 'The dashboard restarted while the update was being built');
+    }
+  }
+
+  getStatus(): UpdateStatus {
+    return this.status;
+  }
+
+  /**
+   * Whether an update is running or being started
+   */
+  isBusy(): boolean {
+    return this.starting || this.status.state === 'running';
+  }
+
+  /**
+   * Begin updating to the offered version - the update carries on after this returns
+   */
+  async run(username: string): Promise<{ status?: UpdateStatus; error?: string }> {
+    if (this.isBusy()) {
+      return { error: 'An update is already running' };
+    }
+
+    const version = updateChecker.getStatus();
+    if (!version.updateAvailable || !version.target) {
+      return { error: 'No update is available' };
+    }
+
+    // Claimed before the first await, so a second request is turned away above while the tag is looked up
+    this.starting = true;
+    let tag: string;
+    try {
+      tag = await this.resolveTag(version.target);
+    } catch (error) {
+      return { error: (error as Error).message };
+    } finally {
+      this.starting = false;
+    }
+
+    this.status = {
+      ...IDLE_STATUS,
+      state: 'running',
+      fromVersion: version.current,
+      toVersion: version.target,
+      tag,
+      startedBy: username,
+      startedAt: new Date().toISOString()
+    };
+    this.log(`Updating from v${version.current} to v${version.target} (tag ${tag})`);
+
+    this.build(tag).catch(error => {
+      this.finish('failed', (error as Error).message);
+      this.cleanUpStaging();
+    });
+    return { status: this.status };
+  }
+
+  /**
+   * Release tags are named v1.2.3 or just 1.2.3
+   */
+  private async resolveTag(version: string): Promise<string> {
+    const candidates = [`v${version}`, version];
+    const { stdout } = await runProcess('git', ['ls-remote', '--tags', 'origin', ...candidates.map(tag => `refs/tags/${tag}`)], {
+      cwd: INSTALL_DIR,
+      timeout: MINUTE
+    });
+    const tag = candidates.find(candidate => stdout.includes(`refs/tags/${candidate}`));
+    if (!tag) {
+      throw new Error(`No release tag found for v${version}`);
+    }
+    return tag;
+  }
+
+  private async build(tag: string): Promise<void> {
+    const user = os.userInfo().username;
+    const { stdout: originUrl } = await runProcess('git', ['remote', 'get-url', 'origin'], { cwd: INSTALL_DIR, timeout: MINUTE });
+
+    this.setPhase('checkout', `Cloning ${tag} into ${STAGING_DIR}`);
+    // The install's parent usually belongs to root, so the staging directory is created like the server directory
+    await this.step('sudo', ['rm', '-rf', STAGING_DIR], MINUTE);
+    await this.step('sudo', ['mkdir', '-p', STAGING_DIR], MINUTE);
+    await this.step('sudo', ['chown', `${user}:`, STAGING_DIR], MINUTE);
+    await this.step('git', ['clone', '--depth', '1', '--branch', tag, originUrl.trim(), STAGING_DIR], 5 * MINUTE);
+
+    this.setPhase('install', 'Installing dependencies');
+    await this.step('npm', ['ci', '--include=dev'], 15 * MINUTE, STAGING_DIR);
+
+    this.setPhase('build', 'Building');
+    await this.step('npm', ['run', 'build'], 15 * MINUTE, STAGING_DIR);
+
+    this.setPhase('verify', 'Checking the build');
+    this.verifyStaging();
+
+    this.setPhase('swap', 'Handing over to the swap script');
+    // The server falls back to HTTP when SSL is enabled but the certificates are missing, so both are tried
+    const protocols = process.env.SSL_ENABLED === 'true' ? ['https', 'http'] : ['http', 'https'];
+    const port = process.env.PORT || '3000';
+    const child = spawn(process.execPath, [SWAP_SCRIPT, JSON.stringify({
+      installDir: INSTALL_DIR,
+      stagingDir: STAGING_DIR,
+      previousDir: PREVIOUS_DIR,
+      statusPath: STATUS_PATH,
+      service: DASHBOARD_SERVICE,
+      healthUrls: protocols.map(protocol => `${protocol}://127.0.0.1:${port}/api/server-check`),
+      version: this.status.toVersion,
+      healthCheckTimeout: HEALTH_CHECK_TIMEOUT
+    })], {
+      cwd: os.tmpdir(),
+      detached: true,
+      stdio: 'ignore'
+    });
+    child.unref();
+    this.watchStatusFile();
+  }
+
+  /**
+   * The staging copy must be the version it claims to be and have a finished build
+   */
+  private verifyStaging(): void {
+    let version: string | undefined;
+    try {
+      version = JSON.parse(fs.readFileSync(path.join(STAGING_DIR, 'update.json'), 'utf-8')).latest_version;
+    } catch {
+      throw new Error('The release has no readable update.json');
+    }
+    if (version !== this.status.toVersion) {
+      throw new Error(`Tag ${this.status.tag} is v${version}, not v${this.status.toVersion}`);
+    }
+    if (!fs.existsSync(path.join(STAGING_DIR, '.next', 'BUILD_ID'))) {
+      throw new Error('The build finished without producing .next/BUILD_ID');
+    }
+    this.log(`Verified v${version} build`);
+  }
+
+  private async step(command: string, args: string[], timeout: number, cwd?: string): Promise<void> {
+    let output = '';
+    try {
+      await runProcess(command, args, {
+        cwd,
+        timeout,
+        onOutput: chunk => {
+          output += chunk;
+          this.emit('output', chunk);
+        }
+      });
+    } catch (error) {
+      const tail = tailOutput(output);
+      throw new Error(tail ? `${(error as Error).message}\n${tail}` : (error as Error).message);
+    }
+  }
+
+  /**
+   * Follow the swap script's progress through the status file until it is done
+   */
+  private watchStatusFile(): void {
+    if (this.watching) return;
+    this.watching = true;
+
+    fs.watchFile(STATUS_PATH, { interval: 1000 }, () => {
+      this.status = readStatusFile();
+      this.emit('status', this.status);
+      if (this.status.state !== 'running') {
+        fs.unwatchFile(STATUS_PATH);
+        this.watching = false;
+      }
+    });
+  }
+
+  private cleanUpStaging(): void {
+    runProcess('sudo', ['rm', '-rf', STAGING_DIR], { timeout: MINUTE }).catch(error => {
+      console.error('Error removing the update staging directory:', (error as Error).message);
+    });
+  }
+
+  private setPhase(phase: UpdatePhase, message: string): void {
+    this.status = { ...this.status, phase };
+    this.log(message);
+  }
+
+  private finish(state: UpdateState, error: string | null): void {
+    this.status = { ...this.status, state, error, finishedAt: new Date().toISOString() };
+    this.log(error ? `Update failed: ${error}` : 'Update finished');
+  }
+
+  private log(message: string): void {
+    this.status = {
+      ...this.status,
+      log: [...this.status.log, { at: new Date().toISOString(), message }].slice(-MAX_LOG_LINES)
+    };
+    this.save();
+    this.emit('status', this.status);
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(STATUS_PATH), { recursive: true });
+      fs.writeFileSync(STATUS_PATH, JSON.stringify(this.status, null, 2), 'utf-8');
+    } catch (error) {
+      console.error('Error saving update status:', (error as Error).message);
+    }
+  }
+}
+
+export const dashboardUpdater = new DashboardUpdater();